@@ -1,25 +1,26 @@
 import { ActivityTracker } from '../src/services/ActivityTracker';
-import { TimetableParser } from '../src/services/TimetableParser';
+import { TimetableRepository } from '../src/services/TimetableRepository';
 import { IWhatsAppService } from '../src/services/WhatsAppService';
 import { DailyTracking } from '../src/models/DailyTracking';
 import moment from 'moment';
+import momentTz from 'moment-timezone';
 
 // Mock dependencies
-jest.mock('../src/services/TimetableParser');
+jest.mock('../src/services/TimetableRepository');
 jest.mock('../src/models/DailyTracking');
 
 describe('ActivityTracker', () => {
   let activityTracker: ActivityTracker;
-  let mockTimetableParser: jest.Mocked<TimetableParser>;
+  let mockTimetable: jest.Mocked<TimetableRepository>;
   let mockWhatsAppService: jest.Mocked<IWhatsAppService>;
 
   beforeEach(() => {
     // Create mock instances
-    mockTimetableParser = {
+    mockTimetable = {
       getTodaySchedule: jest.fn(),
-      validateTimetableFile: jest.fn(),
-      parseTimetable: jest.fn(),
-      displayTimetableSummary: jest.fn()
+      getScheduleForDate: jest.fn(),
+      getTimezone: jest.fn(),
+      getEntryAt: jest.fn()
     } as any;
 
     mockWhatsAppService = {
@@ -31,7 +32,7 @@ describe('ActivityTracker', () => {
     } as any;
 
     activityTracker = new ActivityTracker(
-      mockTimetableParser,
+      mockTimetable,
       mockWhatsAppService,
       '+923014440289'
     );
@@ -49,11 +50,11 @@ describe('ActivityTracker', () => {
   });
 
   describe('createCheckInMessage', () => {
-    it('should create properly formatted check-in message', () => {
+    it('should create properly formatted check-in message', async () => {
       const timeSlot = '2:00 PM - 2:30 PM';
       const plannedActivity = 'Focused Office Work';
       
-      const message = (activityTracker as any).createCheckInMessage(timeSlot, plannedActivity);
+      const message = await (activityTracker as any).createCheckInMessage({ timeSlot, plannedActivity });
       
       expect(message).toContain('BarakahTracker Check-in');
       expect(message).toContain(timeSlot);
@@ -128,13 +129,45 @@ describe('ActivityTracker', () => {
     });
   });
 
-  describe('generateTimeSlot', () => {
-    it('should generate correct time slot format', () => {
-      const now = moment('2025-11-10 14:00:00');
-      const timeSlot = (activityTracker as any).generateTimeSlot(now);
-      
-      expect(timeSlot).toMatch(/^\d{1,2}:\d{2} [AP]M - \d{1,2}:\d{2} [AP]M$/);
-      expect(timeSlot).toContain('2:00 PM - 2:30 PM');
+  describe('performCheckIn', () => {
+    const timezone = 'Asia/Karachi';
+    const at = (time: string) => momentTz.tz(`2025-11-10 ${time}`, 'YYYY-MM-DD HH:mm', timezone);
+
+    beforeEach(() => {
+      mockTimetable.getTimezone.mockReturnValue(timezone);
+      mockTimetable.getScheduleForDate.mockResolvedValue([
+        {
+          timeSlot: '2:00 PM to 4:00 PM',
+          activity: 'Deep work',
+          startTime: at('14:00').toDate(),
+          endTime: at('16:00').toDate()
+        }
+      ]);
+      activityTracker = new ActivityTracker(mockTimetable, mockWhatsAppService, '+923014440289', timezone);
+      jest.useFakeTimers({ doNotFake: ['Date'] }); // Reply timeouts
+    });
+
+    afterEach(() => {
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('should check in once for the whole timetable entry', async () => {
+      await (activityTracker as any).performCheckIn(at('14:00'));
+      await (activityTracker as any).performCheckIn(at('14:30'));
+
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalledTimes(1);
+      const message = mockWhatsAppService.sendMessage.mock.calls[0]?.[1];
+      expect(message).toContain('2:00 PM - 4:00 PM');
+      expect(message).toContain('Deep work');
+      expect(message).toContain('Reply within 115 minutes');
+      expect((activityTracker as any).nextCheckIn).toEqual(at('16:00').toDate());
+    });
+
+    it('should check in on the interval during free time', async () => {
+      await (activityTracker as any).performCheckIn(at('16:30'));
+
+      expect(mockWhatsAppService.sendMessage.mock.calls[0]?.[1]).toContain('4:30 PM - 5:00 PM');
     });
   });
 
@@ -146,6 +179,61 @@ describe('ActivityTracker', () => {
     });
   });
 
+  describe('handleReply', () => {
+    const timezone = 'Asia/Karachi';
+    const slotStart = momentTz.tz('2025-11-10 14:00', timezone).toDate();
+    const slot = {
+      startTime: slotStart,
+      endTime: momentTz.tz('2025-11-10 15:00', timezone).toDate(),
+      timeSlot: '2:00 PM - 3:00 PM',
+      plannedActivity: 'Deep work'
+    };
+    let tracking: { findEntry: jest.Mock; updateEntry: jest.Mock };
+
+    beforeEach(() => {
+      (mockWhatsAppService as any).sendInteractive = jest.fn();
+      tracking = { findEntry: jest.fn(), updateEntry: jest.fn() };
+      (DailyTracking.findOrCreateToday as jest.Mock).mockResolvedValue(tracking);
+      activityTracker = new ActivityTracker(mockTimetable, mockWhatsAppService, '+923014440289', timezone);
+      (activityTracker as any).pendingResponses.set(slotStart.getTime(), { slot, timestamp: slotStart });
+    });
+
+    it('should record the planned activity and offer moods for "doing planned"', async () => {
+      expect(await activityTracker.handleReply(`checkin:planned:${slotStart.getTime()}`)).toBe(true);
+
+      expect(tracking.updateEntry).toHaveBeenCalledWith(expect.objectContaining({ startTime: slotStart }), 'Deep work', '😐', '');
+      const sent = (mockWhatsAppService as any).sendInteractive.mock.calls[0]?.[1];
+      expect(sent.body).toContain('**Activity:** Deep work');
+      expect(sent.list.sections[0].rows[0]).toEqual({ id: `mood:0:${slotStart.getTime()}`, title: '😊 Happy' });
+      expect(activityTracker.getStatus().pendingCheckIns).toBe(0);
+    });
+
+    it('should keep the check-in open for "something else" and skip it for "skip"', async () => {
+      await activityTracker.handleReply(`checkin:other:${slotStart.getTime()}`);
+      expect(mockWhatsAppService.sendMessage.mock.calls[0]?.[1]).toContain('What are you doing instead?');
+      expect(activityTracker.getStatus().pendingCheckIns).toBe(1);
+
+      await activityTracker.handleReply(`checkin:skip:${slotStart.getTime()}`);
+      expect(tracking.updateEntry).toHaveBeenCalledWith(expect.objectContaining({ startTime: slotStart }), 'Skipped', '😐', 'Skipped via WhatsApp');
+      expect(activityTracker.getStatus().pendingCheckIns).toBe(0);
+    });
+
+    it('should set the mood of a recorded activity', async () => {
+      const entry = { ...slot, actualActivity: 'Deep work', isCompleted: true };
+      tracking.findEntry.mockReturnValue(entry);
+
+      await activityTracker.handleReply(`mood:5:${slotStart.getTime()}`);
+
+      expect(tracking.updateEntry).toHaveBeenCalledWith(entry, 'Deep work', '💪');
+      expect(mockWhatsAppService.sendMessage.mock.calls[0]?.[1]).toBe('💪 Mood saved for 2:00 PM - 3:00 PM.');
+    });
+
+    it('should leave other reply ids to the text handling', async () => {
+      expect(await activityTracker.handleReply('something-else')).toBe(false);
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getStatus', () => {
     it('should return correct status information', () => {
       const status = activityTracker.getStatus();
@@ -176,7 +264,7 @@ describe('ActivityTracker', () => {
         }
       ];
       
-      mockTimetableParser.getTodaySchedule.mockResolvedValue(mockSchedule);
+      mockTimetable.getTodaySchedule.mockResolvedValue(mockSchedule);
       
       await (activityTracker as any).extractWakeSleepTimes();
       
@@ -185,7 +273,7 @@ describe('ActivityTracker', () => {
     });
 
     it('should use default times when timetable is empty', async () => {
-      mockTimetableParser.getTodaySchedule.mockResolvedValue([]);
+      mockTimetable.getTodaySchedule.mockResolvedValue([]);
       
       await (activityTracker as any).extractWakeSleepTimes();
       
@@ -0,0 +1,44 @@
+import { CategoryService } from '../src/services/CategoryService';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('CategoryService', () => {
+  const categories = new CategoryService();
+  const categoryOf = (activity: string, category?: string) => categories.resolve({ activity, category })?.name;
+
+  test('should prefer the keyword found earliest, then the longest', () => {
+    expect(categoryOf('Walk with audio book: Seerah')).toBe('Exercise');
+    expect(categoryOf('Reading before the walk')).toBe('Study');
+    expect(categoryOf('Workout')).toBe('Exercise');
+    expect(categoryOf('Office work')).toBe('Work');
+    // Keywords only match at the start of a word
+    expect(categoryOf('Thread review')).toBeUndefined();
+  });
+
+  test('should use the category column before the rules', () => {
+    expect(categoryOf('Gym', 'worship')).toBe('worship');
+    expect(categories.resolve({ activity: 'Gym', category: 'prayer' })).toEqual(expect.objectContaining({ name: 'Prayer', emoji: '🕌' }));
+  });
+
+  test('should put custom categories and rules ahead of the built-in ones', () => {
+    const custom = new CategoryService({
+      categories: [{ name: 'Family', emoji: '👨‍👩‍👧', colour: '#d53f8c', reminderOffsets: [-10] }],
+      rules: [{ keywords: ['dinner', 'walk'], category: 'Family' }]
+    });
+
+    expect(custom.resolve({ activity: 'Evening walk' })).toEqual(expect.objectContaining({ name: 'Family', reminderOffsets: [-10] }));
+    expect(custom.resolve({ activity: 'Gym' })?.name).toBe('Exercise');
+  });
+
+  test('should fall back to the built-in categories when the file is invalid', () => {
+    const file = path.join(__dirname, 'test-categories.yaml');
+    fs.writeFileSync(file, 'categories:\n  - name: Family\n    reminderOffsets: [0, -10]\n');
+    try {
+      expect(CategoryService.validateDefinitions({ categories: [{ name: 'Family', emoji: '🏠', colour: '#fff', reminderOffsets: [0, -10] }] }))
+        .toEqual(['Category "Family" reminderOffsets should be listed in order']);
+      expect(CategoryService.fromFile(file).getCategories().map(category => category.name)).not.toContain('Family');
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+});
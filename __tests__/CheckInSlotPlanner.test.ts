@@ -0,0 +1,74 @@
+import { CheckInSlotPlanner } from '../src/services/CheckInSlotPlanner';
+import { TimetableRepository } from '../src/services/TimetableRepository';
+import { TimetableEntry } from '../src/types';
+import moment from 'moment-timezone';
+
+describe('CheckInSlotPlanner', () => {
+  const timezone = 'Asia/Karachi';
+  const at = (time: string) => moment.tz(`2025-11-10 ${time}`, 'YYYY-MM-DD HH:mm', timezone).toDate();
+  const entry = (start: string, end: string, activity: string): TimetableEntry => ({
+    timeSlot: `${start} to ${end}`,
+    activity,
+    startTime: at(start),
+    endTime: at(end)
+  });
+
+  let schedule: TimetableEntry[];
+  const timetable = {
+    getTimezone: () => timezone,
+    getScheduleForDate: async () => schedule
+  } as unknown as TimetableRepository;
+
+  beforeEach(() => {
+    schedule = [
+      entry('09:00', '11:00', 'Deep work'),
+      entry('11:00', '11:15', 'Dhuhr Prayer'),
+      entry('11:15', '12:00', 'Emails')
+    ];
+  });
+
+  test('should give each timetable entry one slot and split free time on the interval', async () => {
+    const slots = await new CheckInSlotPlanner(timetable).getSlotsForDate(at('12:00'));
+    const morning = slots.filter(slot => slot.startTime >= at('08:00') && slot.startTime < at('13:00'));
+
+    expect(morning.map(slot => [slot.timeSlot, slot.plannedActivity])).toEqual([
+      ['8:00 AM - 8:30 AM', 'Free time'],
+      ['8:30 AM - 9:00 AM', 'Free time'],
+      ['9:00 AM - 11:00 AM', 'Deep work'],
+      ['11:00 AM - 11:15 AM', 'Dhuhr Prayer'],
+      ['11:15 AM - 12:00 PM', 'Emails'],
+      ['12:00 PM - 12:30 PM', 'Free time'],
+      ['12:30 PM - 1:00 PM', 'Free time']
+    ]);
+    expect(slots[0]?.startTime).toEqual(at('00:00'));
+    expect(slots[slots.length - 1]?.endTime).toEqual(moment.tz(at('00:00'), timezone).add(1, 'day').toDate());
+  });
+
+  test('should resume a long entry after a shorter one inside it', async () => {
+    schedule = [entry('09:00', '12:00', 'Deep work'), entry('10:00', '10:15', 'Break')];
+
+    const slots = await new CheckInSlotPlanner(timetable).getSlotsForDate(at('12:00'));
+
+    expect(slots.filter(slot => slot.entry).map(slot => slot.timeSlot + ' ' + slot.plannedActivity)).toEqual([
+      '9:00 AM - 10:00 AM Deep work',
+      '10:00 AM - 10:15 AM Break',
+      '10:15 AM - 12:00 PM Deep work'
+    ]);
+  });
+
+  test('should use a fixed grid in interval mode', async () => {
+    const planner = new CheckInSlotPlanner(timetable, { mode: 'interval', intervalMinutes: 60 });
+
+    const slots = await planner.getSlotsForDate(at('12:00'));
+    const slot = await planner.getSlotAt(at('11:05'));
+
+    expect(slots).toHaveLength(24);
+    expect(slot).toEqual(expect.objectContaining({ timeSlot: '11:00 AM - 12:00 PM', plannedActivity: 'Dhuhr Prayer' }));
+  });
+
+  test('should reject intervals that do not divide the day', () => {
+    expect(CheckInSlotPlanner.validateConfig({ mode: 'entries', intervalMinutes: 15 })).toEqual([]);
+    expect(CheckInSlotPlanner.validateConfig({ mode: 'entries', intervalMinutes: 25 })).toHaveLength(1);
+    expect(CheckInSlotPlanner.validateConfig({ mode: 'hourly' as any, intervalMinutes: 2 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,274 @@
+import { CommandRouter } from '../src/services/CommandRouter';
+import { ActivityTracker } from '../src/services/ActivityTracker';
+import { SchedulerService } from '../src/services/SchedulerService';
+import { TimetableRepository } from '../src/services/TimetableRepository';
+import { MockWhatsAppService } from '../src/services/WhatsAppService';
+import { LocaleService } from '../src/services/LocaleService';
+import moment from 'moment-timezone';
+
+describe('CommandRouter', () => {
+  let router: CommandRouter;
+  let whatsappService: MockWhatsAppService;
+  let mockTracker: jest.Mocked<ActivityTracker>;
+  let mockTimetable: jest.Mocked<TimetableRepository>;
+  let mockScheduler: jest.Mocked<SchedulerService>;
+
+  const incoming = (text: string) => ({ from: '923014440289', text, timestamp: new Date() });
+  const lastReply = () => whatsappService.getSentMessages().pop()?.message || '';
+
+  beforeAll(async () => {
+    whatsappService = new MockWhatsAppService({ isMock: true, phoneNumber: '+923014440289' });
+    await whatsappService.initialize();
+  });
+
+  beforeEach(() => {
+    whatsappService.clearSentMessages();
+
+    mockTracker = {
+      getDailySummary: jest.fn().mockResolvedValue('📊 **Daily Summary**'),
+      getStatus: jest.fn().mockReturnValue({ pausedUntil: null }),
+      skipCurrentCheckIn: jest.fn(),
+      undoLastEntry: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn()
+    } as any;
+
+    mockTimetable = {
+      getTodaySchedule: jest.fn().mockResolvedValue([]),
+      getNextEntry: jest.fn().mockResolvedValue(null),
+      getTimezone: jest.fn().mockReturnValue('Asia/Karachi'),
+      getActiveProfile: jest.fn().mockReturnValue({ name: 'default', timetableFile: 'timetable.csv' }),
+      getParser: jest.fn().mockReturnValue({
+        getProfiles: () => [
+          { name: 'default', timetableFile: 'timetable.csv' },
+          { name: 'ramadan', timetableFile: 'ramadan.csv', startDate: '2026-02-18', endDate: '2026-03-19' }
+        ],
+        getProfileSelection: () => null
+      })
+    } as any;
+
+    mockScheduler = {
+      pause: jest.fn(),
+      resume: jest.fn(),
+      confirmReminder: jest.fn().mockResolvedValue(null),
+      snooze: jest.fn().mockReturnValue(null)
+    } as any;
+
+    router = new CommandRouter(mockTracker, mockTimetable, whatsappService, '+923014440289', mockScheduler);
+  });
+
+  describe('parseCommand', () => {
+    test('should recognise commands case-insensitively', () => {
+      expect(router.parseCommand('Status')).toEqual({ name: 'status', args: '' });
+      expect(router.parseCommand('  HELP! ')).toEqual({ name: 'help', args: '' });
+    });
+
+    test('should map schedule to today', () => {
+      expect(router.parseCommand('schedule')).toEqual({ name: 'today', args: '' });
+    });
+
+    test('should accept a duration for pause', () => {
+      expect(router.parseCommand('pause 2h')).toEqual({ name: 'pause', args: '2h' });
+      expect(router.parseCommand('pause')).toEqual({ name: 'pause', args: '' });
+    });
+
+    test('should mark durations that are too long or not numbers as invalid', () => {
+      expect(router.parseCommand('pause 48h')).toEqual({ name: 'pause', args: '48h', invalid: true });
+      expect(router.parseCommand('snooze abc')).toEqual({ name: 'snooze', args: 'abc', invalid: true });
+      expect(router.parseCommand('snooze 0')).toEqual({ name: 'snooze', args: '0', invalid: true });
+    });
+
+    test('should not treat activity replies as commands', () => {
+      expect(router.parseCommand('Next chapter of the book')).toBeNull();
+      expect(router.parseCommand('Working on project 💪')).toBeNull();
+      expect(router.parseCommand('pause for prayer')).toBeNull();
+      expect(router.parseCommand('profile of the week')).toBeNull();
+    });
+
+    test('should accept a profile name for profile', () => {
+      expect(router.parseCommand('Profile Ramadan')).toEqual({ name: 'profile', args: 'ramadan' });
+    });
+  });
+
+  describe('localisation', () => {
+    const localRouter = (language: string) => new CommandRouter(
+      mockTracker, mockTimetable, whatsappService, '+923014440289', mockScheduler, undefined, new LocaleService(language, 'Asia/Karachi')
+    );
+
+    test('should recognise Urdu and Arabic keywords alongside the English ones', () => {
+      const urdu = localRouter('ur');
+      expect(urdu.parseCommand('ہو گیا')).toEqual({ name: 'done', args: '' });
+      expect(urdu.parseCommand('حالت؟')).toEqual({ name: 'status', args: '' });
+      expect(urdu.parseCommand('status')).toEqual({ name: 'status', args: '' });
+      expect(localRouter('ar').parseCommand('التالي')).toEqual({ name: 'next', args: '' });
+      expect(router.parseCommand('ہو گیا')).toBeNull();
+    });
+
+    test('should read durations with Eastern digits and local units', () => {
+      expect(localRouter('ur').parseCommand('روکو ۲ گھنٹے')).toEqual({ name: 'pause', args: '۲ گھنٹے' });
+      expect(localRouter('ar').parseCommand('غفوة ٣٠ دقيقة')).toEqual({ name: 'snooze', args: '٣٠ دقيقة' });
+      expect(localRouter('ur').parseCommand('روکو اور سوچو')).toBeNull();
+    });
+
+    test('should reply in the user\'s language', async () => {
+      const urdu = localRouter('ur');
+      await urdu.route(incoming('روکو ۲ گھنٹے'));
+
+      expect(mockTracker.pause).toHaveBeenCalledWith(expect.any(Date));
+      const until = mockTracker.pause.mock.calls[0]?.[0] as Date;
+      expect(moment(until).diff(moment(), 'minutes')).toBeGreaterThanOrEqual(119);
+      expect(lastReply()).toContain('تک روک دیے');
+      expect(await urdu.execute({ name: 'undo', args: '' })).toBe('واپس لینے کے لیے کچھ نہیں۔');
+    });
+  });
+
+  describe('route', () => {
+    test('should return false and send nothing for non-commands', async () => {
+      const handled = await router.route(incoming('Reading Quran'));
+
+      expect(handled).toBe(false);
+      expect(whatsappService.getMessageCount()).toBe(0);
+    });
+
+    test('should reply with the daily summary for status', async () => {
+      const handled = await router.route(incoming('status'));
+
+      expect(handled).toBe(true);
+      expect(mockTracker.getDailySummary).toHaveBeenCalled();
+      expect(lastReply()).toContain('Daily Summary');
+    });
+
+    test('should list today\'s schedule', async () => {
+      mockTimetable.getTodaySchedule.mockResolvedValue([
+        {
+          timeSlot: '5:30 AM to 6:00 AM',
+          activity: 'FAJR Prayer',
+          startTime: moment.tz('05:30', 'HH:mm', 'Asia/Karachi').toDate(),
+          endTime: moment.tz('06:00', 'HH:mm', 'Asia/Karachi').toDate()
+        }
+      ]);
+
+      await router.route(incoming('today'));
+
+      expect(lastReply()).toContain('Today\'s Schedule');
+      expect(lastReply()).toContain('5:30 AM FAJR Prayer');
+    });
+
+    test('should show the next upcoming activity', async () => {
+      mockTimetable.getNextEntry.mockResolvedValue({
+        timeSlot: 'soon',
+        activity: 'Upcoming activity',
+        startTime: moment().add(31, 'minutes').toDate(),
+        endTime: moment().add(61, 'minutes').toDate()
+      });
+
+      await router.route(incoming('next'));
+
+      expect(lastReply()).toContain('Upcoming activity');
+      expect(lastReply()).toMatch(/Starts in:\*\* 3[01] minutes/);
+    });
+
+    test('should skip the current check-in', async () => {
+      mockTracker.skipCurrentCheckIn.mockResolvedValue('2:00 PM - 2:30 PM');
+
+      await router.route(incoming('skip'));
+
+      expect(lastReply()).toContain('Skipped the check-in for 2:00 PM - 2:30 PM');
+    });
+
+    test('should report when there is nothing to undo', async () => {
+      mockTracker.undoLastEntry.mockResolvedValue(null);
+
+      await router.route(incoming('undo'));
+
+      expect(lastReply()).toBe('Nothing to undo.');
+    });
+
+    test('should undo the last recorded activity', async () => {
+      mockTracker.undoLastEntry.mockResolvedValue({ timeSlot: '2:00 PM - 2:30 PM', activity: 'Gaming' });
+
+      await router.route(incoming('undo'));
+
+      expect(lastReply()).toContain('Removed "Gaming" for 2:00 PM - 2:30 PM');
+    });
+
+    test('should pause the tracker and scheduler', async () => {
+      const before = Date.now();
+
+      await router.route(incoming('pause 2h'));
+
+      const until = (mockTracker.pause.mock.calls[0]?.[0] as Date).getTime();
+      expect(until - before).toBeGreaterThanOrEqual(2 * 60 * 60 * 1000);
+      expect(until - before).toBeLessThan(2 * 60 * 60 * 1000 + 5000);
+      expect(mockScheduler.pause).toHaveBeenCalledWith(new Date(until));
+      expect(lastReply()).toContain('paused until');
+    });
+
+    test('should explain durations it cannot use instead of recording them as activities', async () => {
+      expect(await router.route(incoming('pause 48h'))).toBe(true);
+      expect(lastReply()).toContain('Please specify how long to pause');
+      expect(await router.route(incoming('snooze abc'))).toBe(true);
+      expect(lastReply()).toContain('Please specify how long to snooze');
+      expect(mockTracker.pause).not.toHaveBeenCalled();
+    });
+
+    test('should resume the tracker and scheduler', async () => {
+      await router.route(incoming('resume'));
+
+      expect(mockTracker.resume).toHaveBeenCalled();
+      expect(mockScheduler.resume).toHaveBeenCalled();
+    });
+
+    test('should confirm the reminded activity', async () => {
+      await router.route(incoming('done'));
+      expect(lastReply()).toContain('No reminder waiting');
+
+      mockScheduler.confirmReminder.mockResolvedValue({ activity: 'Dhuhr Prayer' } as any);
+      await router.route(incoming('Done!'));
+      expect(lastReply()).toContain('"Dhuhr Prayer" confirmed');
+    });
+
+    test('should snooze the next nudge', async () => {
+      const nudge = moment.tz('2025-11-10 13:20', 'YYYY-MM-DD HH:mm', 'Asia/Karachi').toDate();
+      mockScheduler.snooze.mockReturnValue({ entry: { activity: 'Dhuhr Prayer' }, nudges: [nudge] } as any);
+
+      await router.route(incoming('snooze'));
+      expect(mockScheduler.snooze).toHaveBeenCalledWith(10);
+
+      await router.route(incoming('snooze 30m'));
+      expect(mockScheduler.snooze).toHaveBeenLastCalledWith(30);
+      expect(lastReply()).toContain('nudge you again at 1:20 PM');
+    });
+
+    test('should list schedule profiles', async () => {
+      await router.route(incoming('profile'));
+
+      expect(lastReply()).toContain('Schedule Profile:** default (chosen by date)');
+      expect(lastReply()).toContain('• ramadan (2026-02-18 to 2026-03-19)');
+    });
+
+    test('should switch schedule profiles', async () => {
+      const switchProfile = jest.fn().mockResolvedValue(true);
+      router = new CommandRouter(mockTracker, mockTimetable, whatsappService, '+923014440289', mockScheduler, switchProfile);
+      mockTimetable.getActiveProfile.mockReturnValue({ name: 'ramadan', timetableFile: 'ramadan.csv' });
+
+      await router.route(incoming('profile ramadan'));
+      expect(switchProfile).toHaveBeenCalledWith('ramadan');
+      expect(lastReply()).toContain('Switched to the *ramadan* schedule');
+
+      await router.route(incoming('profile auto'));
+      expect(switchProfile).toHaveBeenLastCalledWith(null);
+
+      switchProfile.mockResolvedValue(false);
+      await router.route(incoming('profile holiday'));
+      expect(lastReply()).toContain('Unknown schedule profile "holiday"');
+    });
+
+    test('should list commands for help', async () => {
+      await router.route(incoming('help'));
+
+      expect(lastReply()).toContain('BarakahTracker Commands');
+      expect(lastReply()).toContain('pause 2h');
+    });
+  });
+});
@@ -16,6 +16,11 @@ describe('ConfigService', () => {
     delete process.env.RECIPIENT_PHONE;
     delete process.env.USE_MOCK_WHATSAPP;
     delete process.env.TIMETABLE_FILE;
+    delete process.env.TIMEZONE;
+    delete process.env.PRAYER_LATITUDE;
+    delete process.env.PRAYER_LONGITUDE;
+    delete process.env.PRAYER_METHOD;
+    delete process.env.SCHEDULE_PROFILES;
   });
 
   afterEach(() => {
@@ -106,6 +111,54 @@ describe('ConfigService', () => {
       expect(file).toBe('test.csv');
     });
 
+    test('should return the default timezone', () => {
+      const configService = ConfigService.getInstance();
+
+      expect(configService.getTimezone()).toBe(ConfigService.DEFAULT_TIMEZONE);
+    });
+
+    test('should return timezone from environment', () => {
+      process.env.TIMEZONE = 'Europe/London';
+
+      const configService = ConfigService.getInstance();
+
+      expect(configService.getTimezone()).toBe('Europe/London');
+    });
+
+    test('should leave prayer times disabled without coordinates', () => {
+      const configService = ConfigService.getInstance();
+
+      expect(configService.getPrayerTimesConfig()).toBeUndefined();
+    });
+
+    test('should return prayer times config from environment', () => {
+      process.env.PRAYER_LATITUDE = '24.8607';
+      process.env.PRAYER_LONGITUDE = '67.0011';
+      process.env.PRAYER_METHOD = 'MWL';
+
+      const configService = ConfigService.getInstance();
+
+      expect(configService.getPrayerTimesConfig()).toEqual({
+        latitude: 24.8607,
+        longitude: 67.0011,
+        method: 'MWL',
+        asrMadhab: 'hanafi',
+        mode: 'replace',
+        durationMinutes: 30
+      });
+    });
+
+    test('should return schedule profiles from environment', () => {
+      process.env.SCHEDULE_PROFILES = 'Ramadan:ramadan.csv:2026-02-18:2026-03-19, travel:travel.csv';
+
+      const configService = ConfigService.getInstance();
+
+      expect(configService.getScheduleProfiles()).toEqual([
+        { name: 'ramadan', timetableFile: 'ramadan.csv', startDate: '2026-02-18', endDate: '2026-03-19' },
+        { name: 'travel', timetableFile: 'travel.csv' }
+      ]);
+    });
+
     test('should return mock mode status', () => {
       process.env.USE_MOCK_WHATSAPP = 'true';
       
@@ -200,6 +253,42 @@ describe('ConfigService', () => {
       expect(validation.errors).toContain('WhatsApp API key is required when not using mock mode or WhatsApp Web');
     });
 
+    test('should invalidate configuration with an unknown timezone', () => {
+      process.env.TIMEZONE = 'Mars/Olympus_Mons';
+
+      const configService = ConfigService.getInstance();
+      const validation = configService.validateConfig();
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toContain('Unknown timezone: Mars/Olympus_Mons (use an IANA name like Asia/Karachi)');
+    });
+
+    test('should invalidate configuration with an unknown prayer method', () => {
+      process.env.PRAYER_LATITUDE = '24.8607';
+      process.env.PRAYER_LONGITUDE = '67.0011';
+      process.env.PRAYER_METHOD = 'Egyptian';
+
+      const configService = ConfigService.getInstance();
+      const validation = configService.validateConfig();
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toContain('Unknown prayer calculation method: Egyptian (use Karachi, MWL, ISNA, UmmAlQura)');
+    });
+
+    test('should invalidate configuration with bad schedule profiles', () => {
+      process.env.SCHEDULE_PROFILES = 'default:other.csv,ramadan:ramadan.csv:2026-03-19:2026-02-18,travel';
+
+      const configService = ConfigService.getInstance();
+      const validation = configService.validateConfig();
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toEqual(expect.arrayContaining([
+        'Invalid schedule profile name: "default"',
+        'Schedule profile ramadan ends before it starts',
+        'Schedule profile travel needs a timetable file'
+      ]));
+    });
+
     test('should invalidate configuration without phone number', () => {
       delete process.env.RECIPIENT_PHONE;
       delete process.env.WHATSAPP_PHONE_NUMBER;
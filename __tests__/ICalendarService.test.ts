@@ -0,0 +1,188 @@
+import { ICalendarService } from '../src/services/ICalendarService';
+import { TimetableParser } from '../src/services/TimetableParser';
+import * as fs from 'fs';
+import * as path from 'path';
+import moment from 'moment-timezone';
+
+describe('ICalendarService', () => {
+  const timezone = 'Asia/Karachi';
+  const calendar = (...events: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+  const activitiesOn = (content: string, date: string) =>
+    ICalendarService.toEntries(ICalendarService.parseEvents(content, timezone), moment.tz(date, timezone).toDate(), timezone)
+      .map(entry => `${entry.timeSlot} ${entry.activity}`);
+
+  describe('exportTimetable', () => {
+    let timetableFile: string;
+
+    beforeEach(() => {
+      timetableFile = path.join(__dirname, 'test-ics-timetable.csv');
+      fs.writeFileSync(timetableFile, `Time Slot,Activity,Day
+5:30 AM to 6:00 AM,FAJR Prayer,
+8:00 AM to 5:00 PM,"Office work, focused",Mon-Fri
+1:00 PM to 2:00 PM,Jumu'ah Prayer,Fri
+11:00 PM to 1:00 AM,Late study,Sat`);
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(timetableFile)) {
+        fs.unlinkSync(timetableFile);
+      }
+    });
+
+    test('should turn day specs into recurrence rules', async () => {
+      const service = new ICalendarService(new TimetableParser(timetableFile, timezone));
+      // 19 Oct 2026 is a Monday
+      const feed = await service.exportTimetable(moment.tz('2026-10-19 09:00', timezone).toDate());
+      const lines = feed.split('\r\n');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(lines).toContain('TZID:Asia/Karachi');
+      expect(lines).toContain('TZOFFSETTO:+0500');
+      expect(lines.filter(line => line === 'BEGIN:VEVENT').length).toBe(4);
+
+      expect(lines).toContain('DTSTART;TZID=Asia/Karachi:20261019T053000');
+      expect(lines).toContain('RRULE:FREQ=DAILY');
+      expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+      expect(lines).toContain('SUMMARY:Office work\\, focused');
+
+      // Friday-only and overnight rows start on their next occurrence
+      expect(lines).toContain('DTSTART;TZID=Asia/Karachi:20261023T130000');
+      expect(lines).toContain('DTSTART;TZID=Asia/Karachi:20261024T230000');
+      expect(lines).toContain('DTEND;TZID=Asia/Karachi:20261025T010000');
+    });
+
+    test('should read back as the same week', async () => {
+      const service = new ICalendarService(new TimetableParser(timetableFile, timezone));
+      const feed = await service.exportTimetable(moment.tz('2026-10-19 09:00', timezone).toDate());
+
+      expect(activitiesOn(feed, '2026-10-23')).toEqual([
+        '5:30 AM to 6:00 AM FAJR Prayer',
+        '8:00 AM to 5:00 PM Office work, focused',
+        '1:00 PM to 2:00 PM Jumu\'ah Prayer'
+      ]);
+      expect(activitiesOn(feed, '2026-10-31')).toEqual([
+        '5:30 AM to 6:00 AM FAJR Prayer',
+        '11:00 PM to 1:00 AM Late study'
+      ]);
+    });
+  });
+
+  describe('importing events', () => {
+    test('should expand weekly rules with exceptions', () => {
+      const content = calendar(
+        'BEGIN:VEVENT',
+        'UID:standup@example.com',
+        'DTSTART;TZID=Asia/Karachi:20261005T100000',
+        'DTEND;TZID=Asia/Karachi:20261005T101500',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5',
+        'EXDATE;TZID=Asia/Karachi:20261014T100000',
+        'SUMMARY:Team standup',
+        'END:VEVENT'
+      );
+
+      expect(activitiesOn(content, '2026-10-12')).toEqual(['10:00 AM to 10:15 AM Team standup']);
+      expect(activitiesOn(content, '2026-10-13')).toEqual([]);
+      expect(activitiesOn(content, '2026-10-14')).toEqual([]); // EXDATE
+      expect(activitiesOn(content, '2026-10-19')).toEqual(['10:00 AM to 10:15 AM Team standup']);
+      expect(activitiesOn(content, '2026-10-21')).toEqual([]); // Sixth occurrence, past COUNT (the EXDATE still counts)
+    });
+
+    test('should convert TZID times to the timetable timezone', () => {
+      const content = calendar(
+        'BEGIN:VEVENT',
+        'UID:sync@example.com',
+        'DTSTART;TZID=America/New_York:20261102T090000',
+        'DURATION:PT1H',
+        'RRULE:FREQ=DAILY;UNTIL=20261104T235959Z',
+        'SUMMARY:Sync with\\, the US team',
+        'END:VEVENT'
+      );
+
+      // 9 AM in New York is 7 PM in Karachi after the US leaves daylight saving
+      expect(activitiesOn(content, '2026-11-02')).toEqual(['7:00 PM to 8:00 PM Sync with, the US team']);
+      expect(activitiesOn(content, '2026-11-04')).toEqual(['7:00 PM to 8:00 PM Sync with, the US team']);
+      expect(activitiesOn(content, '2026-11-05')).toEqual([]);
+    });
+
+    test('should support monthly rules with ordinal days', () => {
+      const content = calendar(
+        'BEGIN:VEVENT',
+        'UID:review@example.com',
+        'DTSTART:20260130T110000Z',
+        'DTEND:20260130T120000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=-1FR',
+        'SUMMARY:Monthly review',
+        'END:VEVENT'
+      );
+
+      expect(activitiesOn(content, '2026-10-30')).toEqual(['4:00 PM to 5:00 PM Monthly review']);
+      expect(activitiesOn(content, '2026-10-23')).toEqual([]);
+    });
+
+    test('should let edited instances replace their occurrence', () => {
+      const content = calendar(
+        'BEGIN:VEVENT',
+        'UID:class@example.com',
+        'DTSTART;TZID=Asia/Karachi:20261019T170000',
+        'DTEND;TZID=Asia/Karachi:20261019T180000',
+        'RRULE:FREQ=DAILY',
+        'SUMMARY:Arabic class',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:class@example.com',
+        'RECURRENCE-ID;TZID=Asia/Karachi:20261021T170000',
+        'DTSTART;TZID=Asia/Karachi:20261021T190000',
+        'DTEND;TZID=Asia/Karachi:20261021T200000',
+        'SUMMARY:Arabic class (moved)',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:class@example.com',
+        'RECURRENCE-ID;TZID=Asia/Karachi:20261022T170000',
+        'DTSTART;TZID=Asia/Karachi:20261022T170000',
+        'STATUS:CANCELLED',
+        'SUMMARY:Arabic class',
+        'END:VEVENT'
+      );
+
+      expect(activitiesOn(content, '2026-10-20')).toEqual(['5:00 PM to 6:00 PM Arabic class']);
+      expect(activitiesOn(content, '2026-10-21')).toEqual(['7:00 PM to 8:00 PM Arabic class (moved)']);
+      expect(activitiesOn(content, '2026-10-22')).toEqual([]);
+    });
+
+    test('should skip all-day events and unfold long lines', () => {
+      const content = calendar(
+        'BEGIN:VEVENT',
+        'UID:holiday@example.com',
+        'DTSTART;VALUE=DATE:20261019',
+        'SUMMARY:Public holiday',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:dentist@example.com',
+        'DTSTART;TZID=Asia/Karachi:20261019T150000',
+        'SUMMARY:Dentist appointment at the clinic',
+        '  on Main Boulevard',
+        'END:VEVENT'
+      );
+
+      expect(activitiesOn(content, '2026-10-19')).toEqual([
+        '3:00 PM to 3:30 PM Dentist appointment at the clinic on Main Boulevard'
+      ]);
+    });
+  });
+
+  describe('formatting', () => {
+    test('should fold lines at 75 octets', () => {
+      const folded = ICalendarService.foldLine(`SUMMARY:${'ذکر '.repeat(40)}`);
+
+      for (const line of folded.split('\r\n')) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'ذکر '.repeat(40)}`);
+    });
+
+    test('should escape text values', () => {
+      expect(ICalendarService.escapeText('Read; reflect, repeat\\\nthen rest')).toBe('Read\\; reflect\\, repeat\\\\\\nthen rest');
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { LocaleService } from '../src/services/LocaleService';
+import moment from 'moment-timezone';
+
+describe('LocaleService', () => {
+  const timezone = 'Asia/Karachi';
+  const asr = moment.tz('2025-11-10 16:30', timezone).toDate();
+
+  test('should fall back to English for unsupported languages and missing texts', () => {
+    expect(LocaleService.getSupportedLanguages()).toEqual(['en', 'ur', 'ar']);
+    expect(LocaleService.isSupported('UR')).toBe(true);
+    expect(LocaleService.isSupported('fr')).toBe(false);
+
+    const french = new LocaleService('fr', timezone);
+    expect(french.getLanguage()).toBe('en');
+    expect(french.getDirection()).toBe('ltr');
+    expect(french.t('undo.none')).toBe('Nothing to undo.');
+  });
+
+  test('should write times in the user\'s language and leave the global locale alone', () => {
+    const urdu = new LocaleService('ur', timezone);
+    const arabic = new LocaleService('ar', timezone);
+
+    expect(urdu.getDirection()).toBe('rtl');
+    expect(urdu.t('status.paused', { until: asr })).toBe('⏸️ یاد دہانیاں 4:30 شام تک رکی ہوئی ہیں');
+    expect(arabic.format(asr)).toBe('٤:٣٠ م');
+    expect(new LocaleService('en', timezone).format(asr)).toBe('4:30 PM');
+    expect(moment.locale()).toBe('en');
+  });
+
+  test('should list the language\'s command keywords', () => {
+    const keywords = new LocaleService('ar', timezone).getCommandKeywords();
+
+    expect(keywords).toContainEqual({ keyword: 'تم', command: 'done' });
+    expect(keywords).toContainEqual({ keyword: 'مساعدة', command: 'help' });
+    expect(new LocaleService('en', timezone).getCommandKeywords()).toEqual([]);
+  });
+});
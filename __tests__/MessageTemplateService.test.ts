@@ -0,0 +1,67 @@
+import { MessageTemplateService } from '../src/services/MessageTemplateService';
+import moment from 'moment-timezone';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('MessageTemplateService', () => {
+  const timezone = 'Asia/Karachi';
+  const templatesFile = path.join(__dirname, 'test-templates.yaml');
+
+  beforeEach(() => {
+    fs.writeFileSync(templatesFile, `en:
+  checkin.missed: "Missed {timeSlot}, next at {nextCheckIn|time}"
+ur:
+  checkin.recorded: "{activity} ریکارڈ ہو گیا"
+  nudge: "{#if broken}"
+`);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(templatesFile)) {
+      fs.unlinkSync(templatesFile);
+    }
+  });
+
+  test('should render the built-in templates without a database or file', async () => {
+    const messages = new MessageTemplateService('default', timezone);
+    const startTime = moment.tz('2025-11-10 16:30', timezone).toDate();
+
+    const summary = await messages.render('summary', {
+      date: startTime, completionRate: 50, completedSlots: 2, totalSlots: 4, pendingSlots: 2,
+      upcoming: [{ activity: 'Asr Prayer', startTime }]
+    });
+
+    expect(summary).toContain('**Date:** November 10th, 2025');
+    expect(summary).toContain('**Completion Rate:** 50.0%');
+    expect(summary).toContain('**Coming up:**\n1. 4:30 PM Asr Prayer\n\nKeep up');
+    expect(await messages.render('checkin.recorded', { timeSlot: '4:30 PM', activity: 'Asr', mood: '😊', notes: '' }))
+      .toContain('**Mood:** 😊\n\nGreat job');
+  });
+
+  test('should use the file in the user\'s language, then the language\'s built-in template, then English', async () => {
+    const withBrokenFile = new MessageTemplateService('default', timezone, 'ur', templatesFile);
+    // The whole file is ignored while one of its templates is broken
+    expect((await withBrokenFile.list()).every(template => template.source === 'built-in')).toBe(true);
+
+    fs.writeFileSync(templatesFile, fs.readFileSync(templatesFile, 'utf8').replace('  nudge: "{#if broken}"\n', ''));
+    const messages = new MessageTemplateService('default', timezone, 'ur', templatesFile);
+    const nextCheckIn = moment.tz('2025-11-10 17:00', timezone).toDate();
+
+    expect(await messages.render('checkin.recorded', { activity: 'نماز' })).toBe('نماز ریکارڈ ہو گیا');
+    expect(await messages.render('checkin.missed', { timeSlot: '4:30 PM', nextCheckIn })).toContain('اگلا چیک اِن 5:00 شام پر ہے');
+    expect((await messages.list()).find(template => template.name === 'summary')).toEqual(expect.objectContaining({ language: 'ur', source: 'built-in' }));
+
+    const english = new MessageTemplateService('default', timezone, 'en', templatesFile);
+    expect(await english.render('checkin.missed', { timeSlot: '4:30 PM', nextCheckIn })).toBe('Missed 4:30 PM, next at 5:00 PM');
+  });
+
+  test('should preview templates and drafts with sample data', async () => {
+    const messages = new MessageTemplateService('default', timezone);
+
+    expect(await messages.preview('reminder')).toContain('Dhuhr Prayer');
+    expect(await messages.preview('checkin', 'en', 'Planned: {plannedActivity|upper}')).toBe('Planned: DHUHR PRAYER');
+    await expect(messages.preview('checkin', 'en', '{#if notes}')).rejects.toThrow('never closed');
+    await expect(messages.preview('farewell')).rejects.toThrow('Unknown template: farewell');
+    await expect(messages.save('checkin', 'Hi')).rejects.toThrow('Database not connected');
+  });
+});
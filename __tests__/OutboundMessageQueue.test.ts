@@ -0,0 +1,106 @@
+import mongoose from 'mongoose';
+import { OutboundMessage } from '../src/models/OutboundMessage';
+import { OutboundMessageQueue } from '../src/services/OutboundMessageQueue';
+import { IWhatsAppService, WhatsAppMessage } from '../src/services/WhatsAppService';
+
+describe('OutboundMessageQueue', () => {
+  const recipient = '+923014440289';
+  let transport: jest.Mocked<IWhatsAppService>;
+  let queue: OutboundMessageQueue;
+
+  const sent = (): WhatsAppMessage => ({ recipient, message: 'Hi', timestamp: new Date(), success: true, messageId: 'wamid.1' });
+  const failed = (error: string, statusCode?: number): WhatsAppMessage => ({
+    recipient, message: 'Hi', timestamp: new Date(), success: false, error, ...(statusCode ? { statusCode } : {})
+  });
+  const later = (ms: number) => new Date(Date.now() + ms);
+
+  beforeEach(() => {
+    transport = {
+      initialize: jest.fn(),
+      sendMessage: jest.fn(),
+      isConnected: jest.fn().mockReturnValue(true),
+      disconnect: jest.fn(),
+      onMessage: jest.fn()
+    } as any;
+    // No MongoDB connection in tests, so the queue is kept in memory
+    queue = new OutboundMessageQueue(transport, { maxAttempts: 3, retryDelaySeconds: 10 });
+  });
+
+  test('should retry network and 5xx failures with exponential backoff', async () => {
+    transport.sendMessage
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(failed('Service unavailable', 503))
+      .mockResolvedValueOnce(sent());
+
+    const result = await queue.sendMessage(recipient, 'Hi');
+    expect(result).toEqual(expect.objectContaining({ success: false, queued: true, error: 'socket hang up' }));
+    expect(queue.getStats().pending).toBe(1);
+
+    // Not due yet: the first retry waits 10 seconds, the second 20
+    await queue.processDue(later(5000));
+    expect(transport.sendMessage).toHaveBeenCalledTimes(1);
+    await queue.processDue(later(11000));
+    expect(transport.sendMessage).toHaveBeenCalledTimes(2);
+    await queue.processDue(later(25000));
+    expect(transport.sendMessage).toHaveBeenCalledTimes(2);
+    await queue.processDue(later(35000));
+
+    expect(transport.sendMessage).toHaveBeenCalledTimes(3);
+    expect(queue.getStats()).toEqual({ pending: 0, deadLettered: 0, oldestPendingAt: null });
+  });
+
+  test('should dead-letter auth and phone errors without retrying', async () => {
+    transport.sendMessage.mockResolvedValue(failed('Invalid OAuth access token', 401));
+
+    const result = await queue.sendMessage(recipient, 'Hi');
+
+    expect(result.queued).toBeUndefined();
+    expect(queue.getStats()).toEqual(expect.objectContaining({ pending: 0, deadLettered: 1 }));
+    await queue.processDue(later(3600 * 1000));
+    expect(transport.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  test('should dead-letter a message after the last attempt, and retry rate limits', async () => {
+    transport.sendMessage.mockResolvedValue(failed('Rate limit hit', 429));
+
+    await queue.sendMessage(recipient, 'Hi');
+    await queue.processDue(later(3600 * 1000));
+    expect(queue.getStats().pending).toBe(1);
+    await queue.processDue(later(2 * 3600 * 1000));
+
+    expect(transport.sendMessage).toHaveBeenCalledTimes(3);
+    expect(queue.getStats()).toEqual(expect.objectContaining({ pending: 0, deadLettered: 1 }));
+    expect(queue.getRetryDelay(1)).toBe(10000);
+    expect(queue.getRetryDelay(20)).toBe(3600 * 1000);
+  });
+
+  test('should send interactive messages as text when the transport has no buttons', async () => {
+    transport.sendMessage.mockResolvedValue(sent());
+
+    const result = await queue.sendInteractive(recipient, { body: 'Check-in', buttons: [{ id: 'a', title: 'A' }] });
+
+    expect(result.success).toBe(true);
+    expect(transport.sendMessage).toHaveBeenCalledWith(recipient, 'Check-in');
+  });
+
+  test('should pick up messages from before a restart once the database connects after the transport', async () => {
+    const isPersistent = jest.spyOn(queue as any, 'isPersistent').mockReturnValue(false);
+    const stored = { queueId: 'old-1', recipient, message: 'Hi', status: 'pending', attempts: 1, nextAttemptAt: new Date(), createdAt: new Date() };
+    const find = jest.spyOn(OutboundMessage, 'find').mockReturnValue({ lean: async () => [stored] } as any);
+    const updateOne = jest.spyOn(OutboundMessage, 'updateOne').mockResolvedValue({} as any);
+    transport.sendMessage.mockResolvedValue(failed('socket hang up'));
+
+    await queue.initialize();
+    await queue.sendMessage(recipient, 'Queued before connecting');
+    expect(find).not.toHaveBeenCalled();
+
+    isPersistent.mockReturnValue(true);
+    mongoose.connection.emit('connected');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(queue.getStats().pending).toBe(2);
+    expect(updateOne).toHaveBeenCalledWith(expect.objectContaining({ queueId: expect.any(String) }), expect.anything(), { upsert: true });
+    await queue.disconnect();
+    jest.restoreAllMocks();
+  });
+});
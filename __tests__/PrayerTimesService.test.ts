@@ -0,0 +1,146 @@
+import { PrayerTimesService } from '../src/services/PrayerTimesService';
+import { TimetableParser } from '../src/services/TimetableParser';
+import { PrayerTimesConfig, TimetableEntry } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import moment from 'moment-timezone';
+
+describe('PrayerTimesService', () => {
+  const timezone = 'Asia/Karachi';
+  const date = new Date('2025-11-10T07:00:00Z');
+
+  const karachiConfig: PrayerTimesConfig = {
+    latitude: 24.8607,
+    longitude: 67.0011,
+    method: 'Karachi',
+    asrMadhab: 'hanafi',
+    mode: 'replace',
+    durationMinutes: 30
+  };
+
+  const localTime = (value: Date | null | undefined) => value ? moment.tz(value, timezone).format('HH:mm') : null;
+  const minutesBetween = (a: Date | null, b: Date | null) => Math.round(((a?.getTime() || 0) - (b?.getTime() || 0)) / 60000);
+
+  describe('getPrayerTimes', () => {
+    test('should calculate Karachi prayer times', () => {
+      const times = new PrayerTimesService(karachiConfig, timezone).getPrayerTimes(date);
+
+      expect(localTime(times.fajr)).toBe('05:27');
+      expect(localTime(times.sunrise)).toBe('06:45');
+      expect(localTime(times.dhuhr)).toBe('12:16');
+      expect(localTime(times.asr)).toBe('16:11');
+      expect(localTime(times.maghrib)).toBe('17:47');
+      expect(localTime(times.isha)).toBe('19:05');
+    });
+
+    test('should put Shafi Asr before Hanafi Asr', () => {
+      const hanafi = new PrayerTimesService(karachiConfig, timezone).getPrayerTimes(date);
+      const shafi = new PrayerTimesService({ ...karachiConfig, asrMadhab: 'shafi' }, timezone).getPrayerTimes(date);
+
+      expect(minutesBetween(hanafi.asr, shafi.asr)).toBeGreaterThan(30);
+    });
+
+    test('should use a fixed Isha interval for Umm al-Qura', () => {
+      const times = new PrayerTimesService({ ...karachiConfig, method: 'UmmAlQura' }, timezone).getPrayerTimes(date);
+
+      expect(minutesBetween(times.isha, times.maghrib)).toBe(90);
+    });
+
+    test('should use smaller angles for ISNA', () => {
+      const karachi = new PrayerTimesService(karachiConfig, timezone).getPrayerTimes(date);
+      const isna = new PrayerTimesService({ ...karachiConfig, method: 'ISNA' }, timezone).getPrayerTimes(date);
+
+      expect(isna.fajr!.getTime()).toBeGreaterThan(karachi.fajr!.getTime());
+      expect(isna.isha!.getTime()).toBeLessThan(karachi.isha!.getTime());
+    });
+
+    test('should return null for times that do not occur at high latitudes', () => {
+      const oslo = new PrayerTimesService(
+        { ...karachiConfig, latitude: 59.9139, longitude: 10.7522, method: 'MWL' },
+        'Europe/Oslo'
+      );
+
+      const times = oslo.getPrayerTimes(new Date('2025-06-21T12:00:00Z'));
+
+      expect(times.isha).toBeNull();
+      expect(times.dhuhr).not.toBeNull();
+    });
+  });
+
+  describe('getPrayerName', () => {
+    test('should recognise prayer rows in the timetable', () => {
+      expect(PrayerTimesService.getPrayerName('FAJR Prayer')).toBe('fajr');
+      expect(PrayerTimesService.getPrayerName('ZUHR Prayer and Rest')).toBe('dhuhr');
+      expect(PrayerTimesService.getPrayerName('MAGRIB prayer')).toBe('maghrib');
+      expect(PrayerTimesService.getPrayerName('Focused Office Work')).toBeNull();
+      expect(PrayerTimesService.getPrayerName('Ashtanga yoga')).toBeNull();
+    });
+  });
+
+  describe('applyToSchedule', () => {
+    const csvEntries = (): TimetableEntry[] => [
+      {
+        timeSlot: '5:30 AM to 6:00 AM',
+        activity: 'FAJR Prayer',
+        startTime: moment.tz('2025-11-10 05:30', 'YYYY-MM-DD HH:mm', timezone).toDate(),
+        endTime: moment.tz('2025-11-10 06:00', 'YYYY-MM-DD HH:mm', timezone).toDate()
+      },
+      {
+        timeSlot: '8:00 AM to 8:30 AM',
+        activity: 'Focused Office Work',
+        startTime: moment.tz('2025-11-10 08:00', 'YYYY-MM-DD HH:mm', timezone).toDate(),
+        endTime: moment.tz('2025-11-10 08:30', 'YYYY-MM-DD HH:mm', timezone).toDate()
+      }
+    ];
+
+    test('should replace timetable prayer rows with calculated ones', () => {
+      const service = new PrayerTimesService(karachiConfig, timezone);
+
+      const schedule = service.applyToSchedule(csvEntries(), date);
+
+      expect(schedule.map(e => e.activity)).toEqual([
+        'FAJR Prayer', 'Focused Office Work', 'ZUHR Prayer', 'ASR Prayer', 'MAGRIB Prayer', 'ISHA Prayer'
+      ]);
+      expect(schedule[0]).toMatchObject({ timeSlot: '5:27 AM to 5:57 AM', source: 'prayer-times' });
+    });
+
+    test('should keep timetable prayer rows that cover the adhan when merging', () => {
+      const service = new PrayerTimesService({ ...karachiConfig, mode: 'merge' }, timezone);
+      const entries = csvEntries();
+      entries[0]!.startTime = moment.tz('2025-11-10 05:15', 'YYYY-MM-DD HH:mm', timezone).toDate();
+
+      const schedule = service.applyToSchedule(entries, date);
+
+      expect(schedule.filter(e => e.activity === 'FAJR Prayer')).toHaveLength(1);
+      expect(schedule[0]!.source).toBeUndefined();
+      expect(schedule).toHaveLength(6);
+    });
+  });
+
+  describe('with TimetableParser', () => {
+    const timetableFile = path.join(__dirname, 'test-prayer-timetable.csv');
+
+    beforeEach(() => {
+      fs.writeFileSync(timetableFile, `Time Slot,Activity
+5:30 AM to 6:00 AM,FAJR Prayer
+8:00 AM to 8:30 AM,Focused Office Work
+1:30 PM to 2:00 PM,ZUHR Prayer and Rest`);
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(timetableFile)) {
+        fs.unlinkSync(timetableFile);
+      }
+    });
+
+    test('should include calculated prayers in the day\'s schedule', async () => {
+      const parser = new TimetableParser(timetableFile, timezone, new PrayerTimesService(karachiConfig, timezone));
+
+      const schedule = await parser.getScheduleForDate(date);
+
+      expect(schedule).toHaveLength(6);
+      expect(schedule.find(e => e.activity === 'ZUHR Prayer')?.timeSlot).toBe('12:16 PM to 12:46 PM');
+      expect(schedule.some(e => e.activity === 'ZUHR Prayer and Rest')).toBe(false);
+    });
+  });
+});
\ No newline at end of file
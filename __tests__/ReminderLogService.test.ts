@@ -0,0 +1,118 @@
+import { ReminderLogService } from '../src/services/ReminderLogService';
+import { SchedulerService } from '../src/services/SchedulerService';
+import { TimetableParser } from '../src/services/TimetableParser';
+import { TimetableRepository } from '../src/services/TimetableRepository';
+import { MockWhatsAppService } from '../src/services/WhatsAppService';
+import { TimetableEntry } from '../src/types';
+import moment from 'moment-timezone';
+
+describe('ReminderLogService', () => {
+  const timezone = 'Asia/Karachi';
+  let reminderLog: ReminderLogService;
+
+  const entry: TimetableEntry = {
+    timeSlot: '5:30 AM to 6:00 AM',
+    activity: 'FAJR Prayer',
+    startTime: moment.tz('2025-11-10 05:30', 'YYYY-MM-DD HH:mm', timezone).toDate(),
+    endTime: moment.tz('2025-11-10 06:00', 'YYYY-MM-DD HH:mm', timezone).toDate()
+  };
+  const plannedTime = moment(entry.startTime).subtract(15, 'minutes').toDate();
+
+  beforeEach(() => {
+    // No MongoDB connection in tests, so the in-memory fallback is used
+    reminderLog = new ReminderLogService(timezone);
+  });
+
+  test('should record planned reminders as pending', async () => {
+    await reminderLog.recordPlanned('fajr', entry, plannedTime);
+
+    const record = await reminderLog.get('fajr', entry);
+    expect(record).toMatchObject({ reminderId: 'fajr', status: 'pending', attempts: 0, activity: 'FAJR Prayer' });
+    expect(record?.date.toISOString()).toBe('2025-11-09T19:00:00.000Z');
+  });
+
+  test('should track attempts and delivery results', async () => {
+    await reminderLog.recordPlanned('fajr', entry, plannedTime);
+    await reminderLog.recordAttempt('fajr', entry, plannedTime);
+    await reminderLog.recordResult('fajr', entry, { success: false, error: 'Network down' });
+    await reminderLog.recordAttempt('fajr', entry, plannedTime);
+    await reminderLog.recordResult('fajr', entry, { success: true, messageId: 'wamid.1' });
+
+    const record = await reminderLog.get('fajr', entry);
+    expect(record).toMatchObject({ status: 'sent', attempts: 2, messageId: 'wamid.1' });
+    expect(record?.sentAt).toBeInstanceOf(Date);
+    expect(await reminderLog.isSent('fajr', entry)).toBe(true);
+  });
+
+  test('should not reset a reminder when it is planned again', async () => {
+    await reminderLog.recordAttempt('fajr', entry, plannedTime);
+    await reminderLog.recordResult('fajr', entry, { success: true });
+    await reminderLog.recordPlanned('fajr', entry, plannedTime);
+
+    expect(await reminderLog.isSent('fajr', entry)).toBe(true);
+  });
+
+  test('should keep separate records per day', async () => {
+    const nextDay = {
+      ...entry,
+      startTime: moment(entry.startTime).add(1, 'day').toDate(),
+      endTime: moment(entry.endTime).add(1, 'day').toDate()
+    };
+
+    await reminderLog.recordResult('fajr', entry, { success: true });
+
+    expect(await reminderLog.isSent('fajr', nextDay)).toBe(false);
+    expect(await reminderLog.getLogsForDate(entry.startTime)).toHaveLength(1);
+    expect(await reminderLog.getLogsForDate(nextDay.startTime)).toHaveLength(0);
+  });
+
+  describe('with SchedulerService', () => {
+    let whatsappService: MockWhatsAppService;
+
+    const dueEntry = (): TimetableEntry => ({
+      timeSlot: '9:00 AM to 9:30 AM',
+      activity: 'Quran session',
+      startTime: moment().add(10, 'minutes').toDate(),
+      endTime: moment().add(40, 'minutes').toDate()
+    });
+
+    const createScheduler = (log: ReminderLogService) => new SchedulerService(
+      new TimetableRepository(new TimetableParser('unused.csv', timezone)),
+      whatsappService,
+      { minutesBefore: 15 },
+      '+923014440289',
+      timezone,
+      log
+    );
+
+    beforeEach(async () => {
+      whatsappService = new MockWhatsAppService({ isMock: true, phoneNumber: '+923014440289' });
+      await whatsappService.initialize();
+    });
+
+    test('should not re-send a reminder after a restart', async () => {
+      const entry = dueEntry();
+
+      await (createScheduler(reminderLog) as any).sendImmediateReminder(entry);
+      // A fresh scheduler (as after a redeploy) sharing the same log
+      await (createScheduler(reminderLog) as any).sendImmediateReminder(entry);
+
+      expect(whatsappService.getMessageCount()).toBe(1);
+      const [record] = await reminderLog.getLogsForDate(entry.startTime);
+      expect(record).toMatchObject({ status: 'sent', attempts: 1 });
+      expect(record?.messageId).toMatch(/^mock-/);
+    });
+
+    test('should send concurrent triggers only once', async () => {
+      const entry = dueEntry();
+      const scheduler = createScheduler(reminderLog) as any;
+
+      await Promise.all([
+        scheduler.sendImmediateReminder(entry),
+        scheduler.sendImmediateReminder(entry)
+      ]);
+
+      expect(whatsappService.getMessageCount()).toBe(1);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { ScheduleOverrideRecord, ScheduleOverrideService } from '../src/services/ScheduleOverrideService';
+import { TimetableParser } from '../src/services/TimetableParser';
+import { IScheduleOverrideEntry } from '../src/models/ScheduleOverride';
+
+describe('ScheduleOverrideService', () => {
+  const timezone = 'Asia/Karachi';
+  // 4 Nov 2026 is a Wednesday
+  const date = new Date('2026-11-04T12:00:00+05:00');
+  const parser = new TimetableParser('unused.csv', timezone);
+  const toEntry = (timeSlot: string, activity: string) => parser.parseRow({ timeSlot, activity }, date);
+
+  const baseEntries = () => [
+    toEntry('5:30 AM to 6:00 AM', 'FAJR Prayer'),
+    toEntry('9:00 AM to 1:00 PM', 'Focused Office Work'),
+    toEntry('2:00 PM to 5:00 PM', 'Office Work'),
+    toEntry('9:00 PM to 9:30 PM', 'Evening walk')
+  ].filter(entry => entry !== null);
+
+  const override = (fields: Partial<ScheduleOverrideRecord>): ScheduleOverrideRecord => ({
+    id: 'override-1',
+    userId: 'default',
+    type: 'add',
+    startDate: '2026-11-04',
+    endDate: '2026-11-04',
+    ...fields
+  });
+
+  describe('apply', () => {
+    test('should add a one-off event in start-time order', () => {
+      const { entries, cancelled } = ScheduleOverrideService.apply(baseEntries(), [
+        override({ timeSlot: '1:00 PM to 2:00 PM', activity: 'Dentist', note: 'Dr. Khan' })
+      ], toEntry);
+
+      expect(entries.map(entry => entry.activity)).toEqual([
+        'FAJR Prayer', 'Focused Office Work', 'Dentist', 'Office Work', 'Evening walk'
+      ]);
+      expect(entries[2]?.source).toBe('override');
+      expect(entries[2]?.override).toEqual({ id: 'override-1', type: 'add', note: 'Dr. Khan' });
+      expect(cancelled).toEqual([]);
+    });
+
+    test('should replace the slots an override overlaps', () => {
+      const { entries, cancelled } = ScheduleOverrideService.apply(baseEntries(), [
+        override({ type: 'replace', timeSlot: '8:00 PM to 10:00 PM', activity: 'Taraweeh' })
+      ], toEntry);
+
+      expect(entries.map(entry => entry.activity)).toEqual([
+        'FAJR Prayer', 'Focused Office Work', 'Office Work', 'Taraweeh'
+      ]);
+      expect(cancelled.map(entry => entry.activity)).toEqual(['Evening walk']);
+      expect(cancelled[0]?.override?.type).toBe('replace');
+    });
+
+    test('should cancel slots by activity', () => {
+      const { entries, cancelled } = ScheduleOverrideService.apply(baseEntries(), [
+        override({ type: 'cancel', activity: 'office work', note: 'Public holiday' })
+      ], toEntry);
+
+      expect(entries.map(entry => entry.activity)).toEqual(['FAJR Prayer', 'Evening walk']);
+      expect(cancelled.map(entry => entry.activity)).toEqual(['Focused Office Work', 'Office Work']);
+      expect(cancelled[0]?.override).toEqual({ id: 'override-1', type: 'cancel', note: 'Public holiday' });
+    });
+
+    test('should cancel a time range, or the whole day', () => {
+      const ranged = ScheduleOverrideService.apply(baseEntries(), [
+        override({ type: 'cancel', timeSlot: '12:00 PM to 3:00 PM' })
+      ], toEntry);
+      expect(ranged.entries.map(entry => entry.activity)).toEqual(['FAJR Prayer', 'Evening walk']);
+
+      const wholeDay = ScheduleOverrideService.apply(baseEntries(), [override({ type: 'cancel' })], toEntry);
+      expect(wholeDay.entries).toEqual([]);
+      expect(wholeDay.cancelled.length).toBe(4);
+    });
+
+    test('should keep one-off events on a cancelled day', () => {
+      const { entries } = ScheduleOverrideService.apply(baseEntries(), [
+        override({ id: 'holiday', type: 'cancel' }),
+        override({ id: 'picnic', timeSlot: '11:00 AM to 3:00 PM', activity: 'Family picnic' })
+      ], toEntry);
+
+      expect(entries.map(entry => entry.activity)).toEqual(['Family picnic']);
+    });
+  });
+
+  describe('validate', () => {
+    const service = new ScheduleOverrideService('default', timezone);
+    const entry = (fields: Partial<IScheduleOverrideEntry>): IScheduleOverrideEntry => ({
+      userId: 'default',
+      type: 'add',
+      startDate: '2026-11-04',
+      endDate: '2026-11-04',
+      timeSlot: '3:00 PM to 4:00 PM',
+      activity: 'Dentist',
+      ...fields
+    });
+
+    test('should accept valid overrides', () => {
+      expect(service.validate(entry({}))).toEqual([]);
+      expect(service.validate({ userId: 'default', type: 'cancel', startDate: '2026-12-25', endDate: '2026-12-26' })).toEqual([]);
+    });
+
+    test('should report invalid fields', () => {
+      expect(service.validate(entry({ type: 'move' as any }))).toEqual(['Override type should be one of: add, replace, cancel']);
+      expect(service.validate(entry({ endDate: '2026-11-01' }))).toEqual(['End date is before the start date']);
+      expect(service.validate(entry({ startDate: '04/11/2026' }))).toEqual(['Dates should look like 2026-11-04']);
+      expect(service.validate(entry({ type: 'replace', timeSlot: '3 PM', activity: undefined }))).toEqual([
+        'Time slot should look like "5:00 AM to 5:30 AM"',
+        'A replace override needs a time slot and an activity'
+      ]);
+    });
+  });
+
+  describe('without a database', () => {
+    test('should apply no overrides and refuse new ones', async () => {
+      const service = new ScheduleOverrideService('default', timezone);
+
+      expect(await service.getOverridesForDate(date)).toEqual([]);
+      await expect(service.create({ type: 'add', date: '2026-11-04', timeSlot: '3:00 PM to 4:00 PM', activity: 'Dentist' }))
+        .rejects.toThrow('Database not connected');
+    });
+  });
+});
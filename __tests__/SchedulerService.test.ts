@@ -0,0 +1,181 @@
+import { ReminderLogService } from '../src/services/ReminderLogService';
+import { SchedulerService } from '../src/services/SchedulerService';
+import { TimetableParser } from '../src/services/TimetableParser';
+import { TimetableRepository } from '../src/services/TimetableRepository';
+import { MockWhatsAppService } from '../src/services/WhatsAppService';
+import { TimetableEntry } from '../src/types';
+import moment from 'moment-timezone';
+
+describe('SchedulerService', () => {
+  const timezone = 'Asia/Karachi';
+  let whatsappService: MockWhatsAppService;
+  let reminderLog: ReminderLogService;
+  let scheduler: any;
+
+  // A prayer starting in 10 minutes, so its first reminder (15 minutes before) is due
+  const prayer = (): TimetableEntry => ({
+    timeSlot: '1:00 PM to 1:30 PM',
+    activity: 'Dhuhr Prayer',
+    startTime: moment().add(10, 'minutes').toDate(),
+    endTime: moment().add(40, 'minutes').toDate()
+  });
+  const minutesFrom = (date: Date, minutes: number) => moment(date).add(minutes, 'minutes').toDate();
+  const lastMessage = () => whatsappService.getSentMessages().pop()?.message || '';
+
+  beforeEach(async () => {
+    whatsappService = new MockWhatsAppService({ isMock: true, phoneNumber: '+923014440289' });
+    await whatsappService.initialize();
+    // No MongoDB connection in tests, so the reminder log stays in memory
+    reminderLog = new ReminderLogService(timezone);
+    scheduler = new SchedulerService(
+      new TimetableRepository(new TimetableParser('unused.csv', timezone)),
+      whatsappService,
+      { minutesBefore: 5, escalation: [{ category: 'prayer', offsets: [-15, 0, 10] }] },
+      '+923014440289',
+      timezone,
+      reminderLog
+    );
+  });
+
+  describe('reminder offsets', () => {
+    const gym = (): TimetableEntry => ({ ...prayer(), activity: 'Gym session', reminderOffsets: [-30, -5, 0] });
+
+    test('should schedule one reminder per offset with its own id', async () => {
+      const entry = { ...gym(), startTime: moment().add(2, 'hours').toDate(), endTime: moment().add(3, 'hours').toDate() };
+      scheduler.timetableRepository = { getTodaySchedule: async () => [entry] };
+
+      await scheduler.loadTodaySchedule();
+      const reminders = scheduler.getScheduledReminders();
+      scheduler.clearScheduledReminders();
+
+      expect(reminders.map((reminder: any) => reminder.offset)).toEqual([-30, -5, 0]);
+      expect(new Set(reminders.map((reminder: any) => reminder.id)).size).toBe(3);
+      expect(reminders[1].reminderTime).toEqual(minutesFrom(entry.startTime, -5));
+    });
+
+    test('should say which reminder it is and stop after "done"', async () => {
+      const entry = gym();
+
+      await scheduler.sendImmediateReminder(entry, -5);
+      expect(lastMessage()).toContain('starting in 5 minutes');
+      expect(lastMessage()).toContain('Reminder 2 of 3 (5 min before)');
+      expect(lastMessage()).toContain('Reply "done"');
+
+      expect(await scheduler.confirmReminder()).toBe(entry);
+      await scheduler.sendImmediateReminder(entry, 0);
+      expect(whatsappService.getMessageCount()).toBe(1);
+    });
+
+    test('should catch up on a missed reminder at the start of a running entry', async () => {
+      const started = { ...gym(), startTime: moment().subtract(3, 'minutes').toDate() };
+      const long = { ...gym(), activity: 'Study', startTime: moment().subtract(30, 'minutes').toDate() };
+      scheduler.timetableRepository = { getUpcomingEntries: async () => [], getScheduleForDate: async () => [started, long] };
+
+      await scheduler.sendMissedReminders(moment());
+      await scheduler.sendMissedReminders(moment());
+
+      expect(whatsappService.getMessageCount()).toBe(1);
+      expect(lastMessage()).toContain('Gym session');
+      expect(lastMessage()).toContain('Reminder 3 of 3');
+    });
+
+    test('should use category offsets unless the entry has its own', () => {
+      scheduler.reminderConfig.offsets = [{ category: 'exercise', offsets: [-20, -10] }];
+
+      expect(scheduler.getReminderOffsets({ ...prayer(), activity: 'Gym session' })).toEqual([-20, -10]);
+      expect(scheduler.getReminderOffsets({ ...prayer(), activity: 'Gym session', reminderMinutesBefore: 15 })).toEqual([-15]);
+      expect(scheduler.getReminderOffsets(gym())).toEqual([-30, -5, 0]);
+      // The prayer chain's steps after the last reminder remain nudges
+      expect(scheduler.getNudgeOffsets({ ...prayer(), reminderOffsets: [-20, -5] })).toEqual([0, 10]);
+    });
+  });
+
+  describe('reminder message', () => {
+    test('should fill the template from the entry\'s category', async () => {
+      scheduler.reminderConfig.message = '{emoji} {subject} ({type}) at {location}';
+
+      expect(await scheduler.formatReminderMessage({ ...prayer(), activity: 'Walk with audio book: Seerah' }, 10))
+        .toBe('🏋️ Walk with audio book (Exercise) at GYM');
+      expect(await scheduler.formatReminderMessage({ ...prayer(), activity: 'Tafseer circle', location: 'Masjid' }, 10))
+        .toBe('🔔 Tafseer circle (Activity) at Masjid');
+    });
+  });
+
+  describe('escalation', () => {
+    test('should remind on the category chain until the user confirms', async () => {
+      const entry = prayer();
+
+      expect(scheduler.getReminderTime(entry).toDate()).toEqual(minutesFrom(entry.startTime, -15));
+      await scheduler.sendImmediateReminder(entry);
+      expect(lastMessage()).toContain('starting in 15 minutes');
+      expect(lastMessage()).toContain('Reply "done"');
+
+      await scheduler.sendDueNudges(entry.startTime);
+      expect(lastMessage()).toContain('"Dhuhr Prayer" is starting now');
+
+      expect(await scheduler.confirmReminder()).toBe(entry);
+      await scheduler.sendDueNudges(minutesFrom(entry.startTime, 10));
+      expect(whatsappService.getMessageCount()).toBe(2);
+      expect((await reminderLog.getLogsForDate(entry.startTime))[0]?.confirmedAt).toBeInstanceOf(Date);
+    });
+
+    test('should keep the default single reminder for other categories', async () => {
+      const entry = { ...prayer(), activity: 'Gym session' };
+
+      expect(scheduler.getReminderTime(entry).toDate()).toEqual(minutesFrom(entry.startTime, -5));
+      await scheduler.sendImmediateReminder(entry);
+      expect(lastMessage()).not.toContain('Reply "done"');
+      expect(scheduler.getEscalations()[0].nudges).toEqual([]);
+    });
+
+    test('should move the next nudge when snoozed', async () => {
+      const entry = prayer();
+      await scheduler.sendImmediateReminder(entry);
+
+      const now = new Date();
+      const escalation = scheduler.snooze(5, now);
+      expect(escalation.nudges).toEqual([minutesFrom(now, 5), entry.startTime, minutesFrom(entry.startTime, 10)]);
+
+      // Snoozing past the remaining nudges replaces them
+      scheduler.snooze(30, now);
+      expect(escalation.nudges).toEqual([minutesFrom(now, 30)]);
+      await scheduler.sendDueNudges(minutesFrom(entry.startTime, 10));
+      expect(whatsappService.getMessageCount()).toBe(1);
+    });
+
+    test('should confirm the reminder of the activity a check-in was answered for', async () => {
+      const entry = prayer();
+      await scheduler.sendImmediateReminder(entry);
+
+      expect(await scheduler.confirmReminder(minutesFrom(entry.startTime, 45))).toBeNull();
+      expect(await scheduler.confirmReminder(minutesFrom(entry.startTime, 5))).toBe(entry);
+      expect(scheduler.getEscalations()).toEqual([]);
+    });
+
+    test('should pick up the nudges of a started entry after a restart', async () => {
+      // Started 5 minutes ago, its first reminder delivered before the restart
+      const entry = { ...prayer(), startTime: moment().subtract(5, 'minutes').toDate(), endTime: moment().add(25, 'minutes').toDate() };
+      const reminderId = scheduler.generateReminderId(entry, -15);
+      await reminderLog.recordAttempt(reminderId, entry, minutesFrom(entry.startTime, -15));
+      await reminderLog.recordResult(reminderId, entry, { success: true });
+      scheduler.timetableRepository = { getTodaySchedule: async () => [entry] };
+
+      await scheduler.loadTodaySchedule();
+
+      const [escalation] = scheduler.getEscalations();
+      expect(escalation.reminderId).toBe(reminderId);
+      expect(escalation.nudges).toEqual([minutesFrom(entry.startTime, 10)]);
+      expect(whatsappService.getMessageCount()).toBe(0);
+    });
+
+    test('should reject chains out of order or out of range', () => {
+      expect(SchedulerService.validateEscalation([{ category: 'prayer', offsets: [-15, 0, 10] }])).toEqual([]);
+      expect(SchedulerService.validateEscalation([{ category: 'prayer', offsets: [0, -15] }])).toHaveLength(1);
+      expect(SchedulerService.validateEscalation([{ category: 'work', offsets: [-500, NaN] }])).toHaveLength(1);
+      expect(SchedulerService.validateEscalation([
+        { category: 'work', offsets: [-5] },
+        { category: 'work', offsets: [0] }
+      ])).toEqual(['Duplicate reminder escalation for category: work']);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { TemplateEngine } from '../src/services/TemplateEngine';
+import moment from 'moment-timezone';
+
+describe('TemplateEngine', () => {
+  const timezone = 'Asia/Karachi';
+  const render = (template: string, data: Record<string, unknown>) => TemplateEngine.render(template, data, timezone);
+
+  test('should fill values, nested paths and filters', () => {
+    const startTime = moment.tz('2025-11-10 13:00', timezone).toDate();
+
+    expect(render('{subject} in {minutesBefore} minutes', { subject: 'Gym', minutesBefore: 15 })).toBe('Gym in 15 minutes');
+    expect(render('{category.emoji} {category.name|upper}', { category: { emoji: '🕌', name: 'Prayer' } })).toBe('🕌 PRAYER');
+    expect(render('{startTime|time} on {startTime|date:"ddd D MMM"}', { startTime })).toBe('1:00 PM on Mon 10 Nov');
+    expect(render('{rate|fixed:"1"}% {notes|default:"no notes"}', { rate: 62.5, notes: '' })).toBe('62.5% no notes');
+    // Braces that aren't tags stay as they are
+    expect(render('{ not a tag } {missing}.', {})).toBe('{ not a tag } .');
+  });
+
+  test('should render conditionals and loops, dropping lines that only hold a block tag', () => {
+    const template = `Summary
+{#if upcoming}
+Coming up:
+{#each upcoming}
+{@number}. {activity}{#if location} @ {location}{/if}
+{/each}
+{else}
+Nothing else today
+{/if}
+Done`;
+
+    expect(render(template, { upcoming: [{ activity: 'Asr', location: 'Masjid' }, { activity: 'Gym' }] }))
+      .toBe('Summary\nComing up:\n1. Asr @ Masjid\n2. Gym\nDone');
+    expect(render(template, { upcoming: [] })).toBe('Summary\nNothing else today\nDone');
+    expect(render('{#unless done}todo{/unless}{#each tags}[{this}]{/each}', { done: false, tags: ['a', 'b'] })).toBe('todo[a][b]');
+  });
+
+  test('should report unbalanced blocks and unknown filters', () => {
+    expect(TemplateEngine.validate('{#if a}x{/if} {b|time}')).toEqual([]);
+    expect(TemplateEngine.validate('{#if a}x')).toEqual(['{#if a} is never closed']);
+    expect(TemplateEngine.validate('{#each a}x{/if}')).toEqual(['{/if} does not close {#each a}']);
+    expect(TemplateEngine.validate('{a|shout}')[0]).toContain('Unknown filter "shout"');
+    expect(() => render('{/each}', {})).toThrow('does not close any block');
+  });
+
+  test('should not keep drafts rendered without the cache', () => {
+    const compiled = (TemplateEngine as any).compiled as Map<string, unknown>;
+    const draft = `{activity} draft ${Date.now()}`;
+
+    expect(TemplateEngine.render(draft, { activity: 'Gym' }, timezone, 'en', false)).toContain('Gym draft');
+    expect(compiled.has(draft)).toBe(false);
+    render(draft, { activity: 'Gym' });
+    expect(compiled.has(draft)).toBe(true);
+  });
+
+  test('should keep a limited number of compiled templates, dropping the least recently used', () => {
+    const compiled = (TemplateEngine as any).compiled as Map<string, unknown>;
+    const first = `{activity} kept ${Date.now()}`;
+    render(first, { activity: 'Gym' });
+
+    for (let version = 0; version < 300; version++) {
+      render(`{activity} version ${version}`, { activity: 'Gym' });
+      // Still in use, so it stays
+      render(first, { activity: 'Gym' });
+    }
+
+    expect(compiled.size).toBe(200);
+    expect(compiled.has(first)).toBe(true);
+    expect(compiled.has('{activity} version 0')).toBe(false);
+  });
+});
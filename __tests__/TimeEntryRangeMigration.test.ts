@@ -0,0 +1,69 @@
+import { TimeEntryRangeMigration } from '../src/migrations/TimeEntryRangeMigration';
+import { DailyTracking } from '../src/models/DailyTracking';
+import moment from 'moment-timezone';
+
+describe('TimeEntryRangeMigration', () => {
+  const timezone = 'Asia/Karachi';
+  const day = moment.tz('2025-11-10', timezone).toDate();
+  const at = (time: string) => moment.tz(`2025-11-10 ${time}`, 'YYYY-MM-DD HH:mm', timezone).toDate();
+  const legacyEntry = (timeSlot: string, actualActivity: string, timestamp: string) => ({
+    timeSlot,
+    timestamp: at(timestamp),
+    plannedActivity: 'Gym',
+    actualActivity,
+    isCompleted: actualActivity !== ''
+  });
+
+  test('should read both label formats, with or without leading zeros', () => {
+    expect(TimeEntryRangeMigration.parseTimeSlot('5:00 AM - 5:30 AM', day, timezone)).toEqual({ startTime: at('05:00'), endTime: at('05:30') });
+    expect(TimeEntryRangeMigration.parseTimeSlot('05:00 AM to 05:30 AM', day, timezone)).toEqual({ startTime: at('05:00'), endTime: at('05:30') });
+    expect(TimeEntryRangeMigration.parseTimeSlot('11:30 PM - 12:00 AM', day, timezone)?.endTime).toEqual(moment.tz(at('00:00'), timezone).add(1, 'day').toDate());
+    expect(TimeEntryRangeMigration.parseTimeSlot('Morning', day, timezone)).toBeNull();
+  });
+
+  test('should merge entries saved under differently formatted labels, keeping the answered one', () => {
+    const result = TimeEntryRangeMigration.migrateEntries([
+      legacyEntry('6:00 AM to 7:00 AM', '', '05:00'),
+      legacyEntry('6:00 AM - 7:00 AM', 'Gym', '06:10'),
+      legacyEntry('7:00 AM - 7:30 AM', 'Breakfast', '07:05'),
+      legacyEntry('sometime', 'Reading', '08:00')
+    ], day, timezone);
+
+    expect(result).toEqual(expect.objectContaining({ migrated: 3, merged: 1, skipped: 1 }));
+    expect(result.entries.map(entry => [entry.timeSlot, entry.startTime, entry.actualActivity])).toEqual([
+      ['6:00 AM - 7:00 AM', at('06:00'), 'Gym'],
+      ['7:00 AM - 7:30 AM', at('07:00'), 'Breakfast'],
+      ['sometime', undefined, 'Reading']
+    ]);
+  });
+
+  test('should leave entries that already have times alone', () => {
+    const entry = { ...legacyEntry('6:00 AM - 7:00 AM', 'Gym', '06:10'), startTime: at('06:00'), endTime: at('07:00') };
+
+    const result = TimeEntryRangeMigration.migrateEntries([entry], day, timezone);
+
+    expect(result).toEqual({ entries: [entry], migrated: 0, merged: 0, skipped: 0 });
+  });
+
+  test('should keep unreadable entries as legacy ones, which a second run leaves alone', () => {
+    const first = TimeEntryRangeMigration.migrateEntries([legacyEntry('sometime', 'Reading', '08:00')], day, timezone);
+    expect(first.entries).toEqual([{ ...legacyEntry('sometime', 'Reading', '08:00'), legacy: true }]);
+
+    const second = TimeEntryRangeMigration.migrateEntries(first.entries, day, timezone);
+    expect(second).toEqual({ entries: first.entries, migrated: 0, merged: 0, skipped: 0 });
+  });
+
+  test('should keep entries without times through a save, without matching them to check-ins', async () => {
+    const entry = { ...legacyEntry('6:00 AM - 7:00 AM', 'Gym', '06:10'), startTime: at('06:00'), endTime: at('07:00') };
+    const tracking = new DailyTracking({ date: day, userId: 'default', entries: [legacyEntry('sometime', 'Reading', '08:00'), entry] });
+    const insertOne = jest.spyOn(DailyTracking.collection, 'insertOne').mockResolvedValue({ acknowledged: true } as any);
+
+    expect(tracking.findEntry(at('06:00'))?.actualActivity).toBe('Gym');
+    expect(tracking.findEntry(at('08:00'))).toBeUndefined();
+
+    await tracking.save();
+    const saved = insertOne.mock.calls[0]?.[0] as any;
+    expect(saved.entries.map((kept: any) => [kept.timeSlot, kept.legacy])).toEqual([['sometime', true], ['6:00 AM - 7:00 AM', undefined]]);
+    insertOne.mockRestore();
+  });
+});
@@ -0,0 +1,147 @@
+import { TimetableFileReader } from '../src/services/TimetableFileReader';
+import { TimetableParser } from '../src/services/TimetableParser';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('TimetableFileReader', () => {
+  describe('getFormat', () => {
+    test('should pick the format from the file extension', () => {
+      expect(TimetableFileReader.getFormat('timetable.json')).toBe('json');
+      expect(TimetableFileReader.getFormat('timetable.YAML')).toBe('yaml');
+      expect(TimetableFileReader.getFormat('timetable.fri.yml')).toBe('yaml');
+      expect(TimetableFileReader.getFormat('timetable.csv')).toBe('csv');
+    });
+  });
+
+  describe('read', () => {
+    test('should read YAML rows with their metadata', async () => {
+      const contents = await TimetableFileReader.read(`entries:
+  - start: "5:30 AM"
+    end: "06:00"
+    activity: FAJR Prayer
+    category: worship
+    location: Masjid
+    priority: high
+    reminderMinutesBefore: 20
+  - timeSlot: 8:00 AM to 5:00 PM
+    activity: Office work
+    days: [Mon, Tue, Wed]
+    tags: [focus, deep-work]
+`, 'yaml');
+
+      expect(contents.issues).toEqual([]);
+      expect(contents.totalRows).toBe(2);
+      expect(contents.rows.map(sourced => sourced.line)).toEqual([2, 9]);
+      expect(contents.rows[0]?.row).toEqual({
+        timeSlot: '5:30 AM to 6:00 AM',
+        activity: 'FAJR Prayer',
+        category: 'worship',
+        location: 'Masjid',
+        priority: 'high',
+        reminderMinutesBefore: 20
+      });
+      expect(contents.rows[1]?.row).toEqual({
+        timeSlot: '8:00 AM to 5:00 PM',
+        activity: 'Office work',
+        day: 'Mon, Tue, Wed',
+        tags: ['focus', 'deep-work']
+      });
+    });
+
+    test('should report schema problems with the line of the field', async () => {
+      const contents = await TimetableFileReader.read(JSON.stringify([
+        { timeSlot: '5:00 AM to 5:30 AM', activity: 'Walk', priority: 'urgent' },
+        { timeSlot: '6:00 AM to 6:30 AM', activity: 'Read', reminderMinutesBefore: 500, colour: 'green' },
+        { activity: 'No time' }
+      ], null, 2), 'json');
+
+      expect(contents.rows).toEqual([]);
+      expect(contents.issues).toEqual([
+        expect.objectContaining({ severity: 'error', row: 1, line: 5, field: 'priority' }),
+        expect.objectContaining({ severity: 'warning', row: 2, line: 11, field: 'colour' }),
+        expect.objectContaining({ severity: 'error', row: 2, line: 10, field: 'reminderMinutesBefore' }),
+        expect.objectContaining({ severity: 'error', row: 3, line: 13, field: 'timeSlot' })
+      ]);
+    });
+
+    test('should read the optional CSV columns', async () => {
+      const contents = await TimetableFileReader.read(`Time Slot,Activity,Day,Location,Reminder Minutes,Tags
+5:30 AM to 6:00 AM,FAJR Prayer,,Masjid,15,"quran; dua"
+8:00 AM to 5:00 PM,Office work,Mon-Fri,,,
+9:00 PM to 9:30 PM,Reading,,,soon,`, 'csv');
+
+      expect(contents.rows.map(sourced => sourced.row)).toEqual([
+        { timeSlot: '5:30 AM to 6:00 AM', activity: 'FAJR Prayer', day: '', location: 'Masjid', reminderMinutesBefore: 15, tags: ['quran', 'dua'] },
+        { timeSlot: '8:00 AM to 5:00 PM', activity: 'Office work', day: 'Mon-Fri' }
+      ]);
+      expect(contents.issues).toEqual([
+        expect.objectContaining({ severity: 'error', row: 3, line: 4, field: 'reminderMinutesBefore' })
+      ]);
+    });
+
+    test('should read reminder offsets as a sorted list', async () => {
+      const contents = await TimetableFileReader.read(`Time Slot,Activity,Reminder Minutes,Reminder Offsets
+6:00 PM to 7:00 PM,Gym,10,0/-30/-5
+7:00 PM to 7:30 PM,Dinner,,-300`, 'csv');
+
+      expect(contents.rows.map(sourced => sourced.row.reminderOffsets)).toEqual([[-30, -5, 0]]);
+      expect(contents.issues).toEqual([
+        expect.objectContaining({ severity: 'warning', row: 1, field: 'reminderMinutesBefore' }),
+        expect.objectContaining({ severity: 'error', row: 2, field: 'reminderOffsets' })
+      ]);
+    });
+
+    test('should throw with the line of a syntax error', async () => {
+      await expect(TimetableFileReader.read('entries:\n  - activity: Walk\n    start: [5:00 AM\n', 'yaml')).rejects.toThrow(/line \d+/);
+    });
+  });
+
+  describe('with TimetableParser', () => {
+    let timetableFile: string;
+
+    beforeEach(() => {
+      timetableFile = path.join(__dirname, 'test-timetable-reader.yaml');
+      fs.writeFileSync(timetableFile, `- timeSlot: 5:30 AM to 6:00 AM
+  activity: FAJR Prayer
+  reminderMinutesBefore: 20
+  location: Masjid
+- timeSlot: 7:00 AM to 7:30 AM
+  activity: Walk
+  days: Someday
+- timeSlot: 9:00 PM to 9:30 PM
+  activity: Reading
+  tags: [books]
+`);
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(timetableFile)) {
+        fs.unlinkSync(timetableFile);
+      }
+    });
+
+    test('should skip invalid rows and list them in the report', async () => {
+      const parser = new TimetableParser(timetableFile, 'Asia/Karachi');
+      const result = await parser.parseTimetable();
+
+      expect(result.entries.map(entry => entry.activity)).toEqual(['FAJR Prayer', 'Reading']);
+      expect(result.entries[0]).toEqual(expect.objectContaining({ reminderMinutesBefore: 20, location: 'Masjid' }));
+      expect(result.entries[1]?.tags).toEqual(['books']);
+
+      const report = await parser.getValidationReport();
+      expect(report).toEqual(expect.objectContaining({ format: 'yaml', totalRows: 3, validRows: 2 }));
+      expect(report.issues).toEqual([
+        expect.objectContaining({ severity: 'error', row: 2, line: 5, message: 'Could not parse day "Someday"' })
+      ]);
+    });
+
+    test('should keep the last good rows when the file stops parsing', async () => {
+      const parser = new TimetableParser(timetableFile, 'Asia/Karachi');
+      await parser.parseTimetable();
+
+      fs.writeFileSync(timetableFile, '- timeSlot: [broken\n');
+      const result = await parser.parseTimetable();
+      expect(result.entries).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { TimetableLinter } from '../src/services/TimetableLinter';
+import { TimetableParser } from '../src/services/TimetableParser';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('TimetableLinter', () => {
+  const linter = new TimetableLinter(new TimetableParser('unused.csv', 'Asia/Karachi'));
+  const issuesOf = (rule: string, rows: { timeSlot: string; activity: string; day?: string }[]) =>
+    linter.lintRows(rows).issues.filter(issue => issue.rule === rule);
+
+  test('should pass a timetable on the 30-minute grid', () => {
+    const report = linter.lintRows([
+      { timeSlot: '5:00 AM to 5:30 AM', activity: 'Walk' },
+      { timeSlot: '5:30 AM to 6:00 AM', activity: 'FAJR Prayer' },
+      { timeSlot: '6:00 AM to 7:00 AM', activity: 'Gym' }
+    ]);
+
+    expect(report.issues).toEqual([]);
+    expect(report.errors).toBe(0);
+    expect(TimetableLinter.isBlocking(report, true)).toBe(false);
+  });
+
+  test('should report overlaps only on the days both rows apply', () => {
+    const overlaps = issuesOf('overlap', [
+      { timeSlot: '8:00 AM to 9:00 AM', activity: 'Office work', day: 'Mon-Fri' },
+      { timeSlot: '8:30 AM to 9:00 AM', activity: 'Breakfast' },
+      { timeSlot: '8:30 AM to 9:30 AM', activity: 'Family time', day: 'Weekend' }
+    ]);
+
+    expect(overlaps).toEqual([
+      expect.objectContaining({ severity: 'error', days: 'Sun, Sat', activities: ['Breakfast', 'Family time'] }),
+      expect.objectContaining({ severity: 'error', days: 'Mon, Tue, Wed, Thu, Fri', activities: ['Office work', 'Breakfast'] })
+    ]);
+  });
+
+  test('should catch late slots overlapping the next morning', () => {
+    const report = linter.lintRows([
+      { timeSlot: '11:00 PM to 1:00 AM', activity: 'Late study', day: 'Sat' },
+      { timeSlot: '12:30 AM to 1:00 AM', activity: 'Tahajjud', day: 'Sun' }
+    ]);
+
+    expect(report.issues.map(issue => [issue.rule, issue.days])).toEqual([
+      ['overlap', 'Sun'],
+      ['midnight', 'Sat']
+    ]);
+    expect(TimetableLinter.isBlocking(report, false)).toBe(false);
+    expect(TimetableLinter.isBlocking(report, true)).toBe(true);
+  });
+
+  test('should report misaligned boundaries, gaps and repeated activities', () => {
+    const rows = [
+      { timeSlot: '5:15 AM to 5:45 AM', activity: 'Walk' },
+      { timeSlot: '7:00 AM to 7:30 AM', activity: 'Read Quran' },
+      { timeSlot: '9:00 PM to 9:30 PM', activity: 'read  quran' }
+    ];
+
+    expect(issuesOf('alignment', rows)).toEqual([
+      expect.objectContaining({ severity: 'warning', days: 'every day', timeSlots: ['5:15 AM to 5:45 AM'] })
+    ]);
+    expect(issuesOf('gap', rows).map(issue => issue.message)).toEqual([
+      'Nothing planned from 5:45 AM to 7:00 AM',
+      'Nothing planned from 7:30 AM to 9:00 PM'
+    ]);
+    expect(issuesOf('duplicate', rows)).toEqual([
+      expect.objectContaining({ severity: 'info', timeSlots: ['7:00 AM to 7:30 AM', '9:00 PM to 9:30 PM'] })
+    ]);
+  });
+
+  test('should lint the rows of the active timetable file', async () => {
+    const timetableFile = path.join(__dirname, 'test-lint-timetable.csv');
+    fs.writeFileSync(timetableFile, `Time Slot,Activity,Day
+5:00 AM to 6:00 AM,Walk,
+5:30 AM to 6:00 AM,FAJR Prayer,`);
+
+    try {
+      const report = await new TimetableLinter(new TimetableParser(timetableFile, 'Asia/Karachi')).lint();
+      expect(report).toEqual(expect.objectContaining({ profile: 'default', rowCount: 2, errors: 1, warnings: 0 }));
+    } finally {
+      fs.unlinkSync(timetableFile);
+    }
+  });
+});
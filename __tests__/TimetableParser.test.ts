@@ -113,6 +113,210 @@ describe('TimetableParser', () => {
     });
   });
 
+  describe('day-of-week schedules', () => {
+    let dayFile: string;
+    // 14 Nov 2025 is a Friday, 15 Nov 2025 a Saturday, 17 Nov 2025 a Monday
+    const friday = new Date(2025, 10, 14);
+    const saturday = new Date(2025, 10, 15);
+    const monday = new Date(2025, 10, 17);
+
+    beforeEach(() => {
+      dayFile = path.join(__dirname, 'test-day-timetable.csv');
+      fs.writeFileSync(dayFile, `Time Slot,Activity,Day
+5:30 AM to 6:00 AM,FAJR Prayer,*
+8:00 AM to 8:30 AM,Focused Office Work,Mon-Fri
+1:00 PM to 2:00 PM,Jumu'ah Prayer,Fri
+10:00 AM to 12:00 PM,Family time,Weekend
+9:00 PM to 9:30 PM,Evening walk,
+9:30 PM to 10:00 PM,Broken row,Someday`);
+    });
+
+    afterEach(() => {
+      [dayFile, path.join(__dirname, 'test-day-timetable.fri.csv')].forEach(file => {
+        if (fs.existsSync(file)) {
+          fs.unlinkSync(file);
+        }
+      });
+    });
+
+    test('should parse day specs', () => {
+      expect(timetableParser.parseDaySpec('*')).toEqual([0, 1, 2, 3, 4, 5, 6]);
+      expect(timetableParser.parseDaySpec('Mon-Fri')).toEqual([1, 2, 3, 4, 5]);
+      expect(timetableParser.parseDaySpec('Weekend')).toEqual([0, 6]);
+      expect(timetableParser.parseDaySpec('friday')).toEqual([5]);
+      expect(timetableParser.parseDaySpec('Mon, Wed')).toEqual([1, 3]);
+      expect(timetableParser.parseDaySpec('Fri-Mon')).toEqual([0, 1, 5, 6]);
+      expect(timetableParser.parseDaySpec('Someday')).toBeNull();
+    });
+
+    test('should set dayOfWeek for single-day entries', async () => {
+      const parser = new TimetableParser(dayFile);
+      const result = await parser.parseTimetable(friday);
+
+      const jumuah = result.entries.find(e => e.activity === 'Jumu\'ah Prayer');
+      expect(jumuah?.dayOfWeek).toBe(5);
+      expect(jumuah?.daysOfWeek).toEqual([5]);
+
+      const fajr = result.entries.find(e => e.activity === 'FAJR Prayer');
+      expect(fajr?.dayOfWeek).toBeUndefined();
+      expect(fajr?.daysOfWeek).toBeUndefined();
+
+      // Rows with an unrecognised day are dropped
+      expect(result.entries.find(e => e.activity === 'Broken row')).toBeUndefined();
+    });
+
+    test('should pick entries for the actual date', async () => {
+      const parser = new TimetableParser(dayFile);
+
+      const fridayActivities = (await parser.getScheduleForDate(friday)).map(e => e.activity);
+      expect(fridayActivities).toEqual(['FAJR Prayer', 'Focused Office Work', 'Jumu\'ah Prayer', 'Evening walk']);
+
+      const saturdayActivities = (await parser.getScheduleForDate(saturday)).map(e => e.activity);
+      expect(saturdayActivities).toEqual(['FAJR Prayer', 'Family time', 'Evening walk']);
+
+      const mondaySchedule = await parser.getScheduleForDate(monday);
+      expect(mondaySchedule.map(e => e.activity)).toEqual(['FAJR Prayer', 'Focused Office Work', 'Evening walk']);
+      expect(mondaySchedule[0]?.startTime.getDate()).toBe(17);
+    });
+
+    test('should prefer a per-day file when present', async () => {
+      fs.writeFileSync(path.join(__dirname, 'test-day-timetable.fri.csv'), `Time Slot,Activity
+12:30 PM to 2:00 PM,Jumu'ah at the masjid`);
+      const parser = new TimetableParser(dayFile);
+
+      const fridaySchedule = await parser.getScheduleForDate(friday);
+      expect(fridaySchedule.map(e => e.activity)).toEqual(['Jumu\'ah at the masjid']);
+
+      const mondaySchedule = await parser.getScheduleForDate(monday);
+      expect(mondaySchedule.length).toBe(3);
+    });
+
+    test('should export the week as one list of rows', async () => {
+      fs.writeFileSync(path.join(__dirname, 'test-day-timetable.fri.csv'), `Time Slot,Activity
+12:30 PM to 2:00 PM,Jumu'ah at the masjid`);
+      const parser = new TimetableParser(dayFile);
+
+      const rows = await parser.exportCsvRows();
+
+      expect(rows).toEqual([
+        { timeSlot: '5:30 AM to 6:00 AM', activity: 'FAJR Prayer', day: 'Sun, Mon, Tue, Wed, Thu, Sat' },
+        { timeSlot: '8:00 AM to 8:30 AM', activity: 'Focused Office Work', day: 'Mon, Tue, Wed, Thu' },
+        { timeSlot: '10:00 AM to 12:00 PM', activity: 'Family time', day: 'Sun, Sat' },
+        { timeSlot: '9:00 PM to 9:30 PM', activity: 'Evening walk', day: 'Sun, Mon, Tue, Wed, Thu, Sat' },
+        { timeSlot: '12:30 PM to 2:00 PM', activity: 'Jumu\'ah at the masjid', day: 'Fri' }
+      ]);
+    });
+  });
+
+  describe('stored rows', () => {
+    test('should read rows from the row source instead of the CSV', async () => {
+      const parser = new TimetableParser(testTimetableFile, 'Asia/Karachi', undefined, {
+        getRows: async () => [{ timeSlot: '6:00 AM to 7:00 AM', activity: 'Edited in dashboard' }]
+      });
+
+      const result = await parser.parseTimetable();
+
+      expect(result.entries.map(e => e.activity)).toEqual(['Edited in dashboard']);
+    });
+
+    test('should fall back to the CSV when the row source has nothing', async () => {
+      const parser = new TimetableParser(testTimetableFile, 'Asia/Karachi', undefined, { getRows: async () => null });
+
+      const result = await parser.parseTimetable();
+
+      expect(result.entries.length).toBe(10);
+    });
+
+    test('should validate rows', () => {
+      expect(timetableParser.validateRow({ timeSlot: '5:00 AM to 5:30 AM', activity: 'Walk', day: 'Mon-Fri' })).toEqual([]);
+      expect(timetableParser.validateRow({ timeSlot: '5 to 6', activity: ' ', day: 'Someday' })).toEqual([
+        'Activity is required',
+        'Time slot should look like "5:00 AM to 5:30 AM"',
+        'Could not parse day "Someday"'
+      ]);
+    });
+  });
+
+  describe('schedule profiles', () => {
+    let ramadanFile: string;
+    const ramadan = { name: 'ramadan', timetableFile: '', startDate: '2026-02-18', endDate: '2026-03-19' };
+
+    beforeEach(() => {
+      ramadanFile = path.join(__dirname, 'test-ramadan-timetable.csv');
+      fs.writeFileSync(ramadanFile, `Time Slot,Activity
+4:30 AM to 5:00 AM,Suhoor
+6:00 PM to 6:30 PM,Iftar`);
+      ramadan.timetableFile = ramadanFile;
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(ramadanFile)) {
+        fs.unlinkSync(ramadanFile);
+      }
+    });
+
+    test('should use a profile during its date range', async () => {
+      const parser = new TimetableParser(testTimetableFile, 'Asia/Karachi', undefined, undefined, [ramadan]);
+
+      expect(parser.getActiveProfile(new Date('2026-03-01T12:00:00Z')).name).toBe('ramadan');
+      expect(parser.getActiveProfile(new Date('2026-03-20T12:00:00Z')).name).toBe('default');
+
+      const schedule = await parser.getScheduleForDate(new Date('2026-03-01T12:00:00Z'));
+      expect(schedule.map(e => e.activity)).toEqual(['Suhoor', 'Iftar']);
+    });
+
+    test('should switch profiles by name regardless of date', async () => {
+      const parser = new TimetableParser(testTimetableFile, 'Asia/Karachi', undefined, undefined, [ramadan]);
+      const outside = new Date('2026-05-01T12:00:00Z');
+
+      expect(parser.selectProfile('holiday')).toBe(false);
+      expect(parser.selectProfile('Ramadan')).toBe(true);
+      expect(parser.getActiveProfile(outside).name).toBe('ramadan');
+      expect((await parser.getScheduleForDate(outside)).length).toBe(2);
+
+      parser.selectProfile(null);
+      expect(parser.getProfileSelection()).toBeNull();
+      expect(parser.getActiveProfile(outside).name).toBe('default');
+    });
+
+    test('should only read stored rows for the default profile', async () => {
+      const parser = new TimetableParser(testTimetableFile, 'Asia/Karachi', undefined, {
+        getRows: async () => [{ timeSlot: '6:00 AM to 7:00 AM', activity: 'Edited in dashboard' }]
+      }, [ramadan]);
+
+      const schedule = await parser.getScheduleForDate(new Date('2026-03-01T12:00:00Z'));
+
+      expect(schedule.map(e => e.activity)).toEqual(['Suhoor', 'Iftar']);
+    });
+  });
+
+  describe('timezones', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should anchor times in the configured timezone', async () => {
+      const parser = new TimetableParser(testTimetableFile, 'Asia/Karachi');
+
+      const schedule = await parser.getScheduleForDate(new Date('2025-11-10T12:00:00Z'));
+      const fajr = schedule.find(e => e.activity === 'FAJR Prayer');
+
+      expect(parser.getTimezone()).toBe('Asia/Karachi');
+      expect(fajr?.startTime.toISOString()).toBe('2025-11-10T00:30:00.000Z');
+    });
+
+    test('should use the local date in the timezone, not the server date', async () => {
+      // 8:30 PM UTC on Nov 9 is already 1:30 AM on Nov 10 in Karachi
+      jest.useFakeTimers({ now: new Date('2025-11-09T20:30:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      const parser = new TimetableParser(testTimetableFile, 'Asia/Karachi');
+
+      const schedule = await parser.getTodaySchedule();
+      const fajr = schedule.find(e => e.activity === 'FAJR Prayer');
+
+      expect(fajr?.startTime.toISOString()).toBe('2025-11-10T00:30:00.000Z');
+    });
+  });
+
   describe('error handling', () => {
     test('should handle malformed CSV gracefully', async () => {
       const malformedFile = path.join(__dirname, 'malformed.csv');
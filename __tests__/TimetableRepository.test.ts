@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TimetableParser } from '../src/services/TimetableParser';
+import { TimetableRepository } from '../src/services/TimetableRepository';
+import { ScheduleOverrideService } from '../src/services/ScheduleOverrideService';
+
+describe('TimetableRepository', () => {
+  const timetableFile = path.join(__dirname, 'test-repository-timetable.csv');
+  const timezone = 'Asia/Karachi';
+  let parser: TimetableParser;
+  let repository: TimetableRepository;
+
+  // Wall-clock time on 10 Nov 2025 in Karachi (UTC+5)
+  const at = (time: string) => new Date(`2025-11-10T${time}:00+05:00`);
+
+  beforeEach(() => {
+    fs.writeFileSync(timetableFile, `Time Slot,Activity
+5:00 AM to 5:30 AM,Morning Walk
+5:30 AM to 6:00 AM,FAJR Prayer
+9:00 AM to 5:00 PM,Office
+1:30 PM to 2:00 PM,ZUHR Prayer
+11:00 PM to 12:30 AM,Night reading`);
+    parser = new TimetableParser(timetableFile, timezone);
+    repository = new TimetableRepository(parser);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(timetableFile)) {
+      fs.unlinkSync(timetableFile);
+    }
+  });
+
+  test('should parse each day once', async () => {
+    const spy = jest.spyOn(parser, 'getScheduleForDate');
+
+    await repository.getScheduleForDate(at('08:00'));
+    await repository.getUpcomingEntries(30, at('08:01'));
+    await repository.getEntryAt(at('08:02'));
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    await repository.getScheduleForDate(new Date(at('08:00').getTime() + 86400000));
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  test('should re-parse after invalidate', async () => {
+    expect((await repository.getEntryAt(at('05:10')))?.activity).toBe('Morning Walk');
+
+    fs.writeFileSync(timetableFile, `Time Slot,Activity
+5:00 AM to 5:30 AM,Morning Run`);
+    expect((await repository.getEntryAt(at('05:10')))?.activity).toBe('Morning Walk');
+
+    repository.invalidate();
+    expect((await repository.getEntryAt(at('05:10')))?.activity).toBe('Morning Run');
+  });
+
+  test('should keep timetable order for the schedule', async () => {
+    const schedule = await repository.getScheduleForDate(at('12:00'));
+
+    expect(schedule.map(entry => entry.activity)).toEqual([
+      'Morning Walk', 'FAJR Prayer', 'Office', 'ZUHR Prayer', 'Night reading'
+    ]);
+  });
+
+  test('should not let callers change the cached schedule', async () => {
+    const schedule = await repository.getScheduleForDate(at('12:00'));
+    schedule.reverse();
+    expect(() => { (schedule[0] as any).activity = 'Changed'; }).toThrow(TypeError);
+
+    const again = await repository.getScheduleForDate(at('12:00'));
+    expect(again.map(entry => entry.activity)).toEqual([
+      'Morning Walk', 'FAJR Prayer', 'Office', 'ZUHR Prayer', 'Night reading'
+    ]);
+  });
+
+  test('should layer the date\'s overrides on the schedule', async () => {
+    const overrides = new ScheduleOverrideService('default', timezone);
+    jest.spyOn(overrides, 'getOverridesForDate').mockResolvedValue([
+      { id: 'holiday', userId: 'default', type: 'cancel', startDate: '2025-11-10', endDate: '2025-11-10', activity: 'Office' }
+    ]);
+    repository = new TimetableRepository(parser, overrides);
+
+    expect(await repository.getEntryAt(at('10:00'))).toBeNull();
+    expect((await repository.getCancelledEntries(at('10:00'))).map(entry => entry.activity)).toEqual(['Office']);
+  });
+
+  describe('lookups', () => {
+    test('should find the entry in progress', async () => {
+      expect((await repository.getEntryAt(at('05:30')))?.activity).toBe('FAJR Prayer');
+      expect((await repository.getEntryAt(at('13:45')))?.activity).toBe('ZUHR Prayer');
+      // Long slots stay current around shorter ones that start later
+      expect((await repository.getEntryAt(at('14:30')))?.activity).toBe('Office');
+      expect((await repository.getEntryAt(at('23:59')))?.activity).toBe('Night reading');
+      expect(await repository.getEntryAt(at('07:00'))).toBeNull();
+    });
+
+    test('should find the next entry', async () => {
+      expect((await repository.getNextEntry(at('04:00')))?.activity).toBe('Morning Walk');
+      expect((await repository.getNextEntry(at('05:00')))?.activity).toBe('FAJR Prayer');
+      expect((await repository.getNextEntry(at('13:00')))?.activity).toBe('ZUHR Prayer');
+      expect(await repository.getNextEntry(at('23:30'))).toBeNull();
+    });
+
+    test('should list entries starting within the window', async () => {
+      const upcoming = await repository.getUpcomingEntries(30, at('05:00'));
+      expect(upcoming.map(entry => entry.activity)).toEqual(['Morning Walk', 'FAJR Prayer']);
+
+      expect(await repository.getUpcomingEntries(15, at('06:00'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { TimetableStore } from '../src/services/TimetableStore';
+import { StoredTimetableRow } from '../src/models/StoredTimetableRow';
+
+describe('TimetableStore', () => {
+  const row = { timeSlot: '5:00 AM to 5:30 AM', activity: 'Morning Walk' };
+
+  test('should leave the CSV in charge without a database', async () => {
+    const store = new TimetableStore('ayesha');
+
+    expect(store.isAvailable()).toBe(false);
+    expect(await store.getRows()).toBeNull();
+    expect(await store.seed([row])).toBe(false);
+  });
+
+  test('should refuse edits without a database', async () => {
+    const store = new TimetableStore('ayesha');
+    const onChange = jest.fn();
+    store.onChange(onChange);
+
+    await expect(store.create(row)).rejects.toThrow('Database not connected');
+    await expect(store.update('6553a1c2e4b0a1b2c3d4e5f6', row)).rejects.toThrow('Database not connected');
+    await expect(store.remove('6553a1c2e4b0a1b2c3d4e5f6')).rejects.toThrow('Database not connected');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  describe('with a database', () => {
+    let store: TimetableStore;
+
+    beforeEach(() => {
+      store = new TimetableStore('ayesha');
+      jest.spyOn(store, 'isAvailable').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should not touch the stored timetable when an imported row is invalid', async () => {
+      const insertMany = jest.spyOn(StoredTimetableRow, 'insertMany').mockResolvedValue([] as any);
+      const deleteMany = jest.spyOn(StoredTimetableRow, 'deleteMany').mockResolvedValue({ deletedCount: 0 } as any);
+
+      await expect(store.replaceAll([row, { ...row, priority: 'urgent' as any }]))
+        .rejects.toThrow('Invalid timetable rows, nothing imported: row 2');
+      expect(insertMany).not.toHaveBeenCalled();
+      expect(deleteMany).not.toHaveBeenCalled();
+    });
+
+    test('should keep the old rows when inserting the new ones fails', async () => {
+      jest.spyOn(StoredTimetableRow, 'insertMany').mockRejectedValue(new Error('connection closed'));
+      const deleteMany = jest.spyOn(StoredTimetableRow, 'deleteMany').mockResolvedValue({ deletedCount: 0 } as any);
+
+      await expect(store.replaceAll([row])).rejects.toThrow('connection closed');
+      expect(deleteMany).toHaveBeenCalledTimes(1);
+      expect(deleteMany.mock.calls[0]?.[0]).toEqual({ _id: { $in: [expect.anything()] } });
+    });
+
+    test('should delete the old rows only after inserting the new ones', async () => {
+      const insertMany = jest.spyOn(StoredTimetableRow, 'insertMany').mockResolvedValue([] as any);
+      const deleteMany = jest.spyOn(StoredTimetableRow, 'deleteMany').mockResolvedValue({ deletedCount: 3 } as any);
+
+      expect(await store.replaceAll([row])).toBe(1);
+      expect(insertMany.mock.invocationCallOrder[0]).toBeLessThan(deleteMany.mock.invocationCallOrder[0] as number);
+      expect(deleteMany.mock.calls[0]?.[0]).toEqual({ userId: 'ayesha', _id: { $nin: [expect.anything()] } });
+    });
+
+    test('should clear the fields an edited row no longer has', async () => {
+      const findOneAndUpdate = jest.spyOn(StoredTimetableRow, 'findOneAndUpdate').mockReturnValue({
+        lean: async () => ({ _id: '6553a1c2e4b0a1b2c3d4e5f6', ...row, location: 'Park' })
+      } as any);
+
+      await store.update('6553a1c2e4b0a1b2c3d4e5f6', { ...row, location: 'Park' });
+
+      expect(findOneAndUpdate.mock.calls[0]?.[1]).toEqual({
+        $set: { ...row, day: '', location: 'Park' },
+        $unset: { category: 1, priority: 1, reminderMinutesBefore: 1, reminderOffsets: 1, tags: 1 }
+      });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TimetableParser } from '../src/services/TimetableParser';
+import { TimetableWatcher } from '../src/services/TimetableWatcher';
+
+describe('TimetableWatcher', () => {
+  const timetableFile = path.join(__dirname, 'test-watched-timetable.csv');
+  let watcher: TimetableWatcher;
+
+  beforeEach(() => {
+    fs.writeFileSync(timetableFile, `Time Slot,Activity
+5:00 AM to 5:30 AM,Morning Walk
+5:30 AM to 6:00 AM,FAJR Prayer
+8:00 AM to 9:00 AM,Office Work`);
+    watcher = new TimetableWatcher(new TimetableParser(timetableFile, 'Asia/Karachi'));
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    if (fs.existsSync(timetableFile)) {
+      fs.unlinkSync(timetableFile);
+    }
+  });
+
+  describe('diffRows', () => {
+    test('should report added, removed and changed slots', () => {
+      const diff = TimetableWatcher.diffRows(
+        [
+          { timeSlot: '5:00 AM to 5:30 AM', activity: 'Morning Walk' },
+          { timeSlot: '8:00 AM to 9:00 AM', activity: 'Office Work' }
+        ],
+        [
+          { timeSlot: '5:00 AM to 5:30 AM', activity: 'Morning Run' },
+          { timeSlot: '9:00 PM to 9:30 PM', activity: 'Evening Walk', day: 'Fri' }
+        ]
+      );
+
+      expect(diff.added.map(row => row.activity)).toEqual(['Evening Walk']);
+      expect(diff.removed.map(row => row.activity)).toEqual(['Office Work']);
+      expect(diff.changed).toEqual([{
+        before: { timeSlot: '5:00 AM to 5:30 AM', activity: 'Morning Walk' },
+        after: { timeSlot: '5:00 AM to 5:30 AM', activity: 'Morning Run' }
+      }]);
+      expect(TimetableWatcher.formatDiff(diff)).toBe([
+        '➕ 9:00 PM to 9:30 PM (Fri): Evening Walk',
+        '➖ 8:00 AM to 9:00 AM: Office Work',
+        '✏️ 5:00 AM to 5:30 AM: Morning Walk → Morning Run'
+      ].join('\n'));
+    });
+  });
+
+  describe('checkForChanges', () => {
+    test('should notify handlers with the diff when the file changes', async () => {
+      const handler = jest.fn();
+      watcher.onChange(handler);
+      await watcher.start();
+
+      fs.writeFileSync(timetableFile, `Time Slot,Activity
+5:00 AM to 5:30 AM,Morning Run
+5:30 AM to 6:00 AM,FAJR Prayer`);
+      const diff = await watcher.checkForChanges();
+
+      expect(diff?.changed.map(change => change.after.activity)).toEqual(['Morning Run']);
+      expect(diff?.removed.map(row => row.activity)).toEqual(['Office Work']);
+      expect(handler).toHaveBeenCalledWith(diff);
+    });
+
+    test('should stay quiet when the content did not change', async () => {
+      const handler = jest.fn();
+      watcher.onChange(handler);
+      await watcher.start();
+
+      fs.utimesSync(timetableFile, new Date(), new Date(Date.now() + 60000));
+
+      expect(await watcher.checkForChanges()).toBeNull();
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
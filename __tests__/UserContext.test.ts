@@ -0,0 +1,101 @@
+import { UserContext } from '../src/services/UserContext';
+import { MockWhatsAppService } from '../src/services/WhatsAppService';
+import { IUserProfile } from '../src/models/User';
+
+describe('UserContext', () => {
+  let whatsappService: MockWhatsAppService;
+
+  const user: IUserProfile = {
+    userId: 'ayesha',
+    name: 'Ayesha',
+    phone: '923001234567',
+    timezone: 'Europe/London',
+    timetableFile: 'ayesha-timetable.csv',
+    reminderMinutesBefore: 10,
+    activeHours: { start: '06:00', end: '22:00' },
+    isActive: true
+  };
+
+  beforeEach(async () => {
+    whatsappService = new MockWhatsAppService({ isMock: true, phoneNumber: '+923014440289' });
+    await whatsappService.initialize();
+  });
+
+  test('should build services from the user profile', async () => {
+    const context = new UserContext(user, whatsappService);
+    await (context.activityTracker as any).extractWakeSleepTimes();
+
+    expect(context.timetableParser.getTimezone()).toBe('Europe/London');
+    expect(context.activityTracker.getStatus().activeHours).toBe('06:00 - 22:00');
+    expect(context.isContextRunning()).toBe(false);
+  });
+
+  test('should reply to commands on the user\'s own number', async () => {
+    const context = new UserContext(user, whatsappService);
+
+    await context.handleMessage({ from: '923001234567', text: 'help', timestamp: new Date() });
+
+    const [reply] = whatsappService.getSentMessages();
+    expect(reply?.recipient).toBe('923001234567');
+    expect(reply?.message).toContain('BarakahTracker Commands');
+  });
+
+  test('should ignore empty messages', async () => {
+    const context = new UserContext(user, whatsappService);
+
+    await context.handleMessage({ from: '923001234567', text: '   ', timestamp: new Date() });
+
+    expect(whatsappService.getMessageCount()).toBe(0);
+  });
+
+  test('should keep dashboard edits to the stored timetable when the CSV changes', async () => {
+    const context = new UserContext(user, whatsappService);
+    // Edited on the dashboard, while the CSV still has the walk
+    jest.spyOn(context.timetableStore, 'getRows').mockResolvedValue([{ timeSlot: '5:00 AM to 5:30 AM', activity: 'Morning Run' }]);
+    const replaceAll = jest.spyOn(context.timetableStore, 'replaceAll');
+    const reload = jest.spyOn(context, 'reload').mockResolvedValue();
+
+    await (context as any).onTimetableFileChange({
+      added: [{ timeSlot: '9:00 PM to 9:30 PM', activity: 'Evening Walk' }],
+      removed: [],
+      changed: []
+    });
+
+    expect(replaceAll).not.toHaveBeenCalled();
+    expect(reload).not.toHaveBeenCalled();
+    const [message] = whatsappService.getSentMessages();
+    expect(message?.message).toContain('➕ 9:00 PM to 9:30 PM: Evening Walk');
+    expect(message?.message).toContain('Import from CSV');
+  });
+
+  test('should tell the user about timetable file changes in their language', async () => {
+    const context = new UserContext({ ...user, language: 'ur' }, whatsappService);
+    jest.spyOn(context.timetableStore, 'getRows').mockResolvedValue(null);
+    jest.spyOn(context, 'reload').mockResolvedValue();
+
+    await (context as any).onTimetableFileChange({
+      added: [{ timeSlot: '9:00 PM to 9:30 PM', activity: 'Evening Walk', day: 'Fri' }],
+      removed: [],
+      changed: []
+    });
+
+    const [message] = whatsappService.getSentMessages();
+    expect(message?.message).toContain('ٹائم ٹیبل بدل گیا');
+    expect(message?.message).toContain('➕ 9:00 PM to 9:30 PM (Fri): Evening Walk');
+  });
+
+  test('should keep a schedule profile switched to by command after a restart', async () => {
+    const profiles = { ...user, scheduleProfiles: [{ name: 'ramadan', timetableFile: 'ayesha-ramadan.csv' }] };
+    const saved: IUserProfile = { ...profiles };
+    const context = new UserContext(profiles, whatsappService);
+    context.onProfileChange(profile => {
+      saved.selectedProfile = profile || undefined;
+    });
+
+    expect(await context.switchProfile('ramadan')).toBe(true);
+    const restarted = new UserContext(saved, whatsappService);
+
+    expect(restarted.timetableParser.getActiveProfile().name).toBe('ramadan');
+    expect(restarted.timetableParser.getProfileSelection()).toBe('ramadan');
+  });
+});
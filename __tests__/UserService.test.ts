@@ -0,0 +1,162 @@
+import { UserService } from '../src/services/UserService';
+import { ConfigService } from '../src/config/ConfigService';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IUserProfile, User } from '../src/models/User';
+
+describe('UserService', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  const profile = (overrides: Partial<IUserProfile> = {}): IUserProfile => ({
+    userId: 'ayesha',
+    name: 'Ayesha',
+    phone: '923001234567',
+    timezone: 'Asia/Karachi',
+    timetableFile: 'ayesha-timetable.csv',
+    reminderMinutesBefore: 10,
+    isActive: true,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    process.env.WHATSAPP_PHONE_NUMBER = '+92 301 4440289';
+    process.env.TIMETABLE_FILE = 'muneeb-timetable.csv';
+    process.env.TIMEZONE = 'Asia/Karachi';
+    process.env.REMINDER_MINUTES_BEFORE = '15';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    (ConfigService as any).instance = undefined;
+    (UserService as any).instance = undefined;
+  });
+
+  describe('getDefaultUser', () => {
+    test('should build the primary user from configuration', () => {
+      const user = UserService.getInstance().getDefaultUser();
+
+      expect(user).toMatchObject({
+        userId: 'default',
+        phone: '923014440289',
+        timezone: 'Asia/Karachi',
+        timetableFile: 'muneeb-timetable.csv',
+        reminderMinutesBefore: 15,
+        isActive: true
+      });
+    });
+  });
+
+  describe('getUsers', () => {
+    test('should only return the primary user without a database', async () => {
+      const users = await UserService.getInstance().getUsers();
+
+      expect(users.map(user => user.userId)).toEqual(['default']);
+    });
+  });
+
+  describe('createUser', () => {
+    test('should require a database connection', async () => {
+      await expect(UserService.getInstance().createUser({ userId: 'ayesha', name: 'Ayesha', phone: '+923001234567' }))
+        .rejects.toThrow('Database not connected');
+    });
+
+    test('should only accept existing files inside the timetable directory', async () => {
+      const timetableDir = fs.mkdtempSync(path.join(os.tmpdir(), 'barakah-users-'));
+      fs.writeFileSync(path.join(timetableDir, 'ayesha.csv'), 'Time Slot,Activity\n');
+      process.env.TIMETABLE_DIR = timetableDir;
+      const service = UserService.getInstance();
+      jest.spyOn(service as any, 'isDbConnected').mockReturnValue(true);
+      jest.spyOn(User, 'find').mockReturnValue({ lean: async () => [] } as any);
+      const create = jest.spyOn(User, 'create').mockImplementation(async (profile: any) => ({ toObject: () => profile }) as any);
+
+      try {
+        await expect(service.createUser({ userId: 'ayesha', name: 'Ayesha', phone: '+923001234567', timetableFile: '/etc/passwd.csv' }))
+          .rejects.toThrow('File should be a path inside the timetable directory: /etc/passwd.csv');
+        await expect(service.createUser({ userId: 'ayesha', name: 'Ayesha', phone: '+923001234567', timetableFile: 'family/../../.env' }))
+          .rejects.toThrow('File should be a path inside the timetable directory');
+        await expect(service.createUser({ userId: 'ayesha', name: 'Ayesha', phone: '+923001234567', calendarFile: 'notes.txt' }))
+          .rejects.toThrow('Unsupported file type: notes.txt (use .ics)');
+        await expect(service.createUser({ userId: 'ayesha', name: 'Ayesha', phone: '+923001234567', timetableFile: 'aysha.csv' }))
+          .rejects.toThrow(`Timetable file not found: ${path.join(timetableDir, 'aysha.csv')}`);
+        expect(create).not.toHaveBeenCalled();
+
+        const user = await service.createUser({ userId: 'ayesha', name: 'Ayesha', phone: '+923001234567', timetableFile: 'ayesha.csv' });
+        expect(user.timetableFile).toBe(path.join(timetableDir, 'ayesha.csv'));
+      } finally {
+        jest.restoreAllMocks();
+        fs.rmSync(timetableDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('parseRegistration', () => {
+    test('should keep the fields a registration may set', () => {
+      expect(UserService.parseRegistration({
+        userId: 'ayesha',
+        name: 'Ayesha',
+        phone: '+923001234567',
+        reminderMinutesBefore: '10',
+        reminderOffsets: [{ category: 'prayer', offsets: ['-10', 0] }]
+      })).toMatchObject({
+        userId: 'ayesha',
+        reminderMinutesBefore: 10,
+        reminderOffsets: [{ category: 'prayer', offsets: [-10, 0] }]
+      });
+    });
+
+    test('should refuse unknown fields and values of the wrong type', () => {
+      expect(() => UserService.parseRegistration({ userId: 'ayesha', isActive: false, _id: 'x' }))
+        .toThrow('Unknown field(s): isActive, _id');
+      expect(() => UserService.parseRegistration({ userId: 'ayesha', timetableFile: { $ne: '' } }))
+        .toThrow('timetableFile should be text');
+      expect(() => UserService.parseRegistration('ayesha')).toThrow('Registration should be a JSON object');
+    });
+  });
+
+  describe('validateUser', () => {
+    test('should accept a valid profile', () => {
+      expect(UserService.getInstance().validateUser(profile({ activeHours: { start: '06:00', end: '22:00' } }))).toEqual([]);
+    });
+
+    test('should report invalid fields', () => {
+      const errors = UserService.getInstance().validateUser(profile({
+        userId: 'Ayesha Khan',
+        phone: '12345',
+        timezone: 'Mars/Base',
+        activeHours: { start: '6 AM', end: '22:00' }
+      }));
+
+      expect(errors).toEqual([
+        'User id should contain only letters, numbers, "-" and "_"',
+        'Phone number should include the country code',
+        'Unknown timezone: Mars/Base',
+        'Active hours should be 24-hour times like 05:00 and 23:30'
+      ]);
+    });
+
+    test('should reject reminder minutes that are not a whole number', () => {
+      const reminderMinutes = UserService.parseRegistration({ reminderMinutesBefore: 'soon' }).reminderMinutesBefore as number;
+
+      expect(UserService.getInstance().validateUser(profile({ reminderMinutesBefore: reminderMinutes })))
+        .toEqual(['Reminder minutes should be a whole number between 0 and 120']);
+      expect(UserService.getInstance().validateUser(profile({ reminderMinutesBefore: 7.5 }))).toHaveLength(1);
+    });
+  });
+
+  describe('phone matching', () => {
+    test('should match numbers written in different formats', () => {
+      expect(UserService.phonesMatch('+92 301 4440289', '03014440289')).toBe(true);
+      expect(UserService.phonesMatch('923014440289', '923001234567')).toBe(false);
+      expect(UserService.phonesMatch('', '923014440289')).toBe(false);
+    });
+
+    test('should find the user a number belongs to', () => {
+      const users = [profile({ userId: 'default', phone: '923014440289' }), profile()];
+
+      expect(UserService.findByPhone(users, '+92 300 1234567')?.userId).toBe('ayesha');
+      expect(UserService.findByPhone(users, '+44 7700 900123')).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
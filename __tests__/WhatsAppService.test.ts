@@ -1,4 +1,4 @@
-import { MockWhatsAppService, WhatsAppServiceFactory } from '../src/services/WhatsAppService';
+import { IncomingWhatsAppMessage, MockWhatsAppService, WhatsAppServiceFactory } from '../src/services/WhatsAppService';
 import { WhatsAppConfig } from '../src/types';
 
 describe('WhatsAppService', () => {
@@ -73,6 +73,32 @@ describe('WhatsAppService', () => {
       await mockService.disconnect();
       expect(mockService.isConnected()).toBe(false);
     });
+
+    test('should deliver simulated incoming messages to handlers', async () => {
+      const received: IncomingWhatsAppMessage[] = [];
+      mockService.onMessage(message => {
+        received.push(message);
+      });
+
+      await mockService.simulateIncomingMessage('+92 301 4440289', 'Working on project 💪');
+
+      expect(received).toHaveLength(1);
+      expect(received[0]?.from).toBe('923014440289');
+      expect(received[0]?.text).toBe('Working on project 💪');
+      expect(received[0]?.timestamp).toBeInstanceOf(Date);
+    });
+
+    test('should keep dispatching when a handler throws', async () => {
+      const secondHandler = jest.fn();
+      mockService.onMessage(() => {
+        throw new Error('Handler failed');
+      });
+      mockService.onMessage(secondHandler);
+
+      await mockService.simulateIncomingMessage('+1234567890', 'status');
+
+      expect(secondHandler).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('WhatsAppServiceFactory', () => {
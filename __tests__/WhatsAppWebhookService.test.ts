@@ -0,0 +1,178 @@
+import { WhatsAppWebhookService } from '../src/services/WhatsAppWebhookService';
+import * as crypto from 'crypto';
+
+describe('WhatsAppWebhookService', () => {
+  let webhookService: WhatsAppWebhookService;
+
+  const sign = (body: string, secret: string): string =>
+    'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  const messagePayload = {
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'WABA_ID',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { display_phone_number: '15550000000', phone_number_id: 'PHONE_ID' },
+          contacts: [{ profile: { name: 'Muneeb' }, wa_id: '923014440289' }],
+          messages: [{
+            from: '923014440289',
+            id: 'wamid.ABC',
+            timestamp: '1762750800',
+            type: 'text',
+            text: { body: 'Working on project 💪' }
+          }]
+        }
+      }]
+    }]
+  };
+
+  beforeEach(() => {
+    webhookService = new WhatsAppWebhookService({
+      verifyToken: 'verify-me',
+      appSecret: 'app-secret'
+    });
+  });
+
+  describe('verifyChallenge', () => {
+    test('should echo the challenge for a matching token', () => {
+      expect(webhookService.verifyChallenge('subscribe', 'verify-me', '12345')).toBe('12345');
+    });
+
+    test('should reject a wrong token', () => {
+      expect(webhookService.verifyChallenge('subscribe', 'wrong', '12345')).toBeNull();
+    });
+
+    test('should reject when no verify token is configured', () => {
+      const service = new WhatsAppWebhookService({ appSecret: 'app-secret' });
+      expect(service.verifyChallenge('subscribe', '', '12345')).toBeNull();
+    });
+  });
+
+  describe('verifySignature', () => {
+    test('should accept a correctly signed body', () => {
+      const body = JSON.stringify(messagePayload);
+      expect(webhookService.verifySignature(Buffer.from(body), sign(body, 'app-secret'))).toBe(true);
+    });
+
+    test('should reject a body signed with another secret', () => {
+      const body = JSON.stringify(messagePayload);
+      expect(webhookService.verifySignature(Buffer.from(body), sign(body, 'other-secret'))).toBe(false);
+    });
+
+    test('should reject a malformed signature without throwing', () => {
+      const body = '{"object":"whatsapp_business_account"}';
+      const malformed = `sha256=${'z'.repeat(64)}`;
+
+      expect(webhookService.verifySignature(Buffer.from(body), malformed)).toBe(false);
+      expect(webhookService.verifySignature(Buffer.from(body), `sha256=${sign(body, 'app-secret').slice(7, 40)}`)).toBe(false);
+    });
+
+    test('should reject a missing signature header', () => {
+      expect(webhookService.verifySignature(Buffer.from('{}'), undefined)).toBe(false);
+    });
+
+    test('should only accept unsigned payloads when explicitly allowed', () => {
+      const strict = new WhatsAppWebhookService({ verifyToken: 'verify-me' });
+      const relaxed = new WhatsAppWebhookService({ verifyToken: 'verify-me', allowUnsigned: true });
+
+      expect(strict.verifySignature(Buffer.from('{}'), undefined)).toBe(false);
+      expect(relaxed.verifySignature(Buffer.from('{}'), undefined)).toBe(true);
+    });
+  });
+
+  describe('parsePayload', () => {
+    test('should parse text messages', () => {
+      const events = webhookService.parsePayload(messagePayload);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toEqual({
+        type: 'message',
+        messageId: 'wamid.ABC',
+        from: '923014440289',
+        timestamp: new Date(1762750800 * 1000),
+        messageType: 'text',
+        text: 'Working on project 💪',
+        contactName: 'Muneeb'
+      });
+    });
+
+    test('should parse reply button and list choices with their ids', () => {
+      const reply = (interactive: any) => ({
+        ...messagePayload,
+        entry: [{
+          id: 'WABA_ID',
+          changes: [{
+            field: 'messages',
+            value: { messages: [{ from: '923014440289', id: 'wamid.DEF', timestamp: '1762750800', type: 'interactive', interactive }] }
+          }]
+        }]
+      });
+
+      const [button] = webhookService.parsePayload(reply({ type: 'button_reply', button_reply: { id: 'checkin:planned:1762750800000', title: '✅ Doing planned' } }));
+      const [row] = webhookService.parsePayload(reply({ type: 'list_reply', list_reply: { id: 'mood:0:1762750800000', title: '😊 Happy' } }));
+
+      expect(button).toEqual(expect.objectContaining({ messageType: 'interactive', text: '✅ Doing planned', replyId: 'checkin:planned:1762750800000' }));
+      expect(row).toEqual(expect.objectContaining({ text: '😊 Happy', replyId: 'mood:0:1762750800000' }));
+    });
+
+    test('should parse delivery statuses with errors', () => {
+      const events = webhookService.parsePayload({
+        object: 'whatsapp_business_account',
+        entry: [{
+          changes: [{
+            field: 'messages',
+            value: {
+              statuses: [{
+                id: 'wamid.XYZ',
+                status: 'failed',
+                timestamp: '1762750800',
+                recipient_id: '923014440289',
+                errors: [{ code: 131047, title: 'Re-engagement message', error_data: { details: '24h window' } }]
+              }]
+            }
+          }]
+        }]
+      });
+
+      expect(events).toEqual([{
+        type: 'status',
+        messageId: 'wamid.XYZ',
+        status: 'failed',
+        recipientId: '923014440289',
+        timestamp: new Date(1762750800 * 1000),
+        errors: [{ code: 131047, title: 'Re-engagement message', details: '24h window' }]
+      }]);
+    });
+
+    test('should parse top-level errors', () => {
+      const events = webhookService.parsePayload({
+        object: 'whatsapp_business_account',
+        entry: [{ changes: [{ field: 'messages', value: { errors: [{ code: 130429, title: 'Rate limit hit' }] } }] }]
+      });
+
+      expect(events).toEqual([{ type: 'error', error: { code: 130429, title: 'Rate limit hit' } }]);
+    });
+
+    test('should ignore unrelated payloads', () => {
+      expect(webhookService.parsePayload({ object: 'page', entry: [] })).toEqual([]);
+      expect(webhookService.parsePayload(null)).toEqual([]);
+    });
+  });
+
+  describe('handlePayload', () => {
+    test('should hand parsed events to registered handlers', async () => {
+      const handler = jest.fn();
+      webhookService.onEvent(handler);
+
+      await webhookService.handlePayload(messagePayload);
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'message',
+        text: 'Working on project 💪'
+      }));
+    });
+  });
+});
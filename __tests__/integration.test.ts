@@ -1,18 +1,28 @@
 import { ReminderChatBot } from '../src/ReminderChatBot';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 describe('ReminderChatBot Integration Tests', () => {
   let chatBot: ReminderChatBot;
+  let testDir: string;
   let testTimetableFile: string;
   let originalEnv: NodeJS.ProcessEnv;
 
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'barakah-integration-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
   beforeEach(() => {
     // Save original environment
     originalEnv = { ...process.env };
 
     // Create test timetable file
-    testTimetableFile = path.join(process.cwd(), 'test-integration-timetable.csv');
+    testTimetableFile = path.join(testDir, 'test-integration-timetable.csv');
     const currentTime = new Date();
     const futureTime = new Date(currentTime.getTime() + 30 * 60 * 1000); // 30 minutes from now
     const futureTimeStr = futureTime.toLocaleTimeString('en-US', { 
@@ -1,42 +1,50 @@
-import * as path from 'path';
 import * as os from 'os';
 import { ConfigService } from './config/ConfigService';
-import { TimetableParser } from './services/TimetableParser';
-import { WhatsAppServiceFactory, IWhatsAppService } from './services/WhatsAppService';
-import { SchedulerService } from './services/SchedulerService';
+import { WhatsAppServiceFactory, IWhatsAppService, IncomingWhatsAppMessage } from './services/WhatsAppService';
 import { KeepAliveService } from './services/KeepAliveService';
 import { WebDashboardService } from './services/WebDashboardService';
+import { WhatsAppWebhookService } from './services/WhatsAppWebhookService';
 import { DatabaseService } from './services/DatabaseService';
+import { OutboundMessageQueue } from './services/OutboundMessageQueue';
 import { MemoryMonitorService } from './services/MemoryMonitorService';
 import { MemoryCleanupService } from './services/MemoryCleanupService';
-import { ActivityTracker } from './services/ActivityTracker';
+import { UserService } from './services/UserService';
+import { UserContext } from './services/UserContext';
+import { CategoryService } from './services/CategoryService';
+import { MessageTemplateService } from './services/MessageTemplateService';
+import { TimetableLinter, TimetableLintReport } from './services/TimetableLinter';
+import { TimeEntryRangeMigration } from './migrations/TimeEntryRangeMigration';
+import { IUserProfile } from './models/User';
 
 export class ReminderChatBot {
   private configService: ConfigService;
-  private timetableParser!: TimetableParser;
+  private userService: UserService;
   private whatsappService!: IWhatsAppService;
-  private schedulerService!: SchedulerService;
+  private outboundQueue!: OutboundMessageQueue;
+  private userContexts: Map<string, UserContext> = new Map();
+  private categories!: CategoryService;
   private keepAliveService!: KeepAliveService;
   private webDashboardService!: WebDashboardService;
+  private webhookService!: WhatsAppWebhookService;
   private memoryMonitor!: MemoryMonitorService;
   private memoryCleanup!: MemoryCleanupService;
-  private activityTracker!: ActivityTracker;
   private isRunning = false;
 
   constructor() {
     this.configService = ConfigService.getInstance();
+    this.userService = UserService.getInstance();
     this.initializeServices();
   }
 
   private initializeServices(): void {
     const config = this.configService.getConfig();
-    
-    // Initialize timetable parser
-    const timetableFilePath = path.resolve(process.cwd(), config.timetableFile);
-    this.timetableParser = new TimetableParser(timetableFilePath);
 
-    // Initialize WhatsApp service
-    this.whatsappService = WhatsAppServiceFactory.create(config.whatsappConfig);
+    // Activity categories shared by every user's reminders, check-ins and dashboard
+    this.categories = CategoryService.fromFile(config.categoriesFile);
+
+    // Initialize WhatsApp service; every message goes out through the queue, which retries failed sends
+    this.outboundQueue = new OutboundMessageQueue(WhatsAppServiceFactory.create(config.whatsappConfig), config.outboundQueue);
+    this.whatsappService = this.outboundQueue;
     
     // Set up callback for when WhatsApp is ready (connects to database)
     if (this.whatsappService.setOnReadyCallback) {
@@ -45,29 +53,61 @@ export class ReminderChatBot {
       });
     }
 
-    // Initialize scheduler service
-    this.schedulerService = new SchedulerService(
-      this.timetableParser,
-      this.whatsappService,
-      config.reminderConfig,
-      this.configService.getRecipientPhone()
-    );
+    // Initialize the primary user's timetable, reminders, check-ins and chat commands
+    // Family members stored in MongoDB are added once the database connects
+    this.addUserContext(this.userService.getDefaultUser());
 
-    // Initialize activity tracker for 30-minute check-ins
-    this.activityTracker = new ActivityTracker(
-      this.timetableParser,
-      this.whatsappService,
-      this.configService.getRecipientPhone()
-    );
+    // Route inbound WhatsApp replies to the sender's command router and activity tracker
+    this.whatsappService.onMessage(async (message) => {
+      await this.handleIncomingMessage(message);
+    });
 
     // Initialize keep-alive service for production deployments
     // Use a different port than the web dashboard to avoid conflicts
     const keepAlivePort = parseInt(process.env.KEEP_ALIVE_PORT || '3000', 10);
     this.keepAliveService = new KeepAliveService(keepAlivePort);
     
+    // Initialize WhatsApp Cloud API webhook receiver (inbound half of the Business API transport)
+    this.webhookService = new WhatsAppWebhookService({
+      verifyToken: config.whatsappConfig.webhookVerifyToken,
+      appSecret: config.whatsappConfig.appSecret,
+      allowUnsigned: config.whatsappConfig.isMock || false
+    });
+    this.webhookService.onEvent(async (event) => {
+      if (event.type === 'message' && event.text && this.whatsappService.receiveMessage) {
+        await this.whatsappService.receiveMessage({
+          from: event.from,
+          text: event.text,
+          timestamp: event.timestamp,
+          messageId: event.messageId,
+          replyId: event.replyId
+        });
+      }
+    });
+
     // Initialize web dashboard service for health checks and monitoring
     const port = parseInt(process.env.PORT || '3001', 10);
-    this.webDashboardService = new WebDashboardService(port, this.timetableParser);
+    this.webDashboardService = new WebDashboardService(port, this.defaultContext.timetableRepository, this.webhookService, {
+      getTimetable: (userId) => this.userContexts.get(userId)?.timetableRepository,
+      getTimetableStore: (userId) => this.userContexts.get(userId)?.timetableStore,
+      getScheduleOverrides: (userId) => this.userContexts.get(userId)?.scheduleOverrides,
+      getCheckInSlots: (userId) => this.userContexts.get(userId)?.checkInSlots,
+      getCategories: (userId) => this.userContexts.get(userId)?.categories,
+      getMessageTemplates: (userId) => this.userContexts.get(userId)?.messages,
+      listUsers: () => Array.from(this.userContexts.values()).map(context => ({
+        userId: context.user.userId,
+        name: context.user.name
+      })),
+      createUser: async (input) => {
+        const user = await this.userService.createUser(input);
+        const context = this.addUserContext(user);
+        await context.seedTimetable();
+        if (this.isRunning) {
+          await context.start();
+        }
+        return { userId: user.userId, name: user.name };
+      }
+    }, this.outboundQueue, config.dashboardAdminToken);
     
     // Initialize memory monitoring service
     this.memoryMonitor = MemoryMonitorService.getInstance();
@@ -76,6 +116,61 @@ export class ReminderChatBot {
     this.memoryCleanup = MemoryCleanupService.getInstance();
   }
 
+  /**
+   * The primary user's context (configured through .env)
+   */
+  private get defaultContext(): UserContext {
+    return this.userContexts.get(UserService.DEFAULT_USER_ID) as UserContext;
+  }
+
+  /**
+   * Create the services for a user (not started yet)
+   */
+  private addUserContext(user: IUserProfile): UserContext {
+    const context = new UserContext(
+      user,
+      this.whatsappService,
+      this.configService.getPrayerTimesConfig(),
+      this.categories,
+      this.configService.getTemplatesFile()
+    );
+    context.onProfileChange(profile => this.userService.saveProfileSelection(user.userId, profile));
+    this.userContexts.set(user.userId, context);
+    return context;
+  }
+
+  /**
+   * Start contexts for users stored in MongoDB that aren't running yet,
+   * and seed each user's stored timetable from their CSV
+   */
+  private async loadStoredUsers(): Promise<void> {
+    const users = await this.userService.getUsers();
+
+    for (const user of users) {
+      const existing = this.userContexts.get(user.userId);
+      if (existing) {
+        // Started before the database connected, so without the profile it was switched to before a restart
+        await existing.restoreProfileSelection(await this.userService.getProfileSelection(user.userId));
+        await existing.seedTimetable();
+        continue;
+      }
+
+      const context = this.addUserContext(user);
+      if (!(await context.timetableParser.validateTimetableFile())) {
+        console.error(`❌ Timetable file not found for ${user.userId}: ${user.timetableFile}`);
+        this.userContexts.delete(user.userId);
+        continue;
+      }
+
+      await context.seedTimetable();
+      if (this.isRunning) {
+        await context.start();
+      }
+    }
+
+    console.log(`👥 Serving ${this.userContexts.size} user(s): ${Array.from(this.userContexts.keys()).join(', ')}`);
+  }
+
   /**
    * Get current IP addresses for MongoDB whitelisting
    */
@@ -182,19 +277,25 @@ export class ReminderChatBot {
       }
 
       // Validate timetable file
-      const isValidTimetable = await this.timetableParser.validateTimetableFile();
+      const isValidTimetable = await this.defaultContext.timetableParser.validateTimetableFile();
       if (!isValidTimetable) {
         throw new Error(`Timetable file not found: ${this.configService.getTimetableFile()}`);
       }
 
+      // Check the timetable lines up with the dashboard's 30-minute slots (strict mode refuses to start otherwise)
+      const lintReport = await this.lintTimetable();
+      TimetableLinter.printReport(lintReport);
+      if (TimetableLinter.isBlocking(lintReport, this.configService.isTimetableLintStrict())) {
+        throw new Error('Timetable lint failed (TIMETABLE_LINT_STRICT is on) - fix the issues above or run "lint" for details');
+      }
+
       // Parse and display timetable summary
       await this.displayTimetableSummary();
 
-      // Start scheduler service
-      await this.schedulerService.start();
-
-      // Start activity tracker for 30-minute check-ins
-      await this.activityTracker.start();
+      // Start each user's scheduler and 30-minute activity tracker
+      for (const context of this.userContexts.values()) {
+        await context.start();
+      }
 
       // Start web dashboard service for health checks and monitoring
       await this.webDashboardService.start();
@@ -237,7 +338,16 @@ export class ReminderChatBot {
       await dbService.connect();
       
       console.log('✅ Database connected successfully after WhatsApp authentication');
+
+      // Tracking recorded by older versions has no start and end times, which check-ins look entries up by
+      if (await TimeEntryRangeMigration.countPending() > 0) {
+        const result = await new TimeEntryRangeMigration(this.userService).run();
+        console.log(`✅ ${result.documents} day(s) of tracking migrated: ${result.migrated} entries migrated, ${result.merged} duplicates merged, ${result.skipped} kept as legacy`);
+      }
       console.log('📊 Activity tracking is now available');
+
+      // Family members are stored in MongoDB
+      await this.loadStoredUsers();
       
     } catch (error) {
       console.error('⚠️  Database connection failed after WhatsApp ready:', error);
@@ -248,6 +358,24 @@ export class ReminderChatBot {
     }
   }
 
+  /**
+   * Hand an inbound WhatsApp message to the user it came from
+   */
+  private async handleIncomingMessage(message: IncomingWhatsAppMessage): Promise<void> {
+    const contexts = Array.from(this.userContexts.values());
+    const context = contexts.find(candidate => UserService.phonesMatch(candidate.user.phone, message.from));
+    if (!context) {
+      console.log(`🚫 Ignoring message from unknown number: ${message.from}`);
+      return;
+    }
+
+    try {
+      await context.handleMessage(message);
+    } catch (error) {
+      console.error(`❌ Failed to handle incoming WhatsApp message for ${context.user.userId}:`, error);
+    }
+  }
+
   public async stop(): Promise<void> {
     if (!this.isRunning) {
       console.log('⚠️ ChatBot is not running');
@@ -267,11 +395,10 @@ export class ReminderChatBot {
       // Stop web dashboard service
       await this.webDashboardService.stop();
 
-      // Stop activity tracker
-      await this.activityTracker.stop();
-
-      // Stop scheduler service
-      await this.schedulerService.stop();
+      // Stop each user's activity tracker and scheduler
+      for (const context of this.userContexts.values()) {
+        await context.stop();
+      }
 
       // Disconnect WhatsApp service
       await this.whatsappService.disconnect();
@@ -285,8 +412,8 @@ export class ReminderChatBot {
 
   private async displayTimetableSummary(): Promise<void> {
     try {
-      const parsedTimetable = await this.timetableParser.parseTimetable();
-      const todayEntries = await this.timetableParser.getTodaySchedule();
+      const parsedTimetable = await this.defaultContext.timetableParser.parseTimetable();
+      const todayEntries = await this.defaultContext.timetableRepository.getTodaySchedule();
 
       console.log('📋 Timetable Summary:');
       console.log(`   📊 Total Entries: ${parsedTimetable.metadata.totalEntries}`);
@@ -334,7 +461,7 @@ export class ReminderChatBot {
 
   public async testReminder(): Promise<void> {
     try {
-      const todayEntries = await this.timetableParser.getTodaySchedule();
+      const todayEntries = await this.defaultContext.timetableRepository.getTodaySchedule();
       
       if (todayEntries.length === 0) {
         console.log('📝 No entries found for testing. Creating a mock entry...');
@@ -347,12 +474,12 @@ export class ReminderChatBot {
           endTime: new Date(Date.now() + 35 * 60 * 1000)   // 35 minutes from now
         };
         
-        await this.schedulerService.testReminder(mockEntry);
+        await this.defaultContext.schedulerService.testReminder(mockEntry);
       } else {
         // Test with the first entry
         const firstEntry = todayEntries[0];
         if (firstEntry) {
-          await this.schedulerService.testReminder(firstEntry);
+          await this.defaultContext.schedulerService.testReminder(firstEntry);
         }
       }
       
@@ -367,24 +494,48 @@ export class ReminderChatBot {
     scheduledReminders: number;
     isMockMode: boolean;
     timetableFile: string;
+    users: number;
   } {
+    let scheduledReminders = 0;
+    this.userContexts.forEach(context => {
+      scheduledReminders += context.schedulerService.getRemindersCount();
+    });
+
     return {
       isRunning: this.isRunning,
-      scheduledReminders: this.schedulerService ? this.schedulerService.getRemindersCount() : 0,
+      scheduledReminders,
       isMockMode: this.configService.isMockMode(),
-      timetableFile: this.configService.getTimetableFile()
+      timetableFile: this.configService.getTimetableFile(),
+      users: this.userContexts.size
     };
   }
 
-  public async getScheduledReminders(): Promise<any[]> {
-    if (!this.schedulerService) {
+  public async getScheduledReminders(userId: string = UserService.DEFAULT_USER_ID): Promise<any[]> {
+    const context = this.userContexts.get(userId);
+    if (!context) {
       return [];
     }
-    return this.schedulerService.getScheduledReminders();
+    return context.schedulerService.getScheduledReminders();
   }
 
-  public async getTodaySchedule(): Promise<any[]> {
-    return await this.timetableParser.getTodaySchedule();
+  public async getTodaySchedule(userId: string = UserService.DEFAULT_USER_ID): Promise<any[]> {
+    const context = this.userContexts.get(userId);
+    return context ? await context.timetableRepository.getTodaySchedule() : [];
+  }
+
+  /**
+   * Lint a user's active timetable for overlaps, gaps and slots off the 30-minute grid
+   */
+  public async lintTimetable(userId: string = UserService.DEFAULT_USER_ID): Promise<TimetableLintReport> {
+    const context = this.userContexts.get(userId) || this.defaultContext;
+    return new TimetableLinter(context.timetableParser).lint();
+  }
+
+  /**
+   * A user's message templates, for listing and previewing them
+   */
+  public getMessageTemplates(userId: string = UserService.DEFAULT_USER_ID): MessageTemplateService {
+    return (this.userContexts.get(userId) || this.defaultContext).messages;
   }
 
   /**
@@ -1,11 +1,20 @@
 import * as dotenv from 'dotenv';
-import { ChatBotConfig, ReminderConfig, WhatsAppConfig } from '../types';
+import moment from 'moment-timezone';
+import { AsrMadhab, ChatBotConfig, CheckInConfig, OutboundQueueConfig, PrayerCalculationMethod, PrayerTimesConfig, ReminderConfig, CategoryReminderOffsets, ScheduleProfile, WhatsAppConfig } from '../types';
+import { ASR_MADHABS, CALCULATION_METHODS } from '../services/PrayerTimesService';
+import { TimetableParser } from '../services/TimetableParser';
+import { CheckInSlotPlanner } from '../services/CheckInSlotPlanner';
+import { SchedulerService } from '../services/SchedulerService';
+import { DEFAULT_LANGUAGE, LocaleService } from '../services/LocaleService';
+import { DEFAULT_OUTBOUND_QUEUE_CONFIG, OutboundMessageQueue } from '../services/OutboundMessageQueue';
+import { TemplateEngine } from '../services/TemplateEngine';
 
 // Load environment variables
 dotenv.config();
 
 export class ConfigService {
   private static instance: ConfigService;
+  public static readonly DEFAULT_TIMEZONE = 'Asia/Karachi';
   private config: ChatBotConfig;
 
   private constructor() {
@@ -22,7 +31,9 @@ export class ConfigService {
   private loadConfig(): ChatBotConfig {
     const reminderConfig: ReminderConfig = {
       minutesBefore: parseInt(process.env.REMINDER_MINUTES_BEFORE || '15', 10),
-      message: process.env.CUSTOM_REMINDER_MESSAGE
+      message: process.env.CUSTOM_REMINDER_MESSAGE,
+      offsets: this.loadCategoryOffsets('REMINDER_OFFSETS'),
+      escalation: this.loadCategoryOffsets('REMINDER_ESCALATION')
     };
 
     const whatsappConfig: WhatsAppConfig = {
@@ -37,13 +48,97 @@ export class ConfigService {
       accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
       phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
       webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
+      appSecret: process.env.WHATSAPP_APP_SECRET,
       apiVersion: process.env.WHATSAPP_API_VERSION || 'v21.0'
     };
 
     return {
       timetableFile: process.env.TIMETABLE_FILE || 'muneeb-timetable.csv',
+      timetableDir: process.env.TIMETABLE_DIR || '.',
+      timezone: process.env.TIMEZONE || ConfigService.DEFAULT_TIMEZONE,
       reminderConfig,
-      whatsappConfig
+      whatsappConfig,
+      prayerTimes: this.loadPrayerTimesConfig(),
+      scheduleProfiles: this.loadScheduleProfiles(),
+      calendarFile: process.env.CALENDAR_FILE || undefined,
+      categoriesFile: process.env.CATEGORIES_FILE || undefined,
+      language: (process.env.LANGUAGE || DEFAULT_LANGUAGE).trim().toLowerCase(),
+      templatesFile: process.env.TEMPLATES_FILE || undefined,
+      timetableLintStrict: process.env.TIMETABLE_LINT_STRICT === 'true',
+      checkIns: {
+        mode: process.env.CHECK_IN_MODE === 'interval' ? 'interval' : 'entries',
+        intervalMinutes: parseInt(process.env.CHECK_IN_INTERVAL_MINUTES || '30', 10)
+      },
+      outboundQueue: {
+        maxAttempts: parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || String(DEFAULT_OUTBOUND_QUEUE_CONFIG.maxAttempts), 10),
+        retryDelaySeconds: parseInt(process.env.OUTBOUND_RETRY_SECONDS || String(DEFAULT_OUTBOUND_QUEUE_CONFIG.retryDelaySeconds), 10)
+      },
+      dashboardAdminToken: process.env.DASHBOARD_ADMIN_TOKEN || undefined
+    };
+  }
+
+  /**
+   * Schedule profiles from SCHEDULE_PROFILES, a comma-separated list of
+   * "name:file" or "name:file:startDate:endDate" (dates as YYYY-MM-DD)
+   */
+  private loadScheduleProfiles(): ScheduleProfile[] {
+    const profiles: ScheduleProfile[] = [];
+
+    for (const spec of (process.env.SCHEDULE_PROFILES || '').split(',')) {
+      if (!spec.trim()) {
+        continue;
+      }
+
+      const [name, timetableFile, startDate, endDate] = spec.split(':').map(part => part.trim());
+      const profile: ScheduleProfile = {
+        name: (name || '').toLowerCase(),
+        timetableFile: timetableFile || ''
+      };
+      if (startDate) profile.startDate = startDate;
+      if (endDate || startDate) profile.endDate = endDate || startDate;
+      profiles.push(profile);
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Per-category offsets (REMINDER_OFFSETS, REMINDER_ESCALATION) from a comma-separated list of "category:offsets"
+   * with the offsets in minutes from the activity's start separated by "/", e.g. "prayer:-15/0/10"
+   */
+  private loadCategoryOffsets(variable: string): CategoryReminderOffsets[] | undefined {
+    const chains: CategoryReminderOffsets[] = [];
+
+    for (const spec of (process.env[variable] || '').split(',')) {
+      if (!spec.trim()) {
+        continue;
+      }
+
+      const [category, offsets] = spec.split(':').map(part => part.trim());
+      chains.push({
+        category: (category || '').toLowerCase(),
+        offsets: (offsets || '').split('/').map(offset => Number(offset.trim() || NaN))
+      });
+    }
+
+    return chains.length > 0 ? chains : undefined;
+  }
+
+  /**
+   * Prayer time generation is enabled by setting PRAYER_LATITUDE and PRAYER_LONGITUDE
+   */
+  private loadPrayerTimesConfig(): PrayerTimesConfig | undefined {
+    if (!process.env.PRAYER_LATITUDE || !process.env.PRAYER_LONGITUDE) {
+      return undefined;
+    }
+
+    return {
+      latitude: parseFloat(process.env.PRAYER_LATITUDE),
+      longitude: parseFloat(process.env.PRAYER_LONGITUDE),
+      method: (process.env.PRAYER_METHOD || 'Karachi') as PrayerCalculationMethod,
+      asrMadhab: (process.env.PRAYER_ASR_MADHAB || 'hanafi').toLowerCase() as AsrMadhab,
+      mode: process.env.PRAYER_MODE === 'merge' ? 'merge' : 'replace',
+      durationMinutes: parseInt(process.env.PRAYER_DURATION_MINUTES || '30', 10)
     };
   }
 
@@ -63,6 +158,50 @@ export class ConfigService {
     return this.config.timetableFile;
   }
 
+  public getTimetableDir(): string {
+    return this.config.timetableDir;
+  }
+
+  public getDashboardAdminToken(): string | undefined {
+    return this.config.dashboardAdminToken;
+  }
+
+  public getTimezone(): string {
+    return this.config.timezone;
+  }
+
+  public getScheduleProfiles(): ScheduleProfile[] {
+    return this.config.scheduleProfiles.map(profile => ({ ...profile }));
+  }
+
+  public getCalendarFile(): string | undefined {
+    return this.config.calendarFile;
+  }
+
+  public getCategoriesFile(): string | undefined {
+    return this.config.categoriesFile;
+  }
+
+  public getTemplatesFile(): string | undefined {
+    return this.config.templatesFile;
+  }
+
+  public getCheckInConfig(): CheckInConfig {
+    return { ...this.config.checkIns };
+  }
+
+  public getOutboundQueueConfig(): OutboundQueueConfig {
+    return { ...this.config.outboundQueue };
+  }
+
+  public isTimetableLintStrict(): boolean {
+    return this.config.timetableLintStrict === true;
+  }
+
+  public getPrayerTimesConfig(): PrayerTimesConfig | undefined {
+    return this.config.prayerTimes ? { ...this.config.prayerTimes } : undefined;
+  }
+
   public getRecipientPhone(): string {
     return this.config.whatsappConfig.phoneNumber || '+1234567890';
   }
@@ -86,6 +225,8 @@ export class ConfigService {
   public static createDefaultConfig(): ChatBotConfig {
     return {
       timetableFile: 'muneeb-timetable.csv',
+      timetableDir: '.',
+      timezone: ConfigService.DEFAULT_TIMEZONE,
       reminderConfig: {
         minutesBefore: 15,
         message: undefined
@@ -96,7 +237,11 @@ export class ConfigService {
         useWhatsAppWeb: false,
         sessionName: 'cute99-assistant',
         useMongoAuth: process.env.USE_MONGO_AUTH === 'true' || false
-      }
+      },
+      scheduleProfiles: [],
+      language: DEFAULT_LANGUAGE,
+      checkIns: { mode: 'entries', intervalMinutes: 30 },
+      outboundQueue: { ...DEFAULT_OUTBOUND_QUEUE_CONFIG }
     };
   }
 
@@ -108,11 +253,72 @@ export class ConfigService {
       errors.push('Timetable file path is required');
     }
 
+    // Check timezone
+    if (!this.config.timezone || !moment.tz.zone(this.config.timezone)) {
+      errors.push(`Unknown timezone: ${this.config.timezone} (use an IANA name like Asia/Karachi)`);
+    }
+
+    // Check prayer times config
+    const prayerTimes = this.config.prayerTimes;
+    if (prayerTimes) {
+      if (isNaN(prayerTimes.latitude) || Math.abs(prayerTimes.latitude) > 90) {
+        errors.push('Prayer latitude should be between -90 and 90');
+      }
+      if (isNaN(prayerTimes.longitude) || Math.abs(prayerTimes.longitude) > 180) {
+        errors.push('Prayer longitude should be between -180 and 180');
+      }
+      if (!CALCULATION_METHODS[prayerTimes.method]) {
+        errors.push(`Unknown prayer calculation method: ${prayerTimes.method} (use ${Object.keys(CALCULATION_METHODS).join(', ')})`);
+      }
+      if (!ASR_MADHABS.includes(prayerTimes.asrMadhab)) {
+        errors.push(`Unknown Asr madhab: ${prayerTimes.asrMadhab} (use ${ASR_MADHABS.join(' or ')})`);
+      }
+      if (isNaN(prayerTimes.durationMinutes) || prayerTimes.durationMinutes < 5 || prayerTimes.durationMinutes > 180) {
+        errors.push('Prayer duration should be between 5 and 180 minutes');
+      }
+    }
+
+    // Check schedule profiles
+    const profileNames = new Set<string>();
+    for (const profile of this.config.scheduleProfiles) {
+      if (!/^[a-z0-9][a-z0-9_-]*$/.test(profile.name) || profile.name === TimetableParser.DEFAULT_PROFILE) {
+        errors.push(`Invalid schedule profile name: "${profile.name}"`);
+      } else if (profileNames.has(profile.name)) {
+        errors.push(`Duplicate schedule profile: ${profile.name}`);
+      }
+      profileNames.add(profile.name);
+
+      if (!profile.timetableFile) {
+        errors.push(`Schedule profile ${profile.name} needs a timetable file`);
+      }
+      if (profile.startDate && profile.endDate) {
+        const start = moment(profile.startDate, 'YYYY-MM-DD', true);
+        const end = moment(profile.endDate, 'YYYY-MM-DD', true);
+        if (!start.isValid() || !end.isValid()) {
+          errors.push(`Schedule profile ${profile.name} dates should look like 2026-02-18`);
+        } else if (end.isBefore(start)) {
+          errors.push(`Schedule profile ${profile.name} ends before it starts`);
+        }
+      }
+    }
+
     // Check reminder config
     if (this.config.reminderConfig.minutesBefore < 0 || this.config.reminderConfig.minutesBefore > 120) {
       errors.push('Reminder minutes should be between 0 and 120');
     }
 
+    // Check check-in config
+    errors.push(...CheckInSlotPlanner.validateConfig(this.config.checkIns));
+    errors.push(...OutboundMessageQueue.validateConfig(this.config.outboundQueue));
+    errors.push(...SchedulerService.validateReminderOffsets(this.config.reminderConfig.offsets || []));
+    errors.push(...SchedulerService.validateEscalation(this.config.reminderConfig.escalation || []));
+    if (!LocaleService.isSupported(this.config.language)) {
+      errors.push(`Unsupported language: ${this.config.language} (use ${LocaleService.getSupportedLanguages().join(', ')})`);
+    }
+    if (this.config.reminderConfig.message) {
+      errors.push(...TemplateEngine.validate(this.config.reminderConfig.message).map(error => `Custom reminder message: ${error}`));
+    }
+
     // Check WhatsApp config
     if (!this.config.whatsappConfig.isMock) {
       if (this.config.whatsappConfig.useBusinessAPI) {
@@ -176,6 +382,22 @@ export class ConfigService {
         required: false,
         default: '15'
       },
+      {
+        name: 'REMINDER_OFFSETS',
+        value: process.env.REMINDER_OFFSETS,
+        description: 'Reminders per category as category:offsets (minutes from start, "/"-separated), comma-separated',
+        example: 'exercise:-30/-5,prayer:-10/0',
+        required: false,
+        default: 'none'
+      },
+      {
+        name: 'REMINDER_ESCALATION',
+        value: process.env.REMINDER_ESCALATION,
+        description: 'Follow-up nudges per category as category:offsets (minutes from start, "/"-separated), comma-separated',
+        example: 'prayer:-15/0/10,exercise:-10/5',
+        required: false,
+        default: 'none'
+      },
       {
         name: 'USE_MOCK_WHATSAPP',
         value: process.env.USE_MOCK_WHATSAPP,
@@ -184,6 +406,118 @@ export class ConfigService {
         required: false,
         default: 'false'
       },
+      {
+        name: 'TIMEZONE',
+        value: process.env.TIMEZONE,
+        description: 'IANA timezone your timetable is written in',
+        example: 'Asia/Karachi',
+        required: false,
+        default: ConfigService.DEFAULT_TIMEZONE
+      },
+      {
+        name: 'PRAYER_LATITUDE',
+        value: process.env.PRAYER_LATITUDE,
+        description: 'Latitude for calculating prayer times (set with PRAYER_LONGITUDE to enable)',
+        example: '24.8607',
+        required: false,
+        default: 'disabled'
+      },
+      {
+        name: 'SCHEDULE_PROFILES',
+        value: process.env.SCHEDULE_PROFILES,
+        description: 'Alternative timetables as name:file[:startDate:endDate], comma-separated',
+        example: 'ramadan:ramadan-timetable.csv:2026-02-18:2026-03-19,travel:travel-timetable.csv',
+        required: false,
+        default: 'none'
+      },
+      {
+        name: 'CALENDAR_FILE',
+        value: process.env.CALENDAR_FILE,
+        description: 'Local .ics file whose events get reminders and check-ins',
+        example: 'team-calendar.ics',
+        required: false,
+        default: 'none'
+      },
+      {
+        name: 'CATEGORIES_FILE',
+        value: process.env.CATEGORIES_FILE,
+        description: 'JSON/YAML file with activity categories (emoji, location, colour, reminders) and keyword rules',
+        example: 'categories.yaml',
+        required: false,
+        default: 'built-in categories'
+      },
+      {
+        name: 'LANGUAGE',
+        value: process.env.LANGUAGE,
+        description: 'Language of the bot\'s messages, chat commands and dashboard: en, ur (Urdu) or ar (Arabic)',
+        example: 'ur',
+        required: false,
+        default: DEFAULT_LANGUAGE
+      },
+      {
+        name: 'TEMPLATES_FILE',
+        value: process.env.TEMPLATES_FILE,
+        description: 'JSON/YAML file with message templates by language, e.g. en: { reminder: "..." }',
+        example: 'templates.yaml',
+        required: false,
+        default: 'built-in templates'
+      },
+      {
+        name: 'CHECK_IN_MODE',
+        value: process.env.CHECK_IN_MODE,
+        description: 'entries: check in at each timetable entry, interval: on a fixed grid',
+        example: 'interval',
+        required: false,
+        default: 'entries'
+      },
+      {
+        name: 'CHECK_IN_INTERVAL_MINUTES',
+        value: process.env.CHECK_IN_INTERVAL_MINUTES,
+        description: 'Minutes between check-ins in interval mode and during free time',
+        example: '30',
+        required: false,
+        default: '30'
+      },
+      {
+        name: 'OUTBOUND_MAX_ATTEMPTS',
+        value: process.env.OUTBOUND_MAX_ATTEMPTS,
+        description: 'Attempts to send a message before it is dead-lettered',
+        example: '5',
+        required: false,
+        default: String(DEFAULT_OUTBOUND_QUEUE_CONFIG.maxAttempts)
+      },
+      {
+        name: 'OUTBOUND_RETRY_SECONDS',
+        value: process.env.OUTBOUND_RETRY_SECONDS,
+        description: 'Delay before retrying a failed message, doubled for each retry',
+        example: '30',
+        required: false,
+        default: String(DEFAULT_OUTBOUND_QUEUE_CONFIG.retryDelaySeconds)
+      },
+      {
+        name: 'TIMETABLE_DIR',
+        value: process.env.TIMETABLE_DIR,
+        description: 'Directory the timetable and calendar files of users registered from the dashboard must be in',
+        example: 'timetables',
+        required: false,
+        default: '.'
+      },
+      {
+        name: 'DASHBOARD_ADMIN_TOKEN',
+        value: process.env.DASHBOARD_ADMIN_TOKEN,
+        description: 'Secret for the dashboard\'s write routes (registering users, editing timetables, overrides and templates)',
+        example: 'a-long-random-string',
+        required: false,
+        default: 'write routes disabled'
+      },
+      {
+        name: 'TIMETABLE_LINT_STRICT',
+        value: process.env.TIMETABLE_LINT_STRICT,
+        description: 'Refuse to start when the timetable has overlapping or misaligned slots',
+        example: 'true',
+        required: false,
+        default: 'false'
+      },
       {
         name: 'NODE_ENV',
         value: process.env.NODE_ENV,
@@ -323,7 +657,40 @@ export class ConfigService {
   public printConfig(): void {
     console.log('🔧 Current Configuration:');
     console.log(`   📁 Timetable File: ${this.config.timetableFile}`);
+    console.log(`   🌍 Timezone: ${this.config.timezone}`);
     console.log(`   ⏰ Reminder Minutes Before: ${this.config.reminderConfig.minutesBefore}`);
+    for (const offsets of this.config.reminderConfig.offsets || []) {
+      console.log(`   🔔 Reminders: ${offsets.category} -> ${offsets.offsets.join(', ')} min from start`);
+    }
+    for (const chain of this.config.reminderConfig.escalation || []) {
+      console.log(`   📣 Escalation: ${chain.category} -> ${chain.offsets.join(', ')} min from start`);
+    }
+    if (this.config.prayerTimes) {
+      const prayerTimes = this.config.prayerTimes;
+      console.log(`   🕌 Prayer Times: ${prayerTimes.latitude}, ${prayerTimes.longitude} (${prayerTimes.method}, ${prayerTimes.asrMadhab} Asr, ${prayerTimes.mode})`);
+    }
+    if (this.config.calendarFile) {
+      console.log(`   📆 Calendar File: ${this.config.calendarFile}`);
+    }
+    if (this.config.categoriesFile) {
+      console.log(`   🏷️ Categories File: ${this.config.categoriesFile}`);
+    }
+    console.log(`   🌐 Language: ${this.config.language}`);
+    if (this.config.templatesFile) {
+      console.log(`   📝 Templates File: ${this.config.templatesFile}`);
+    }
+    const { mode, intervalMinutes } = this.config.checkIns;
+    console.log(`   🕐 Check-ins: ${mode === 'entries' ? `at each timetable entry (free time every ${intervalMinutes} min)` : `every ${intervalMinutes} minutes`}`);
+    const { maxAttempts, retryDelaySeconds } = this.config.outboundQueue;
+    console.log(`   📮 Outbound Retries: ${maxAttempts} attempts, from ${retryDelaySeconds}s apart`);
+    if (this.config.timetableLintStrict) {
+      console.log('   🧹 Timetable Lint: strict');
+    }
+    console.log(`   🔐 Dashboard Editing: ${this.config.dashboardAdminToken ? 'with admin token' : 'disabled (set DASHBOARD_ADMIN_TOKEN)'}`);
+    for (const profile of this.config.scheduleProfiles) {
+      const dates = profile.startDate ? ` (${profile.startDate} to ${profile.endDate})` : '';
+      console.log(`   🗂️ Schedule Profile: ${profile.name} -> ${profile.timetableFile}${dates}`);
+    }
     console.log(`   📱 Recipient Phone: ${this.config.whatsappConfig.phoneNumber}`);
     console.log(`   🧪 Mock Mode: ${this.config.whatsappConfig.isMock ? 'ON' : 'OFF'}`);
     
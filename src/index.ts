@@ -1,6 +1,10 @@
 #!/usr/bin/env node
 
 import { ReminderChatBot } from './ReminderChatBot';
+import { TimetableLinter } from './services/TimetableLinter';
+import { DatabaseService } from './services/DatabaseService';
+import { TimeEntryRangeMigration } from './migrations/TimeEntryRangeMigration';
+import { MessageTemplateService } from './services/MessageTemplateService';
 
 async function main() {
   const chatBot = new ReminderChatBot();
@@ -51,6 +55,53 @@ async function main() {
         }
         break;
 
+      case 'lint': {
+        // "lint --strict" exits non-zero on warnings as well as errors, like TIMETABLE_LINT_STRICT at startup
+        const report = await chatBot.lintTimetable();
+        TimetableLinter.printReport(report);
+        if (report.errors > 0 || TimetableLinter.isBlocking(report, args.includes('--strict'))) {
+          process.exit(1);
+        }
+        break;
+      }
+
+      case 'migrate': {
+        // One-off: give tracking entries recorded before they had start/end times their range
+        console.log('🔧 Migrating tracking entries to start and end times...');
+        const dbService = DatabaseService.getInstance();
+        await dbService.connect();
+        try {
+          const result = await new TimeEntryRangeMigration().run();
+          console.log(`✅ ${result.documents} day(s) updated: ${result.migrated} entries migrated, ${result.merged} duplicates merged, ${result.skipped} kept as legacy`);
+        } finally {
+          await dbService.disconnect();
+        }
+        break;
+      }
+
+      case 'templates': {
+        // "templates" lists the message templates, "templates preview <name> [--lang ur]" renders one with sample data
+        // Without a database connection this shows the templates file and built-in templates
+        const messages = chatBot.getMessageTemplates();
+        const langIndex = args.indexOf('--lang');
+        const language = langIndex >= 0 ? args[langIndex + 1] : undefined;
+
+        if (args[1] === 'preview') {
+          const name = args[2];
+          if (!name) {
+            console.error(`❌ Name a template to preview: ${MessageTemplateService.getTemplateNames().join(', ')}`);
+            process.exit(1);
+          }
+          console.log(await messages.preview(name, language));
+        } else {
+          console.log(`📝 Message templates (${language || messages.getLanguage()}):`);
+          for (const template of await messages.list(language)) {
+            console.log(`   ${template.name.padEnd(18)} ${template.description} [${template.language}, ${template.source}]`);
+          }
+        }
+        break;
+      }
+
       case 'start':
       case undefined:
         // Default behavior: start the chatbot
@@ -92,6 +143,9 @@ Commands:
   test          Run in test mode (start, send test message, stop)
   status        Show current chatbot status
   schedule      Display today's timetable schedule
+  migrate       Give tracking entries from older versions start and end times (also run at startup)
+  lint          Check the timetable for overlaps, gaps and slots off the 30-minute grid (--strict: fail on warnings too)
+  templates     List message templates; "templates preview <name> [--lang ur]" renders one with sample data
   help, -h      Show this help message
 
 Environment Variables:
@@ -101,7 +155,26 @@ Environment Variables:
   USE_MOCK_WHATSAPP            Set to 'true' to use mock mode
   REMINDER_MINUTES_BEFORE       Minutes before event to send reminder (default: 15)
   CUSTOM_REMINDER_MESSAGE       Custom reminder message template
+  LANGUAGE                     Language of the bot's messages and commands: en, ur, ar (default: en)
+  TEMPLATES_FILE               JSON/YAML file with message templates by language
+  OUTBOUND_MAX_ATTEMPTS         Attempts per outgoing message before giving up (default: 5)
+  OUTBOUND_RETRY_SECONDS        First retry delay, doubled for each retry (default: 30)
+  REMINDER_OFFSETS              Reminders per category, e.g. exercise:-30/-5/0 (minutes from start)
+  REMINDER_ESCALATION           Follow-up nudges per category, e.g. prayer:-15/0/10 (minutes from start)
   TIMETABLE_FILE               Path to timetable CSV file (default: muneeb-timetable.csv)
+  TIMETABLE_DIR                Directory of registered users' timetable and calendar files (default: .)
+  DASHBOARD_ADMIN_TOKEN        Secret for the dashboard's write routes (disabled when unset)
+  TIMEZONE                     IANA timezone for the timetable (default: Asia/Karachi)
+  PRAYER_LATITUDE, PRAYER_LONGITUDE  Coordinates for calculated prayer times (disabled if unset)
+  PRAYER_METHOD                Karachi, MWL, ISNA or UmmAlQura (default: Karachi)
+  PRAYER_ASR_MADHAB            hanafi or shafi (default: hanafi)
+  PRAYER_MODE                  replace or merge the timetable's prayer rows (default: replace)
+  SCHEDULE_PROFILES            Alternative timetables as name:file[:startDate:endDate], comma-separated
+  CALENDAR_FILE                Local .ics file whose events get reminders (e.g. exported from Google Calendar)
+  CATEGORIES_FILE              JSON/YAML file with activity categories and keyword rules
+  TIMETABLE_LINT_STRICT        Set to 'true' to refuse to start when the timetable lint finds errors or warnings
+  CHECK_IN_MODE                entries (one check-in per timetable entry) or interval (default: entries)
+  CHECK_IN_INTERVAL_MINUTES    Check-in interval for free time or interval mode (default: 30)
 
 Examples:
   npm start                     # Start the chatbot
@@ -111,6 +184,8 @@ Examples:
   node dist/index.js test       # Run test mode
   node dist/index.js status     # Check status
   node dist/index.js schedule   # Show today's schedule
+  node dist/index.js lint       # Lint the timetable
+  node dist/index.js templates preview summary  # Preview the daily summary message
 `);
 }
 
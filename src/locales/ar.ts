@@ -0,0 +1,184 @@
+import { LocaleBundle } from './types';
+
+export const ar: LocaleBundle = {
+  language: 'ar',
+  name: 'العربية',
+  direction: 'rtl',
+  momentLocale: 'ar',
+  messages: {
+    'checkin.none': 'لا يوجد تسجيل حضور نشط. اكتب "الحالة" لرؤية تقدمك اليوم.',
+    'checkin.error': 'عذراً، حدث خطأ أثناء تسجيل نشاطك. حاول مرة أخرى.',
+    'summary.error': 'عذراً، تعذر إعداد ملخص اليوم.',
+
+    'checkin.planned': '✅ حسب الخطة',
+    'checkin.other': '🔄 شيء آخر',
+    'checkin.skip': '⏭ تخطي',
+    'checkin.askActivity': '🔄 ماذا تفعل بدلاً من ذلك؟ أرسل نشاطك، مثل "قراءة 📚 😊".',
+    'mood.choose': '😊 أضف المزاج',
+    'mood.title': 'المزاج',
+    'mood.happy': 'سعيد',
+    'mood.neutral': 'عادي',
+    'mood.sad': 'حزين',
+    'mood.frustrated': 'منزعج',
+    'mood.tired': 'متعب',
+    'mood.motivated': 'متحمس',
+    'mood.thoughtful': 'متأمل',
+    'mood.none': 'لا يوجد نشاط مسجل لهذا التسجيل لإضافة المزاج إليه.',
+    'mood.recorded': '{mood} تم حفظ المزاج لـ {timeSlot}.',
+
+    'command.failed': 'عذراً، فشل الأمر "{command}". حاول مرة أخرى.',
+    'status.paused': '⏸️ التذكيرات متوقفة حتى {until|time}',
+    'today.title': '📅 **جدول اليوم**',
+    'today.empty': 'لا توجد أنشطة مخططة لليوم.',
+    'next.none': '🌙 لا شيء آخر مخطط لليوم. استرح جيداً!',
+    'next.entry': '⏭️ **التالي**\n\n**النشاط:** {activity}\n**الوقت:** {timeSlot}\n**يبدأ بعد:** {minutes} دقيقة',
+    'skip.none': 'لا يوجد تسجيل حضور لتخطيه.',
+    'skip.done': '⏭️ تم تخطي تسجيل الحضور لـ {timeSlot}.\n\nاكتب "تراجع" إن كان ذلك خطأ.',
+    'undo.none': 'لا شيء للتراجع عنه.',
+    'undo.done': '↩️ تمت إزالة "{activity}" لـ {timeSlot}.\n\nأرسل ما كنت تفعله فعلاً.',
+    'done.none': 'لا يوجد تذكير بانتظار "تم".',
+    'done.confirmed': '✅ رائع، تم تأكيد "{activity}". لن تصلك تنبيهات أخرى له.',
+    'snooze.invalid': 'حدد مدة التأجيل، مثل "غفوة 10" أو "غفوة 30 دقيقة".',
+    'snooze.none': 'لا يوجد تذكير لتأجيله.',
+    'snooze.done': '😴 تم تأجيل "{activity}". سأذكرك مرة أخرى في {until|time}.',
+    'pause.invalid': 'حدد مدة الإيقاف، مثل "إيقاف 2 ساعة" أو "إيقاف 30 دقيقة".',
+    'pause.done': '⏸️ تم إيقاف التذكيرات وتسجيلات الحضور حتى {until|time}.\n\nاكتب "استئناف" للبدء من جديد قبل ذلك.',
+    'resume.done': '▶️ تم استئناف التذكيرات وتسجيلات الحضور.',
+    'profile.unavailable': 'تبديل ملفات الجدول غير متاح.',
+    'profile.unknown': 'ملف الجدول "{name}" غير معروف. اكتب "الملف" لرؤية الملفات المتاحة.',
+    'profile.auto': '🗂️ ملفات الجدول تتبع تواريخها مجدداً - اليوم يستخدم *{name}*.',
+    'profile.switched': '🗂️ تم التبديل إلى جدول *{name}*. أعيدت جدولة تذكيرات اليوم.\n\nاكتب "الملف auto" لاتباع تواريخ الملفات مجدداً.',
+    'profile.dates': '(من {start} إلى {end})',
+    'profile.list': '🗂️ **ملف الجدول:** {name} ({#if byCommand}اختير بأمر{else}حسب التاريخ{/if})\n\n{profiles}\n\nاكتب "الملف <الاسم>" للتبديل أو "الملف auto" لاتباع التواريخ.',
+    'timetable.updated': '📝 **تم تحديث الجدول**\n\n{changes}\n\nتمت إعادة جدولة تذكيرات اليوم.',
+    'timetable.fileChanged': '📝 **تغيّر ملف الجدول**\n\n{changes}\n\nيبقى جدولك كما عُدّل في لوحة التحكم. استخدم "📥 استيراد من CSV" هناك لتطبيق الملف.',
+    'timetable.added': '➕ {timeSlot}{#if day} ({day}){/if}: {activity}',
+    'timetable.removed': '➖ {timeSlot}{#if day} ({day}){/if}: {activity}',
+    'timetable.changed': '✏️ {timeSlot}{#if day} ({day}){/if}: {before} ← {after}',
+    'help': `🤖 **أوامر بركة تراكر**
+
+• *الحالة* (status) - تقدم اليوم
+• *اليوم* / *الجدول* (today) - خطة اليوم
+• *التالي* (next) - نشاطك التالي
+• *تخطي* (skip) - تخطي تسجيل الحضور الحالي
+• *تراجع* (undo) - التراجع عن آخر نشاط مسجل
+• *تم* (done) - تأكيد النشاط الذي ذُكّرت به
+• *غفوة 10* (snooze) - ذكرني لاحقاً
+• *إيقاف 2 ساعة* (pause) - إيقاف التذكيرات مؤقتاً
+• *استئناف* (resume) - استئناف التذكيرات
+• *الملف رمضان* (profile) - تبديل ملف الجدول
+• *مساعدة* (help) - عرض هذه الرسالة
+
+أي رسالة أخرى تُسجل كنشاطك الحالي.`,
+
+    'dashboard.diaryTitle': '📊 مفكرة بركة تراكر',
+    'dashboard.profile': '🗂️ جدول {name}',
+    'dashboard.completionRate': 'نسبة الإنجاز',
+    'dashboard.completed': 'منجز',
+    'dashboard.pending': 'متبقٍ',
+    'dashboard.totalSlots': 'إجمالي الفترات',
+    'dashboard.timeSlot': 'الوقت',
+    'dashboard.planned': '📋 النشاط المخطط',
+    'dashboard.actual': '✅ النشاط الفعلي',
+    'dashboard.status': 'الحالة',
+    'dashboard.noResponse': 'لم يُسجل رد',
+    'dashboard.hours': '{hours} س',
+    'dashboard.minutes': '{minutes} د',
+    'dashboard.today': '📅 اليوم',
+    'dashboard.previousDay': '➡️ اليوم السابق',
+    'dashboard.nextDay': '⬅️ اليوم التالي',
+    'dashboard.json': '📊 بيانات JSON',
+    'dashboard.editTimetable': '🗂️ تعديل الجدول',
+    'dashboard.calendarFeed': '📆 موجز التقويم',
+    'dashboard.override.add': '📌 لمرة واحدة',
+    'dashboard.override.replace': '🔁 مستبدل لهذا التاريخ',
+    'dashboard.override.cancel': '🚫 ملغى: {activity}',
+
+    'editor.title': '🗂️ الجدول',
+    'editor.loading': 'جارٍ التحميل...',
+    'editor.activity': 'النشاط',
+    'editor.day': 'اليوم',
+    'editor.everyDay': 'كل يوم',
+    'editor.add': '➕ إضافة',
+    'editor.save': '💾 حفظ',
+    'editor.import': '📥 استيراد من CSV',
+    'editor.confirmImport': 'استبدال الجدول المحفوظ بملف CSV؟',
+    'editor.backToDiary': '📅 العودة إلى المفكرة',
+    'editor.editable': 'تُحفظ التغييرات في قاعدة البيانات وتُطبق على التذكيرات فوراً.',
+    'editor.readOnly': 'عرض جدول CSV للقراءة فقط - التعديل يتطلب اتصالاً بقاعدة البيانات.',
+    'editor.adminToken': 'رمز المسؤول (DASHBOARD_ADMIN_TOKEN) لحفظ التغييرات:'
+  },
+  templates: {
+    reminder: `🔔 تذكير: "{activity}" يبدأ بعد {minutesBefore} دقيقة في {startTime|time}.
+
+⏰ الوقت: {timeSlot}
+📝 النشاط: {activity}
+{#if category}
+🏷️ الفئة: {category.emoji} {category.name}
+{/if}
+
+بارك الله في وقتك! 💪`,
+    nudge: '⏰ "{activity}" {#if startsIn}يبدأ بعد {startsIn} دقيقة، في {startTime|time}{/if}{#if startingNow}يبدأ الآن{/if}{#if startedAgo}بدأ قبل {startedAgo} دقيقة، في {startTime|time}{/if}.',
+    'reminder.count': '🔁 التذكير {number} من {total} ({#if before}قبل {before} دقيقة{/if}{#if atStart}عند البدء{/if}{#if after}بعد البدء بـ {after} دقيقة{/if})',
+    'reminder.hint': 'أرسل "تم" عندما تبدأ، أو "غفوة 10" لتذكيرك لاحقاً.',
+    checkin: `🕐 **تسجيل حضور بركة تراكر**
+
+**الوقت:** {timeSlot}
+**المخطط:** {plannedActivity}
+
+**ماذا تفعل الآن فعلاً؟**
+
+أرسل:
+• نشاطك الحالي
+• اختياري: رمز المزاج (😊😐😔😤😴💪🤔)
+• اختياري: ملاحظات
+
+*مثال: "أعمل على المشروع ⚡ 💪 - تقدم جيد"*
+
+أرسل ردك خلال {replyMinutes} دقيقة ليُسجل! ⏰`,
+    'checkin.recorded': `✅ **تم تسجيل النشاط!**
+
+**الوقت:** {timeSlot}
+**النشاط:** {activity}
+**المزاج:** {mood}
+{#if notes}
+**ملاحظات:** {notes}
+{/if}
+
+أحسنت، استمر على الطريق! 🎯`,
+    'checkin.missed': `⏰ **فاتك تسجيل الحضور**
+
+فاتك تسجيل الحضور لـ {timeSlot}.
+
+لا بأس! تسجيل الحضور التالي في {nextCheckIn|time}. حافظ على تركيزك! 💪`,
+    summary: `📊 **ملخص اليوم**
+
+**التاريخ:** {date|date:"D MMMM YYYY"}
+**نسبة الإنجاز:** {completionRate|fixed:"1"}%
+**المنجز:** {completedSlots}/{totalSlots} فترات
+**المتبقي:** {pendingSlots} تسجيلات حضور
+{#if upcoming}
+
+**القادم:**
+{#each upcoming}
+{@number}. {startTime|time} {activity}
+{/each}
+{/if}
+
+ما شاء الله، واصل العمل الرائع! 🎯`
+  },
+  commands: {
+    status: ['الحالة', 'حالة'],
+    today: ['اليوم', 'الجدول'],
+    next: ['التالي'],
+    skip: ['تخطي'],
+    undo: ['تراجع'],
+    done: ['تم', 'انتهيت'],
+    snooze: ['غفوة', 'لاحقا', 'لاحقاً'],
+    pause: ['إيقاف', 'ايقاف', 'توقف'],
+    resume: ['استئناف'],
+    profile: ['الملف'],
+    help: ['مساعدة']
+  },
+  durationUnits: { hours: ['ساعة', 'ساعات', 'ساعتين'], minutes: ['دقيقة', 'دقائق'] }
+};
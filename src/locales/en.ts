@@ -0,0 +1,118 @@
+import { LocaleBundle } from './types';
+
+// Placeholders use TemplateEngine syntax, e.g. {until|time}
+export const EN_MESSAGES = {
+  'checkin.none': 'No active check-in found. Type \'status\' to see your daily progress.',
+  'checkin.error': 'Sorry, there was an error recording your activity. Please try again.',
+  'summary.error': 'Sorry, could not generate daily summary.',
+
+  // Check-in reply buttons (up to 20 characters) and the mood list (rows up to 24)
+  'checkin.planned': '✅ Doing planned',
+  'checkin.other': '🔄 Something else',
+  'checkin.skip': '⏭ Skip',
+  'checkin.askActivity': '🔄 What are you doing instead? Reply with your activity, e.g. "Reading 📚 😊".',
+  'mood.choose': '😊 Add mood',
+  'mood.title': 'Mood',
+  'mood.happy': 'Happy',
+  'mood.neutral': 'Okay',
+  'mood.sad': 'Low',
+  'mood.frustrated': 'Frustrated',
+  'mood.tired': 'Tired',
+  'mood.motivated': 'Motivated',
+  'mood.thoughtful': 'Thoughtful',
+  'mood.none': 'That check-in has no recorded activity to add a mood to.',
+  'mood.recorded': '{mood} Mood saved for {timeSlot}.',
+
+  'command.failed': 'Sorry, the "{command}" command failed. Please try again.',
+  'status.paused': '⏸️ Reminders paused until {until|time}',
+  'today.title': '📅 **Today\'s Schedule**',
+  'today.empty': 'No activities planned for today.',
+  'next.none': '🌙 Nothing else planned for today. Rest well!',
+  'next.entry': '⏭️ **Next Up**\n\n**Activity:** {activity}\n**Time:** {timeSlot}\n**Starts in:** {minutes} minutes',
+  'skip.none': 'No active check-in to skip.',
+  'skip.done': '⏭️ Skipped the check-in for {timeSlot}.\n\nType "undo" if that was a mistake.',
+  'undo.none': 'Nothing to undo.',
+  'undo.done': '↩️ Removed "{activity}" for {timeSlot}.\n\nReply with what you were actually doing.',
+  'done.none': 'No reminder waiting for "done".',
+  'done.confirmed': '✅ Great, "{activity}" confirmed. No more nudges for it.',
+  'snooze.invalid': 'Please specify how long to snooze, e.g. "snooze 10" or "snooze 30m".',
+  'snooze.none': 'No reminder to snooze.',
+  'snooze.done': '😴 Snoozed "{activity}". I\'ll nudge you again at {until|time}.',
+  'pause.invalid': 'Please specify how long to pause, e.g. "pause 2h" or "pause 30m".',
+  'pause.done': '⏸️ Reminders and check-ins paused until {until|time}.\n\nType "resume" to start again sooner.',
+  'resume.done': '▶️ Reminders and check-ins resumed.',
+  'profile.unavailable': 'Switching schedule profiles is not available.',
+  'profile.unknown': 'Unknown schedule profile "{name}". Type "profile" to see the available ones.',
+  'profile.auto': '🗂️ Schedule profiles follow their dates again - today uses *{name}*.',
+  'profile.switched': '🗂️ Switched to the *{name}* schedule. Today\'s reminders have been rescheduled.\n\nType "profile auto" to follow profile dates again.',
+  'profile.dates': '({start} to {end})',
+  'profile.list': '🗂️ **Schedule Profile:** {name} ({#if byCommand}switched by command{else}chosen by date{/if})\n\n{profiles}\n\nType "profile <name>" to switch or "profile auto" to follow dates.',
+  'timetable.updated': '📝 **Timetable updated**\n\n{changes}\n\nToday\'s reminders have been rescheduled.',
+  'timetable.fileChanged': '📝 **Timetable file changed**\n\n{changes}\n\nYour timetable is kept as edited on the dashboard. Use "📥 Import from CSV" there to apply the file.',
+  'timetable.added': '➕ {timeSlot}{#if day} ({day}){/if}: {activity}',
+  'timetable.removed': '➖ {timeSlot}{#if day} ({day}){/if}: {activity}',
+  'timetable.changed': '✏️ {timeSlot}{#if day} ({day}){/if}: {before} → {after}',
+  'help': `🤖 **BarakahTracker Commands**
+
+• *status* - Today's progress
+• *today* / *schedule* - Today's plan
+• *next* - Your next activity
+• *skip* - Skip the current check-in
+• *undo* - Undo your last recorded activity
+• *done* - Confirm the activity you were reminded about
+• *snooze 10* - Nudge me again later (e.g. 10, 30m)
+• *pause 2h* - Pause reminders (e.g. 30m, 2h)
+• *resume* - Resume reminders
+• *profile ramadan* - Switch schedule profile ("profile" lists them)
+• *help* - Show this message
+
+Any other message is recorded as your current activity.`,
+
+  'dashboard.diaryTitle': '📊 BarakahTracker Diary',
+  'dashboard.profile': '🗂️ {name} schedule',
+  'dashboard.completionRate': 'Completion Rate',
+  'dashboard.completed': 'Completed',
+  'dashboard.pending': 'Pending',
+  'dashboard.totalSlots': 'Total Slots',
+  'dashboard.timeSlot': 'Time Slot',
+  'dashboard.planned': '📋 Planned Activity',
+  'dashboard.actual': '✅ Actual Activity',
+  'dashboard.status': 'Status',
+  'dashboard.noResponse': 'No response recorded',
+  'dashboard.hours': '{hours}h',
+  'dashboard.minutes': '{minutes}m',
+  'dashboard.today': '📅 Today',
+  'dashboard.previousDay': '⬅️ Previous Day',
+  'dashboard.nextDay': '➡️ Next Day',
+  'dashboard.json': '📊 JSON Data',
+  'dashboard.editTimetable': '🗂️ Edit Timetable',
+  'dashboard.calendarFeed': '📆 Calendar Feed',
+  'dashboard.override.add': '📌 One-off',
+  'dashboard.override.replace': '🔁 Replaced for this date',
+  'dashboard.override.cancel': '🚫 Cancelled: {activity}',
+
+  'editor.title': '🗂️ Timetable',
+  'editor.loading': 'Loading...',
+  'editor.activity': 'Activity',
+  'editor.day': 'Day',
+  'editor.everyDay': 'Every day',
+  'editor.add': '➕ Add',
+  'editor.save': '💾 Save',
+  'editor.import': '📥 Import from CSV',
+  'editor.confirmImport': 'Replace the stored timetable with the CSV file?',
+  'editor.backToDiary': '📅 Back to Diary',
+  'editor.editable': 'Changes are saved to the database and applied to reminders straight away.',
+  'editor.readOnly': 'Showing the CSV timetable read-only - editing needs a database connection.',
+  'editor.adminToken': 'Admin token (DASHBOARD_ADMIN_TOKEN) to save changes:'
+};
+
+export const en: LocaleBundle = {
+  language: 'en',
+  name: 'English',
+  direction: 'ltr',
+  momentLocale: 'en',
+  messages: EN_MESSAGES,
+  templates: {},
+  commands: {},
+  durationUnits: { hours: [], minutes: [] }
+};
@@ -0,0 +1,17 @@
+import { CommandName } from '../services/CommandRouter';
+import { EN_MESSAGES } from './en';
+
+// Keys of the bot's fixed messages and dashboard labels; English has them all
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+// Everything the bot says or shows in one language (see LocaleService)
+export interface LocaleBundle {
+  language: string; // Language code, e.g. "ur"
+  name: string; // Name of the language in itself, e.g. "اردو"
+  direction: 'ltr' | 'rtl';
+  momentLocale: string; // Locale for dates and times
+  messages: Partial<Record<MessageKey, string>>; // Missing ones are sent in English
+  templates: Record<string, string>; // Message template bodies by name; English ones are built into MessageTemplateService
+  commands: Partial<Record<CommandName, string[]>>; // Chat command keywords, accepted as well as the English ones
+  durationUnits: { hours: string[]; minutes: string[] }; // Units for "pause 2 گھنٹے", in addition to h and m
+}
@@ -0,0 +1,184 @@
+import { LocaleBundle } from './types';
+
+export const ur: LocaleBundle = {
+  language: 'ur',
+  name: 'اردو',
+  direction: 'rtl',
+  momentLocale: 'ur',
+  messages: {
+    'checkin.none': 'کوئی چیک اِن جاری نہیں۔ آج کی پیش رفت دیکھنے کے لیے "حالت" لکھیں۔',
+    'checkin.error': 'معذرت، آپ کی سرگرمی محفوظ نہیں ہو سکی۔ دوبارہ کوشش کریں۔',
+    'summary.error': 'معذرت، آج کا خلاصہ نہیں بن سکا۔',
+
+    'checkin.planned': '✅ منصوبے کے مطابق',
+    'checkin.other': '🔄 کچھ اور',
+    'checkin.skip': '⏭ چھوڑیں',
+    'checkin.askActivity': '🔄 اس کے بجائے آپ کیا کر رہے ہیں؟ اپنی سرگرمی لکھ بھیجیں، مثلاً "مطالعہ 📚 😊"۔',
+    'mood.choose': '😊 موڈ بتائیں',
+    'mood.title': 'موڈ',
+    'mood.happy': 'خوش',
+    'mood.neutral': 'ٹھیک',
+    'mood.sad': 'اداس',
+    'mood.frustrated': 'جھنجھلاہٹ',
+    'mood.tired': 'تھکا ہوا',
+    'mood.motivated': 'پرجوش',
+    'mood.thoughtful': 'سوچ میں',
+    'mood.none': 'اس چیک اِن کی کوئی سرگرمی محفوظ نہیں جس کا موڈ لکھا جائے۔',
+    'mood.recorded': '{mood} {timeSlot} کا موڈ محفوظ ہو گیا۔',
+
+    'command.failed': 'معذرت، "{command}" کمانڈ نہیں چل سکی۔ دوبارہ کوشش کریں۔',
+    'status.paused': '⏸️ یاد دہانیاں {until|time} تک رکی ہوئی ہیں',
+    'today.title': '📅 **آج کا شیڈول**',
+    'today.empty': 'آج کے لیے کوئی سرگرمی طے نہیں۔',
+    'next.none': '🌙 آج کے لیے اور کچھ طے نہیں۔ آرام کریں!',
+    'next.entry': '⏭️ **اگلی سرگرمی**\n\n**سرگرمی:** {activity}\n**وقت:** {timeSlot}\n**شروع ہونے میں:** {minutes} منٹ',
+    'skip.none': 'چھوڑنے کے لیے کوئی چیک اِن نہیں۔',
+    'skip.done': '⏭️ {timeSlot} کا چیک اِن چھوڑ دیا۔\n\nغلطی ہوئی ہو تو "واپس" لکھیں۔',
+    'undo.none': 'واپس لینے کے لیے کچھ نہیں۔',
+    'undo.done': '↩️ {timeSlot} کے لیے "{activity}" ہٹا دیا۔\n\nبتائیں کہ آپ اصل میں کیا کر رہے تھے۔',
+    'done.none': '"ہو گیا" کے لیے کوئی یاد دہانی منتظر نہیں۔',
+    'done.confirmed': '✅ بہت خوب، "{activity}" کی تصدیق ہو گئی۔ اس کی مزید یاد دہانی نہیں ہو گی۔',
+    'snooze.invalid': 'بتائیں کتنی دیر بعد یاد دلاؤں، مثلاً "اسنوز 10" یا "اسنوز 30 منٹ"۔',
+    'snooze.none': 'اسنوز کرنے کے لیے کوئی یاد دہانی نہیں۔',
+    'snooze.done': '😴 "{activity}" اسنوز کر دی۔ {until|time} پر دوبارہ یاد دلاؤں گا۔',
+    'pause.invalid': 'بتائیں کتنی دیر روکنا ہے، مثلاً "روکو 2 گھنٹے" یا "روکو 30 منٹ"۔',
+    'pause.done': '⏸️ یاد دہانیاں اور چیک اِن {until|time} تک روک دیے۔\n\nپہلے شروع کرنے کے لیے "جاری" لکھیں۔',
+    'resume.done': '▶️ یاد دہانیاں اور چیک اِن دوبارہ شروع۔',
+    'profile.unavailable': 'شیڈول پروفائل بدلنے کی سہولت دستیاب نہیں۔',
+    'profile.unknown': '"{name}" نام کا کوئی شیڈول پروفائل نہیں۔ دستیاب پروفائل دیکھنے کے لیے "پروفائل" لکھیں۔',
+    'profile.auto': '🗂️ شیڈول پروفائل دوبارہ اپنی تاریخوں کے مطابق - آج *{name}* ہے۔',
+    'profile.switched': '🗂️ *{name}* شیڈول پر منتقل۔ آج کی یاد دہانیاں نئے سرے سے طے کر دی گئیں۔\n\nتاریخوں کے مطابق چلنے کے لیے "پروفائل auto" لکھیں۔',
+    'profile.dates': '({start} سے {end})',
+    'profile.list': '🗂️ **شیڈول پروفائل:** {name} ({#if byCommand}کمانڈ سے منتخب{else}تاریخ کے مطابق{/if})\n\n{profiles}\n\nبدلنے کے لیے "پروفائل <نام>" اور تاریخوں کے مطابق چلنے کے لیے "پروفائل auto" لکھیں۔',
+    'timetable.updated': '📝 **ٹائم ٹیبل بدل گیا**\n\n{changes}\n\nآج کی یاد دہانیاں نئے سرے سے طے کر دی گئیں۔',
+    'timetable.fileChanged': '📝 **ٹائم ٹیبل فائل بدل گئی**\n\n{changes}\n\nآپ کا ٹائم ٹیبل ڈیش بورڈ پر کی گئی تبدیلیوں کے ساتھ برقرار ہے۔ فائل لاگو کرنے کے لیے وہاں "📥 CSV سے لائیں" استعمال کریں۔',
+    'timetable.added': '➕ {timeSlot}{#if day} ({day}){/if}: {activity}',
+    'timetable.removed': '➖ {timeSlot}{#if day} ({day}){/if}: {activity}',
+    'timetable.changed': '✏️ {timeSlot}{#if day} ({day}){/if}: {before} ← {after}',
+    'help': `🤖 **برکت ٹریکر کمانڈز**
+
+• *حالت* (status) - آج کی پیش رفت
+• *آج* / *شیڈول* (today) - آج کا منصوبہ
+• *اگلا* (next) - آپ کی اگلی سرگرمی
+• *چھوڑو* (skip) - موجودہ چیک اِن چھوڑیں
+• *واپس* (undo) - آخری محفوظ سرگرمی واپس لیں
+• *ہو گیا* (done) - جس سرگرمی کی یاد دہانی ملی اس کی تصدیق
+• *اسنوز 10* (snooze) - کچھ دیر بعد دوبارہ یاد دلائیں
+• *روکو 2 گھنٹے* (pause) - یاد دہانیاں روکیں
+• *جاری* (resume) - یاد دہانیاں دوبارہ شروع
+• *پروفائل رمضان* (profile) - شیڈول پروفائل بدلیں
+• *مدد* (help) - یہ پیغام
+
+اس کے علاوہ ہر پیغام آپ کی موجودہ سرگرمی کے طور پر محفوظ ہو گا۔`,
+
+    'dashboard.diaryTitle': '📊 برکت ٹریکر ڈائری',
+    'dashboard.profile': '🗂️ {name} شیڈول',
+    'dashboard.completionRate': 'تکمیل کی شرح',
+    'dashboard.completed': 'مکمل',
+    'dashboard.pending': 'باقی',
+    'dashboard.totalSlots': 'کل اوقات',
+    'dashboard.timeSlot': 'وقت',
+    'dashboard.planned': '📋 طے شدہ سرگرمی',
+    'dashboard.actual': '✅ اصل سرگرمی',
+    'dashboard.status': 'کیفیت',
+    'dashboard.noResponse': 'کوئی جواب محفوظ نہیں',
+    'dashboard.hours': '{hours} گھنٹے',
+    'dashboard.minutes': '{minutes} منٹ',
+    'dashboard.today': '📅 آج',
+    'dashboard.previousDay': '➡️ پچھلا دن',
+    'dashboard.nextDay': '⬅️ اگلا دن',
+    'dashboard.json': '📊 JSON ڈیٹا',
+    'dashboard.editTimetable': '🗂️ ٹائم ٹیبل میں ترمیم',
+    'dashboard.calendarFeed': '📆 کیلنڈر فیڈ',
+    'dashboard.override.add': '📌 ایک بار',
+    'dashboard.override.replace': '🔁 اس تاریخ کے لیے تبدیل',
+    'dashboard.override.cancel': '🚫 منسوخ: {activity}',
+
+    'editor.title': '🗂️ ٹائم ٹیبل',
+    'editor.loading': 'لوڈ ہو رہا ہے...',
+    'editor.activity': 'سرگرمی',
+    'editor.day': 'دن',
+    'editor.everyDay': 'ہر روز',
+    'editor.add': '➕ شامل کریں',
+    'editor.save': '💾 محفوظ کریں',
+    'editor.import': '📥 CSV سے لائیں',
+    'editor.confirmImport': 'محفوظ ٹائم ٹیبل کی جگہ CSV فائل لے آئیں؟',
+    'editor.backToDiary': '📅 ڈائری پر واپس',
+    'editor.editable': 'تبدیلیاں ڈیٹا بیس میں محفوظ ہو کر فوراً یاد دہانیوں پر لاگو ہوتی ہیں۔',
+    'editor.readOnly': 'CSV ٹائم ٹیبل صرف دیکھنے کے لیے - ترمیم کے لیے ڈیٹا بیس کنکشن درکار ہے۔',
+    'editor.adminToken': 'تبدیلیاں محفوظ کرنے کے لیے ایڈمن ٹوکن (DASHBOARD_ADMIN_TOKEN):'
+  },
+  templates: {
+    reminder: `🔔 یاد دہانی: آپ کی "{activity}" {minutesBefore} منٹ میں {startTime|time} پر شروع ہو رہی ہے۔
+
+⏰ وقت: {timeSlot}
+📝 سرگرمی: {activity}
+{#if category}
+🏷️ زمرہ: {category.emoji} {category.name}
+{/if}
+
+اللہ برکت دے! 💪`,
+    nudge: '⏰ "{activity}" {#if startsIn}{startsIn} منٹ میں، {startTime|time} پر شروع ہو گی{/if}{#if startingNow}ابھی شروع ہو رہی ہے{/if}{#if startedAgo}{startedAgo} منٹ پہلے، {startTime|time} پر شروع ہو چکی{/if}۔',
+    'reminder.count': '🔁 یاد دہانی {number} از {total} ({#if before}{before} منٹ پہلے{/if}{#if atStart}شروع پر{/if}{#if after}شروع کے {after} منٹ بعد{/if})',
+    'reminder.hint': 'شروع کر لیں تو "ہو گیا" لکھیں، یا بعد میں یاد دہانی کے لیے "اسنوز 10"۔',
+    checkin: `🕐 **برکت ٹریکر چیک اِن**
+
+**وقت:** {timeSlot}
+**طے شدہ:** {plannedActivity}
+
+**آپ اس وقت اصل میں کیا کر رہے ہیں؟**
+
+جواب میں لکھیں:
+• آپ کی موجودہ سرگرمی
+• اختیاری: موڈ ایموجی (😊😐😔😤😴💪🤔)
+• اختیاری: نوٹس
+
+*مثال: "پراجیکٹ پر کام ⚡ 💪 - اچھی پیش رفت"*
+
+محفوظ ہونے کے لیے {replyMinutes} منٹ میں جواب دیں! ⏰`,
+    'checkin.recorded': `✅ **سرگرمی محفوظ ہو گئی!**
+
+**وقت:** {timeSlot}
+**سرگرمی:** {activity}
+**موڈ:** {mood}
+{#if notes}
+**نوٹس:** {notes}
+{/if}
+
+شاباش، آپ درست راستے پر ہیں! 🎯`,
+    'checkin.missed': `⏰ **چیک اِن رہ گیا**
+
+{timeSlot} کا چیک اِن رہ گیا۔
+
+کوئی بات نہیں! اگلا چیک اِن {nextCheckIn|time} پر ہے۔ توجہ قائم رکھیں! 💪`,
+    summary: `📊 **آج کا خلاصہ**
+
+**تاریخ:** {date|date:"D MMMM YYYY"}
+**تکمیل کی شرح:** {completionRate|fixed:"1"}%
+**مکمل:** {completedSlots}/{totalSlots} اوقات
+**باقی:** {pendingSlots} چیک اِن
+{#if upcoming}
+
+**آگے کیا ہے:**
+{#each upcoming}
+{@number}. {startTime|time} {activity}
+{/each}
+{/if}
+
+ماشاءاللہ، اسی طرح جاری رکھیں! 🎯`
+  },
+  commands: {
+    status: ['حالت', 'اسٹیٹس'],
+    today: ['آج', 'شیڈول'],
+    next: ['اگلا'],
+    skip: ['چھوڑو', 'چھوڑیں'],
+    undo: ['واپس'],
+    done: ['ہو گیا', 'ہوگیا', 'مکمل', 'ho gaya', 'hogaya'],
+    snooze: ['اسنوز', 'بعد میں'],
+    pause: ['روکو', 'روکیں'],
+    resume: ['جاری', 'شروع'],
+    profile: ['پروفائل'],
+    help: ['مدد']
+  },
+  durationUnits: { hours: ['گھنٹے', 'گھنٹہ', 'گھنٹا'], minutes: ['منٹ'] }
+};
@@ -0,0 +1,135 @@
+import moment from 'moment-timezone';
+import { DailyTracking, ITimeEntry } from '../models/DailyTracking';
+import { UserService } from '../services/UserService';
+
+// An entry as stored before entries had start and end times
+type LegacyTimeEntry = Omit<ITimeEntry, 'startTime' | 'endTime'> & Partial<Pick<ITimeEntry, 'startTime' | 'endTime'>>;
+
+export interface TimeEntryMigrationResult {
+  documents: number; // Tracking documents rewritten
+  migrated: number; // Entries given a start and end time
+  merged: number; // Entries folded into another entry for the same slot
+  skipped: number; // Entries whose label couldn't be read, kept as legacy entries without times
+}
+
+/**
+ * Time Entry Range Migration for BarakahTracker
+ * Tracking entries used to be keyed by their "5:00 AM - 5:30 AM" label, written as "5:00 AM to 5:30 AM" by
+ * some code paths. This reads each label into a start and end time in the owner's timezone and merges entries
+ * that turn out to be the same slot, keeping the answered one. Safe to run more than once.
+ */
+// Documents with entries that have no start time and haven't been kept as legacy entries yet
+const PENDING_QUERY = { entries: { $elemMatch: { startTime: { $exists: false }, legacy: { $ne: true } } } };
+
+export class TimeEntryRangeMigration {
+  private userService: UserService;
+
+  constructor(userService: UserService = UserService.getInstance()) {
+    this.userService = userService;
+  }
+
+  /**
+   * Number of tracking documents with entries still to migrate (needs a database connection)
+   */
+  public static async countPending(): Promise<number> {
+    return DailyTracking.collection.countDocuments(PENDING_QUERY);
+  }
+
+  /**
+   * Migrate every tracking document with entries still to migrate (needs a database connection)
+   */
+  public async run(): Promise<TimeEntryMigrationResult> {
+    const timezones = new Map((await this.userService.getUsers()).map(user => [user.userId, user.timezone]));
+    const fallbackTimezone = this.userService.getDefaultUser().timezone;
+    const result: TimeEntryMigrationResult = { documents: 0, migrated: 0, merged: 0, skipped: 0 };
+
+    // Read and write the raw documents: unmigrated entries don't pass the current schema's validation
+    const documents = await DailyTracking.collection.find(PENDING_QUERY).toArray();
+    if (documents.length > 0) {
+      console.log(`🔧 Migrating tracking entries to start and end times in ${documents.length} day(s)...`);
+    }
+
+    for (const document of documents) {
+      const timezone = timezones.get(document.userId) || fallbackTimezone;
+      const migration = TimeEntryRangeMigration.migrateEntries(document.entries || [], document.date, timezone);
+      await DailyTracking.collection.updateOne({ _id: document._id }, { $set: { entries: migration.entries } });
+
+      result.documents++;
+      result.migrated += migration.migrated;
+      result.merged += migration.merged;
+      result.skipped += migration.skipped;
+      console.log(`🔧 ${document.userId} ${moment.tz(document.date, timezone).format('YYYY-MM-DD')}: ${migration.migrated} migrated, ${migration.merged} merged, ${migration.skipped} skipped`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Give one day's entries start and end times, merging entries for the same slot
+   */
+  public static migrateEntries(entries: LegacyTimeEntry[], date: Date, timezone: string): Omit<TimeEntryMigrationResult, 'documents'> & { entries: LegacyTimeEntry[] } {
+    const migrated: LegacyTimeEntry[] = [];
+    const counts = { migrated: 0, merged: 0, skipped: 0 };
+
+    for (const entry of entries) {
+      let current: ITimeEntry;
+      if (entry.legacy) {
+        migrated.push(entry);
+        continue;
+      }
+      if (entry.startTime && entry.endTime) {
+        current = { ...entry, startTime: entry.startTime, endTime: entry.endTime };
+      } else {
+        const range = TimeEntryRangeMigration.parseTimeSlot(entry.timeSlot, date, timezone);
+        if (!range) {
+          // Marked so it isn't tried again on every start
+          console.warn(`⚠️ Could not read time slot "${entry.timeSlot}", keeping it as a legacy entry`);
+          migrated.push({ ...entry, legacy: true });
+          counts.skipped++;
+          continue;
+        }
+        current = {
+          ...entry,
+          ...range,
+          timeSlot: `${moment.tz(range.startTime, timezone).format('h:mm A')} - ${moment.tz(range.endTime, timezone).format('h:mm A')}`
+        };
+        counts.migrated++;
+      }
+
+      const sameSlot = migrated.findIndex(other => other.startTime?.getTime() === current.startTime.getTime());
+      if (sameSlot < 0) {
+        migrated.push(current);
+        continue;
+      }
+      // Prefer the answered entry, then the most recently updated one
+      const other = migrated[sameSlot] as LegacyTimeEntry;
+      const keepCurrent = current.isCompleted !== other.isCompleted
+        ? current.isCompleted
+        : new Date(current.timestamp).getTime() > new Date(other.timestamp).getTime();
+      if (keepCurrent) {
+        migrated[sameSlot] = current;
+      }
+      counts.merged++;
+    }
+
+    return { entries: migrated, ...counts };
+  }
+
+  /**
+   * Read a "5:00 AM - 5:30 AM" or "5:00 AM to 5:30 AM" label on a day; slots ending past midnight end the next day
+   */
+  public static parseTimeSlot(timeSlot: string, date: Date, timezone: string): { startTime: Date; endTime: Date } | null {
+    const [start, end] = timeSlot.trim().split(/\s+(?:-|to)\s+/i);
+    const day = moment.tz(date, timezone).format('YYYY-MM-DD');
+    const formats = ['YYYY-MM-DD h:mm A', 'YYYY-MM-DD hh:mm A'];
+    const startTime = moment.tz(`${day} ${start}`, formats, true, timezone);
+    const endTime = moment.tz(`${day} ${end}`, formats, true, timezone);
+    if (!startTime.isValid() || !endTime.isValid()) {
+      return null;
+    }
+    if (!endTime.isAfter(startTime)) {
+      endTime.add(1, 'day');
+    }
+    return { startTime: startTime.toDate(), endTime: endTime.toDate() };
+  }
+}
@@ -1,15 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import moment from 'moment-timezone';
 
 // Interface for daily tracking entries
 export interface IDailyTracking extends Document {
   date: Date;
-  userId: string; // For future multi-user support
+  userId: string; // Owner of the tracking document (see User model)
+  profile: string; // Schedule profile the day was planned from, e.g. "ramadan"
   entries: ITimeEntry[];
   createdAt: Date;
   updatedAt: Date;
   
   // Instance methods
-  updateEntry(timeSlot: string, actualActivity: string, mood?: string, notes?: string): Promise<IDailyTracking>;
+  findEntry(startTime: Date): ITimeEntry | undefined;
+  updateEntry(slot: TrackedSlot, actualActivity: string, mood?: string, notes?: string): Promise<IDailyTracking>;
+  revertEntry(startTime: Date, previous: ITimeEntry | null): Promise<IDailyTracking>;
   getCompletionRate(): number;
   getSummary(): {
     date: Date;
@@ -23,21 +27,42 @@ export interface IDailyTracking extends Document {
 
 // Interface for individual time entries
 export interface ITimeEntry {
-  timeSlot: string; // "05:00 AM - 05:30 AM" 
+  startTime: Date; // Start of the check-in slot, which entries are looked up by
+  endTime: Date;
+  timeSlot: string; // Display label only, "5:00 AM - 5:30 AM"
   timestamp: Date;
   plannedActivity: string; // From CSV timetable
-  actualActivity: string; // User's response to 30-min check-in
+  category?: string | undefined; // Category of the planned activity (see CategoryService), for per-category stats
+  actualActivity: string; // User's response to the check-in
   isCompleted: boolean; // Whether user responded to this time slot
   mood?: string; // Optional mood tracking
   notes?: string; // Optional additional notes
+  legacy?: boolean | undefined; // Recorded before entries had times, with a label the migration couldn't read; kept as history
+}
+
+// The check-in slot an entry is recorded against
+export interface TrackedSlot {
+  startTime: Date;
+  endTime: Date;
+  timeSlot: string;
+  plannedActivity?: string | undefined;
+  category?: string | undefined;
 }
 
 // Time Entry Schema
 const TimeEntrySchema = new Schema<ITimeEntry>({
+  startTime: {
+    type: Date,
+    required: function (this: ITimeEntry) { return !this.legacy; },
+    index: true
+  },
+  endTime: {
+    type: Date,
+    required: function (this: ITimeEntry) { return !this.legacy; }
+  },
   timeSlot: {
     type: String,
-    required: true,
-    index: true
+    required: true
   },
   timestamp: {
     type: Date,
@@ -47,6 +72,7 @@ const TimeEntrySchema = new Schema<ITimeEntry>({
     type: String,
     required: true
   },
+  category: String,
   actualActivity: {
     type: String,
     default: ''
@@ -63,14 +89,16 @@ const TimeEntrySchema = new Schema<ITimeEntry>({
   notes: {
     type: String,
     default: ''
-  }
+  },
+  legacy: Boolean
 }, { _id: false });
 
 // Static methods interface
 interface IDailyTrackingModel extends mongoose.Model<IDailyTracking> {
-  findOrCreateToday(userId?: string): Promise<IDailyTracking>;
-  getByDate(date: Date, userId?: string): Promise<IDailyTracking | null>;
+  findOrCreateToday(userId?: string, timezone?: string): Promise<IDailyTracking>;
+  getByDate(date: Date, userId?: string, timezone?: string): Promise<IDailyTracking | null>;
   getStats(startDate: Date, endDate: Date, userId?: string): Promise<any>;
+  getStatsByProfile(startDate: Date, endDate: Date, userId?: string): Promise<any>;
 }
 
 // Daily Tracking Schema
@@ -84,9 +112,13 @@ const DailyTrackingSchema = new Schema<IDailyTracking>({
   userId: {
     type: String,
     required: true,
-    default: 'muneeb', // Default user ID
+    default: 'default', // Primary user configured through .env
     index: true
   },
+  profile: {
+    type: String,
+    default: 'default'
+  },
   entries: [TimeEntrySchema]
 }, {
   timestamps: true,
@@ -98,14 +130,32 @@ DailyTrackingSchema.index({ date: 1, userId: 1 }, { unique: true });
 DailyTrackingSchema.index({ 'entries.timestamp': 1 });
 DailyTrackingSchema.index({ 'entries.isCompleted': 1 });
 
+// Entries from before entries had start and end times that the migration couldn't read (see TimeEntryRangeMigration)
+// are kept as legacy history, so they don't block saving the day; tracking only reads entries with times
+DailyTrackingSchema.pre('validate', function () {
+  this.entries.forEach(entry => {
+    if (!hasTimeRange(entry) && !entry.legacy) {
+      console.warn(`⚠️ Keeping tracking entry without start and end times as legacy: ${entry.timeSlot}`);
+      entry.legacy = true;
+    }
+  });
+});
+
+/**
+ * Whether an entry has its start and end time; entries recorded by older versions may not
+ */
+export function hasTimeRange(entry: Partial<Pick<ITimeEntry, 'startTime' | 'endTime'>>): boolean {
+  return entry.startTime instanceof Date && entry.endTime instanceof Date;
+}
+
 // Static methods for the model
 DailyTrackingSchema.statics = {
   /**
    * Find or create today's tracking document
+   * "Today" starts at midnight in the given timezone (server local time if omitted)
    */
-  async findOrCreateToday(userId: string = 'default'): Promise<IDailyTracking> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async findOrCreateToday(userId: string = 'default', timezone: string = moment.tz.guess()): Promise<IDailyTracking> {
+    const today = moment.tz(timezone).startOf('day').toDate();
     
     let tracking = await this.findOne({ date: today, userId });
     
@@ -124,9 +174,8 @@ DailyTrackingSchema.statics = {
   /**
    * Get tracking data for a specific date
    */
-  async getByDate(date: Date, userId: string = 'default'): Promise<IDailyTracking | null> {
-    const targetDate = new Date(date);
-    targetDate.setHours(0, 0, 0, 0);
+  async getByDate(date: Date, userId: string = 'default', timezone: string = moment.tz.guess()): Promise<IDailyTracking | null> {
+    const targetDate = moment.tz(date, timezone).startOf('day').toDate();
     
     return this.findOne({ date: targetDate, userId });
   },
@@ -159,30 +208,84 @@ DailyTrackingSchema.statics = {
         }
       }
     ]);
+  },
+
+  /**
+   * Get tracking stats for a date range per schedule profile, to compare e.g. Ramadan with normal days
+   */
+  async getStatsByProfile(startDate: Date, endDate: Date, userId: string = 'default') {
+    return this.aggregate([
+      {
+        $match: {
+          userId,
+          date: { $gte: startDate, $lte: endDate }
+        }
+      },
+      {
+        $unwind: '$entries'
+      },
+      {
+        $group: {
+          _id: { $ifNull: ['$profile', 'default'] },
+          days: { $addToSet: '$date' },
+          totalEntries: { $sum: 1 },
+          completedEntries: {
+            $sum: { $cond: ['$entries.isCompleted', 1, 0] }
+          },
+          completionRate: {
+            $avg: { $cond: ['$entries.isCompleted', 1, 0] }
+          }
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          profile: '$_id',
+          days: { $size: '$days' },
+          totalEntries: 1,
+          completedEntries: 1,
+          completionRate: 1
+        }
+      },
+      {
+        $sort: { profile: 1 }
+      }
+    ]);
   }
 };
 
 // Instance methods
 DailyTrackingSchema.methods = {
   /**
-   * Add or update an entry for a specific time slot
+   * The entry recorded for the check-in slot starting at a time
+   */
+  findEntry(startTime: Date): ITimeEntry | undefined {
+    return this.entries.find((entry: ITimeEntry) => hasTimeRange(entry) && entry.startTime.getTime() === startTime.getTime());
+  },
+
+  /**
+   * Add or update the entry for a check-in slot
    */
-  async updateEntry(timeSlot: string, actualActivity: string, mood?: string, notes?: string) {
-    const entryIndex = this.entries.findIndex((entry: ITimeEntry) => entry.timeSlot === timeSlot);
+  async updateEntry(slot: TrackedSlot, actualActivity: string, mood?: string, notes?: string) {
+    const entry = this.findEntry(slot.startTime);
     
-    if (entryIndex >= 0) {
+    if (entry) {
       // Update existing entry
-      this.entries[entryIndex].actualActivity = actualActivity;
-      this.entries[entryIndex].isCompleted = true;
-      this.entries[entryIndex].timestamp = new Date();
-      if (mood) this.entries[entryIndex].mood = mood;
-      if (notes) this.entries[entryIndex].notes = notes;
+      entry.actualActivity = actualActivity;
+      entry.isCompleted = true;
+      entry.timestamp = new Date();
+      if (mood) entry.mood = mood;
+      if (notes) entry.notes = notes;
+      if (slot.category) entry.category = slot.category;
     } else {
       // Create new entry
       this.entries.push({
-        timeSlot,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        timeSlot: slot.timeSlot,
         timestamp: new Date(),
-        plannedActivity: '', // Will be populated from timetable
+        plannedActivity: slot.plannedActivity || 'Free time',
+        category: slot.category,
         actualActivity,
         isCompleted: true,
         mood: mood || '😐',
@@ -193,6 +296,30 @@ DailyTrackingSchema.methods = {
     return this.save();
   },
 
+  /**
+   * Restore a check-in slot to a previous snapshot (used to undo updateEntry)
+   * A null snapshot means the entry didn't exist before, so it is removed
+   */
+  async revertEntry(startTime: Date, previous: ITimeEntry | null) {
+    const entryIndex = this.entries.findIndex((entry: ITimeEntry) => hasTimeRange(entry) && entry.startTime.getTime() === startTime.getTime());
+
+    if (previous === null) {
+      if (entryIndex >= 0) {
+        this.entries.splice(entryIndex, 1);
+      }
+    } else if (entryIndex >= 0) {
+      this.entries[entryIndex].actualActivity = previous.actualActivity;
+      this.entries[entryIndex].isCompleted = previous.isCompleted;
+      this.entries[entryIndex].timestamp = previous.timestamp;
+      this.entries[entryIndex].mood = previous.mood || '😐';
+      this.entries[entryIndex].notes = previous.notes || '';
+    } else {
+      this.entries.push({ ...previous });
+    }
+
+    return this.save();
+  },
+
   /**
    * Get completion percentage for today
    */
@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Plain template record: a user's wording for one message in one language (see MessageTemplateService)
+export interface IMessageTemplateEntry {
+  userId: string;
+  name: string; // Template name, e.g. "reminder" or "checkin.missed"
+  language: string; // Language code, e.g. "en"
+  body: string; // Template text (see TemplateEngine for the syntax)
+}
+
+export interface IMessageTemplate extends IMessageTemplateEntry, Document {}
+
+// Message Template Schema
+const MessageTemplateSchema = new Schema<IMessageTemplate>({
+  userId: {
+    type: String,
+    required: true,
+    default: 'default'
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  language: {
+    type: String,
+    required: true,
+    lowercase: true,
+    default: 'en'
+  },
+  body: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'messageTemplates'
+});
+
+MessageTemplateSchema.index({ userId: 1, name: 1, language: 1 }, { unique: true });
+
+export const MessageTemplate = mongoose.model<IMessageTemplate>('MessageTemplate', MessageTemplateSchema);
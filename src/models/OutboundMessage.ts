@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { InteractiveMessage } from '../services/WhatsAppService';
+
+export type OutboundMessageStatus = 'pending' | 'dead';
+
+// Plain outbound queue record, shared by the Mongo collection and the in-memory copy
+export interface IOutboundMessageEntry {
+  queueId: string;
+  recipient: string;
+  message: string;
+  interactive?: InteractiveMessage | undefined; // Buttons or list to send with the message
+  status: OutboundMessageStatus; // pending: waiting for a retry, dead: given up on
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string | undefined;
+  createdAt: Date;
+}
+
+export interface IOutboundMessage extends IOutboundMessageEntry, Document {}
+
+// Outbound Message Schema - messages whose first send failed; delivered ones are removed
+const OutboundMessageSchema = new Schema<IOutboundMessage>({
+  queueId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  recipient: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  interactive: Schema.Types.Mixed,
+  status: {
+    type: String,
+    enum: ['pending', 'dead'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    required: true
+  },
+  lastError: String,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'outboundMessages'
+});
+
+OutboundMessageSchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const OutboundMessage = mongoose.model<IOutboundMessage>('OutboundMessage', OutboundMessageSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// queued: the first send failed and the outbound queue retries it
+export type ReminderStatus = 'pending' | 'sent' | 'queued' | 'failed';
+
+// Plain reminder log record, shared by the Mongo collection and the in-memory fallback
+export interface IReminderLogEntry {
+  reminderId: string; // SchedulerService reminder id (time slot + activity)
+  date: Date; // Day the reminded activity belongs to (midnight in the timetable timezone)
+  userId: string;
+  activity: string;
+  timeSlot: string;
+  plannedTime: Date; // When the reminder was due to go out
+  attempts: number;
+  status: ReminderStatus;
+  lastAttemptAt?: Date;
+  sentAt?: Date;
+  messageId?: string; // Transport message id, when the transport returns one
+  error?: string;
+  confirmedAt?: Date; // When the user replied "done", which stops further nudges
+}
+
+export interface IReminderLog extends IReminderLogEntry, Document {}
+
+// Reminder Log Schema
+const ReminderLogSchema = new Schema<IReminderLog>({
+  reminderId: {
+    type: String,
+    required: true
+  },
+  date: {
+    type: Date,
+    required: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    default: 'default'
+  },
+  activity: {
+    type: String,
+    default: ''
+  },
+  timeSlot: {
+    type: String,
+    default: ''
+  },
+  plannedTime: {
+    type: Date,
+    required: true
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'sent', 'queued', 'failed'],
+    default: 'pending'
+  },
+  lastAttemptAt: Date,
+  sentAt: Date,
+  messageId: String,
+  error: String,
+  confirmedAt: Date
+}, {
+  timestamps: true,
+  collection: 'reminderLog'
+});
+
+// One log record per reminder per day
+ReminderLogSchema.index({ reminderId: 1, date: 1, userId: 1 }, { unique: true });
+
+export const ReminderLog = mongoose.model<IReminderLog>('ReminderLog', ReminderLogSchema);
\ No newline at end of file
@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ScheduleOverrideType } from '../types';
+
+// Plain override record: a date-bound change layered on top of the repeating timetable
+export interface IScheduleOverrideEntry {
+  userId: string;
+  type: ScheduleOverrideType; // add a slot, replace the slots it overlaps, or cancel slots
+  startDate: string; // First day it applies, "YYYY-MM-DD" in the user's timezone
+  endDate: string; // Last day it applies (same as startDate for one-off events)
+  timeSlot?: string | undefined; // "3:00 PM to 4:00 PM"; a cancel without one matches the whole day
+  activity?: string | undefined; // New activity for add/replace; for cancel, only slots containing this text
+  note?: string | undefined; // Shown on the dashboard, e.g. "Public holiday"
+}
+
+export interface IScheduleOverride extends IScheduleOverrideEntry, Document {}
+
+// Schedule Override Schema
+const ScheduleOverrideSchema = new Schema<IScheduleOverride>({
+  userId: {
+    type: String,
+    required: true,
+    default: 'default'
+  },
+  type: {
+    type: String,
+    enum: ['add', 'replace', 'cancel'],
+    required: true
+  },
+  startDate: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/
+  },
+  endDate: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/
+  },
+  timeSlot: String,
+  activity: String,
+  note: String
+}, {
+  timestamps: true,
+  collection: 'scheduleOverrides'
+});
+
+ScheduleOverrideSchema.index({ userId: 1, endDate: 1 });
+
+export const ScheduleOverride = mongoose.model<IScheduleOverride>('ScheduleOverride', ScheduleOverrideSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TimetablePriority } from '../types';
+
+// A timetable row edited from the web dashboard (same fields as the timetable file)
+export interface IStoredTimetableRow extends Document {
+  userId: string;
+  timeSlot: string; // "5:00 AM to 5:30 AM"
+  activity: string;
+  day: string; // Day spec such as "Mon-Fri"; empty for every day
+  category?: string;
+  location?: string;
+  priority?: TimetablePriority;
+  reminderMinutesBefore?: number;
+  reminderOffsets?: number[];
+  tags?: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Stored Timetable Row Schema
+const StoredTimetableRowSchema = new Schema<IStoredTimetableRow>({
+  userId: {
+    type: String,
+    required: true,
+    default: 'default',
+    index: true
+  },
+  timeSlot: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  activity: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  day: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  category: {
+    type: String,
+    trim: true
+  },
+  location: {
+    type: String,
+    trim: true
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'normal', 'high']
+  },
+  reminderMinutesBefore: {
+    type: Number,
+    min: 0,
+    max: 120
+  },
+  reminderOffsets: {
+    type: [Number],
+    default: undefined
+  },
+  tags: {
+    type: [String],
+    default: undefined
+  }
+}, {
+  timestamps: true,
+  collection: 'timetableRows'
+});
+
+export const StoredTimetableRow = mongoose.model<IStoredTimetableRow>('StoredTimetableRow', StoredTimetableRowSchema);
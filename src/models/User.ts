@@ -0,0 +1,124 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CheckInConfig, CategoryReminderOffsets, ScheduleProfile } from '../types';
+
+// Hours during which check-ins are sent, as 24-hour "HH:mm" strings
+export interface IActiveHours {
+  start: string;
+  end: string;
+}
+
+// Plain user profile, shared by the Mongo collection and the primary user from .env
+export interface IUserProfile {
+  userId: string; // Short unique id, e.g. "default" or "ayesha"
+  name: string;
+  phone: string; // WhatsApp number, digits only with country code
+  timezone: string;
+  timetableFile: string; // Timetable CSV this user's schedule is read from
+  reminderMinutesBefore: number;
+  reminderMessage?: string | undefined;
+  language?: string | undefined; // Language of the bot's messages, e.g. "en" (see MessageTemplateService)
+  reminderOffsets?: CategoryReminderOffsets[] | undefined; // Reminders per category
+  reminderEscalation?: CategoryReminderOffsets[] | undefined; // Follow-up nudges per category
+  activeHours?: IActiveHours | undefined; // Falls back to the first and last timetable slots
+  scheduleProfiles?: ScheduleProfile[] | undefined; // Alternative timetables such as Ramadan
+  selectedProfile?: string | undefined; // Profile switched to with the "profile" command; profiles follow their dates when unset
+  calendarFile?: string | undefined; // Local .ics file whose events are added to the schedule
+  checkIns?: CheckInConfig | undefined; // When activity check-ins are sent; one per timetable entry when unset
+  isActive: boolean;
+}
+
+export interface IUser extends IUserProfile, Document {}
+
+// Reminder offsets or escalation chain for one category
+const CategoryOffsetsSchema = new Schema<CategoryReminderOffsets>({
+  category: { type: String, required: true, lowercase: true, trim: true },
+  offsets: { type: [Number], required: true }
+}, { _id: false });
+
+// User Schema
+const UserSchema = new Schema<IUser>({
+  userId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  phone: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  timezone: {
+    type: String,
+    required: true
+  },
+  timetableFile: {
+    type: String,
+    required: true
+  },
+  reminderMinutesBefore: {
+    type: Number,
+    default: 15,
+    min: 0,
+    max: 120
+  },
+  reminderMessage: String,
+  language: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  reminderOffsets: {
+    type: [CategoryOffsetsSchema],
+    default: undefined
+  },
+  reminderEscalation: {
+    type: [CategoryOffsetsSchema],
+    default: undefined
+  },
+  activeHours: {
+    type: new Schema<IActiveHours>({
+      start: { type: String, required: true, match: /^\d{2}:\d{2}$/ },
+      end: { type: String, required: true, match: /^\d{2}:\d{2}$/ }
+    }, { _id: false }),
+    required: false
+  },
+  scheduleProfiles: {
+    type: [new Schema<ScheduleProfile>({
+      name: { type: String, required: true, lowercase: true, trim: true },
+      timetableFile: { type: String, required: true },
+      startDate: { type: String, match: /^\d{4}-\d{2}-\d{2}$/ },
+      endDate: { type: String, match: /^\d{4}-\d{2}-\d{2}$/ }
+    }, { _id: false })],
+    default: undefined
+  },
+  selectedProfile: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  calendarFile: String,
+  checkIns: {
+    type: new Schema<CheckInConfig>({
+      mode: { type: String, enum: ['entries', 'interval'], required: true },
+      intervalMinutes: { type: Number, required: true, min: 5, max: 240 }
+    }, { _id: false }),
+    required: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'users'
+});
+
+export const User = mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
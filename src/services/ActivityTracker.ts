@@ -1,35 +1,98 @@
-import { DailyTracking, IDailyTracking, ITimeEntry } from '../models/DailyTracking';
-import { TimetableParser } from './TimetableParser';
-import { IWhatsAppService } from './WhatsAppService';
+import { DailyTracking, ITimeEntry, TrackedSlot } from '../models/DailyTracking';
+import { IActiveHours } from '../models/User';
+import { TimetableRepository } from './TimetableRepository';
+import { CheckInSlot, CheckInSlotPlanner } from './CheckInSlotPlanner';
+import { CategoryService } from './CategoryService';
+import { MessageTemplateService } from './MessageTemplateService';
+import { MessageKey } from '../locales/types';
+import { TimetableEntry } from '../types';
+import { IWhatsAppService, InteractiveMessage } from './WhatsAppService';
 import * as cron from 'node-cron';
-import moment from 'moment';
+import moment from 'moment-timezone';
+
+// Called after a check-in reply is recorded, e.g. to stop reminder nudges for that activity
+export type ActivityRecordedHandler = (slot: TrackedSlot, activity: string) => Promise<void> | void;
+
+// Moods a reply can carry, with the locale key of each one's label in the mood list
+const MOODS: Array<{ emoji: string; label: MessageKey }> = [
+  { emoji: '😊', label: 'mood.happy' },
+  { emoji: '😐', label: 'mood.neutral' },
+  { emoji: '😔', label: 'mood.sad' },
+  { emoji: '😤', label: 'mood.frustrated' },
+  { emoji: '😴', label: 'mood.tired' },
+  { emoji: '💪', label: 'mood.motivated' },
+  { emoji: '🤔', label: 'mood.thoughtful' }
+];
+
+// Ids of the check-in's reply buttons ("checkin:planned:<slot start ms>") and mood list rows ("mood:<index>:<slot start ms>")
+const CHECKIN_REPLY_ID = /^checkin:(planned|other|skip):(\d+)$/;
+const MOOD_REPLY_ID = /^mood:(\d+):(\d+)$/;
+
+// The Cloud API's limit for the body of an interactive message; longer check-ins are sent as text
+const MAX_INTERACTIVE_BODY = 1024;
+
+// A check-in waiting for a reply
+interface PendingCheckIn {
+  slot: CheckInSlot;
+  timestamp: Date;
+}
 
 /**
  * Activity Tracker Service for BarakahTracker
- * Asks user every 30 minutes what they're doing and stores responses
+ * Asks the user what they're doing at the start of each check-in slot (see CheckInSlotPlanner) and stores responses.
+ * Where the transport supports it, check-ins come with reply buttons and recorded replies with a mood list.
  */
 export class ActivityTracker {
-  private timetableParser: TimetableParser;
+  private timetableRepository: TimetableRepository;
   private whatsappService: IWhatsAppService;
   private recipientPhone: string;
   private isRunning = false;
   private checkInTask: cron.ScheduledTask | null = null;
   private wakeTime = '05:00'; // 5:00 AM default
   private sleepTime = '23:30'; // 11:30 PM default
-  private pendingResponses = new Map<string, { timeSlot: string; timestamp: Date }>(); 
+  private pendingResponses = new Map<number, PendingCheckIn>(); // Keyed by slot start time
+  private lastRecorded: { slot: TrackedSlot; activity: string; previous: ITimeEntry | null } | null = null;
+  private nextCheckIn: Date | null = null;
+  private pausedUntil: Date | null = null;
+  private timezone: string;
+  private userId: string;
+  private activeHours: IActiveHours | undefined;
+  private checkInSlots: CheckInSlotPlanner;
+  private categories: CategoryService;
+  private messages: MessageTemplateService;
+  private recordedHandlers: ActivityRecordedHandler[] = [];
 
   constructor(
-    timetableParser: TimetableParser,
+    timetableRepository: TimetableRepository,
     whatsappService: IWhatsAppService,
-    recipientPhone: string
+    recipientPhone: string,
+    timezone: string = moment.tz.guess(),
+    userId: string = 'default',
+    activeHours?: IActiveHours,
+    checkInSlots?: CheckInSlotPlanner,
+    categories: CategoryService = new CategoryService(),
+    messages: MessageTemplateService = new MessageTemplateService(userId, timezone)
   ) {
-    this.timetableParser = timetableParser;
+    this.timetableRepository = timetableRepository;
     this.whatsappService = whatsappService;
     this.recipientPhone = recipientPhone;
+    this.timezone = timezone;
+    this.userId = userId;
+    this.activeHours = activeHours;
+    this.checkInSlots = checkInSlots || new CheckInSlotPlanner(timetableRepository);
+    this.categories = categories;
+    this.messages = messages;
   }
 
   /**
-   * Start the 30-minute activity tracking system
+   * Register a handler for recorded check-in replies
+   */
+  public onActivityRecorded(handler: ActivityRecordedHandler): void {
+    this.recordedHandlers.push(handler);
+  }
+
+  /**
+   * Start the activity tracking system
    */
   public async start(): Promise<void> {
     if (this.isRunning) {
@@ -37,20 +100,20 @@ export class ActivityTracker {
       return;
     }
 
-    console.log('🕐 Starting 30-minute Activity Tracker...');
+    console.log('🕐 Starting Activity Tracker...');
     
     try {
       // Extract wake and sleep times from timetable
       await this.extractWakeSleepTimes();
       
-      // Schedule check-ins every 30 minutes during active hours
+      // Schedule check-ins at each slot during active hours
       this.scheduleCheckIns();
       
       // Initialize today's tracking document
       await this.initializeTodayTracking();
       
       this.isRunning = true;
-      console.log(`✅ Activity Tracker started! Checking in every 30 minutes from ${this.wakeTime} to ${this.sleepTime}`);
+      console.log(`✅ Activity Tracker started! Checking in ${this.describeCheckIns()} from ${this.wakeTime} to ${this.sleepTime}`);
       
     } catch (error) {
       console.error('❌ Failed to start Activity Tracker:', error);
@@ -78,11 +141,30 @@ export class ActivityTracker {
   }
 
   /**
-   * Extract wake and sleep times from timetable
+   * Pick up timetable edits: recompute active hours and refresh today's planned activities
+   */
+  public async reload(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    await this.extractWakeSleepTimes();
+    await this.initializeTodayTracking();
+  }
+
+  /**
+   * Extract wake and sleep times from timetable (unless the user set their own active hours)
    */
   private async extractWakeSleepTimes(): Promise<void> {
+    if (this.activeHours) {
+      this.wakeTime = this.activeHours.start;
+      this.sleepTime = this.activeHours.end;
+      console.log(`⏰ Active hours: ${this.wakeTime} - ${this.sleepTime}`);
+      return;
+    }
+
     try {
-      const todaySchedule = await this.timetableParser.getTodaySchedule();
+      const todaySchedule = await this.timetableRepository.getTodaySchedule();
       
       if (todaySchedule.length > 0) {
         // First entry is wake time
@@ -103,27 +185,44 @@ export class ActivityTracker {
   }
 
   /**
-   * Schedule check-ins every 30 minutes
+   * Look for a new check-in slot every minute
    */
   private scheduleCheckIns(): void {
-    // Run every 30 minutes: 0 */30 * * * * (every 30 minutes)
-    this.checkInTask = cron.schedule('0 */30 * * * *', async () => {
+    // Slots can start on any minute when they follow the timetable
+    this.checkInTask = cron.schedule('0 * * * * *', async () => {
       await this.performCheckIn();
     }, {
       scheduled: true,
-      timezone: 'Asia/Karachi' // Adjust to your timezone
+      timezone: this.timezone
     });
 
-    console.log('📅 Scheduled check-ins every 30 minutes');
+    console.log(`📅 Scheduled check-ins ${this.describeCheckIns()}`);
+  }
+
+  private describeCheckIns(): string {
+    const { mode, intervalMinutes } = this.checkInSlots.getConfig();
+    return mode === 'entries'
+      ? `at each timetable entry (every ${intervalMinutes} minutes of free time)`
+      : `every ${intervalMinutes} minutes`;
   }
 
   /**
-   * Perform a check-in: ask user what they're doing
+   * Perform a check-in when a slot starts: ask user what they're doing
    */
-  private async performCheckIn(): Promise<void> {
+  private async performCheckIn(now: moment.Moment = moment.tz(this.timezone)): Promise<void> {
     try {
-      const now = moment();
+      const slot = await this.checkInSlots.getSlotAt(now.toDate());
+      this.nextCheckIn = slot ? slot.endTime : null;
+      if (!slot || !moment(slot.startTime).isSame(now, 'minute')) {
+        return;
+      }
+
       const currentTime = now.format('HH:mm');
+
+      if (this.isPaused()) {
+        console.log(`⏸️ Check-ins paused until ${moment.tz(this.pausedUntil, this.timezone).format('h:mm A')}, skipping check-in`);
+        return;
+      }
       
       // Check if we're within active hours
       if (!this.isActiveTime(currentTime)) {
@@ -131,27 +230,37 @@ export class ActivityTracker {
         return;
       }
 
-      const timeSlot = this.generateTimeSlot(now);
-      const plannedActivity = await this.getPlannedActivity(now);
+      // Leave the last 5 minutes of the slot (at least 5 minutes) before giving up on a reply
+      const slotMinutes = Math.round((slot.endTime.getTime() - slot.startTime.getTime()) / 60000);
+      const replyMinutes = Math.max(slotMinutes - 5, 5);
       
       // Create check-in message
-      const checkInMessage = this.createCheckInMessage(timeSlot, plannedActivity);
+      const checkInMessage = await this.createCheckInMessage(slot, replyMinutes);
       
-      // Send WhatsApp message
-      await this.whatsappService.sendMessage(this.recipientPhone, checkInMessage);
+      // Send WhatsApp message, with "doing planned", "something else" and "skip" buttons
+      const start = slot.startTime.getTime();
+      const locale = this.messages.getLocale();
+      await this.send({
+        body: checkInMessage,
+        buttons: [
+          { id: `checkin:planned:${start}`, title: locale.t('checkin.planned') },
+          { id: `checkin:other:${start}`, title: locale.t('checkin.other') },
+          { id: `checkin:skip:${start}`, title: locale.t('checkin.skip') }
+        ]
+      });
       
       // Store pending response
-      this.pendingResponses.set(timeSlot, {
-        timeSlot,
+      this.pendingResponses.set(slot.startTime.getTime(), {
+        slot,
         timestamp: now.toDate()
       });
 
-      console.log(`✅ Check-in sent for ${timeSlot}`);
+      console.log(`✅ Check-in sent for ${slot.timeSlot} (${slot.plannedActivity})`);
       
-      // Auto-timeout after 25 minutes if no response
+      // Auto-timeout if no response
       setTimeout(() => {
-        this.handleTimeout(timeSlot);
-      }, 25 * 60 * 1000); // 25 minutes
+        this.handleTimeout(slot.startTime.getTime());
+      }, replyMinutes * 60 * 1000);
 
     } catch (error) {
       console.error('❌ Failed to perform check-in:', error);
@@ -170,102 +279,148 @@ export class ActivityTracker {
   }
 
   /**
-   * Generate time slot string (e.g., "2:00 PM - 2:30 PM")
+   * Create check-in message for WhatsApp
    */
-  private generateTimeSlot(now: moment.Moment): string {
-    const startTime = now.format('h:mm A');
-    const endTime = now.add(30, 'minutes').format('h:mm A');
-    return `${startTime} - ${endTime}`;
+  private async createCheckInMessage(slot: CheckInSlot, replyMinutes: number = 25): Promise<string> {
+    return this.messages.render('checkin', {
+      timeSlot: slot.timeSlot,
+      plannedActivity: slot.plannedActivity,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      replyMinutes
+    });
   }
 
   /**
-   * Get planned activity for this time slot
+   * Handle user response to check-in
    */
-  private async getPlannedActivity(time: moment.Moment): Promise<string> {
+  public async handleResponse(userMessage: string, slotStart?: Date): Promise<string> {
     try {
-      const todaySchedule = await this.timetableParser.getTodaySchedule();
-      
-      // Find the entry where current time falls within the time range
-      const matchingEntry = todaySchedule.find((entry) => {
-        const entryStart = moment(entry.startTime);
-        const entryEnd = moment(entry.endTime);
-        
-        // Check if current time falls within this entry's time range
-        return time.isBetween(entryStart, entryEnd, 'minute', '[]');
-      });
-      
-      if (matchingEntry) {
-        console.log(`📋 Found planned activity for ${time.format('h:mm A')}: ${matchingEntry.activity}`);
-        return matchingEntry.activity;
-      } else {
-        console.log(`📋 No planned activity found for ${time.format('h:mm A')}, using 'Free time'`);
-        return 'Free time';
+      // If no specific slot provided, use the most recent pending one
+      const pending = slotStart ? this.pendingResponses.get(slotStart.getTime()) : this.getLatestPending();
+      if (!pending) {
+        return this.messages.getLocale().t('checkin.none');
       }
-    } catch (error) {
-      console.error('⚠️ Could not get planned activity:', error);
-      return 'Free time';
-    }
-  }
-
-  /**
-   * Create check-in message for WhatsApp
-   */
-  private createCheckInMessage(timeSlot: string, plannedActivity: string): string {
-    return `🕐 **BarakahTracker Check-in**
 
-**Time:** ${timeSlot}
-**Planned:** ${plannedActivity}
+      // Remove from pending
+      this.pendingResponses.delete(pending.slot.startTime.getTime());
 
-**What are you actually doing right now?**
+      // Parse response (extract activity, mood, notes)
+      const parsedResponse = this.parseUserResponse(userMessage);
 
-Please reply with:
-• Your current activity
-• Optional: Add mood emoji (😊😐😔😤😴💪🤔)
-• Optional: Add notes
+      // Store in database
+      await this.recordActivity(pending.slot, parsedResponse.activity, parsedResponse.mood, parsedResponse.notes);
 
-*Example: "Working on project ⚡ 💪 - making good progress"*
+      return await this.messages.render('checkin.recorded', {
+        timeSlot: pending.slot.timeSlot,
+        activity: parsedResponse.activity,
+        mood: parsedResponse.mood,
+        notes: parsedResponse.notes
+      });
 
-Reply within 25 minutes to be recorded! ⏰`;
+    } catch (error) {
+      console.error('❌ Failed to handle response:', error);
+      return this.messages.getLocale().t('checkin.error');
+    }
   }
 
   /**
-   * Handle user response to check-in
+   * Handle a tapped check-in button or mood list row, recording the choice straight away
+   * Returns false for reply ids that aren't the tracker's, so the message is handled as text
    */
-  public async handleResponse(userMessage: string, timeSlot?: string): Promise<string> {
+  public async handleReply(replyId: string): Promise<boolean> {
+    const checkInReply = replyId.match(CHECKIN_REPLY_ID);
+    const moodReply = replyId.match(MOOD_REPLY_ID);
+    if (!checkInReply && !moodReply) {
+      return false;
+    }
+
     try {
-      // If no specific timeSlot provided, use the most recent pending one
-      let activeTimeSlot: string;
-      if (!timeSlot) {
-        const pendingSlots = Array.from(this.pendingResponses.keys());
-        if (pendingSlots.length === 0) {
-          return "No active check-in found. Type 'status' to see your daily progress.";
-        }
-        activeTimeSlot = pendingSlots[pendingSlots.length - 1] || '';
-      } else {
-        activeTimeSlot = timeSlot;
+      if (checkInReply) {
+        await this.handleCheckInButton(checkInReply[1] as string, new Date(Number(checkInReply[2])));
+      } else if (moodReply) {
+        await this.handleMoodChoice(Number(moodReply[1]), new Date(Number(moodReply[2])));
       }
+    } catch (error) {
+      console.error('❌ Failed to handle check-in reply:', error);
+      await this.whatsappService.sendMessage(this.recipientPhone, this.messages.getLocale().t('checkin.error'));
+    }
+    return true;
+  }
 
-      // Remove from pending
-      this.pendingResponses.delete(activeTimeSlot);
+  /**
+   * "Doing planned" records the planned activity and offers the mood list, "something else" waits for a
+   * typed reply and "skip" records the slot as skipped
+   */
+  private async handleCheckInButton(action: string, slotStart: Date): Promise<void> {
+    const locale = this.messages.getLocale();
+    const pending = this.pendingResponses.get(slotStart.getTime());
+    if (!pending) {
+      await this.whatsappService.sendMessage(this.recipientPhone, locale.t('checkin.none'));
+      return;
+    }
 
-      // Parse response (extract activity, mood, notes)
-      const parsedResponse = this.parseUserResponse(userMessage);
+    this.pendingResponses.delete(slotStart.getTime());
+    const slot = pending.slot;
 
-      // Store in database
-      await this.storeActivity(activeTimeSlot, parsedResponse.activity, parsedResponse.mood, parsedResponse.notes);
+    if (action === 'other') {
+      // Back in as the latest check-in, so the next typed reply is recorded for it
+      this.pendingResponses.set(slotStart.getTime(), pending);
+      await this.whatsappService.sendMessage(this.recipientPhone, locale.t('checkin.askActivity'));
+      return;
+    }
 
-      return `✅ **Activity Recorded!**
+    if (action === 'skip') {
+      await this.storeActivity(slot, 'Skipped', '😐', 'Skipped via WhatsApp');
+      await this.whatsappService.sendMessage(this.recipientPhone, locale.t('skip.done', { timeSlot: slot.timeSlot }));
+      return;
+    }
 
-**Time:** ${activeTimeSlot}
-**Activity:** ${parsedResponse.activity}
-**Mood:** ${parsedResponse.mood}
-${parsedResponse.notes ? `**Notes:** ${parsedResponse.notes}` : ''}
+    await this.recordActivity(slot, slot.plannedActivity, '😐', '');
+    const recorded = await this.messages.render('checkin.recorded', {
+      timeSlot: slot.timeSlot,
+      activity: slot.plannedActivity,
+      mood: '😐',
+      notes: ''
+    });
+    await this.send({
+      body: recorded,
+      list: {
+        button: locale.t('mood.choose'),
+        sections: [{
+          title: locale.t('mood.title'),
+          rows: MOODS.map((mood, index) => ({ id: `mood:${index}:${slotStart.getTime()}`, title: `${mood.emoji} ${locale.t(mood.label)}` }))
+        }]
+      }
+    });
+  }
 
-Great job staying on track! 🎯`;
+  /**
+   * Set the mood of an activity recorded for today's check-in slot
+   */
+  private async handleMoodChoice(index: number, slotStart: Date): Promise<void> {
+    const locale = this.messages.getLocale();
+    const mood = MOODS[index];
+    const tracking = await DailyTracking.findOrCreateToday(this.userId, this.timezone);
+    const entry = tracking.findEntry(slotStart);
+    if (!mood || !entry || !entry.isCompleted) {
+      await this.whatsappService.sendMessage(this.recipientPhone, locale.t('mood.none'));
+      return;
+    }
 
-    } catch (error) {
-      console.error('❌ Failed to handle response:', error);
-      return 'Sorry, there was an error recording your activity. Please try again.';
+    await tracking.updateEntry(entry, entry.actualActivity, mood.emoji);
+    console.log(`💾 Stored mood for ${entry.timeSlot}: ${mood.emoji}`);
+    await this.whatsappService.sendMessage(this.recipientPhone, locale.t('mood.recorded', { mood: mood.emoji, timeSlot: entry.timeSlot }));
+  }
+
+  /**
+   * Send a message with buttons or a list, as plain text where the transport has neither
+   */
+  private async send(message: InteractiveMessage): Promise<void> {
+    if (this.whatsappService.sendInteractive && message.body.length <= MAX_INTERACTIVE_BODY) {
+      await this.whatsappService.sendInteractive(this.recipientPhone, message);
+    } else {
+      await this.whatsappService.sendMessage(this.recipientPhone, message.body);
     }
   }
 
@@ -273,7 +428,7 @@ Great job staying on track! 🎯`;
    * Parse user response to extract activity, mood, and notes
    */
   private parseUserResponse(message: string): { activity: string; mood: string; notes: string } {
-    const moodEmojis = ['😊', '😐', '😔', '😤', '😴', '💪', '🤔'];
+    const moodEmojis = MOODS.map(mood => mood.emoji);
     
     let activity = message.trim();
     let mood = '😐'; // default
@@ -296,71 +451,184 @@ Great job staying on track! 🎯`;
     return { activity, mood, notes };
   }
 
+  /**
+   * Store a check-in reply and tell the recorded handlers
+   */
+  private async recordActivity(slot: CheckInSlot, activity: string, mood: string, notes: string): Promise<void> {
+    await this.storeActivity(slot, activity, mood, notes);
+    for (const handler of this.recordedHandlers) {
+      try {
+        await handler(slot, activity);
+      } catch (error) {
+        console.error('❌ Error in activity recorded handler:', error);
+      }
+    }
+  }
+
   /**
    * Store activity in database
    */
-  private async storeActivity(timeSlot: string, activity: string, mood: string, notes: string): Promise<void> {
+  private async storeActivity(
+    slot: TrackedSlot & { entry?: TimetableEntry | undefined },
+    activity: string,
+    mood: string,
+    notes: string
+  ): Promise<void> {
     try {
       // Get or create today's tracking document
-      const tracking = await DailyTracking.findOrCreateToday();
+      const tracking = await DailyTracking.findOrCreateToday(this.userId, this.timezone);
+
+      // Snapshot the entry before changing it so the update can be undone
+      const existingEntry = tracking.findEntry(slot.startTime);
+      const previous: ITimeEntry | null = existingEntry ? {
+        startTime: existingEntry.startTime,
+        endTime: existingEntry.endTime,
+        timeSlot: existingEntry.timeSlot,
+        timestamp: existingEntry.timestamp,
+        plannedActivity: existingEntry.plannedActivity,
+        actualActivity: existingEntry.actualActivity,
+        isCompleted: existingEntry.isCompleted,
+        mood: existingEntry.mood || '😐',
+        notes: existingEntry.notes || '',
+        category: existingEntry.category
+      } : null;
       
-      // Update the entry
-      await tracking.updateEntry(timeSlot, activity, mood, notes);
+      // Update the entry, filed under the planned activity's category
+      await tracking.updateEntry({ ...slot, category: this.getSlotCategory(slot) }, activity, mood, notes);
+      this.lastRecorded = { slot, activity, previous };
       
-      console.log(`💾 Stored activity for ${timeSlot}: ${activity} ${mood}`);
+      console.log(`💾 Stored activity for ${slot.timeSlot}: ${activity} ${mood}`);
     } catch (error) {
       console.error('❌ Failed to store activity:', error);
       throw error;
     }
   }
 
+  /**
+   * Skip the most recent pending check-in, recording it as skipped
+   */
+  public async skipCurrentCheckIn(): Promise<string | null> {
+    const pending = this.getLatestPending();
+    if (!pending) {
+      return null;
+    }
+
+    this.pendingResponses.delete(pending.slot.startTime.getTime());
+    await this.storeActivity(pending.slot, 'Skipped', '😐', 'Skipped via WhatsApp');
+    return pending.slot.timeSlot;
+  }
+
+  /**
+   * The most recently sent check-in still waiting for a reply
+   */
+  private getLatestPending(): PendingCheckIn | undefined {
+    const pending = Array.from(this.pendingResponses.values());
+    return pending[pending.length - 1];
+  }
+
+  /**
+   * Revert the last recorded activity and reopen its check-in
+   */
+  public async undoLastEntry(): Promise<{ timeSlot: string; activity: string } | null> {
+    if (!this.lastRecorded) {
+      return null;
+    }
+
+    const { slot, activity, previous } = this.lastRecorded;
+    const tracking = await DailyTracking.findOrCreateToday(this.userId, this.timezone);
+    await tracking.revertEntry(slot.startTime, previous);
+
+    this.lastRecorded = null;
+    this.pendingResponses.set(slot.startTime.getTime(), {
+      slot: { ...slot, plannedActivity: slot.plannedActivity || 'Free time' },
+      timestamp: new Date()
+    });
+    console.log(`↩️ Reverted activity for ${slot.timeSlot}: ${activity}`);
+
+    return { timeSlot: slot.timeSlot, activity };
+  }
+
+  /**
+   * Pause check-ins until the given time
+   */
+  public pause(until: Date): void {
+    this.pausedUntil = until;
+    console.log(`⏸️ Activity Tracker paused until ${moment.tz(until, this.timezone).format('h:mm A')}`);
+  }
+
+  /**
+   * Resume check-ins immediately
+   */
+  public resume(): void {
+    this.pausedUntil = null;
+    console.log('▶️ Activity Tracker resumed');
+  }
+
+  public isPaused(): boolean {
+    if (this.pausedUntil && this.pausedUntil.getTime() <= Date.now()) {
+      this.pausedUntil = null;
+    }
+    return this.pausedUntil !== null;
+  }
+
   /**
    * Handle timeout if user doesn't respond
    */
-  private handleTimeout(timeSlot: string): void {
-    if (this.pendingResponses.has(timeSlot)) {
-      this.pendingResponses.delete(timeSlot);
-      console.log(`⏰ Check-in timeout for ${timeSlot}`);
+  private handleTimeout(slotStart: number): void {
+    const pending = this.pendingResponses.get(slotStart);
+    if (pending) {
+      this.pendingResponses.delete(slotStart);
+      console.log(`⏰ Check-in timeout for ${pending.slot.timeSlot}`);
       
-      // Optionally send reminder
-      this.whatsappService.sendMessage(
-        this.recipientPhone,
-        `⏰ **Missed Check-in**\n\nYou missed the check-in for ${timeSlot}.\n\nNo worries! The next check-in is in 30 minutes. Stay focused! 💪`
-      ).catch(console.error);
+      this.messages.render('checkin.missed', { timeSlot: pending.slot.timeSlot, nextCheckIn: pending.slot.endTime })
+        .then(message => this.whatsappService.sendMessage(this.recipientPhone, message))
+        .catch(error => console.error('❌ Failed to send missed check-in message:', error));
     }
   }
 
+  /**
+   * Category of the timetable entry a check-in slot is for; free time has none
+   */
+  private getSlotCategory(slot: { entry?: TimetableEntry | undefined }): string | undefined {
+    return slot.entry ? this.categories.resolve(slot.entry)?.name : undefined;
+  }
+
   /**
    * Initialize today's tracking document with planned schedule
    */
   private async initializeTodayTracking(): Promise<void> {
     try {
-      const tracking = await DailyTracking.findOrCreateToday();
-      const todaySchedule = await this.timetableParser.getTodaySchedule();
+      const tracking = await DailyTracking.findOrCreateToday(this.userId, this.timezone);
+      const todaySlots = await this.checkInSlots.getSlotsForDate(new Date());
+      tracking.profile = this.timetableRepository.getActiveProfile().name;
 
-      // Add or update planned activities in tracking document
-      for (const scheduleEntry of todaySchedule) {
-        // Normalize time slot format to match dashboard format ("to" -> "-")
-        const normalizedTimeSlot = scheduleEntry.timeSlot.replace(' to ', ' - ');
-        
-        const existingEntry = tracking.entries.find((e: ITimeEntry) => e.timeSlot === normalizedTimeSlot);
+      // Add or update planned activities in tracking document (free time is only recorded once answered)
+      for (const slot of todaySlots.filter(slot => slot.entry)) {
+        const existingEntry = tracking.findEntry(slot.startTime);
         
         if (!existingEntry) {
-          // Add new entry with normalized time slot format
           tracking.entries.push({
-            timeSlot: normalizedTimeSlot,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            timeSlot: slot.timeSlot,
             timestamp: new Date(),
-            plannedActivity: scheduleEntry.activity,
+            plannedActivity: slot.plannedActivity,
+            category: this.getSlotCategory(slot),
             actualActivity: '',
             isCompleted: false,
             mood: '😐',
             notes: ''
           });
-          console.log(`✅ Added new tracking entry: ${normalizedTimeSlot} - ${scheduleEntry.activity}`);
-        } else if (existingEntry.plannedActivity === 'Free time' || !existingEntry.plannedActivity) {
-          // Update existing entry if it has "Free time" or empty planned activity
-          existingEntry.plannedActivity = scheduleEntry.activity;
-          console.log(`🔄 Updated tracking entry: ${normalizedTimeSlot} - ${scheduleEntry.activity}`);
+          console.log(`✅ Added new tracking entry: ${slot.timeSlot} - ${slot.plannedActivity}`);
+        } else if (
+          existingEntry.plannedActivity === 'Free time' ||
+          !existingEntry.plannedActivity ||
+          (!existingEntry.isCompleted && existingEntry.plannedActivity !== slot.plannedActivity)
+        ) {
+          // Update existing entry if it has "Free time", an empty planned activity, or the plan was edited before check-in
+          existingEntry.plannedActivity = slot.plannedActivity;
+          existingEntry.category = this.getSlotCategory(slot);
+          console.log(`🔄 Updated tracking entry: ${slot.timeSlot} - ${slot.plannedActivity}`);
         }
       }
 
@@ -377,21 +645,20 @@ Great job staying on track! 🎯`;
    */
   public async getDailySummary(): Promise<string> {
     try {
-      const tracking = await DailyTracking.findOrCreateToday();
+      const tracking = await DailyTracking.findOrCreateToday(this.userId, this.timezone);
       const summary = tracking.getSummary();
       
-      return `📊 **Daily Summary**
-
-**Date:** ${moment(summary.date).format('MMMM Do, YYYY')}
-**Completion Rate:** ${summary.completionRate.toFixed(1)}%
-**Completed:** ${summary.completedSlots}/${summary.totalSlots} time slots
-**Pending:** ${summary.pendingSlots} check-ins
+      const now = new Date();
+      const upcoming = (await this.timetableRepository.getTodaySchedule())
+        .filter(entry => entry.startTime > now)
+        .slice(0, 3)
+        .map(entry => ({ activity: entry.activity, timeSlot: entry.timeSlot, startTime: entry.startTime }));
 
-Keep up the great work! 🎯`;
+      return await this.messages.render('summary', { ...summary, upcoming });
 
     } catch (error) {
       console.error('❌ Failed to get daily summary:', error);
-      return 'Sorry, could not generate daily summary.';
+      return this.messages.getLocale().t('summary.error');
     }
   }
 
@@ -403,14 +670,21 @@ Keep up the great work! 🎯`;
     activeHours: string;
     pendingCheckIns: number;
     nextCheckIn: string;
+    pausedUntil: Date | null;
   } {
-    const nextCheckIn = moment().add(30, 'minutes').startOf('hour').add(Math.floor(moment().minute() / 30) * 30 + 30, 'minutes');
+    // Until the first minute's check has found the current slot, assume the next line of the interval grid
+    const now = moment.tz(this.timezone);
+    const interval = this.checkInSlots.getConfig().intervalMinutes;
+    const nextCheckIn = this.nextCheckIn && this.nextCheckIn.getTime() > now.valueOf()
+      ? moment.tz(this.nextCheckIn, this.timezone)
+      : now.clone().startOf('day').add((Math.floor((now.hours() * 60 + now.minutes()) / interval) + 1) * interval, 'minutes');
     
     return {
       isRunning: this.isRunning,
       activeHours: `${this.wakeTime} - ${this.sleepTime}`,
       pendingCheckIns: this.pendingResponses.size,
-      nextCheckIn: nextCheckIn.format('h:mm A')
+      nextCheckIn: nextCheckIn.format('h:mm A'),
+      pausedUntil: this.isPaused() ? this.pausedUntil : null
     };
   }
 }
\ No newline at end of file
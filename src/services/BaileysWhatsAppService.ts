@@ -2,6 +2,7 @@ import makeWASocket, { DisconnectReason, useMultiFileAuthState } from 'baileys';
 import { Boom } from '@hapi/boom';
 import * as path from 'path';
 import * as fs from 'fs';
+import { IncomingMessageHandler, IncomingWhatsAppMessage, dispatchIncomingMessage } from './WhatsAppService';
 
 export interface BaileysWhatsAppConfig {
   phoneNumber: string;
@@ -19,6 +20,7 @@ export class BaileysWhatsAppService {
   private config: BaileysWhatsAppConfig;
   private isReady: boolean = false;
   private onReadyCallback?: () => Promise<void> | void;
+  private messageHandlers: IncomingMessageHandler[] = [];
   private authDir: string;
 
   constructor(config: BaileysWhatsAppConfig) {
@@ -30,6 +32,10 @@ export class BaileysWhatsAppService {
     this.onReadyCallback = callback;
   }
 
+  public onMessage(handler: IncomingMessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
   public async initialize(): Promise<void> {
     if (this.config.useMock) {
       console.log('🧪 Baileys WhatsApp Service initialized in MOCK mode');
@@ -124,11 +130,19 @@ export class BaileysWhatsAppService {
     // Save credentials when updated
     this.socket.ev.on('creds.update', saveCreds);
 
-    // Memory optimization: Minimal message handling
-    this.socket.ev.on('messages.upsert', (m: any) => {
-      // Only log incoming messages, don't store them to save memory
-      if (m.messages?.length > 0) {
-        console.log('📩 Received message(s) - processed');
+    // Memory optimization: Minimal message handling - forward text to handlers, store nothing
+    this.socket.ev.on('messages.upsert', async (m: any) => {
+      // 'append' upserts are history/offline sync, only 'notify' are new messages
+      if (m.type !== 'notify' || !m.messages?.length) {
+        return;
+      }
+
+      for (const rawMessage of m.messages) {
+        const incoming = this.toIncomingMessage(rawMessage);
+        if (incoming) {
+          console.log(`📩 Received message from ${incoming.from}`);
+          await dispatchIncomingMessage(this.messageHandlers, incoming);
+        }
       }
     });
 
@@ -140,6 +154,34 @@ export class BaileysWhatsAppService {
     }, 3 * 60 * 1000); // Every 3 minutes
   }
 
+  /**
+   * Convert a raw Baileys message into an inbound text message
+   * Ignores our own messages, group chats, status broadcasts and non-text content
+   */
+  private toIncomingMessage(rawMessage: any): IncomingWhatsAppMessage | null {
+    const jid: string = rawMessage?.key?.remoteJid || '';
+    if (rawMessage?.key?.fromMe || !jid.endsWith('@s.whatsapp.net')) {
+      return null;
+    }
+
+    const text: string | undefined = rawMessage.message?.conversation
+      || rawMessage.message?.extendedTextMessage?.text;
+    if (!text) {
+      return null;
+    }
+
+    const timestampSeconds = Number(rawMessage.messageTimestamp);
+    const incoming: IncomingWhatsAppMessage = {
+      from: jid.split('@')[0]?.split(':')[0] || '',
+      text,
+      timestamp: timestampSeconds ? new Date(timestampSeconds * 1000) : new Date()
+    };
+    if (rawMessage.key.id) {
+      incoming.messageId = rawMessage.key.id;
+    }
+    return incoming;
+  }
+
   public async sendMessage(to: string, message: string): Promise<boolean> {
     if (this.config.useMock) {
       console.log(`📱 MOCK: Would send to ${to}: ${message}`);
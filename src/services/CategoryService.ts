@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import { parse } from 'yaml';
+import { ActivityCategory, CategoryDefinitions, CategoryRule, TimetableEntry } from '../types';
+import { MAX_REMINDER_MINUTES } from './TimetableFileReader';
+
+// Look of categories named in the timetable but not defined anywhere
+const DEFAULT_EMOJI = '🏷️';
+const DEFAULT_COLOUR = '#a0aec0';
+
+const BUILT_IN_CATEGORIES: ActivityCategory[] = [
+  { name: 'Prayer', emoji: '🕌', location: 'Home', colour: '#805ad5' },
+  { name: 'Exercise', emoji: '🏋️', location: 'GYM', colour: '#dd6b20' },
+  { name: 'Work', emoji: '💼', location: 'Office', colour: '#3182ce' },
+  { name: 'Study', emoji: '📖', location: 'Home', colour: '#38a169' },
+  { name: 'Personal', emoji: '🏠', location: 'Home', colour: '#d53f8c' },
+  { name: 'Social', emoji: '☕', location: 'Meeting Place', colour: '#d69e2e' },
+  { name: 'Rest', emoji: '😴', location: 'Home', colour: '#718096' }
+];
+
+const BUILT_IN_RULES: CategoryRule[] = [
+  { keywords: ['prayer', 'salah', 'namaz', 'fajr', 'dhuhr', 'zuhr', 'maghrib', 'isha', 'jummah'], category: 'Prayer' },
+  { keywords: ['gym', 'workout', 'exercise', 'walk'], category: 'Exercise' },
+  { keywords: ['work', 'office'], category: 'Work' },
+  { keywords: ['read', 'quran', 'study', 'book'], category: 'Study' },
+  { keywords: ['family'], category: 'Personal' },
+  { keywords: ['meet', 'coffee'], category: 'Social' },
+  { keywords: ['rest', 'sleep', 'nap'], category: 'Rest' }
+];
+
+/**
+ * Category Service for BarakahTracker
+ * Puts timetable entries into activity categories: the entry's Category column when it has one, else the
+ * first matching keyword rule. Of the rules that match, the keyword found earliest in the activity wins
+ * ("Walk with audio book" is a walk, not reading), then the longest ("Workout" is exercise, not work).
+ * Categories and rules from the categories file come before the built-in ones.
+ */
+export class CategoryService {
+  private categories: Map<string, ActivityCategory> = new Map();
+  private customRules: CategoryRule[];
+
+  constructor(definitions: CategoryDefinitions = {}) {
+    for (const category of [...BUILT_IN_CATEGORIES, ...(definitions.categories || [])]) {
+      this.categories.set(category.name.toLowerCase(), category);
+    }
+    this.customRules = definitions.rules || [];
+  }
+
+  /**
+   * Load the categories file (JSON or YAML); problems are logged and the built-in categories used instead
+   */
+  public static fromFile(file?: string): CategoryService {
+    if (!file) {
+      return new CategoryService();
+    }
+
+    try {
+      const definitions = (parse(fs.readFileSync(file, 'utf8')) || {}) as CategoryDefinitions;
+      const errors = CategoryService.validateDefinitions(definitions);
+      if (errors.length > 0) {
+        console.warn(`⚠️ Ignoring categories file ${file}:`);
+        errors.forEach(error => console.warn(`   ❌ ${error}`));
+        return new CategoryService();
+      }
+      console.log(`🏷️ Loaded ${definitions.categories?.length || 0} categories and ${definitions.rules?.length || 0} rules from ${file}`);
+      return new CategoryService(definitions);
+    } catch (error) {
+      console.warn(`⚠️ Could not read categories file ${file}:`, error instanceof Error ? error.message : error);
+      return new CategoryService();
+    }
+  }
+
+  /**
+   * Check a categories file's contents for invalid values
+   */
+  public static validateDefinitions(definitions: CategoryDefinitions): string[] {
+    const errors: string[] = [];
+    const names = new Set<string>();
+
+    if (typeof definitions !== 'object' || Array.isArray(definitions)) {
+      return ['Categories file should hold "categories" and "rules" lists'];
+    }
+
+    for (const category of definitions.categories || []) {
+      const name = typeof category?.name === 'string' ? category.name.trim() : '';
+      if (!name) {
+        errors.push('Each category needs a name');
+        continue;
+      }
+      if (names.has(name.toLowerCase())) {
+        errors.push(`Duplicate category: ${name}`);
+      }
+      names.add(name.toLowerCase());
+
+      if (!category.emoji || !category.colour) {
+        errors.push(`Category "${name}" needs an emoji and a colour`);
+      }
+      for (const policy of ['reminderOffsets', 'escalation'] as const) {
+        const offsets = category[policy];
+        if (offsets === undefined) continue;
+        if (!Array.isArray(offsets) || offsets.length === 0 ||
+            offsets.some(offset => !Number.isInteger(offset) || Math.abs(offset) > MAX_REMINDER_MINUTES)) {
+          errors.push(`Category "${name}" ${policy} should be whole minutes between -${MAX_REMINDER_MINUTES} and ${MAX_REMINDER_MINUTES}`);
+        } else if (offsets.some((offset, index) => index > 0 && offset <= (offsets[index - 1] as number))) {
+          errors.push(`Category "${name}" ${policy} should be listed in order`);
+        }
+      }
+    }
+
+    for (const rule of definitions.rules || []) {
+      if (!rule?.category || !Array.isArray(rule.keywords) || rule.keywords.length === 0 ||
+          !rule.keywords.every(keyword => typeof keyword === 'string' && keyword.trim() !== '')) {
+        errors.push('Each rule needs a category and a list of keywords');
+      }
+    }
+
+    return errors;
+  }
+
+  public getCategories(): ActivityCategory[] {
+    return Array.from(this.categories.values());
+  }
+
+  /**
+   * A category by name (case-insensitive); names without a definition get the default emoji and colour
+   */
+  public getCategory(name: string): ActivityCategory {
+    return this.categories.get(name.trim().toLowerCase()) || { name: name.trim(), emoji: DEFAULT_EMOJI, colour: DEFAULT_COLOUR };
+  }
+
+  /**
+   * The category of a timetable entry: its Category column, else the rules; undefined when nothing matches
+   */
+  public resolve(entry: Pick<TimetableEntry, 'activity' | 'category'>): ActivityCategory | undefined {
+    if (entry.category && entry.category.trim() !== '') {
+      return this.getCategory(entry.category);
+    }
+    return this.resolveActivity(entry.activity);
+  }
+
+  /**
+   * The category the rules give an activity description
+   */
+  public resolveActivity(activity: string): ActivityCategory | undefined {
+    const rule = this.matchRules(activity, this.customRules) || this.matchRules(activity, BUILT_IN_RULES);
+    return rule ? this.getCategory(rule.category) : undefined;
+  }
+
+  private matchRules(activity: string, rules: CategoryRule[]): CategoryRule | undefined {
+    let best: { rule: CategoryRule; position: number; length: number } | undefined;
+
+    for (const rule of rules) {
+      for (const keyword of rule.keywords) {
+        const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}`, 'iu').exec(activity);
+        if (!match) continue;
+
+        const position = match.index + (match[1] || '').length;
+        const length = keyword.trim().length;
+        if (!best || position < best.position || (position === best.position && length > best.length)) {
+          best = { rule, position, length };
+        }
+      }
+    }
+
+    return best?.rule;
+  }
+}
@@ -0,0 +1,145 @@
+import moment from 'moment-timezone';
+import { CheckInConfig, TimetableEntry } from '../types';
+import { TimetableRepository } from './TimetableRepository';
+
+// A stretch of the day that gets one check-in and one diary row
+export interface CheckInSlot {
+  startTime: Date;
+  endTime: Date;
+  timeSlot: string; // Display label, e.g. "2:00 PM - 2:30 PM"
+  plannedActivity: string; // "Free time" when nothing is planned
+  entry?: TimetableEntry | undefined; // The timetable entry the slot belongs to
+}
+
+/**
+ * Check-in Slot Planner for BarakahTracker
+ * Splits a day into the slots check-ins are sent for and the diary shows. By default slots follow the
+ * timetable's own boundaries - a 2-hour deep-work block is one slot, a 15-minute prayer another - and free
+ * time between entries is split on the check-in interval. In "interval" mode the day is a fixed grid instead.
+ */
+export class CheckInSlotPlanner {
+  public static readonly DEFAULT_CONFIG: CheckInConfig = { mode: 'entries', intervalMinutes: 30 };
+  private timetableRepository: TimetableRepository;
+  private config: CheckInConfig;
+
+  constructor(timetableRepository: TimetableRepository, config: CheckInConfig = CheckInSlotPlanner.DEFAULT_CONFIG) {
+    this.timetableRepository = timetableRepository;
+    this.config = config;
+  }
+
+  /**
+   * Check a check-in config for invalid values
+   */
+  public static validateConfig(config: CheckInConfig): string[] {
+    const errors: string[] = [];
+    if (config.mode !== 'entries' && config.mode !== 'interval') {
+      errors.push('Check-in mode should be "entries" or "interval"');
+    }
+    // The grid has to fit the day exactly so every day's slots line up
+    if (!Number.isInteger(config.intervalMinutes) || config.intervalMinutes < 5 || config.intervalMinutes > 240 ||
+        (24 * 60) % config.intervalMinutes !== 0) {
+      errors.push('Check-in interval should be 5-240 minutes and divide the day evenly (e.g. 15, 30, 60)');
+    }
+    return errors;
+  }
+
+  public getConfig(): CheckInConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * The whole day, midnight to midnight, as consecutive slots
+   */
+  public async getSlotsForDate(date: Date): Promise<CheckInSlot[]> {
+    const timezone = this.timetableRepository.getTimezone();
+    const dayStart = moment.tz(date, timezone).startOf('day');
+    const dayEnd = dayStart.clone().add(1, 'day');
+    const entries = await this.timetableRepository.getScheduleForDate(date);
+
+    const boundaries = new Set<number>([dayStart.valueOf(), dayEnd.valueOf()]);
+    if (this.config.mode === 'entries') {
+      for (const entry of entries) {
+        for (const time of [entry.startTime.getTime(), entry.endTime.getTime()]) {
+          if (time > dayStart.valueOf() && time < dayEnd.valueOf()) {
+            boundaries.add(time);
+          }
+        }
+      }
+    }
+
+    const sorted = Array.from(boundaries).sort((a, b) => a - b);
+    const slots: CheckInSlot[] = [];
+    for (let i = 0; i < sorted.length - 1; i++) {
+      const start = sorted[i] as number;
+      const end = sorted[i + 1] as number;
+      const entry = this.findEntryAt(entries, start);
+
+      // Free time (and every slot in interval mode) is split on the interval grid, counted from midnight
+      if (entry && this.config.mode === 'entries') {
+        slots.push(this.toSlot(start, end, entry));
+        continue;
+      }
+      for (const [pieceStart, pieceEnd] of this.splitOnGrid(start, end, dayStart.valueOf())) {
+        slots.push(this.toSlot(pieceStart, pieceEnd, this.findEntryAt(entries, pieceStart)));
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * The slot a time falls in
+   */
+  public async getSlotAt(time: Date = new Date()): Promise<CheckInSlot | null> {
+    const slots = await this.getSlotsForDate(time);
+    return slots.find(slot => slot.startTime.getTime() <= time.getTime() && time.getTime() < slot.endTime.getTime()) || null;
+  }
+
+  /**
+   * "2:00 PM - 2:30 PM" in the timetable's timezone
+   */
+  public formatTimeSlot(startTime: Date, endTime: Date): string {
+    const timezone = this.timetableRepository.getTimezone();
+    return `${moment.tz(startTime, timezone).format('h:mm A')} - ${moment.tz(endTime, timezone).format('h:mm A')}`;
+  }
+
+  private toSlot(start: number, end: number, entry: TimetableEntry | undefined): CheckInSlot {
+    const startTime = new Date(start);
+    const endTime = new Date(end);
+    return {
+      startTime,
+      endTime,
+      timeSlot: this.formatTimeSlot(startTime, endTime),
+      plannedActivity: entry?.activity || 'Free time',
+      entry
+    };
+  }
+
+  /**
+   * The entry in progress at a time: the latest-starting one when entries overlap, so a
+   * prayer inside a long work block takes its own slot and the block resumes after it
+   */
+  private findEntryAt(entries: TimetableEntry[], time: number): TimetableEntry | undefined {
+    let found: TimetableEntry | undefined;
+    for (const entry of entries) {
+      if (entry.startTime.getTime() <= time && time < entry.endTime.getTime() &&
+          (!found || entry.startTime.getTime() >= found.startTime.getTime())) {
+        found = entry;
+      }
+    }
+    return found;
+  }
+
+  private splitOnGrid(start: number, end: number, origin: number): [number, number][] {
+    const step = this.config.intervalMinutes * 60000;
+    const pieces: [number, number][] = [];
+    let pieceStart = start;
+    while (pieceStart < end) {
+      const nextGridLine = origin + (Math.floor((pieceStart - origin) / step) + 1) * step;
+      const pieceEnd = Math.min(nextGridLine, end);
+      pieces.push([pieceStart, pieceEnd]);
+      pieceStart = pieceEnd;
+    }
+    return pieces;
+  }
+}
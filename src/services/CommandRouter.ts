@@ -0,0 +1,340 @@
+import moment from 'moment-timezone';
+import { ActivityTracker } from './ActivityTracker';
+import { DEFAULT_LANGUAGE, LocaleService } from './LocaleService';
+import { SchedulerService } from './SchedulerService';
+import { TimetableRepository } from './TimetableRepository';
+import { IWhatsAppService, IncomingWhatsAppMessage } from './WhatsAppService';
+
+export type CommandName = 'status' | 'today' | 'next' | 'skip' | 'undo' | 'done' | 'snooze' | 'pause' | 'resume' | 'profile' | 'help';
+
+// Switches the user's schedule profile (null follows profile dates); false for an unknown profile
+export type ProfileSwitcher = (name: string | null) => Promise<boolean>;
+
+export interface ChatCommand {
+  name: CommandName;
+  args: string;
+  invalid?: boolean; // A duration that couldn't be read or is too long, answered with how to use the command
+}
+
+// English keywords users can type, mapped to the command they trigger; these work in every language
+const COMMAND_KEYWORDS: { [keyword: string]: CommandName } = {
+  status: 'status',
+  today: 'today',
+  schedule: 'today',
+  next: 'next',
+  skip: 'skip',
+  undo: 'undo',
+  done: 'done',
+  snooze: 'snooze',
+  pause: 'pause',
+  resume: 'resume',
+  profile: 'profile',
+  help: 'help'
+};
+
+const HOUR_UNITS = ['h', 'hr', 'hrs', 'hour', 'hours'];
+const MINUTE_UNITS = ['m', 'min', 'mins', 'minute', 'minutes'];
+
+// Arabic-Indic and Persian/Urdu digits, written as 0-9 before parsing durations
+const EASTERN_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+const DEFAULT_PAUSE_MINUTES = 60;
+const DEFAULT_SNOOZE_MINUTES = 10;
+const MAX_PAUSE_MINUTES = 24 * 60;
+
+/**
+ * Command Router for BarakahTracker
+ * Inspects every inbound WhatsApp message and answers chat commands
+ * ("status", "today", "pause 2h", ...) before it is treated as a check-in reply.
+ * Commands are also understood in the user's language, and replies are given in it.
+ */
+export class CommandRouter {
+  private activityTracker: ActivityTracker;
+  private timetableRepository: TimetableRepository;
+  private whatsappService: IWhatsAppService;
+  private recipientPhone: string;
+  private schedulerService: SchedulerService | undefined;
+  private switchProfile: ProfileSwitcher | undefined;
+  private locale: LocaleService;
+  private keywords: Array<{ keyword: string; command: CommandName }>;
+
+  constructor(
+    activityTracker: ActivityTracker,
+    timetableRepository: TimetableRepository,
+    whatsappService: IWhatsAppService,
+    recipientPhone: string,
+    schedulerService?: SchedulerService,
+    switchProfile?: ProfileSwitcher,
+    locale: LocaleService = new LocaleService(DEFAULT_LANGUAGE, timetableRepository.getTimezone())
+  ) {
+    this.activityTracker = activityTracker;
+    this.timetableRepository = timetableRepository;
+    this.whatsappService = whatsappService;
+    this.recipientPhone = recipientPhone;
+    this.schedulerService = schedulerService;
+    this.switchProfile = switchProfile;
+    this.locale = locale;
+
+    // Longest first, so a keyword that starts with another one (e.g. "ho gaya") wins
+    this.keywords = [
+      ...Object.entries(COMMAND_KEYWORDS).map(([keyword, command]) => ({ keyword, command })),
+      ...locale.getCommandKeywords()
+    ].sort((a, b) => b.keyword.length - a.keyword.length);
+  }
+
+  /**
+   * Handle the message if it is a command
+   * Returns true when a command was answered, false if the message is an activity reply
+   */
+  public async route(message: IncomingWhatsAppMessage): Promise<boolean> {
+    const command = this.parseCommand(message.text);
+    if (!command) {
+      return false;
+    }
+
+    console.log(`💬 Command received: ${command.name}${command.args ? ` ${command.args}` : ''}`);
+
+    const reply = await this.execute(command);
+    await this.whatsappService.sendMessage(this.recipientPhone, reply);
+    return true;
+  }
+
+  /**
+   * Parse a message into a command
+   * Only whole-message commands count, so "Next chapter of the book" stays an activity reply
+   */
+  public parseCommand(text: string): ChatCommand | null {
+    const normalized = text.trim().toLowerCase().replace(/[.!?۔؟]+$/, '').replace(/\s+/g, ' ');
+    const match = this.keywords.find(({ keyword }) => normalized === keyword || normalized.startsWith(`${keyword} `));
+    if (!match) {
+      return null;
+    }
+
+    const name = match.command;
+    const args = normalized.substring(match.keyword.length).trim();
+
+    // Only "pause" and "snooze" (a duration) and "profile" (a profile name) take an argument
+    if (args && !this.isValidArgument(name, args)) {
+      return this.isDurationAttempt(name, args) ? { name, args, invalid: true } : null;
+    }
+
+    return { name, args };
+  }
+
+  /**
+   * Run a command and build its reply
+   */
+  public async execute(command: ChatCommand): Promise<string> {
+    if (command.invalid) {
+      return this.locale.t(command.name === 'pause' ? 'pause.invalid' : 'snooze.invalid');
+    }
+
+    try {
+      switch (command.name) {
+        case 'status':
+          return await this.handleStatus();
+        case 'today':
+          return await this.handleToday();
+        case 'next':
+          return await this.handleNext();
+        case 'skip':
+          return await this.handleSkip();
+        case 'undo':
+          return await this.handleUndo();
+        case 'done':
+          return await this.handleDone();
+        case 'snooze':
+          return this.handleSnooze(command.args);
+        case 'pause':
+          return this.handlePause(command.args);
+        case 'resume':
+          return this.handleResume();
+        case 'profile':
+          return await this.handleProfile(command.args);
+        case 'help':
+          return this.handleHelp();
+      }
+    } catch (error) {
+      console.error(`❌ Failed to execute command "${command.name}":`, error);
+      return this.locale.t('command.failed', { command: command.name });
+    }
+  }
+
+  private async handleStatus(): Promise<string> {
+    const summary = await this.activityTracker.getDailySummary();
+    const status = this.activityTracker.getStatus();
+
+    if (status.pausedUntil) {
+      return `${summary}\n\n${this.locale.t('status.paused', { until: status.pausedUntil })}`;
+    }
+    return summary;
+  }
+
+  private async handleToday(): Promise<string> {
+    const schedule = await this.timetableRepository.getTodaySchedule();
+    if (schedule.length === 0) {
+      return `${this.locale.t('today.title')}\n\n${this.locale.t('today.empty')}`;
+    }
+
+    const now = moment();
+    const lines = schedule.map(entry => {
+      const marker = now.isBetween(entry.startTime, entry.endTime, 'minute', '[)') ? '👉' : '•';
+      const activity = entry.activity.length > 60 ? `${entry.activity.substring(0, 57)}...` : entry.activity;
+      return `${marker} ${this.locale.format(entry.startTime)} ${activity}`;
+    });
+
+    return `${this.locale.t('today.title')}\n\n${lines.join('\n')}`;
+  }
+
+  private async handleNext(): Promise<string> {
+    const now = moment();
+    const nextEntry = await this.timetableRepository.getNextEntry(now.toDate());
+
+    if (!nextEntry) {
+      return this.locale.t('next.none');
+    }
+
+    const minutesUntil = moment(nextEntry.startTime).diff(now, 'minutes');
+    return this.locale.t('next.entry', { activity: nextEntry.activity, timeSlot: nextEntry.timeSlot, minutes: minutesUntil });
+  }
+
+  private async handleSkip(): Promise<string> {
+    const timeSlot = await this.activityTracker.skipCurrentCheckIn();
+    if (!timeSlot) {
+      return this.locale.t('skip.none');
+    }
+    return this.locale.t('skip.done', { timeSlot });
+  }
+
+  private async handleUndo(): Promise<string> {
+    const reverted = await this.activityTracker.undoLastEntry();
+    if (!reverted) {
+      return this.locale.t('undo.none');
+    }
+    return this.locale.t('undo.done', { activity: reverted.activity, timeSlot: reverted.timeSlot });
+  }
+
+  private async handleDone(): Promise<string> {
+    const entry = this.schedulerService ? await this.schedulerService.confirmReminder() : null;
+    if (!entry) {
+      return this.locale.t('done.none');
+    }
+    return this.locale.t('done.confirmed', { activity: entry.activity });
+  }
+
+  private handleSnooze(args: string): string {
+    const minutes = args ? this.parseDuration(args) : DEFAULT_SNOOZE_MINUTES;
+    if (minutes === null) {
+      return this.locale.t('snooze.invalid');
+    }
+
+    const escalation = this.schedulerService ? this.schedulerService.snooze(minutes) : null;
+    if (!escalation) {
+      return this.locale.t('snooze.none');
+    }
+    return this.locale.t('snooze.done', { activity: escalation.entry.activity, until: escalation.nudges[0] as Date });
+  }
+
+  private handlePause(args: string): string {
+    const minutes = args ? this.parseDuration(args) : DEFAULT_PAUSE_MINUTES;
+    if (minutes === null) {
+      return this.locale.t('pause.invalid');
+    }
+
+    const until = moment().add(minutes, 'minutes').toDate();
+    this.activityTracker.pause(until);
+    if (this.schedulerService) {
+      this.schedulerService.pause(until);
+    }
+
+    return this.locale.t('pause.done', { until });
+  }
+
+  private handleResume(): string {
+    this.activityTracker.resume();
+    if (this.schedulerService) {
+      this.schedulerService.resume();
+    }
+    return this.locale.t('resume.done');
+  }
+
+  private async handleProfile(args: string): Promise<string> {
+    const parser = this.timetableRepository.getParser();
+
+    if (args) {
+      if (!this.switchProfile) {
+        return this.locale.t('profile.unavailable');
+      }
+      const selection = args === 'auto' ? null : args;
+      if (!await this.switchProfile(selection)) {
+        return this.locale.t('profile.unknown', { name: args });
+      }
+      const active = this.timetableRepository.getActiveProfile();
+      return this.locale.t(selection === null ? 'profile.auto' : 'profile.switched', { name: active.name });
+    }
+
+    const active = this.timetableRepository.getActiveProfile();
+    const lines = parser.getProfiles().map(profile => {
+      const marker = profile.name === active.name ? '👉' : '•';
+      const dates = profile.startDate
+        ? ` ${this.locale.t('profile.dates', { start: profile.startDate, end: profile.endDate || profile.startDate })}`
+        : '';
+      return `${marker} ${profile.name}${dates}`;
+    });
+
+    return this.locale.t('profile.list', {
+      name: active.name,
+      byCommand: Boolean(parser.getProfileSelection()),
+      profiles: lines.join('\n')
+    });
+  }
+
+  private handleHelp(): string {
+    return this.locale.t('help');
+  }
+
+  private isValidArgument(name: CommandName, args: string): boolean {
+    if (name === 'pause' || name === 'snooze') {
+      return this.parseDuration(args) !== null;
+    }
+    return name === 'profile' && /^[a-z0-9_-]+$/.test(args);
+  }
+
+  /**
+   * Whether a "pause" or "snooze" argument that isn't a valid duration was still meant as one: a number ("pause 48h")
+   * or a single word ("snooze abc"), while longer phrases such as "pause for prayer" are activity replies
+   */
+  private isDurationAttempt(name: CommandName, args: string): boolean {
+    if (name !== 'pause' && name !== 'snooze') {
+      return false;
+    }
+    return !args.includes(' ') || /^\d/.test(args.replace(EASTERN_DIGITS, '0'));
+  }
+
+  /**
+   * Parse a duration like "2h", "30m", "1.5 hours" or "45" (minutes) into minutes
+   * Eastern digits and the user's language's units also work, e.g. "۲ گھنٹے" or "٣٠ دقيقة"
+   */
+  private parseDuration(text: string): number | null {
+    const digits = text.replace(EASTERN_DIGITS, digit => String(digit.charCodeAt(0) % 16));
+    const match = digits.trim().match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
+    if (!match || !match[1]) {
+      return null;
+    }
+
+    const units = this.locale.getDurationUnits();
+    const unit = match[2] || 'm';
+    const isHours = HOUR_UNITS.includes(unit) || units.hours.includes(unit);
+    if (!isHours && !MINUTE_UNITS.includes(unit) && !units.minutes.includes(unit)) {
+      return null;
+    }
+
+    const value = parseFloat(match[1]);
+    const minutes = Math.round(isHours ? value * 60 : value);
+
+    if (minutes <= 0 || minutes > MAX_PAUSE_MINUTES) {
+      return null;
+    }
+    return minutes;
+  }
+}
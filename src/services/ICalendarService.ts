@@ -0,0 +1,609 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import moment from 'moment-timezone';
+import { TimetableEntry } from '../types';
+import { TimetableParser } from './TimetableParser';
+
+const ICAL_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+const DEFAULT_EVENT_MINUTES = 30; // Events without DTEND/DURATION get one check-in slot
+const MAX_RECURRENCE_PERIODS = 50000; // Stops runaway expansion of malformed rules
+const MAX_LINE_OCTETS = 75;
+
+export type RecurrenceFrequency = typeof FREQUENCIES[number];
+
+// The parts of an RRULE the importer understands
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number | undefined;
+  until?: number | undefined; // Epoch ms of the last allowed start
+  byDay: Array<{ day: number; ordinal?: number | undefined }>; // "2TU" => { day: 2, ordinal: 2 }
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+}
+
+// A VEVENT read from an .ics file
+export interface ICalendarEvent {
+  uid: string;
+  summary: string;
+  start: moment.Moment; // In the event's own timezone, so recurrences keep their wall-clock time
+  durationMinutes: number;
+  allDay: boolean;
+  cancelled: boolean;
+  rrule?: RecurrenceRule | undefined;
+  exdates: number[]; // Epoch ms of excluded starts
+  recurrenceId?: number | undefined; // Set on an edited instance: the start it replaces in the series
+}
+
+interface CachedCalendar {
+  mtimeMs: number;
+  size: number;
+  events: ICalendarEvent[];
+}
+
+/**
+ * iCalendar Service for BarakahTracker
+ * Exports the weekly timetable as an RFC 5545 feed (day-of-week rows become RRULEs) for
+ * Google/Apple Calendar, and imports events from a local .ics file so they get reminders and check-ins.
+ * Calculated prayer times move every day, so they are not part of the feed.
+ */
+export class ICalendarService {
+  private timetableParser: TimetableParser;
+  private calendarFile: string | undefined;
+  private cached: CachedCalendar | null = null;
+
+  constructor(timetableParser: TimetableParser, calendarFile?: string) {
+    this.timetableParser = timetableParser;
+    this.calendarFile = calendarFile;
+  }
+
+  public getCalendarFile(): string | undefined {
+    return this.calendarFile;
+  }
+
+  /**
+   * The timetable as an .ics feed; each row repeats weekly on its days, starting from the week of `now`
+   */
+  public async exportTimetable(now: Date = new Date()): Promise<string> {
+    const timezone = this.timetableParser.getTimezone();
+    const rows = await this.timetableParser.getTimetableRows(now);
+    const today = moment.tz(now, timezone).startOf('day');
+    const stamp = moment.utc(now).format('YYYYMMDD[T]HHmmss[Z]');
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//BarakahTracker//Timetable//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:BarakahTracker Timetable',
+      `X-WR-TIMEZONE:${timezone}`,
+      ...this.formatTimezone(timezone, today)
+    ];
+
+    for (const row of rows) {
+      const days = row.day && row.day.trim() !== '' ? this.timetableParser.parseDaySpec(row.day) : [0, 1, 2, 3, 4, 5, 6];
+      if (!days || days.length === 0) {
+        continue;
+      }
+
+      // First day on or after today the row applies to
+      const offset = [0, 1, 2, 3, 4, 5, 6].find(add => days.includes((today.day() + add) % 7)) as number;
+      const entry = this.timetableParser.parseRow({ timeSlot: row.timeSlot, activity: row.activity }, today.clone().add(offset, 'days').toDate());
+      if (!entry) {
+        continue;
+      }
+
+      const uid = crypto.createHash('sha1').update(`${row.timeSlot.trim()}|${(row.day || '').trim()}`).digest('hex');
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${uid}@barakahtracker`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;TZID=${timezone}:${this.formatLocal(entry.startTime, timezone)}`,
+        `DTEND;TZID=${timezone}:${this.formatLocal(entry.endTime, timezone)}`,
+        days.length === 7 ? 'RRULE:FREQ=DAILY' : `RRULE:FREQ=WEEKLY;BYDAY=${days.map(day => ICAL_DAYS[day]).join(',')}`,
+        `SUMMARY:${ICalendarService.escapeText(entry.activity)}`,
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(line => ICalendarService.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Events from the calendar file that start on a date (in the timetable's timezone), as timetable entries
+   * All-day and cancelled events are left out; a missing or unreadable file gives no entries
+   */
+  public async getEntriesForDate(date: Date): Promise<TimetableEntry[]> {
+    if (!this.calendarFile) {
+      return [];
+    }
+
+    try {
+      const events = await this.readEvents(this.calendarFile);
+      return ICalendarService.toEntries(events, date, this.timetableParser.getTimezone());
+    } catch (error) {
+      console.error(`❌ Error reading calendar ${this.calendarFile}, skipping its events:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Parse the VEVENTs of an .ics document
+   * Times with a TZID use that zone, UTC times stay UTC and floating times use the default timezone
+   */
+  public static parseEvents(content: string, defaultTimezone: string): ICalendarEvent[] {
+    const events: ICalendarEvent[] = [];
+    let properties: Array<{ name: string; params: Record<string, string>; value: string }> | null = null;
+
+    // Unfold continuation lines before reading properties
+    for (const line of content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+      const property = ICalendarService.parseProperty(line);
+      if (!property) {
+        continue;
+      }
+
+      if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+        properties = [];
+      } else if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+        const event = properties ? ICalendarService.buildEvent(properties, defaultTimezone) : null;
+        if (event) {
+          events.push(event);
+        }
+        properties = null;
+      } else if (properties) {
+        properties.push(property);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Expand events into the entries that start on a date
+   * Edited instances (RECURRENCE-ID) replace the occurrence they were split from
+   */
+  public static toEntries(events: ICalendarEvent[], date: Date, timezone: string): TimetableEntry[] {
+    const dayStart = moment.tz(date, timezone).startOf('day');
+    const dayEnd = dayStart.clone().add(1, 'day');
+    const edited = new Set(
+      events.filter(event => event.recurrenceId !== undefined).map(event => `${event.uid}|${event.recurrenceId}`)
+    );
+    const entries: TimetableEntry[] = [];
+
+    for (const event of events) {
+      if (event.allDay || (event.cancelled && event.recurrenceId === undefined)) {
+        continue;
+      }
+
+      for (const start of ICalendarService.generateStarts(event, dayEnd.valueOf() - 1)) {
+        const startMs = start.valueOf();
+        if (startMs < dayStart.valueOf() || event.exdates.includes(startMs)) {
+          continue;
+        }
+        if (event.recurrenceId === undefined && edited.has(`${event.uid}|${startMs}`)) {
+          continue;
+        }
+        if (event.cancelled) {
+          continue;
+        }
+
+        const local = start.clone().tz(timezone);
+        const end = local.clone().add(event.durationMinutes || DEFAULT_EVENT_MINUTES, 'minutes');
+        entries.push({
+          timeSlot: `${local.format('h:mm A')} to ${end.format('h:mm A')}`,
+          activity: event.summary,
+          startTime: local.toDate(),
+          endTime: end.toDate(),
+          source: 'calendar'
+        });
+      }
+    }
+
+    return entries.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Escape a TEXT value (RFC 5545 section 3.3.11)
+   */
+  public static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold a content line into chunks of at most 75 octets, without splitting characters
+   */
+  public static foldLine(line: string): string {
+    if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+      return line;
+    }
+
+    const chunks: string[] = [];
+    let chunk = '';
+    for (const char of line) {
+      // Continuation lines start with a space, which counts towards their length
+      const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (Buffer.byteLength(chunk + char) > limit) {
+        chunks.push(chunk);
+        chunk = '';
+      }
+      chunk += char;
+    }
+    chunks.push(chunk);
+    return chunks.join('\r\n ');
+  }
+
+  /**
+   * Read and parse the calendar file, re-parsing only when its modified time or size changes
+   */
+  private async readEvents(file: string): Promise<ICalendarEvent[]> {
+    const stats = await fs.promises.stat(file);
+    if (this.cached && this.cached.mtimeMs === stats.mtimeMs && this.cached.size === stats.size) {
+      return this.cached.events;
+    }
+
+    const content = await fs.promises.readFile(file, 'utf8');
+    const events = ICalendarService.parseEvents(content, this.timetableParser.getTimezone());
+    this.cached = { mtimeMs: stats.mtimeMs, size: stats.size, events };
+    console.log(`📆 Loaded ${events.length} events from ${file}`);
+    return events;
+  }
+
+  /**
+   * Starts of an event's occurrences in order, up to the limit (before EXDATEs are removed)
+   */
+  private static *generateStarts(event: ICalendarEvent, limitMs: number): Generator<moment.Moment> {
+    const rule = event.rrule;
+    if (!rule) {
+      if (event.start.valueOf() <= limitMs) {
+        yield event.start.clone();
+      }
+      return;
+    }
+
+    let count = 0;
+    for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+      const { periodStart, starts } = ICalendarService.expandPeriod(event, rule, period);
+      if (periodStart.valueOf() > limitMs) {
+        return;
+      }
+
+      for (const start of starts) {
+        if (start.valueOf() < event.start.valueOf()) {
+          continue;
+        }
+        if (start.valueOf() > limitMs || (rule.until !== undefined && start.valueOf() > rule.until)) {
+          return;
+        }
+        count++;
+        if (rule.count !== undefined && count > rule.count) {
+          return;
+        }
+        yield start;
+      }
+    }
+  }
+
+  /**
+   * Candidate starts in the nth period (day, week, month or year) of a rule, in order
+   */
+  private static expandPeriod(
+    event: ICalendarEvent,
+    rule: RecurrenceRule,
+    period: number
+  ): { periodStart: moment.Moment; starts: moment.Moment[] } {
+    const start = event.start;
+    const step = period * rule.interval;
+    const at = (day: moment.Moment) =>
+      day.clone().set({ hour: start.hour(), minute: start.minute(), second: start.second(), millisecond: 0 });
+    let periodStart: moment.Moment;
+    let days: moment.Moment[];
+
+    switch (rule.freq) {
+      case 'DAILY':
+        periodStart = start.clone().startOf('day').add(step, 'days');
+        days = [periodStart];
+        break;
+      case 'WEEKLY': {
+        periodStart = start.clone().startOf('isoWeek').add(step, 'weeks');
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map(byDay => byDay.day) : [start.day()];
+        days = weekdays.map(day => periodStart.clone().add((day + 6) % 7, 'days'));
+        break;
+      }
+      case 'MONTHLY':
+        periodStart = start.clone().startOf('month').add(step, 'months');
+        days = ICalendarService.expandMonth(periodStart, rule, start);
+        break;
+      case 'YEARLY': {
+        periodStart = start.clone().startOf('year').add(step, 'years');
+        const months = rule.byMonth.length > 0 ? rule.byMonth : [start.month() + 1];
+        days = months.flatMap(month => ICalendarService.expandMonth(periodStart.clone().month(month - 1), rule, start));
+        break;
+      }
+    }
+
+    // BYxxx parts on a finer frequency than they expand act as filters
+    const starts = days
+      .filter(day => rule.freq !== 'DAILY' || rule.byDay.length === 0 || rule.byDay.some(byDay => byDay.day === day.day()))
+      .filter(day => rule.freq === 'YEARLY' || rule.byMonth.length === 0 || rule.byMonth.includes(day.month() + 1))
+      .map(at)
+      .sort((a, b) => a.valueOf() - b.valueOf());
+    return { periodStart, starts };
+  }
+
+  /**
+   * Days of a month picked by BYMONTHDAY, BYDAY (with optional ordinals such as -1FR) or the start's day
+   */
+  private static expandMonth(monthStart: moment.Moment, rule: RecurrenceRule, start: moment.Moment): moment.Moment[] {
+    const daysInMonth = monthStart.daysInMonth();
+    let dates: number[];
+
+    if (rule.byMonthDay.length > 0) {
+      dates = rule.byMonthDay.map(day => (day > 0 ? day : daysInMonth + day + 1));
+    } else if (rule.byDay.length > 0) {
+      dates = rule.byDay.flatMap(({ day, ordinal }) => {
+        const matching: number[] = [];
+        for (let date = 1; date <= daysInMonth; date++) {
+          if (monthStart.clone().date(date).day() === day) {
+            matching.push(date);
+          }
+        }
+        if (ordinal === undefined) {
+          return matching;
+        }
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        return picked === undefined ? [] : [picked];
+      });
+    } else {
+      dates = [start.date()];
+    }
+
+    return dates
+      .filter(date => date >= 1 && date <= daysInMonth)
+      .map(date => monthStart.clone().date(date));
+  }
+
+  /**
+   * Split a content line into name, parameters and value; null for blank or malformed lines
+   */
+  private static parseProperty(line: string): { name: string; params: Record<string, string>; value: string } | null {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === ':' && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+    if (colon <= 0) {
+      return null;
+    }
+
+    const [name = '', ...rawParams] = line.substring(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const equals = param.indexOf('=');
+      if (equals > 0) {
+        params[param.substring(0, equals).toUpperCase()] = param.substring(equals + 1).replace(/^"|"$/g, '');
+      }
+    }
+
+    return { name: name.toUpperCase(), params, value: line.substring(colon + 1) };
+  }
+
+  private static buildEvent(
+    properties: Array<{ name: string; params: Record<string, string>; value: string }>,
+    defaultTimezone: string
+  ): ICalendarEvent | null {
+    const find = (name: string) => properties.find(property => property.name === name);
+    const dtstart = find('DTSTART');
+    const start = dtstart ? ICalendarService.parseDateTime(dtstart.value, dtstart.params, defaultTimezone) : null;
+    if (!dtstart || !start) {
+      console.warn('⚠️ Skipping calendar event without a valid DTSTART');
+      return null;
+    }
+
+    const allDay = dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value.trim());
+    const dtend = find('DTEND');
+    const end = dtend ? ICalendarService.parseDateTime(dtend.value, dtend.params, defaultTimezone) : null;
+    const duration = find('DURATION');
+    const durationMinutes = end
+      ? Math.max(0, end.diff(start, 'minutes'))
+      : ICalendarService.parseDuration(duration?.value || '') ?? 0;
+
+    const exdates: number[] = [];
+    for (const exdate of properties.filter(property => property.name === 'EXDATE')) {
+      for (const value of exdate.value.split(',')) {
+        const excluded = ICalendarService.parseDateTime(value, exdate.params, defaultTimezone);
+        if (excluded) {
+          exdates.push(excluded.valueOf());
+        }
+      }
+    }
+
+    const rrule = find('RRULE');
+    const recurrenceId = find('RECURRENCE-ID');
+    const summary = find('SUMMARY');
+    const event: ICalendarEvent = {
+      uid: find('UID')?.value.trim() || '',
+      summary: summary ? ICalendarService.unescapeText(summary.value).trim() || 'Calendar event' : 'Calendar event',
+      start,
+      durationMinutes,
+      allDay,
+      cancelled: (find('STATUS')?.value || '').trim().toUpperCase() === 'CANCELLED',
+      exdates
+    };
+    if (rrule) event.rrule = ICalendarService.parseRule(rrule.value, start);
+    if (recurrenceId) {
+      event.recurrenceId = ICalendarService.parseDateTime(recurrenceId.value, recurrenceId.params, defaultTimezone)?.valueOf();
+    }
+    return event;
+  }
+
+  /**
+   * Parse an RRULE value; unsupported frequencies (e.g. HOURLY) make the event a single occurrence
+   */
+  private static parseRule(value: string, start: moment.Moment): RecurrenceRule | undefined {
+    const parts: Record<string, string> = {};
+    for (const part of value.split(';')) {
+      const [key, partValue] = part.split('=');
+      if (key && partValue !== undefined) {
+        parts[key.trim().toUpperCase()] = partValue.trim().toUpperCase();
+      }
+    }
+
+    const freq = FREQUENCIES.find(frequency => frequency === parts.FREQ);
+    if (!freq) {
+      console.warn(`⚠️ Unsupported RRULE "${value}", using the first occurrence only`);
+      return undefined;
+    }
+
+    const rule: RecurrenceRule = {
+      freq,
+      interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+      byDay: [],
+      byMonthDay: (parts.BYMONTHDAY || '').split(',').filter(Boolean).map(day => parseInt(day, 10)).filter(day => !isNaN(day)),
+      byMonth: (parts.BYMONTH || '').split(',').filter(Boolean).map(month => parseInt(month, 10)).filter(month => !isNaN(month))
+    };
+    for (const byDay of (parts.BYDAY || '').split(',').filter(Boolean)) {
+      const match = byDay.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (match && match[2]) {
+        rule.byDay.push({ day: ICAL_DAYS.indexOf(match[2]), ordinal: match[1] ? parseInt(match[1], 10) : undefined });
+      }
+    }
+    if (parts.COUNT) {
+      rule.count = parseInt(parts.COUNT, 10);
+    }
+    if (parts.UNTIL) {
+      // A date-only UNTIL includes that whole day
+      const until = /^\d{8}$/.test(parts.UNTIL)
+        ? moment.tz(parts.UNTIL, 'YYYYMMDD', start.tz() || 'UTC').endOf('day')
+        : ICalendarService.parseDateTime(parts.UNTIL, {}, start.tz() || 'UTC');
+      if (until) rule.until = until.valueOf();
+    }
+
+    return rule;
+  }
+
+  /**
+   * Parse a DATE or DATE-TIME value, honouring TZID and the UTC "Z" suffix
+   */
+  private static parseDateTime(value: string, params: Record<string, string>, defaultTimezone: string): moment.Moment | null {
+    const text = value.trim();
+    const timezone = ICalendarService.resolveTimezone(params.TZID, defaultTimezone);
+
+    let parsed: moment.Moment;
+    if (/^\d{8}$/.test(text)) {
+      parsed = moment.tz(text, 'YYYYMMDD', true, timezone);
+    } else if (/^\d{8}T\d{6}Z$/.test(text)) {
+      parsed = moment.tz(text, 'YYYYMMDD[T]HHmmss[Z]', true, 'UTC');
+    } else {
+      parsed = moment.tz(text, 'YYYYMMDD[T]HHmmss', true, timezone);
+    }
+    return parsed.isValid() ? parsed : null;
+  }
+
+  /**
+   * Map a TZID to an IANA zone; vendor prefixes such as "/mozilla.org/20050126_1/" are stripped
+   */
+  private static resolveTimezone(tzid: string | undefined, defaultTimezone: string): string {
+    if (!tzid) {
+      return defaultTimezone;
+    }
+    const candidates = [tzid, tzid.replace(/^\/?(?:[^/]+\/)*?(?=[A-Z][a-z]+\/)/, '')];
+    const known = candidates.find(candidate => moment.tz.zone(candidate));
+    if (!known) {
+      console.warn(`⚠️ Unknown calendar timezone "${tzid}", using ${defaultTimezone}`);
+      return defaultTimezone;
+    }
+    return known;
+  }
+
+  /**
+   * Parse a DURATION such as "PT1H30M" or "P1W" into minutes
+   */
+  private static parseDuration(value: string): number | null {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) {
+      return null;
+    }
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const total = (parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * 24 * 60 +
+      parseInt(hours || '0', 10) * 60 + parseInt(minutes || '0', 10) + Math.floor(parseInt(seconds || '0', 10) / 60);
+    return sign === '-' ? 0 : total;
+  }
+
+  private static unescapeText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+  }
+
+  private formatLocal(time: Date, timezone: string): string {
+    return moment.tz(time, timezone).format('YYYYMMDD[T]HHmmss');
+  }
+
+  /**
+   * A VTIMEZONE for the export, built from the tz database: the observance in force at `from`
+   * plus every offset change in the following year
+   */
+  private formatTimezone(timezone: string, from: moment.Moment): string[] {
+    const zone = moment.tz.zone(timezone);
+    if (!zone) {
+      return [];
+    }
+
+    const fromMs = from.valueOf();
+    const toMs = from.clone().add(1, 'year').valueOf();
+    const formatOffset = (utcOffset: number) => {
+      const sign = utcOffset < 0 ? '-' : '+';
+      const absolute = Math.abs(utcOffset);
+      return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+    };
+
+    // zone.untils[i] ends the period with zone.offsets[i] (minutes west of UTC)
+    const transitions: number[] = [];
+    for (let i = 0; i < zone.untils.length - 1; i++) {
+      const until = zone.untils[i] as number;
+      if (until < toMs && (until > fromMs || (zone.untils[i + 1] as number) > fromMs)) {
+        transitions.push(i);
+      }
+    }
+
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+    if (transitions.length === 0) {
+      const utcOffset = from.utcOffset();
+      lines.push(
+        'BEGIN:STANDARD',
+        'DTSTART:19700101T000000',
+        `TZOFFSETFROM:${formatOffset(utcOffset)}`,
+        `TZOFFSETTO:${formatOffset(utcOffset)}`,
+        `TZNAME:${from.format('z')}`,
+        'END:STANDARD'
+      );
+    }
+    for (const i of transitions) {
+      const offsetFrom = -(zone.offsets[i] as number);
+      const offsetTo = -(zone.offsets[i + 1] as number);
+      const at = moment.utc(zone.untils[i] as number);
+      const type = moment.tz(at.valueOf(), timezone).isDST() ? 'DAYLIGHT' : 'STANDARD';
+      lines.push(
+        `BEGIN:${type}`,
+        `DTSTART:${at.clone().utcOffset(offsetFrom).format('YYYYMMDD[T]HHmmss')}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(offsetTo)}`,
+        `TZNAME:${zone.abbrs[i + 1]}`,
+        `END:${type}`
+      );
+    }
+    lines.push('END:VTIMEZONE');
+    return lines;
+  }
+}
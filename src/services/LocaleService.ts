@@ -0,0 +1,86 @@
+import moment from 'moment-timezone';
+import 'moment/locale/ur';
+import 'moment/locale/ar';
+import { LocaleBundle, MessageKey } from '../locales/types';
+import { EN_MESSAGES, en } from '../locales/en';
+import { ur } from '../locales/ur';
+import { ar } from '../locales/ar';
+import { CommandName } from './CommandRouter';
+import { TemplateData, TemplateEngine } from './TemplateEngine';
+
+// Loading a moment locale also makes it the global one; dates are only localised where a locale is asked for
+moment.locale('en');
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const BUNDLES: Record<string, LocaleBundle> = { en, ur, ar };
+
+/**
+ * Locale Service for BarakahTracker
+ * A user's language: the bot's fixed replies, dashboard labels, chat command keywords and how dates and
+ * times are written. Texts missing from a language's bundle are given in English.
+ */
+export class LocaleService {
+  private bundle: LocaleBundle;
+  private timezone: string;
+
+  constructor(language: string = DEFAULT_LANGUAGE, timezone: string = moment.tz.guess()) {
+    this.bundle = LocaleService.getBundle(language);
+    this.timezone = timezone;
+  }
+
+  public static getSupportedLanguages(): string[] {
+    return Object.keys(BUNDLES);
+  }
+
+  public static isSupported(language: string): boolean {
+    return Boolean(BUNDLES[language.trim().toLowerCase()]);
+  }
+
+  /**
+   * The bundle for a language code, English for unsupported ones
+   */
+  public static getBundle(language: string): LocaleBundle {
+    return BUNDLES[language.trim().toLowerCase()] || en;
+  }
+
+  public getLanguage(): string {
+    return this.bundle.language;
+  }
+
+  public getDirection(): 'ltr' | 'rtl' {
+    return this.bundle.direction;
+  }
+
+  public getMomentLocale(): string {
+    return this.bundle.momentLocale;
+  }
+
+  /**
+   * A fixed message in this language, with placeholders filled (TemplateEngine syntax)
+   */
+  public t(key: MessageKey, params: TemplateData = {}): string {
+    const text = this.bundle.messages[key] ?? EN_MESSAGES[key];
+    return TemplateEngine.render(text, params, this.timezone, this.bundle.momentLocale);
+  }
+
+  /**
+   * Format a date in the user's timezone and language, e.g. "4:30 PM" or "4:30 شام"
+   */
+  public format(date: Date, format: string = 'h:mm A'): string {
+    return moment.tz(date, this.timezone).locale(this.bundle.momentLocale).format(format);
+  }
+
+  /**
+   * Keywords that trigger each chat command in this language (the English ones always work as well)
+   */
+  public getCommandKeywords(): Array<{ keyword: string; command: CommandName }> {
+    return Object.entries(this.bundle.commands).flatMap(([command, keywords]) =>
+      (keywords || []).map(keyword => ({ keyword: keyword.toLowerCase(), command: command as CommandName }))
+    );
+  }
+
+  public getDurationUnits(): { hours: string[]; minutes: string[] } {
+    return this.bundle.durationUnits;
+  }
+}
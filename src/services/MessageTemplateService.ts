@@ -0,0 +1,380 @@
+import * as fs from 'fs';
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import { parse } from 'yaml';
+import { MessageTemplate } from '../models/MessageTemplate';
+import { TemplateData, TemplateEngine } from './TemplateEngine';
+import { DEFAULT_LANGUAGE, LocaleService } from './LocaleService';
+
+// A built-in template with the data it is rendered with, which previews use
+interface TemplateDefinition {
+  description: string;
+  body: string;
+  sample: TemplateData;
+}
+
+export type TemplateSource = 'database' | 'file' | 'built-in';
+
+// A template as a user currently gets it
+export interface MessageTemplateInfo {
+  name: string;
+  description: string;
+  language: string; // Language of the body, which is English when the user's language has no version
+  source: TemplateSource;
+  body: string;
+}
+
+// Contents of the templates file (TEMPLATES_FILE): template bodies by language, then name
+export type TemplateFileContents = Record<string, Record<string, string>>;
+
+const sampleStart = () => moment().add(15, 'minutes').startOf('minute').toDate();
+const sampleCategory = { name: 'Prayer', emoji: '🕌', location: 'Home', colour: '#805ad5' };
+
+const BUILT_IN_TEMPLATES: Record<string, TemplateDefinition> = {
+  reminder: {
+    description: 'Reminder before an activity starts',
+    body: `🔔 REMINDER: Your "{activity}" is starting in {minutesBefore} minutes at {startTime|time}.
+
+⏰ Time Slot: {timeSlot}
+📝 Activity: {activity}
+{#if category}
+🏷️ Category: {category.emoji} {category.name}
+{/if}
+
+Have a productive session! 💪`,
+    sample: {
+      activity: 'Dhuhr Prayer', subject: 'Dhuhr Prayer', timeSlot: '1:00 PM to 1:30 PM', startTime: sampleStart(),
+      time: '1:00 PM', minutesBefore: 15, type: 'Prayer', emoji: '🕌', location: 'Home', category: sampleCategory
+    }
+  },
+  nudge: {
+    description: 'Reminder at or after the start, and escalation nudges',
+    body: '⏰ "{activity}" {#if startsIn}starts in {startsIn} minutes, at {startTime|time}{/if}{#if startingNow}is starting now{/if}{#if startedAgo}started {startedAgo} minutes ago, at {startTime|time}{/if}.',
+    sample: { activity: 'Dhuhr Prayer', startTime: sampleStart(), startsIn: 0, startingNow: false, startedAgo: 10 }
+  },
+  'reminder.count': {
+    description: 'Added to a reminder when an activity has several',
+    body: '🔁 Reminder {number} of {total} ({#if before}{before} min before{/if}{#if atStart}at the start{/if}{#if after}{after} min after the start{/if})',
+    sample: { number: 2, total: 3, before: 5, atStart: false, after: 0 }
+  },
+  'reminder.hint': {
+    description: 'Added to reminders and nudges that more follow',
+    body: 'Reply "done" once you\'re on it, or "snooze 10" to be nudged later.',
+    sample: {}
+  },
+  checkin: {
+    description: 'Check-in asking what the user is doing',
+    body: `🕐 **BarakahTracker Check-in**
+
+**Time:** {timeSlot}
+**Planned:** {plannedActivity}
+
+**What are you actually doing right now?**
+
+Please reply with:
+• Your current activity
+• Optional: Add mood emoji (😊😐😔😤😴💪🤔)
+• Optional: Add notes
+
+*Example: "Working on project ⚡ 💪 - making good progress"*
+
+Reply within {replyMinutes} minutes to be recorded! ⏰`,
+    sample: { timeSlot: '1:00 PM - 1:30 PM', plannedActivity: 'Dhuhr Prayer', startTime: sampleStart(), replyMinutes: 25 }
+  },
+  'checkin.recorded': {
+    description: 'Reply to an answered check-in',
+    body: `✅ **Activity Recorded!**
+
+**Time:** {timeSlot}
+**Activity:** {activity}
+**Mood:** {mood}
+{#if notes}
+**Notes:** {notes}
+{/if}
+
+Great job staying on track! 🎯`,
+    sample: { timeSlot: '1:00 PM - 1:30 PM', activity: 'Praying at the masjid', mood: '😊', notes: 'Prayed in congregation' }
+  },
+  'checkin.missed': {
+    description: 'Sent when a check-in gets no reply in time',
+    body: `⏰ **Missed Check-in**
+
+You missed the check-in for {timeSlot}.
+
+No worries! The next check-in is at {nextCheckIn|time}. Stay focused! 💪`,
+    sample: { timeSlot: '1:00 PM - 1:30 PM', nextCheckIn: sampleStart() }
+  },
+  summary: {
+    description: 'Daily summary, with the next activities',
+    body: `📊 **Daily Summary**
+
+**Date:** {date|date}
+**Completion Rate:** {completionRate|fixed:"1"}%
+**Completed:** {completedSlots}/{totalSlots} time slots
+**Pending:** {pendingSlots} check-ins
+{#if upcoming}
+
+**Coming up:**
+{#each upcoming}
+{@number}. {startTime|time} {activity}
+{/each}
+{/if}
+
+Keep up the great work! 🎯`,
+    sample: {
+      date: new Date(), completionRate: 62.5, completedSlots: 5, totalSlots: 8, pendingSlots: 3,
+      upcoming: [
+        { activity: 'Asr Prayer', startTime: sampleStart(), timeSlot: '4:30 PM to 5:00 PM' },
+        { activity: 'Gym session', startTime: moment(sampleStart()).add(1, 'hour').toDate(), timeSlot: '5:30 PM to 6:30 PM' }
+      ]
+    }
+  }
+};
+
+/**
+ * Message Template Service for BarakahTracker
+ * The wording of reminders, nudges, check-ins and summaries, per user and language. A template is looked up
+ * in the user's language, then English: first the user's templates in MongoDB, then the templates file,
+ * then the language's locale bundle and the built-in English ones. A stored or file template that fails
+ * to render falls back to the built-in English one.
+ */
+export class MessageTemplateService {
+  private userId: string;
+  private timezone: string;
+  private language: string;
+  private locale: LocaleService;
+  private templatesFile: string | undefined;
+  private fileTemplates: TemplateFileContents | null = null;
+  private cachedTemplates: Map<string, string> | null = null;
+
+  constructor(
+    userId: string = 'default',
+    timezone: string = moment.tz.guess(),
+    language: string = DEFAULT_LANGUAGE,
+    templatesFile?: string
+  ) {
+    this.userId = userId;
+    this.timezone = timezone;
+    this.language = language.toLowerCase();
+    this.locale = new LocaleService(this.language, timezone);
+    this.templatesFile = templatesFile;
+  }
+
+  public static getTemplateNames(): string[] {
+    return Object.keys(BUILT_IN_TEMPLATES);
+  }
+
+  /**
+   * Check a templates file's contents for unknown templates and invalid bodies
+   */
+  public static validateFile(contents: TemplateFileContents): string[] {
+    if (typeof contents !== 'object' || contents === null || Array.isArray(contents)) {
+      return ['Templates file should map languages to templates, e.g. en: { reminder: "..." }'];
+    }
+
+    const errors: string[] = [];
+    for (const [language, templates] of Object.entries(contents)) {
+      if (!LocaleService.isSupported(language)) {
+        errors.push(`Unsupported language: ${language} (use ${LocaleService.getSupportedLanguages().join(', ')})`);
+      }
+      for (const [name, body] of Object.entries(templates || {})) {
+        errors.push(...MessageTemplateService.validateTemplate(name, body).map(error => `${language}/${name}: ${error}`));
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Check a template body for a known name and valid syntax
+   */
+  public static validateTemplate(name: string, body: unknown): string[] {
+    if (!BUILT_IN_TEMPLATES[name]) {
+      return [`Unknown template: ${name} (use ${MessageTemplateService.getTemplateNames().join(', ')})`];
+    }
+    if (typeof body !== 'string' || body.trim() === '') {
+      return ['Template body is empty'];
+    }
+    return TemplateEngine.validate(body);
+  }
+
+  public getLanguage(): string {
+    return this.language;
+  }
+
+  /**
+   * The user's language for texts that aren't templates, such as command replies
+   */
+  public getLocale(): LocaleService {
+    return this.locale;
+  }
+
+  public isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Render a template for this user
+   */
+  public async render(name: string, data: TemplateData, language: string = this.language): Promise<string> {
+    const template = await this.find(name, language);
+    try {
+      return this.renderText(template.body, data, template.language);
+    } catch (error) {
+      const builtIn = BUILT_IN_TEMPLATES[name];
+      if (template.source === 'built-in' || !builtIn) {
+        throw error;
+      }
+      console.error(`❌ Template ${template.language}/${name} (${template.source}) failed, using the built-in one:`, error instanceof Error ? error.message : error);
+      return this.renderText(builtIn.body, data, DEFAULT_LANGUAGE);
+    }
+  }
+
+  /**
+   * Render template text that isn't stored by name, e.g. a user's custom reminder message
+   * Dates are written in the text's language; cache = false for one-off text such as a previewed draft
+   */
+  public renderText(body: string, data: TemplateData, language: string = this.language, cache: boolean = true): string {
+    return TemplateEngine.render(body, data, this.timezone, LocaleService.getBundle(language).momentLocale, cache).trim();
+  }
+
+  /**
+   * Every template, as this user gets it in a language
+   */
+  public async list(language: string = this.language): Promise<MessageTemplateInfo[]> {
+    return Promise.all(MessageTemplateService.getTemplateNames().map(name => this.find(name, language)));
+  }
+
+  /**
+   * Render a template, or a draft body for it, with sample data
+   */
+  public async preview(name: string, language: string = this.language, body?: string): Promise<string> {
+    const definition = BUILT_IN_TEMPLATES[name];
+    const errors = MessageTemplateService.validateTemplate(name, body ?? definition?.body);
+    if (!definition || errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    return body !== undefined ? this.renderText(body, definition.sample, language, false) : this.render(name, definition.sample, language);
+  }
+
+  /**
+   * Store this user's version of a template
+   */
+  public async save(name: string, body: string, language: string = this.language): Promise<MessageTemplateInfo> {
+    this.requireDatabase();
+    const errors = MessageTemplateService.validateTemplate(name, body);
+    if (!LocaleService.isSupported(language)) {
+      errors.push(`Unsupported language: ${language} (use ${LocaleService.getSupportedLanguages().join(', ')})`);
+    }
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    await MessageTemplate.updateOne(
+      { userId: this.userId, name, language },
+      { $set: { body } },
+      { upsert: true }
+    );
+    console.log(`📝 Saved ${language}/${name} template for ${this.userId}`);
+    this.invalidate();
+    return this.find(name, language);
+  }
+
+  /**
+   * Delete this user's version of a template, going back to the file or built-in one
+   */
+  public async remove(name: string, language: string = this.language): Promise<boolean> {
+    this.requireDatabase();
+    const result = await MessageTemplate.deleteOne({ userId: this.userId, name, language });
+    this.invalidate();
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Forget cached templates, so the next message reads them again
+   */
+  public invalidate(): void {
+    this.cachedTemplates = null;
+    this.fileTemplates = null;
+  }
+
+  private async find(name: string, language: string): Promise<MessageTemplateInfo> {
+    const definition = BUILT_IN_TEMPLATES[name];
+    if (!definition) {
+      throw new Error(`Unknown template: ${name}`);
+    }
+
+    const stored = await this.getStoredTemplates();
+    const files = this.getFileTemplates();
+    for (const candidate of new Set([language.toLowerCase(), DEFAULT_LANGUAGE])) {
+      const storedBody = stored.get(`${candidate}/${name}`);
+      if (storedBody) {
+        return { name, description: definition.description, language: candidate, source: 'database', body: storedBody };
+      }
+      const fileBody = files[candidate]?.[name];
+      if (fileBody) {
+        return { name, description: definition.description, language: candidate, source: 'file', body: fileBody };
+      }
+      const bundleBody = LocaleService.isSupported(candidate) ? LocaleService.getBundle(candidate).templates[name] : undefined;
+      if (bundleBody) {
+        return { name, description: definition.description, language: candidate, source: 'built-in', body: bundleBody };
+      }
+    }
+    return { name, description: definition.description, language: DEFAULT_LANGUAGE, source: 'built-in', body: definition.body };
+  }
+
+  /**
+   * This user's templates from MongoDB by "language/name" (none without a database)
+   */
+  private async getStoredTemplates(): Promise<Map<string, string>> {
+    if (this.cachedTemplates) {
+      return this.cachedTemplates;
+    }
+    if (!this.isAvailable()) {
+      return new Map();
+    }
+
+    try {
+      const stored = await MessageTemplate.find({ userId: this.userId }).lean();
+      this.cachedTemplates = new Map(stored.map(template => [`${template.language}/${template.name}`, template.body]));
+      return this.cachedTemplates;
+    } catch (error) {
+      console.error('❌ Error reading message templates, using the default ones:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * The templates file (JSON or YAML); an unreadable or invalid file is logged and ignored
+   */
+  private getFileTemplates(): TemplateFileContents {
+    if (this.fileTemplates) {
+      return this.fileTemplates;
+    }
+
+    this.fileTemplates = {};
+    if (!this.templatesFile) {
+      return this.fileTemplates;
+    }
+
+    try {
+      const contents = (parse(fs.readFileSync(this.templatesFile, 'utf8')) || {}) as TemplateFileContents;
+      const errors = MessageTemplateService.validateFile(contents);
+      if (errors.length > 0) {
+        console.warn(`⚠️ Ignoring templates file ${this.templatesFile}:`);
+        errors.forEach(error => console.warn(`   ❌ ${error}`));
+      } else {
+        this.fileTemplates = contents;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not read templates file ${this.templatesFile}:`, error instanceof Error ? error.message : error);
+    }
+    return this.fileTemplates;
+  }
+
+  private requireDatabase(): void {
+    if (!this.isAvailable()) {
+      throw new Error('Database not connected - message templates are stored in MongoDB');
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import mongoose from 'mongoose';
+import { IOutboundMessageEntry, OutboundMessage } from '../models/OutboundMessage';
+import { OutboundQueueConfig } from '../types';
+import { IWhatsAppService, IncomingMessageHandler, IncomingWhatsAppMessage, InteractiveMessage, WhatsAppMessage } from './WhatsAppService';
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const PROCESS_INTERVAL_MS = 5000;
+
+export const DEFAULT_OUTBOUND_QUEUE_CONFIG: OutboundQueueConfig = { maxAttempts: 5, retryDelaySeconds: 30 };
+
+export interface OutboundQueueStats {
+  pending: number; // Messages waiting for a retry
+  deadLettered: number; // Messages given up on since the start
+  oldestPendingAt: Date | null;
+}
+
+/**
+ * Outbound Message Queue for BarakahTracker
+ * Wraps the WhatsApp transport so every message is retried: network errors and 5xx responses are retried with
+ * exponential backoff, 4xx errors (bad token, unknown number, ...) fail at once, and a message still failing
+ * after the last attempt is dead-lettered. Messages waiting for a retry are saved to MongoDB when connected,
+ * so they survive restarts.
+ */
+export class OutboundMessageQueue implements IWhatsAppService {
+  private transport: IWhatsAppService;
+  private config: OutboundQueueConfig;
+  private pending: Map<string, IOutboundMessageEntry> = new Map();
+  private deadLettered = 0;
+  private processTimer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private sequence = 0;
+
+  constructor(transport: IWhatsAppService, config: OutboundQueueConfig = DEFAULT_OUTBOUND_QUEUE_CONFIG) {
+    this.transport = transport;
+    this.config = config;
+  }
+
+  public static validateConfig(config: OutboundQueueConfig): string[] {
+    const errors: string[] = [];
+    if (!Number.isInteger(config.maxAttempts) || config.maxAttempts < 1 || config.maxAttempts > 20) {
+      errors.push('Outbound message attempts should be a whole number from 1 to 20');
+    }
+    if (!Number.isInteger(config.retryDelaySeconds) || config.retryDelaySeconds < 1 || config.retryDelaySeconds > 3600) {
+      errors.push('Outbound retry delay should be 1-3600 seconds');
+    }
+    return errors;
+  }
+
+  /**
+   * Whether a failed send would fail again: 4xx responses, except timeouts and rate limits
+   */
+  public static isPermanentFailure(result: WhatsAppMessage): boolean {
+    const status = result.statusCode;
+    return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+  }
+
+  public getTransport(): IWhatsAppService {
+    return this.transport;
+  }
+
+  public async initialize(): Promise<void> {
+    await this.transport.initialize();
+    // The database usually connects once the transport is ready, after this
+    if (this.isPersistent()) {
+      await this.loadPending();
+    } else {
+      mongoose.connection.once('connected', this.handleDatabaseConnected);
+    }
+
+    if (!this.processTimer) {
+      this.processTimer = setInterval(() => {
+        this.processDue().catch(error => console.error('❌ Failed to process outbound queue:', error));
+      }, PROCESS_INTERVAL_MS);
+      this.processTimer.unref?.();
+    }
+  }
+
+  public setOnReadyCallback(callback: () => Promise<void> | void): void {
+    this.transport.setOnReadyCallback?.(callback);
+  }
+
+  public onMessage(handler: IncomingMessageHandler): void {
+    this.transport.onMessage(handler);
+  }
+
+  public async receiveMessage(message: IncomingWhatsAppMessage): Promise<void> {
+    await this.transport.receiveMessage?.(message);
+  }
+
+  public isConnected(): boolean {
+    return this.transport.isConnected();
+  }
+
+  public async disconnect(): Promise<void> {
+    mongoose.connection.off('connected', this.handleDatabaseConnected);
+    if (this.processTimer) {
+      clearInterval(this.processTimer);
+      this.processTimer = null;
+    }
+    await this.transport.disconnect();
+  }
+
+  /**
+   * Send a message now, queueing it for retries if that fails
+   * A message that will be retried comes back with success false and queued true
+   */
+  public async sendMessage(recipient: string, message: string): Promise<WhatsAppMessage> {
+    return this.send(this.createEntry(recipient, message));
+  }
+
+  public async sendInteractive(recipient: string, message: InteractiveMessage): Promise<WhatsAppMessage> {
+    return this.send(this.createEntry(recipient, message.body, message));
+  }
+
+  public getStats(): OutboundQueueStats {
+    const createdAt = Array.from(this.pending.values()).map(entry => entry.createdAt.getTime());
+    return {
+      pending: this.pending.size,
+      deadLettered: this.deadLettered,
+      oldestPendingAt: createdAt.length > 0 ? new Date(Math.min(...createdAt)) : null
+    };
+  }
+
+  /**
+   * Retry the queued messages that are due, oldest first
+   */
+  public async processDue(now: Date = new Date()): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+
+    try {
+      const due = Array.from(this.pending.values())
+        .filter(entry => entry.nextAttemptAt.getTime() <= now.getTime())
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      for (const entry of due) {
+        await this.attempt(entry, now);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Delay before the next attempt: the retry delay, doubled for each attempt made, up to an hour
+   */
+  public getRetryDelay(attempts: number): number {
+    return Math.min(this.config.retryDelaySeconds * 1000 * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  private createEntry(recipient: string, message: string, interactive?: InteractiveMessage): IOutboundMessageEntry {
+    return {
+      queueId: `${Date.now()}-${++this.sequence}`,
+      recipient,
+      message,
+      interactive,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      createdAt: new Date()
+    };
+  }
+
+  private async send(entry: IOutboundMessageEntry): Promise<WhatsAppMessage> {
+    const result = await this.attempt(entry);
+    if (!result.success && entry.status === 'pending') {
+      result.queued = true;
+    }
+    return result;
+  }
+
+  /**
+   * Make one delivery attempt, then forget the message, schedule its retry or dead-letter it
+   */
+  private async attempt(entry: IOutboundMessageEntry, now: Date = new Date()): Promise<WhatsAppMessage> {
+    entry.attempts++;
+    const result = await this.deliver(entry);
+
+    if (result.success) {
+      if (entry.attempts > 1) {
+        console.log(`📮 Message to ${entry.recipient} delivered on attempt ${entry.attempts}`);
+        await this.remove(entry);
+      }
+      return result;
+    }
+
+    entry.lastError = result.error || 'Unknown error';
+    if (OutboundMessageQueue.isPermanentFailure(result) || entry.attempts >= this.config.maxAttempts) {
+      entry.status = 'dead';
+      console.error(`☠️ Giving up on message to ${entry.recipient} after ${entry.attempts} attempt(s): ${entry.lastError}`);
+    } else {
+      entry.nextAttemptAt = new Date(now.getTime() + this.getRetryDelay(entry.attempts));
+      console.warn(`🔁 Message to ${entry.recipient} failed (${entry.lastError}), attempt ${entry.attempts + 1}/${this.config.maxAttempts} at ${entry.nextAttemptAt.toISOString()}`);
+    }
+    await this.save(entry);
+    return result;
+  }
+
+  private async deliver(entry: IOutboundMessageEntry): Promise<WhatsAppMessage> {
+    try {
+      return entry.interactive && this.transport.sendInteractive
+        ? await this.transport.sendInteractive(entry.recipient, entry.interactive)
+        : await this.transport.sendMessage(entry.recipient, entry.message);
+    } catch (error) {
+      return {
+        recipient: entry.recipient,
+        message: entry.message,
+        timestamp: new Date(),
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async save(entry: IOutboundMessageEntry): Promise<void> {
+    if (entry.status === 'pending') {
+      this.pending.set(entry.queueId, entry);
+    } else {
+      this.pending.delete(entry.queueId);
+      this.deadLettered++;
+    }
+
+    if (!this.isPersistent()) {
+      return;
+    }
+    try {
+      await OutboundMessage.updateOne({ queueId: entry.queueId }, { $set: entry }, { upsert: true });
+    } catch (error) {
+      console.error('❌ Failed to save outbound message, keeping it in memory only:', error);
+    }
+  }
+
+  private async remove(entry: IOutboundMessageEntry): Promise<void> {
+    this.pending.delete(entry.queueId);
+    if (!this.isPersistent()) {
+      return;
+    }
+    try {
+      await OutboundMessage.deleteOne({ queueId: entry.queueId });
+    } catch (error) {
+      console.error('❌ Failed to remove delivered outbound message:', error);
+    }
+  }
+
+  /**
+   * Save messages queued before the database connected, and pick up the ones from before a restart
+   */
+  private handleDatabaseConnected = (): void => {
+    const queuedBefore = Array.from(this.pending.values());
+    Promise.all(queuedBefore.map(entry => this.save(entry)))
+      .then(() => this.loadPending())
+      .catch(error => console.error('❌ Failed to load the outbound queue:', error));
+  };
+
+  /**
+   * Pick up messages still waiting for a retry from before a restart
+   */
+  private async loadPending(): Promise<void> {
+    if (!this.isPersistent()) {
+      return;
+    }
+    try {
+      const entries = await OutboundMessage.find({ status: 'pending' }, { _id: 0, __v: 0 }).lean<IOutboundMessageEntry[]>();
+      for (const entry of entries) {
+        this.pending.set(entry.queueId, entry);
+      }
+      if (entries.length > 0) {
+        console.log(`📮 ${entries.length} queued outbound message(s) will be retried`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to load the outbound queue:', error);
+    }
+  }
+
+  private isPersistent(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+}
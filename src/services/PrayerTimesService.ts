@@ -0,0 +1,241 @@
+import moment from 'moment-timezone';
+import { AsrMadhab, PrayerCalculationMethod, PrayerName, PrayerTimesConfig, TimetableEntry } from '../types';
+
+export type PrayerTimes = { [prayer in PrayerName]: Date | null } & {
+  sunrise: Date | null;
+};
+
+interface MethodParameters {
+  fajrAngle: number;
+  ishaAngle?: number; // Sun depression angle for Isha
+  ishaMinutes?: number; // Or a fixed interval after Maghrib
+}
+
+export const CALCULATION_METHODS: { [method in PrayerCalculationMethod]: MethodParameters } = {
+  Karachi: { fajrAngle: 18, ishaAngle: 18 }, // University of Islamic Sciences, Karachi
+  MWL: { fajrAngle: 18, ishaAngle: 17 }, // Muslim World League
+  ISNA: { fajrAngle: 15, ishaAngle: 15 }, // Islamic Society of North America
+  UmmAlQura: { fajrAngle: 18.5, ishaMinutes: 90 } // Umm al-Qura University, Makkah
+};
+
+export const ASR_MADHABS: AsrMadhab[] = ['shafi', 'hanafi'];
+export const PRAYER_NAMES: PrayerName[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+// How each prayer is labelled in generated entries, and the spellings recognised in timetable rows
+const PRAYER_LABELS: { [prayer in PrayerName]: string } = {
+  fajr: 'FAJR',
+  dhuhr: 'ZUHR',
+  asr: 'ASR',
+  maghrib: 'MAGRIB',
+  isha: 'ISHA'
+};
+const PRAYER_PATTERNS: { [prayer in PrayerName]: RegExp } = {
+  fajr: /\bfajr\b/i,
+  dhuhr: /\b(zuhr|dhuhr|zohar|zuhar)\b/i,
+  asr: /\basr\b/i,
+  maghrib: /\b(magh?rib)\b/i,
+  isha: /\bisha\b/i
+};
+
+// Sun altitude at sunrise/sunset, allowing for refraction and the solar disc
+const SUNRISE_ANGLE = 0.833;
+
+/**
+ * Prayer Times Service for BarakahTracker
+ * Calculates daily prayer times offline from coordinates and turns them into timetable entries
+ */
+export class PrayerTimesService {
+  private config: PrayerTimesConfig;
+  private timezone: string;
+
+  constructor(config: PrayerTimesConfig, timezone: string = moment.tz.guess()) {
+    this.config = config;
+    this.timezone = timezone;
+  }
+
+  public getConfig(): PrayerTimesConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Calculate the prayer times for the given date (a calendar day in the configured timezone)
+   * A time is null when it doesn't occur, e.g. Isha during summer at high latitudes
+   */
+  public getPrayerTimes(date: Date = new Date()): PrayerTimes {
+    const day = moment.tz(date, this.timezone);
+    const { latitude, longitude } = this.config;
+    const method = CALCULATION_METHODS[this.config.method];
+
+    // Julian date of local midnight, shifted to the observer's longitude
+    const julianDate = this.julianDate(day.year(), day.month() + 1, day.date()) - longitude / (15 * 24);
+
+    // Times below are in hours of local solar time, refined from rough initial guesses
+    const fajr = this.sunAngleTime(julianDate, method.fajrAngle, 5, true);
+    const sunrise = this.sunAngleTime(julianDate, SUNRISE_ANGLE, 6, true);
+    const dhuhr = this.midDay(julianDate, 12);
+    const asr = this.asrTime(julianDate, this.config.asrMadhab === 'hanafi' ? 2 : 1, 13);
+    const maghrib = this.sunAngleTime(julianDate, SUNRISE_ANGLE, 18, false);
+    const isha = method.ishaMinutes !== undefined
+      ? maghrib + method.ishaMinutes / 60
+      : this.sunAngleTime(julianDate, method.ishaAngle || 18, 18, false);
+
+    // Local solar time -> UTC -> Date on this calendar day
+    const utcMidnight = Date.UTC(day.year(), day.month(), day.date());
+    const toDate = (hours: number): Date | null => {
+      if (!isFinite(hours)) {
+        return null;
+      }
+      const utcHours = hours - longitude / 15;
+      return new Date(utcMidnight + Math.round(utcHours * 60) * 60 * 1000);
+    };
+
+    return {
+      fajr: toDate(fajr),
+      sunrise: toDate(sunrise),
+      dhuhr: toDate(dhuhr),
+      asr: toDate(asr),
+      maghrib: toDate(maghrib),
+      isha: toDate(isha)
+    };
+  }
+
+  /**
+   * Build timetable entries for the day's prayers, starting at each adhan time
+   */
+  public getPrayerEntries(date: Date = new Date()): TimetableEntry[] {
+    const times = this.getPrayerTimes(date);
+    const entries: TimetableEntry[] = [];
+
+    for (const prayer of PRAYER_NAMES) {
+      const startTime = times[prayer];
+      if (!startTime) {
+        console.warn(`⚠️ ${PRAYER_LABELS[prayer]} time could not be calculated for ${moment.tz(date, this.timezone).format('DD-MMM-YYYY')}`);
+        continue;
+      }
+
+      const endTime = moment(startTime).add(this.config.durationMinutes, 'minutes').toDate();
+      const timeSlot = `${moment.tz(startTime, this.timezone).format('h:mm A')} to ${moment.tz(endTime, this.timezone).format('h:mm A')}`;
+
+      entries.push({
+        timeSlot,
+        activity: `${PRAYER_LABELS[prayer]} Prayer`,
+        startTime,
+        endTime,
+        source: 'prayer-times'
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Combine timetable entries with the day's calculated prayer entries
+   * "replace" drops timetable prayer rows; "merge" only adds prayers the timetable doesn't cover
+   */
+  public applyToSchedule(entries: TimetableEntry[], date: Date = new Date()): TimetableEntry[] {
+    const prayerEntries = this.getPrayerEntries(date);
+    let result: TimetableEntry[];
+
+    if (this.config.mode === 'replace') {
+      result = entries.filter(entry => PrayerTimesService.getPrayerName(entry.activity) === null);
+      result.push(...prayerEntries);
+    } else {
+      result = [...entries];
+      for (const prayerEntry of prayerEntries) {
+        const prayer = PrayerTimesService.getPrayerName(prayerEntry.activity);
+        const covered = entries.some(entry =>
+          PrayerTimesService.getPrayerName(entry.activity) === prayer &&
+          moment(prayerEntry.startTime).isBetween(entry.startTime, entry.endTime, 'minute', '[)')
+        );
+        if (!covered) {
+          result.push(prayerEntry);
+        }
+      }
+    }
+
+    return result.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Detect which prayer (if any) a timetable activity is for, e.g. "ZUHR Prayer and Rest" -> dhuhr
+   */
+  public static getPrayerName(activity: string): PrayerName | null {
+    return PRAYER_NAMES.find(prayer => PRAYER_PATTERNS[prayer].test(activity)) || null;
+  }
+
+  private julianDate(year: number, month: number, day: number): number {
+    if (month <= 2) {
+      year -= 1;
+      month += 12;
+    }
+    const a = Math.floor(year / 100);
+    const b = 2 - a + Math.floor(a / 4);
+    return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+  }
+
+  /**
+   * Sun declination and equation of time for a Julian date
+   */
+  private sunPosition(julianDate: number): { declination: number; equation: number } {
+    const d = julianDate - 2451545.0;
+    const g = this.fixAngle(357.529 + 0.98560028 * d);
+    const q = this.fixAngle(280.459 + 0.98564736 * d);
+    const l = this.fixAngle(q + 1.915 * this.sin(g) + 0.020 * this.sin(2 * g));
+    const e = 23.439 - 0.00000036 * d;
+
+    const rightAscension = this.arctan2(this.cos(e) * this.sin(l), this.cos(l)) / 15;
+    return {
+      declination: this.arcsin(this.sin(e) * this.sin(l)),
+      equation: q / 15 - this.fixHour(rightAscension)
+    };
+  }
+
+  private midDay(julianDate: number, hours: number): number {
+    const { equation } = this.sunPosition(julianDate + hours / 24);
+    return this.fixHour(12 - equation);
+  }
+
+  /**
+   * Time at which the sun is the given angle below the horizon, before (morning) or after noon
+   */
+  private sunAngleTime(julianDate: number, angle: number, hours: number, morning: boolean): number {
+    const { declination } = this.sunPosition(julianDate + hours / 24);
+    const noon = this.midDay(julianDate, hours);
+    const latitude = this.config.latitude;
+    const cosHourAngle = (-this.sin(angle) - this.sin(declination) * this.sin(latitude)) /
+      (this.cos(declination) * this.cos(latitude));
+
+    if (cosHourAngle < -1 || cosHourAngle > 1) {
+      return NaN;
+    }
+
+    const hourAngle = this.arccos(cosHourAngle) / 15;
+    return noon + (morning ? -hourAngle : hourAngle);
+  }
+
+  /**
+   * Asr begins when an object's shadow is shadowFactor times its length plus its noon shadow
+   */
+  private asrTime(julianDate: number, shadowFactor: number, hours: number): number {
+    const { declination } = this.sunPosition(julianDate + hours / 24);
+    const angle = -this.arccot(shadowFactor + this.tan(Math.abs(this.config.latitude - declination)));
+    return this.sunAngleTime(julianDate, angle, hours, false);
+  }
+
+  // Degree-based trigonometry helpers
+  private sin(degrees: number): number { return Math.sin(degrees * Math.PI / 180); }
+  private cos(degrees: number): number { return Math.cos(degrees * Math.PI / 180); }
+  private tan(degrees: number): number { return Math.tan(degrees * Math.PI / 180); }
+  private arcsin(x: number): number { return Math.asin(x) * 180 / Math.PI; }
+  private arccos(x: number): number { return Math.acos(x) * 180 / Math.PI; }
+  private arccot(x: number): number { return Math.atan(1 / x) * 180 / Math.PI; }
+  private arctan2(y: number, x: number): number { return Math.atan2(y, x) * 180 / Math.PI; }
+
+  private fixAngle(angle: number): number {
+    return angle - 360 * Math.floor(angle / 360);
+  }
+
+  private fixHour(hours: number): number {
+    return hours - 24 * Math.floor(hours / 24);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import { TimetableEntry } from '../types';
+import { IReminderLogEntry, ReminderLog } from '../models/ReminderLog';
+
+export interface ReminderDeliveryResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  queued?: boolean; // Failed, but the outbound queue retries it
+}
+
+/**
+ * Reminder Log Service for BarakahTracker
+ * Remembers which reminders were planned and sent each day so restarts don't re-send them.
+ * Writes go to MongoDB when connected; an in-memory copy is always kept as cache and fallback.
+ */
+export class ReminderLogService {
+  private timezone: string;
+  private userId: string;
+  private memoryLog: Map<string, IReminderLogEntry> = new Map();
+
+  constructor(timezone: string = moment.tz.guess(), userId: string = 'default') {
+    this.timezone = timezone;
+    this.userId = userId;
+  }
+
+  /**
+   * Get the log record for a reminder on the entry's day
+   */
+  public async get(reminderId: string, entry: TimetableEntry): Promise<IReminderLogEntry | null> {
+    const key = this.getKey(reminderId, entry);
+    const cached = this.memoryLog.get(key);
+    if (cached?.status === 'sent' || !this.isPersistent()) {
+      return cached || null;
+    }
+
+    try {
+      const record = await ReminderLog.findOne({
+        reminderId,
+        date: this.getDay(entry),
+        userId: this.userId
+      }).lean<IReminderLogEntry>();
+
+      if (record) {
+        this.memoryLog.set(key, this.toEntry(record));
+      }
+      return record ? this.toEntry(record) : cached || null;
+    } catch (error) {
+      console.error('❌ Error reading reminder log, using in-memory copy:', error);
+      return cached || null;
+    }
+  }
+
+  /**
+   * Check whether a reminder was already delivered today, or handed to the outbound queue
+   */
+  public async isSent(reminderId: string, entry: TimetableEntry): Promise<boolean> {
+    const record = await this.get(reminderId, entry);
+    return record?.status === 'sent' || record?.status === 'queued';
+  }
+
+  /**
+   * Record that a reminder has been scheduled (no-op if it is already logged)
+   */
+  public async recordPlanned(reminderId: string, entry: TimetableEntry, plannedTime: Date): Promise<void> {
+    const existing = this.memoryLog.get(this.getKey(reminderId, entry));
+    await this.save(reminderId, entry, {
+      plannedTime,
+      attempts: existing?.attempts || 0,
+      status: existing?.status || 'pending'
+    }, true);
+  }
+
+  /**
+   * Record a send attempt, returning the updated record
+   */
+  public async recordAttempt(reminderId: string, entry: TimetableEntry, plannedTime: Date): Promise<IReminderLogEntry> {
+    const existing = await this.get(reminderId, entry);
+    return this.save(reminderId, entry, {
+      plannedTime: existing?.plannedTime || plannedTime,
+      attempts: (existing?.attempts || 0) + 1,
+      status: existing?.status || 'pending',
+      lastAttemptAt: new Date()
+    });
+  }
+
+  /**
+   * Record the delivery result of the latest attempt
+   */
+  public async recordResult(reminderId: string, entry: TimetableEntry, result: ReminderDeliveryResult): Promise<IReminderLogEntry> {
+    const existing = await this.get(reminderId, entry);
+    const update: Partial<IReminderLogEntry> = {
+      plannedTime: existing?.plannedTime || new Date(),
+      attempts: existing?.attempts || 1,
+      status: result.success ? 'sent' : result.queued ? 'queued' : 'failed'
+    };
+    if (result.success) {
+      update.sentAt = new Date();
+    }
+    if (result.messageId) {
+      update.messageId = result.messageId;
+    }
+    if (result.error) {
+      update.error = result.error;
+    }
+
+    return this.save(reminderId, entry, update);
+  }
+
+  /**
+   * Record that the user confirmed the reminded activity
+   */
+  public async recordConfirmed(reminderId: string, entry: TimetableEntry): Promise<IReminderLogEntry> {
+    const existing = await this.get(reminderId, entry);
+    return this.save(reminderId, entry, {
+      plannedTime: existing?.plannedTime || new Date(),
+      confirmedAt: new Date()
+    });
+  }
+
+  /**
+   * Get all reminder log records for a day
+   */
+  public async getLogsForDate(date: Date): Promise<IReminderLogEntry[]> {
+    const day = moment.tz(date, this.timezone).startOf('day').toDate();
+    const fromMemory = Array.from(this.memoryLog.values())
+      .filter(record => record.date.getTime() === day.getTime())
+      .sort((a, b) => a.plannedTime.getTime() - b.plannedTime.getTime());
+
+    if (!this.isPersistent()) {
+      return fromMemory;
+    }
+
+    try {
+      const records = await ReminderLog.find({ date: day, userId: this.userId })
+        .sort({ plannedTime: 1 })
+        .lean<IReminderLogEntry[]>();
+      return records.map(record => this.toEntry(record));
+    } catch (error) {
+      console.error('❌ Error reading reminder log, using in-memory copy:', error);
+      return fromMemory;
+    }
+  }
+
+  /**
+   * Write a record to memory and, when connected, to MongoDB
+   * With onlyIfMissing the stored record is left untouched if one already exists
+   */
+  private async save(
+    reminderId: string,
+    entry: TimetableEntry,
+    update: Partial<IReminderLogEntry>,
+    onlyIfMissing: boolean = false
+  ): Promise<IReminderLogEntry> {
+    const key = this.getKey(reminderId, entry);
+    const base: IReminderLogEntry = this.memoryLog.get(key) || {
+      reminderId,
+      date: this.getDay(entry),
+      userId: this.userId,
+      activity: entry.activity,
+      timeSlot: entry.timeSlot,
+      plannedTime: update.plannedTime || new Date(),
+      attempts: 0,
+      status: 'pending'
+    };
+    const record: IReminderLogEntry = onlyIfMissing && this.memoryLog.has(key) ? base : { ...base, ...update };
+
+    this.pruneMemoryLog();
+    this.memoryLog.set(key, record);
+
+    if (this.isPersistent()) {
+      try {
+        const filter = { reminderId, date: record.date, userId: this.userId };
+        const stored = onlyIfMissing
+          ? await ReminderLog.findOneAndUpdate(filter, { $setOnInsert: record }, { upsert: true, new: true }).lean<IReminderLogEntry>()
+          : await ReminderLog.findOneAndUpdate(filter, { $set: record }, { upsert: true, new: true }).lean<IReminderLogEntry>();
+
+        if (stored) {
+          this.memoryLog.set(key, this.toEntry(stored));
+          return this.toEntry(stored);
+        }
+      } catch (error) {
+        console.error('❌ Error saving reminder log, kept in memory only:', error);
+      }
+    }
+
+    return record;
+  }
+
+  private isPersistent(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Reminders are logged against the day their activity starts on
+   */
+  private getDay(entry: TimetableEntry): Date {
+    return moment.tz(entry.startTime, this.timezone).startOf('day').toDate();
+  }
+
+  private getKey(reminderId: string, entry: TimetableEntry): string {
+    return `${moment.tz(entry.startTime, this.timezone).format('YYYY-MM-DD')}|${reminderId}`;
+  }
+
+  /**
+   * Drop in-memory records older than yesterday
+   */
+  private pruneMemoryLog(): void {
+    const cutoff = moment.tz(this.timezone).startOf('day').subtract(1, 'day').toDate();
+    this.memoryLog.forEach((record, key) => {
+      if (record.date < cutoff) {
+        this.memoryLog.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Strip Mongo-specific fields from a lean document
+   */
+  private toEntry(record: IReminderLogEntry): IReminderLogEntry {
+    const entry: IReminderLogEntry = {
+      reminderId: record.reminderId,
+      date: new Date(record.date),
+      userId: record.userId,
+      activity: record.activity,
+      timeSlot: record.timeSlot,
+      plannedTime: new Date(record.plannedTime),
+      attempts: record.attempts,
+      status: record.status
+    };
+    if (record.lastAttemptAt) entry.lastAttemptAt = new Date(record.lastAttemptAt);
+    if (record.sentAt) entry.sentAt = new Date(record.sentAt);
+    if (record.messageId) entry.messageId = record.messageId;
+    if (record.error) entry.error = record.error;
+    if (record.confirmedAt) entry.confirmedAt = new Date(record.confirmedAt);
+    return entry;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,237 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import { ScheduleOverrideMark, ScheduleOverrideType, TimetableEntry } from '../types';
+import { IScheduleOverrideEntry, ScheduleOverride } from '../models/ScheduleOverride';
+import { TimetableParser } from './TimetableParser';
+
+const OVERRIDE_TYPES: ScheduleOverrideType[] = ['add', 'replace', 'cancel'];
+
+// A stored override together with its id
+export interface ScheduleOverrideRecord extends IScheduleOverrideEntry {
+  id: string;
+}
+
+export type NewScheduleOverrideInput = Partial<Omit<IScheduleOverrideEntry, 'userId'>> & { date?: string };
+
+// A day's schedule after overrides, plus the entries overrides took out
+export interface ResolvedSchedule {
+  entries: TimetableEntry[];
+  cancelled: TimetableEntry[];
+}
+
+export type ScheduleOverrideChangeHandler = () => Promise<void> | void;
+
+/**
+ * Schedule Override Service for BarakahTracker
+ * Date-bound changes on top of the repeating timetable: one-off events ("dentist 3 PM on 2026-11-04"),
+ * replacement slots for a date range (Ramadan) and cancellations (holidays). Stored in MongoDB.
+ */
+export class ScheduleOverrideService {
+  private userId: string;
+  private timezone: string;
+  private cachedOverrides: ScheduleOverrideRecord[] | null = null;
+  private changeHandlers: ScheduleOverrideChangeHandler[] = [];
+
+  constructor(userId: string = 'default', timezone: string = moment.tz.guess()) {
+    this.userId = userId;
+    this.timezone = timezone;
+  }
+
+  /**
+   * Register a handler to run after overrides are added or removed
+   */
+  public onChange(handler: ScheduleOverrideChangeHandler): void {
+    this.changeHandlers.push(handler);
+  }
+
+  public isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Overrides that apply on a date (none without a database)
+   */
+  public async getOverridesForDate(date: Date): Promise<ScheduleOverrideRecord[]> {
+    if (!this.cachedOverrides && !this.isAvailable()) {
+      return [];
+    }
+
+    try {
+      const day = moment.tz(date, this.timezone).format('YYYY-MM-DD');
+      const overrides = await this.list();
+      return overrides.filter(override => override.startDate <= day && day <= override.endDate);
+    } catch (error) {
+      console.error('❌ Error reading schedule overrides, using the plain timetable:', error);
+      return [];
+    }
+  }
+
+  /**
+   * All stored overrides, ordered by start date
+   */
+  public async list(): Promise<ScheduleOverrideRecord[]> {
+    if (this.cachedOverrides) {
+      return this.cachedOverrides;
+    }
+    this.requireDatabase();
+
+    const stored = await ScheduleOverride.find({ userId: this.userId }).sort({ startDate: 1 }).lean();
+    this.cachedOverrides = stored.map(override => this.toRecord(override));
+    return this.cachedOverrides;
+  }
+
+  public async create(input: NewScheduleOverrideInput): Promise<ScheduleOverrideRecord> {
+    this.requireDatabase();
+
+    const entry = this.normalize(input);
+    const errors = this.validate(entry);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const created = await ScheduleOverride.create(entry);
+    console.log(`📌 Added ${entry.type} override for ${this.userId} on ${entry.startDate}${entry.endDate !== entry.startDate ? ` to ${entry.endDate}` : ''}`);
+    await this.notifyChange();
+    return this.toRecord(created.toObject());
+  }
+
+  public async remove(id: string): Promise<boolean> {
+    this.requireDatabase();
+    if (!mongoose.isValidObjectId(id)) {
+      return false;
+    }
+
+    const result = await ScheduleOverride.deleteOne({ _id: id, userId: this.userId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Check an override for missing or invalid fields
+   */
+  public validate(entry: IScheduleOverrideEntry): string[] {
+    const errors: string[] = [];
+
+    if (!OVERRIDE_TYPES.includes(entry.type)) {
+      errors.push(`Override type should be one of: ${OVERRIDE_TYPES.join(', ')}`);
+    }
+    const start = moment(entry.startDate, 'YYYY-MM-DD', true);
+    const end = moment(entry.endDate, 'YYYY-MM-DD', true);
+    if (!start.isValid() || !end.isValid()) {
+      errors.push('Dates should look like 2026-11-04');
+    } else if (end.isBefore(start)) {
+      errors.push('End date is before the start date');
+    }
+    if (entry.timeSlot && !TimetableParser.isValidTimeSlot(entry.timeSlot)) {
+      errors.push('Time slot should look like "5:00 AM to 5:30 AM"');
+    }
+    if (entry.type !== 'cancel' && (!entry.timeSlot || !entry.activity)) {
+      errors.push(`A ${entry.type} override needs a time slot and an activity`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Layer overrides on a day's entries: cancellations first, then replacements, then additions
+   * New entries are inserted in start-time order; toEntry anchors an override's time slot to the day
+   */
+  public static apply(
+    entries: TimetableEntry[],
+    overrides: ScheduleOverrideRecord[],
+    toEntry: (timeSlot: string, activity: string) => TimetableEntry | null
+  ): ResolvedSchedule {
+    let resolved = [...entries];
+    const cancelled: TimetableEntry[] = [];
+
+    // Cancelled entries are copied with the override that removed them
+    const take = (override: ScheduleOverrideRecord, matches: (entry: TimetableEntry) => boolean) => {
+      const mark: ScheduleOverrideMark = { id: override.id, type: override.type, note: override.note };
+      cancelled.push(...resolved.filter(matches).map(entry => ({ ...entry, override: mark })));
+      resolved = resolved.filter(entry => !matches(entry));
+    };
+
+    for (const override of overrides.filter(o => o.type === 'cancel')) {
+      const range = override.timeSlot ? toEntry(override.timeSlot, override.activity || 'cancelled') : null;
+      const text = override.activity?.trim().toLowerCase();
+      take(override, entry =>
+        (!range || ScheduleOverrideService.overlaps(entry, range)) &&
+        (!text || entry.activity.toLowerCase().includes(text))
+      );
+    }
+
+    for (const override of overrides.filter(o => o.type !== 'cancel')) {
+      const entry = toEntry(override.timeSlot || '', override.activity || '');
+      if (!entry) {
+        continue;
+      }
+      if (override.type === 'replace') {
+        take(override, existing => ScheduleOverrideService.overlaps(existing, entry));
+      }
+
+      entry.source = 'override';
+      entry.override = { id: override.id, type: override.type, note: override.note };
+      const index = resolved.findIndex(existing => existing.startTime > entry.startTime);
+      resolved.splice(index < 0 ? resolved.length : index, 0, entry);
+    }
+
+    return { entries: resolved, cancelled };
+  }
+
+  private static overlaps(a: TimetableEntry, b: TimetableEntry): boolean {
+    return a.startTime < b.endTime && a.endTime > b.startTime;
+  }
+
+  private normalize(input: NewScheduleOverrideInput): IScheduleOverrideEntry {
+    const startDate = String(input.startDate || input.date || '').trim();
+    const entry: IScheduleOverrideEntry = {
+      userId: this.userId,
+      type: String(input.type || '').trim().toLowerCase() as ScheduleOverrideType,
+      startDate,
+      endDate: String(input.endDate || startDate).trim()
+    };
+    if (input.timeSlot) entry.timeSlot = String(input.timeSlot).trim();
+    if (input.activity) entry.activity = String(input.activity).trim();
+    if (input.note) entry.note = String(input.note).trim();
+    return entry;
+  }
+
+  private async notifyChange(): Promise<void> {
+    this.cachedOverrides = null;
+
+    for (const handler of this.changeHandlers) {
+      try {
+        await handler();
+      } catch (error) {
+        console.error('❌ Error in schedule override change handler:', error);
+      }
+    }
+  }
+
+  private requireDatabase(): void {
+    if (!this.isAvailable()) {
+      throw new Error('Database not connected - schedule overrides are stored in MongoDB');
+    }
+  }
+
+  /**
+   * Strip Mongo-specific fields from a stored override
+   */
+  private toRecord(override: IScheduleOverrideEntry & { _id: unknown }): ScheduleOverrideRecord {
+    const record: ScheduleOverrideRecord = {
+      id: String(override._id),
+      userId: override.userId,
+      type: override.type,
+      startDate: override.startDate,
+      endDate: override.endDate
+    };
+    if (override.timeSlot) record.timeSlot = override.timeSlot;
+    if (override.activity) record.activity = override.activity;
+    if (override.note) record.note = override.note;
+    return record;
+  }
+}
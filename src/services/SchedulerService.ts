@@ -1,37 +1,73 @@
 import * as cron from 'node-cron';
-import moment from 'moment';
-import { TimetableEntry, ReminderConfig } from '../types';
-import { TimetableParser } from './TimetableParser';
+import moment from 'moment-timezone';
+import { TimetableEntry, ReminderConfig, CategoryReminderOffsets } from '../types';
+import { TimetableRepository } from './TimetableRepository';
 import { IWhatsAppService } from './WhatsAppService';
+import { ReminderLogService, ReminderDeliveryResult } from './ReminderLogService';
+import { IReminderLogEntry } from '../models/ReminderLog';
+import { MAX_REMINDER_MINUTES } from './TimetableFileReader';
+import { CategoryService } from './CategoryService';
+import { MessageTemplateService } from './MessageTemplateService';
+
+// Give up on a reminder after this many failed sends in a day
+const MAX_REMINDER_ATTEMPTS = 3;
+// Still send a missed reminder at or after an entry's start this many minutes late (e.g. after a restart)
+const MISSED_REMINDER_GRACE_MINUTES = 10;
 
 export interface ScheduledReminder {
   id: string;
   entry: TimetableEntry;
+  offset: number; // Minutes from the entry's start, negative before it
   reminderTime: Date;
   cronExpression: string;
   task?: cron.ScheduledTask;
   sent: boolean;
 }
 
+// Follow-up nudges for an entry whose reminder was delivered, kept until the user replies "done" or the activity ends
+export interface ReminderEscalation {
+  entryId: string; // Shared by all of the entry's reminders
+  reminderId: string; // The reminder delivered last, which a confirmation is recorded on
+  entry: TimetableEntry;
+  nudges: Date[]; // Upcoming follow-ups, earliest first
+  lastSentAt: Date;
+}
+
 export class SchedulerService {
-  private timetableParser: TimetableParser;
+  private timetableRepository: TimetableRepository;
   private whatsappService: IWhatsAppService;
   private reminderConfig: ReminderConfig;
   private scheduledReminders: Map<string, ScheduledReminder> = new Map();
   private checkInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
   private recipientPhone: string;
+  private timezone: string;
+  private pausedUntil: Date | null = null;
+  private dailyUpdateTask: cron.ScheduledTask | null = null;
+  private reminderLog: ReminderLogService;
+  private sendingReminders: Set<string> = new Set();
+  private escalations: Map<string, ReminderEscalation> = new Map();
+  private categories: CategoryService;
+  private messages: MessageTemplateService;
 
   constructor(
-    timetableParser: TimetableParser,
+    timetableRepository: TimetableRepository,
     whatsappService: IWhatsAppService,
     reminderConfig: ReminderConfig,
-    recipientPhone: string
+    recipientPhone: string,
+    timezone: string = moment.tz.guess(),
+    reminderLog: ReminderLogService = new ReminderLogService(timezone),
+    categories: CategoryService = new CategoryService(),
+    messages: MessageTemplateService = new MessageTemplateService('default', timezone)
   ) {
-    this.timetableParser = timetableParser;
+    this.timetableRepository = timetableRepository;
     this.whatsappService = whatsappService;
     this.reminderConfig = reminderConfig;
     this.recipientPhone = recipientPhone;
+    this.timezone = timezone;
+    this.reminderLog = reminderLog;
+    this.categories = categories;
+    this.messages = messages;
   }
 
   async start(): Promise<void> {
@@ -75,6 +111,12 @@ export class SchedulerService {
       }
     });
     this.scheduledReminders.clear();
+    this.escalations.clear();
+
+    if (this.dailyUpdateTask) {
+      this.dailyUpdateTask.stop();
+      this.dailyUpdateTask = null;
+    }
 
     // Clear check interval
     if (this.checkInterval) {
@@ -86,49 +128,85 @@ export class SchedulerService {
     console.log('✅ Reminder Scheduler Service stopped');
   }
 
+  /**
+   * Re-read today's timetable and reschedule reminders, e.g. after the timetable was edited
+   */
+  async reload(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    console.log('🔄 Timetable changed, rescheduling reminders...');
+    await this.loadTodaySchedule();
+  }
+
   private scheduleDailyTimetableUpdate(): void {
-    // Schedule to run at midnight every day
-    cron.schedule('0 0 * * *', async () => {
+    // Schedule to run at midnight every day (in the timetable's timezone, not the server's)
+    this.dailyUpdateTask = cron.schedule('0 0 * * *', async () => {
       console.log('🔄 Loading new day schedule...');
       await this.loadTodaySchedule();
+    }, {
+      scheduled: true,
+      timezone: this.timezone
     });
   }
 
   private async loadTodaySchedule(): Promise<void> {
     try {
       console.log('📅 Loading today\'s schedule...');
-      const todayEntries = await this.timetableParser.getTodaySchedule();
+      const todayEntries = await this.timetableRepository.getTodaySchedule();
       
       // Clear existing reminders
       this.clearScheduledReminders();
 
-      // Schedule reminders for today's entries
+      // Schedule one reminder per offset for today's entries
       for (const entry of todayEntries) {
-        await this.scheduleReminder(entry);
+        for (const offset of this.getReminderOffsets(entry)) {
+          await this.scheduleReminder(entry, offset);
+        }
       }
 
-      console.log(`✅ Scheduled ${todayEntries.length} reminders for today`);
+      // Stop nudging about entries the timetable no longer has
+      const entryIds = new Set(todayEntries.map(entry => this.generateEntryId(entry)));
+      this.escalations.forEach((escalation, entryId) => {
+        if (!entryIds.has(entryId)) {
+          this.escalations.delete(entryId);
+        }
+      });
+
+      console.log(`✅ Scheduled ${this.scheduledReminders.size} reminders for ${todayEntries.length} entries today`);
     } catch (error) {
       console.error('❌ Error loading today\'s schedule:', error);
     }
   }
 
-  private async scheduleReminder(entry: TimetableEntry): Promise<void> {
-    const reminderTime = moment(entry.startTime).subtract(this.reminderConfig.minutesBefore, 'minutes');
+  private async scheduleReminder(entry: TimetableEntry, offset: number): Promise<void> {
+    const reminderTime = this.getReminderTime(entry, offset);
     const now = moment();
+    const reminderId = this.generateReminderId(entry, offset);
 
-    // Skip if reminder time has already passed
+    // Skip reminders already delivered before a restart, picking up their remaining nudges
+    // (escalations are only kept in memory, so this includes entries that have already started)
+    if (moment(entry.endTime).isAfter(now) && await this.reminderLog.isSent(reminderId, entry)) {
+      console.log(`⏭️ Reminder already sent today for: ${entry.activity}`);
+      await this.startEscalation(reminderId, entry);
+      return;
+    }
+
+    // Skip if reminder time has already passed (the immediate check catches up on unsent ones)
     if (reminderTime.isBefore(now)) {
       console.log(`⏭️ Skipping past reminder for: ${entry.activity}`);
       return;
     }
 
-    const reminderId = this.generateReminderId(entry);
+    await this.reminderLog.recordPlanned(reminderId, entry, reminderTime.toDate());
+
     const cronExpression = this.createCronExpression(reminderTime.toDate());
 
     const scheduledReminder: ScheduledReminder = {
       id: reminderId,
       entry,
+      offset,
       reminderTime: reminderTime.toDate(),
       cronExpression,
       sent: false
@@ -139,13 +217,13 @@ export class SchedulerService {
       await this.sendReminder(scheduledReminder);
     }, {
       scheduled: true,
-      timezone: 'Asia/Karachi' // Adjust timezone as needed
+      timezone: this.timezone
     });
 
     scheduledReminder.task = task;
     this.scheduledReminders.set(reminderId, scheduledReminder);
 
-    console.log(`⏰ Scheduled reminder for "${entry.activity}" at ${reminderTime.format('h:mm A')}`);
+    console.log(`⏰ Scheduled reminder (${this.describeOffset(offset)}) for "${entry.activity}" at ${reminderTime.tz(this.timezone).format('h:mm A')}`);
   }
 
   private async sendReminder(scheduledReminder: ScheduledReminder): Promise<void> {
@@ -153,154 +231,461 @@ export class SchedulerService {
       return;
     }
 
+    if (this.isPaused()) {
+      console.log(`⏸️ Reminders paused, not sending: ${scheduledReminder.entry.activity}`);
+      return;
+    }
+
+    if (await this.isConfirmed(scheduledReminder.entry)) {
+      console.log(`⏭️ Already confirmed, not reminding again: ${scheduledReminder.entry.activity}`);
+      scheduledReminder.sent = true;
+      scheduledReminder.task?.stop();
+      return;
+    }
+
+    const sent = await this.deliverReminder(
+      scheduledReminder.id,
+      scheduledReminder.entry,
+      scheduledReminder.offset,
+      scheduledReminder.reminderTime
+    );
+    if (sent) {
+      scheduledReminder.sent = true;
+      console.log(`✅ Reminder sent for: ${scheduledReminder.entry.activity}`);
+      await this.startEscalation(scheduledReminder.id, scheduledReminder.entry);
+    }
+
+    // Stop the cron task after sending (failed sends are retried by the immediate check)
+    if (scheduledReminder.task) {
+      scheduledReminder.task.stop();
+    }
+  }
+
+  /**
+   * Send a reminder at most once per day, recording every attempt in the reminder log
+   * Returns true if the reminder has been delivered (now or earlier)
+   */
+  private async deliverReminder(reminderId: string, entry: TimetableEntry, offset: number, plannedTime: Date): Promise<boolean> {
+    // Guard against the cron task and the immediate check firing together
+    if (this.sendingReminders.has(reminderId)) {
+      return false;
+    }
+    this.sendingReminders.add(reminderId);
+
     try {
-      const message = this.formatReminderMessage(scheduledReminder.entry);
+      const record = await this.reminderLog.get(reminderId, entry);
+      if (record?.status === 'sent' || record?.status === 'queued') {
+        return true;
+      }
+      if (record && record.attempts >= MAX_REMINDER_ATTEMPTS) {
+        return false;
+      }
+
+      await this.reminderLog.recordAttempt(reminderId, entry, plannedTime);
+
+      const message = await this.formatReminder(entry, offset);
       const result = await this.whatsappService.sendMessage(this.recipientPhone, message);
 
-      if (result.success) {
-        scheduledReminder.sent = true;
-        console.log(`✅ Reminder sent for: ${scheduledReminder.entry.activity}`);
-      } else {
-        console.error(`❌ Failed to send reminder: ${result.error}`);
-      }
+      const delivery: ReminderDeliveryResult = { success: result.success };
+      if (result.messageId) delivery.messageId = result.messageId;
+      if (result.error) delivery.error = result.error;
+      if (result.queued) delivery.queued = true;
+      await this.reminderLog.recordResult(reminderId, entry, delivery);
 
-      // Stop the cron task after sending
-      if (scheduledReminder.task) {
-        scheduledReminder.task.stop();
+      // A queued reminder is retried by the outbound queue, not sent again from here
+      if (result.queued) {
+        console.warn(`📮 Reminder queued for retry: ${entry.activity} (${result.error})`);
+      } else if (!result.success) {
+        console.error(`❌ Failed to send reminder: ${result.error}`);
       }
+      return result.success || result.queued === true;
     } catch (error) {
       console.error('❌ Error sending reminder:', error);
+      await this.reminderLog.recordResult(reminderId, entry, {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    } finally {
+      this.sendingReminders.delete(reminderId);
     }
   }
 
-  private formatReminderMessage(entry: TimetableEntry): string {
-    const customMessage = this.reminderConfig.message;
-    if (customMessage) {
-      // Parse the activity to extract subject, type, and location
-      const activity = entry.activity;
-      const startTime = moment(entry.startTime).format('h:mm A');
-      
-      // Extract subject (main activity)
-      let subject = activity;
-      let type = 'Activity';
-      let location = 'Scheduled Location';
-      
-      // Try to extract type and location from activity description
-      if (activity.includes(':')) {
-        const parts = activity.split(':');
-        subject = parts[0]?.trim() || activity;
-        if (parts[1]) {
-          const description = parts[1].trim();
-          if (description.toLowerCase().includes('gym')) {
-            location = 'GYM';
-          } else if (description.toLowerCase().includes('home')) {
-            location = 'Home';
-          } else if (description.toLowerCase().includes('office')) {
-            location = 'Office';
-          }
-        }
+  /**
+   * Minutes before the entry's first reminder, for the {minutesBefore} of a reminder message
+   */
+  private getMinutesBefore(entry: TimetableEntry): number {
+    return Math.max(-(this.getReminderOffsets(entry)[0] ?? 0), 0);
+  }
+
+  /**
+   * Check per-category reminder offsets for invalid values
+   */
+  public static validateReminderOffsets(lists: CategoryReminderOffsets[]): string[] {
+    return SchedulerService.validateCategoryOffsets(lists, 'reminder offsets');
+  }
+
+  /**
+   * Check escalation chains for invalid values
+   */
+  public static validateEscalation(chains: CategoryReminderOffsets[]): string[] {
+    return SchedulerService.validateCategoryOffsets(chains, 'reminder escalation');
+  }
+
+  private static validateCategoryOffsets(lists: CategoryReminderOffsets[], name: string): string[] {
+    const errors: string[] = [];
+    const categories = new Set<string>();
+
+    for (const list of lists) {
+      if (!list.category) {
+        errors.push(`Each ${name} setting needs a category`);
+      } else if (categories.has(list.category)) {
+        errors.push(`Duplicate ${name} for category: ${list.category}`);
       }
-      
-      // Determine type based on keywords
-      const activityLower = activity.toLowerCase();
-      if (activityLower.includes('prayer')) {
-        type = 'Prayer';
-        location = 'Home';
-      } else if (activityLower.includes('gym')) {
-        type = 'Exercise';
-        location = 'GYM';
-      } else if (activityLower.includes('work') || activityLower.includes('office')) {
-        type = 'Work';
-        location = 'Office';
-      } else if (activityLower.includes('read') || activityLower.includes('quran')) {
-        type = 'Study';
-        location = 'Home';
-      } else if (activityLower.includes('walk')) {
-        type = 'Exercise';
-        location = 'Outdoor';
-      } else if (activityLower.includes('family')) {
-        type = 'Personal';
-        location = 'Home';
-      } else if (activityLower.includes('meet') || activityLower.includes('coffee')) {
-        type = 'Social';
-        location = 'Meeting Place';
-      } else if (activityLower.includes('rest') || activityLower.includes('sleep')) {
-        type = 'Rest';
-        location = 'Home';
+      categories.add(list.category);
+
+      const { offsets } = list;
+      const label = `${name.charAt(0).toUpperCase()}${name.substring(1)} for "${list.category}"`;
+      if (offsets.length === 0 || offsets.some(offset => !Number.isInteger(offset) || Math.abs(offset) > MAX_REMINDER_MINUTES)) {
+        errors.push(`${label} should be whole minutes between -${MAX_REMINDER_MINUTES} and ${MAX_REMINDER_MINUTES}`);
+      } else if (offsets.some((offset, index) => index > 0 && offset <= (offsets[index - 1] as number))) {
+        errors.push(`${label} should be listed in order`);
       }
+    }
 
-      return customMessage
-        .replace(/{subject}/g, subject)
-        .replace(/{type}/g, type)
-        .replace(/{location}/g, location)
-        .replace(/{minutesBefore}/g, this.reminderConfig.minutesBefore.toString())
-        .replace(/{time}/g, startTime)
-        .replace(/{activity}/g, activity);
+    return errors;
+  }
+
+  /**
+   * The entry's category's offsets from a per-category list, if it has any
+   */
+  private findCategoryOffsets(lists: CategoryReminderOffsets[] | undefined, entry: TimetableEntry): number[] | undefined {
+    const category = (this.categories.resolve(entry)?.name || '').toLowerCase();
+    return (lists || []).find(list => list.category === category)?.offsets;
+  }
+
+  /**
+   * The escalation chain of the entry's category: the configured one, else the category's own
+   */
+  private getEscalationChain(entry: TimetableEntry): number[] | undefined {
+    return this.findCategoryOffsets(this.reminderConfig.escalation, entry) || this.categories.resolve(entry)?.escalation;
+  }
+
+  /**
+   * Minutes from the entry's start of each of its reminders, earliest first: the entry's own offsets or reminder
+   * minutes from the timetable file, its category's offsets (configured, else the category's own), the first
+   * step of its category's escalation chain, else the configured minutes before
+   */
+  private getReminderOffsets(entry: TimetableEntry): number[] {
+    if (entry.reminderOffsets && entry.reminderOffsets.length > 0) {
+      return entry.reminderOffsets;
+    }
+    if (entry.reminderMinutesBefore !== undefined) {
+      return [-entry.reminderMinutesBefore];
     }
+    const categoryOffsets = this.findCategoryOffsets(this.reminderConfig.offsets, entry) || this.categories.resolve(entry)?.reminderOffsets;
+    if (categoryOffsets) {
+      return categoryOffsets;
+    }
+    const chain = this.getEscalationChain(entry);
+    return chain ? chain.slice(0, 1) : [-this.reminderConfig.minutesBefore];
+  }
 
-    const startTime = moment(entry.startTime).format('h:mm A');
-    const timeRemaining = this.reminderConfig.minutesBefore;
+  /**
+   * Minutes from the entry's start of its follow-up nudges: the steps of its category's escalation chain
+   * after its last reminder
+   */
+  private getNudgeOffsets(entry: TimetableEntry): number[] {
+    const chain = this.getEscalationChain(entry) || [];
+    const lastReminder = Math.max(...this.getReminderOffsets(entry));
+    return chain.filter(offset => offset > lastReminder);
+  }
+
+  /**
+   * When one of an entry's reminders is due (its first by default)
+   */
+  private getReminderTime(entry: TimetableEntry, offset: number = this.getReminderOffsets(entry)[0] ?? 0): moment.Moment {
+    return moment(entry.startTime).add(offset, 'minutes');
+  }
 
-    return `🔔 REMINDER: Your "${entry.activity}" is starting in ${timeRemaining} minutes at ${startTime}.\n\n⏰ Time Slot: ${entry.timeSlot}\n📝 Activity: ${entry.activity}\n\nHave a productive session! 💪`;
+  /**
+   * Message for one of an entry's reminders, saying which one it is when there are several
+   */
+  private async formatReminder(entry: TimetableEntry, offset: number): Promise<string> {
+    const offsets = this.getReminderOffsets(entry);
+    const parts = [offset < 0
+      ? await this.formatReminderMessage(entry, -offset)
+      : await this.messages.render('nudge', this.getStartData(entry, this.getReminderTime(entry, offset).toDate()))];
+
+    if (offsets.length > 1) {
+      parts.push(await this.messages.render('reminder.count', {
+        number: offsets.indexOf(offset) + 1,
+        total: offsets.length,
+        ...this.getOffsetData(offset)
+      }));
+    }
+    if (offset < Math.max(...offsets) || this.getNudgeOffsets(entry).length > 0) {
+      parts.push(await this.messages.render('reminder.hint', {}));
+    }
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Follow-up message, worded by how far the activity is from starting
+   */
+  private async formatNudgeMessage(entry: TimetableEntry, at: Date): Promise<string> {
+    return `${await this.messages.render('nudge', this.getStartData(entry, at))}\n\n${await this.messages.render('reminder.hint', {})}`;
+  }
+
+  /**
+   * Template data saying how far an activity is from starting
+   */
+  private getStartData(entry: TimetableEntry, at: Date): Record<string, unknown> {
+    const minutesFromStart = Math.round((at.getTime() - entry.startTime.getTime()) / 60000);
+    return {
+      activity: entry.activity,
+      startTime: entry.startTime,
+      startsIn: Math.max(-minutesFromStart, 0),
+      startingNow: minutesFromStart === 0,
+      startedAgo: Math.max(minutesFromStart, 0)
+    };
+  }
+
+  /**
+   * Template data for a reminder offset: minutes before, at the start or minutes after
+   */
+  private getOffsetData(offset: number): Record<string, unknown> {
+    return { before: Math.max(-offset, 0), atStart: offset === 0, after: Math.max(offset, 0) };
+  }
+
+  private describeOffset(offset: number): string {
+    if (offset === 0) {
+      return 'at the start';
+    }
+    return offset < 0 ? `${-offset} min before` : `${offset} min after the start`;
+  }
+
+  /**
+   * Reminder before an activity: the user's custom message when set, else the "reminder" template
+   */
+  private async formatReminderMessage(entry: TimetableEntry, minutesBefore: number = this.getMinutesBefore(entry)): Promise<string> {
+    const category = this.categories.resolve(entry);
+    const activity = entry.activity;
+    const data = {
+      activity,
+      // The subject is the part before a colon, e.g. "Gym" in "Gym: leg day"
+      subject: activity.includes(':') ? activity.split(':')[0]?.trim() || activity : activity,
+      timeSlot: entry.timeSlot,
+      startTime: entry.startTime,
+      time: moment.tz(entry.startTime, this.timezone).format('h:mm A'),
+      minutesBefore,
+      type: category?.name || 'Activity',
+      emoji: category?.emoji || '🔔',
+      // The timetable's location wins over the category's default
+      location: entry.location || category?.location || 'Scheduled Location',
+      category
+    };
+
+    const customMessage = this.reminderConfig.message;
+    return customMessage ? this.messages.renderText(customMessage, data) : this.messages.render('reminder', data);
   }
 
   private startImmediateReminderCheck(): void {
     // Check every minute for any missed reminders or immediate ones
     this.checkInterval = setInterval(async () => {
-      const now = moment();
-      const upcomingEntries = await this.timetableParser.getUpcomingEntries(this.reminderConfig.minutesBefore);
-
-      for (const entry of upcomingEntries) {
-        const reminderId = this.generateReminderId(entry);
-        const existingReminder = this.scheduledReminders.get(reminderId);
-
-        if (!existingReminder || existingReminder.sent) {
-          // Schedule immediate reminder for entries not yet scheduled
-          const reminderTime = moment(entry.startTime).subtract(this.reminderConfig.minutesBefore, 'minutes');
-          
-          if (reminderTime.isSameOrBefore(now, 'minute')) {
-            await this.sendImmediateReminder(entry);
-          }
-        }
-      }
+      await this.sendMissedReminders(moment());
     }, 60000); // Check every minute
   }
 
-  private async sendImmediateReminder(entry: TimetableEntry): Promise<void> {
-    const reminderId = this.generateReminderId(entry);
+  private async sendMissedReminders(now: moment.Moment): Promise<void> {
+    for (const entry of await this.getCatchUpEntries(now)) {
+      // Send reminders that are due but were never scheduled (e.g. after a restart) or failed; only the
+      // latest due one, so a restart doesn't send every missed reminder of an entry at once
+      const dueOffsets = this.getReminderOffsets(entry)
+        .filter(offset => this.getReminderTime(entry, offset).isSameOrBefore(now, 'minute'));
+      const offset = dueOffsets[dueOffsets.length - 1];
+
+      if (offset !== undefined && !this.scheduledReminders.get(this.generateReminderId(entry, offset))?.sent) {
+        await this.sendImmediateReminder(entry, offset);
+      }
+    }
+
+    await this.sendDueNudges(now.toDate());
+  }
+
+  /**
+   * Entries that may have a reminder to catch up on: upcoming ones, and running ones with reminders at or after
+   * their start, until shortly after the latest of them
+   */
+  private async getCatchUpEntries(now: moment.Moment): Promise<TimetableEntry[]> {
+    // Look far enough ahead for entries with their own, longer reminder offset
+    const upcoming = await this.timetableRepository.getUpcomingEntries(Math.max(this.reminderConfig.minutesBefore, MAX_REMINDER_MINUTES), now.toDate());
+    const upcomingIds = new Set(upcoming.map(entry => this.generateEntryId(entry)));
+
+    const running = (await this.timetableRepository.getScheduleForDate(now.toDate())).filter(entry => {
+      const latestOffset = Math.max(...this.getReminderOffsets(entry));
+      return latestOffset >= 0
+        && !upcomingIds.has(this.generateEntryId(entry))
+        && moment(entry.startTime).isSameOrBefore(now)
+        && moment(entry.endTime).isAfter(now)
+        && this.getReminderTime(entry, latestOffset).add(MISSED_REMINDER_GRACE_MINUTES, 'minutes').isSameOrAfter(now, 'minute');
+    });
+    return [...upcoming, ...running];
+  }
+
+  private async sendImmediateReminder(entry: TimetableEntry, offset: number = this.getReminderOffsets(entry)[0] ?? 0): Promise<void> {
+    const reminderId = this.generateReminderId(entry, offset);
     
     // Check if already sent
     const existingReminder = this.scheduledReminders.get(reminderId);
-    if (existingReminder?.sent) {
+    if (existingReminder?.sent || this.isPaused() || await this.isConfirmed(entry)) {
       return;
     }
 
-    try {
-      const message = this.formatReminderMessage(entry);
-      const result = await this.whatsappService.sendMessage(this.recipientPhone, message);
+    const plannedTime = this.getReminderTime(entry, offset).toDate();
+    const alreadySent = await this.reminderLog.isSent(reminderId, entry);
+    const sent = alreadySent || await this.deliverReminder(reminderId, entry, offset, plannedTime);
 
-      if (result.success) {
-        // Mark as sent
-        const immediateReminder: ScheduledReminder = {
-          id: reminderId,
-          entry,
-          reminderTime: new Date(),
-          cronExpression: '',
-          sent: true
-        };
-        this.scheduledReminders.set(reminderId, immediateReminder);
-        
+    if (sent) {
+      // Mark as sent
+      if (existingReminder?.task) {
+        existingReminder.task.stop();
+      }
+      const immediateReminder: ScheduledReminder = {
+        id: reminderId,
+        entry,
+        offset,
+        reminderTime: plannedTime,
+        cronExpression: '',
+        sent: true
+      };
+      this.scheduledReminders.set(reminderId, immediateReminder);
+      await this.startEscalation(reminderId, entry);
+      
+      if (!alreadySent) {
         console.log(`✅ Immediate reminder sent for: ${entry.activity}`);
-      } else {
-        console.error(`❌ Failed to send immediate reminder: ${result.error}`);
       }
-    } catch (error) {
-      console.error('❌ Error sending immediate reminder:', error);
     }
   }
 
+  /**
+   * Start following up on an entry once one of its reminders is delivered, with the rest of its category's chain
+   */
+  private async startEscalation(reminderId: string, entry: TimetableEntry): Promise<void> {
+    const entryId = this.generateEntryId(entry);
+    const record = await this.reminderLog.get(reminderId, entry);
+    const now = Date.now();
+    const lastSentAt = record?.sentAt || new Date(now);
+
+    const existing = this.escalations.get(entryId);
+    if (existing) {
+      // A later reminder of the same entry was delivered
+      if (lastSentAt.getTime() > existing.lastSentAt.getTime()) {
+        existing.reminderId = reminderId;
+        existing.lastSentAt = lastSentAt;
+      }
+      return;
+    }
+    if (await this.isConfirmed(entry)) {
+      return;
+    }
+
+    const nudges = this.getNudgeOffsets(entry)
+      .map(offset => moment(entry.startTime).add(offset, 'minutes').toDate())
+      .filter(nudge => nudge.getTime() > now);
+    this.escalations.set(entryId, { entryId, reminderId, entry, nudges, lastSentAt });
+  }
+
+  /**
+   * Whether the user already replied "done" to any of the entry's reminders (kept in the reminder log)
+   */
+  private async isConfirmed(entry: TimetableEntry): Promise<boolean> {
+    for (const offset of this.getReminderOffsets(entry)) {
+      if ((await this.reminderLog.get(this.generateReminderId(entry, offset), entry))?.confirmedAt) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Send follow-up nudges that are due, and forget escalations whose activity is over
+   */
+  private async sendDueNudges(now: Date = new Date()): Promise<void> {
+    for (const escalation of Array.from(this.escalations.values())) {
+      const nextNudge = escalation.nudges[0];
+      if (nextNudge && nextNudge.getTime() <= now.getTime()) {
+        escalation.nudges.shift();
+        if (this.isPaused()) {
+          console.log(`⏸️ Reminders paused, not nudging: ${escalation.entry.activity}`);
+        } else {
+          const result = await this.whatsappService.sendMessage(this.recipientPhone, await this.formatNudgeMessage(escalation.entry, now));
+          if (result.success || result.queued) {
+            escalation.lastSentAt = now;
+            console.log(`📣 Nudge sent for: ${escalation.entry.activity}`);
+          } else {
+            console.error(`❌ Failed to send nudge: ${result.error}`);
+          }
+        }
+      }
+
+      if (escalation.nudges.length === 0 && escalation.entry.endTime.getTime() <= now.getTime()) {
+        this.escalations.delete(escalation.entryId);
+      }
+    }
+  }
+
+  /**
+   * The escalation the user is most likely replying to: the one nudged last
+   */
+  private getActiveEscalation(): ReminderEscalation | undefined {
+    let active: ReminderEscalation | undefined;
+    this.escalations.forEach(escalation => {
+      if (!active || escalation.lastSentAt.getTime() > active.lastSentAt.getTime()) {
+        active = escalation;
+      }
+    });
+    return active;
+  }
+
+  /**
+   * Move the next nudge of the active reminder to a number of minutes from now
+   * Later nudges in the chain still follow; returns null when no reminder is waiting for "done"
+   */
+  public snooze(minutes: number, now: Date = new Date()): ReminderEscalation | null {
+    const escalation = this.getActiveEscalation();
+    if (!escalation) {
+      return null;
+    }
+
+    const until = moment(now).add(minutes, 'minutes').toDate();
+    escalation.nudges = [until, ...escalation.nudges.filter(nudge => nudge.getTime() > until.getTime())];
+    console.log(`😴 Snoozed "${escalation.entry.activity}" until ${moment.tz(until, this.timezone).format('h:mm A')}`);
+    return escalation;
+  }
+
+  /**
+   * Stop nudging about an activity the user confirmed: the active reminder, or the one whose activity is
+   * running at a given time (e.g. the slot of an answered check-in). Returns the confirmed entry.
+   */
+  public async confirmReminder(at?: Date): Promise<TimetableEntry | null> {
+    const escalation = at
+      ? Array.from(this.escalations.values()).find(({ entry }) =>
+          entry.startTime.getTime() <= at.getTime() && at.getTime() < entry.endTime.getTime())
+      : this.getActiveEscalation();
+    if (!escalation) {
+      return null;
+    }
+
+    this.escalations.delete(escalation.entryId);
+    await this.reminderLog.recordConfirmed(escalation.reminderId, escalation.entry);
+    console.log(`✅ Reminder confirmed for: ${escalation.entry.activity}`);
+    return escalation.entry;
+  }
+
   private createCronExpression(date: Date): string {
-    const moment_date = moment(date);
+    // Cron fields are wall-clock values in the timezone the task is scheduled with
+    const moment_date = moment.tz(date, this.timezone);
     const minute = moment_date.minute();
     const hour = moment_date.hour();
     const dayOfMonth = moment_date.date();
@@ -309,13 +694,17 @@ export class SchedulerService {
     return `${minute} ${hour} ${dayOfMonth} ${month} *`;
   }
 
-  private generateReminderId(entry: TimetableEntry): string {
+  private generateEntryId(entry: TimetableEntry): string {
     // Create unique ID based on time slot and activity
     const timeSlotNormalized = entry.timeSlot.replace(/\s+/g, '').toLowerCase();
     const activityNormalized = entry.activity.substring(0, 20).replace(/\s+/g, '').toLowerCase();
     return `${timeSlotNormalized}-${activityNormalized}`;
   }
 
+  private generateReminderId(entry: TimetableEntry, offset: number): string {
+    return `${this.generateEntryId(entry)}@${offset}`;
+  }
+
   private clearScheduledReminders(): void {
     this.scheduledReminders.forEach(reminder => {
       if (reminder.task) {
@@ -334,13 +723,50 @@ export class SchedulerService {
     return this.scheduledReminders.size;
   }
 
+  /**
+   * Delivered reminders still waiting for "done"
+   */
+  public getEscalations(): ReminderEscalation[] {
+    return Array.from(this.escalations.values());
+  }
+
+  /**
+   * Get today's persisted reminder log (planned times, attempts, delivery results)
+   */
+  public async getReminderLog(date: Date = new Date()): Promise<IReminderLogEntry[]> {
+    return this.reminderLog.getLogsForDate(date);
+  }
+
+  /**
+   * Pause reminders until the given time
+   */
+  public pause(until: Date): void {
+    this.pausedUntil = until;
+    console.log(`⏸️ Reminders paused until ${moment.tz(until, this.timezone).format('h:mm A')}`);
+  }
+
+  /**
+   * Resume reminders immediately
+   */
+  public resume(): void {
+    this.pausedUntil = null;
+    console.log('▶️ Reminders resumed');
+  }
+
+  public isPaused(): boolean {
+    if (this.pausedUntil && this.pausedUntil.getTime() <= Date.now()) {
+      this.pausedUntil = null;
+    }
+    return this.pausedUntil !== null;
+  }
+
   public isSchedulerRunning(): boolean {
     return this.isRunning;
   }
 
   public async testReminder(entry: TimetableEntry): Promise<void> {
     console.log('🧪 Sending test reminder...');
-    const message = this.formatReminderMessage(entry);
+    const message = await this.formatReminderMessage(entry);
     await this.whatsappService.sendMessage(this.recipientPhone, message);
   }
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+import moment from 'moment-timezone';
+
+export type TemplateData = Record<string, unknown>;
+
+interface TemplateFilter {
+  name: string;
+  arg?: string | undefined;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string; filters: TemplateFilter[] }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+// {name}, {entry.time|date:"h:mm A"}, {#if name}, {#unless name}, {#each list}, {else}, {/if}, {/unless}, {/each}
+// Compiled templates kept at most; the least recently used are dropped, so edited template versions don't pile up
+const MAX_COMPILED_TEMPLATES = 200;
+
+const TAG_REGEX = /\{(?:#(if|unless|each)\s+([\w.@]+)|(else)|\/(if|unless|each)|([\w.@]+)((?:\|\w+(?::"[^"]*")?)*))\}/g;
+// Block tags alone on their line take the line with them, so templates can put them on lines of their own
+const STANDALONE_TAG_REGEX = /^[ \t]*(\{(?:#(?:if|unless|each)\s+[\w.@]+|else|\/(?:if|unless|each))\})[ \t]*\r?\n/gm;
+
+// Where a template is rendered: dates are written in the timezone and moment locale
+export interface RenderContext {
+  timezone: string;
+  locale: string;
+}
+
+const FILTERS: Record<string, (value: unknown, arg: string | undefined, context: RenderContext) => unknown> = {
+  date: (value, arg, context) => TemplateEngine.toMoment(value, context)?.format(arg || 'MMMM Do, YYYY') ?? '',
+  time: (value, arg, context) => TemplateEngine.toMoment(value, context)?.format(arg || 'h:mm A') ?? '',
+  upper: value => String(value ?? '').toUpperCase(),
+  lower: value => String(value ?? '').toLowerCase(),
+  fixed: (value, arg) => typeof value === 'number' ? value.toFixed(Number(arg || 0)) : value,
+  default: (value, arg) => value === undefined || value === null || value === '' ? arg ?? '' : value
+};
+
+/**
+ * Template Engine for BarakahTracker messages
+ * Placeholders are single-braced so older templates ({subject}, {minutesBefore}) keep working:
+ *   {activity}                       value, empty when missing
+ *   {startTime|time} {date|date:"dddd D MMM"}   dates in the user's timezone and language (moment formats)
+ *   {notes|default:"none"} {rate|fixed:"1"} {name|upper}
+ *   {#if notes}...{else}...{/if}     also {#unless}; empty lists, "", 0 and false are false
+ *   {#each upcoming}{@number}. {activity}{/each}   {@index} counts from 0, {this} is the item itself
+ * Braces that don't form a tag are left as they are.
+ */
+export class TemplateEngine {
+  private static compiled: Map<string, TemplateNode[]> = new Map();
+
+  /**
+   * Render a template with data, formatting dates in a timezone and moment locale
+   * Pass cache = false for one-off text such as drafts, so they aren't kept compiled
+   * Throws when the template's blocks don't match up
+   */
+  public static render(template: string, data: TemplateData, timezone: string = moment.tz.guess(), locale: string = 'en', cache: boolean = true): string {
+    let nodes = TemplateEngine.compiled.get(template);
+    if (nodes) {
+      // Move to the end, so the least recently used template is first in line to be dropped
+      TemplateEngine.compiled.delete(template);
+      TemplateEngine.compiled.set(template, nodes);
+    } else {
+      nodes = TemplateEngine.parse(template);
+      if (cache) {
+        if (TemplateEngine.compiled.size >= MAX_COMPILED_TEMPLATES) {
+          const oldest = TemplateEngine.compiled.keys().next().value;
+          if (oldest !== undefined) TemplateEngine.compiled.delete(oldest);
+        }
+        TemplateEngine.compiled.set(template, nodes);
+      }
+    }
+    return TemplateEngine.renderNodes(nodes, [data], { timezone, locale });
+  }
+
+  /**
+   * Problems that would stop a template from rendering
+   */
+  public static validate(template: string): string[] {
+    try {
+      const nodes = TemplateEngine.parse(template);
+      const unknownFilters = new Set<string>();
+      TemplateEngine.walk(nodes, node => {
+        if (node.type === 'value') {
+          node.filters.filter(filter => !FILTERS[filter.name]).forEach(filter => unknownFilters.add(filter.name));
+        }
+      });
+      return Array.from(unknownFilters).map(filter => `Unknown filter "${filter}" (use ${Object.keys(FILTERS).join(', ')})`);
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+  }
+
+  public static toMoment(value: unknown, context: RenderContext): moment.Moment | null {
+    if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+      return null;
+    }
+    const time = moment.tz(value, context.timezone);
+    return time.isValid() ? time.locale(context.locale) : null;
+  }
+
+  private static parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open blocks, innermost last; nodes are added to the branch currently being filled
+    const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; keyword: string; target: TemplateNode[] }> = [];
+    const current = () => stack[stack.length - 1]?.target ?? root;
+
+    const source = template.replace(STANDALONE_TAG_REGEX, '$1');
+    let position = 0;
+    for (const match of source.matchAll(TAG_REGEX)) {
+      const [tag, open, openPath, elseTag, close, path, filters] = match;
+      if ((match.index ?? 0) > position) {
+        current().push({ type: 'text', text: source.substring(position, match.index) });
+      }
+      position = (match.index ?? 0) + tag.length;
+
+      if (open && openPath) {
+        const node: Extract<TemplateNode, { type: 'if' | 'each' }> = open === 'each'
+          ? { type: 'each', path: openPath, body: [], otherwise: [] }
+          : { type: 'if', path: openPath, negate: open === 'unless', then: [], otherwise: [] };
+        current().push(node);
+        stack.push({ node, keyword: open, target: node.type === 'each' ? node.body : node.then });
+      } else if (elseTag) {
+        const block = stack[stack.length - 1];
+        if (!block) throw new Error('{else} outside of an {#if} or {#each} block');
+        block.target = block.node.otherwise;
+      } else if (close) {
+        const block = stack.pop();
+        if (!block || block.keyword !== close) {
+          throw new Error(`{/${close}} does not close ${block ? `{#${block.keyword} ${block.node.path}}` : 'any block'}`);
+        }
+      } else if (path) {
+        current().push({ type: 'value', path, filters: TemplateEngine.parseFilters(filters || '') });
+      }
+    }
+
+    if (position < source.length) {
+      current().push({ type: 'text', text: source.substring(position) });
+    }
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw new Error(`{#${unclosed.keyword} ${unclosed.node.path}} is never closed`);
+    }
+    return root;
+  }
+
+  private static parseFilters(filters: string): TemplateFilter[] {
+    return Array.from(filters.matchAll(/\|(\w+)(?::"([^"]*)")?/g)).map(([, name, arg]) => ({ name: name as string, arg }));
+  }
+
+  private static renderNodes(nodes: TemplateNode[], scopes: unknown[], context: RenderContext): string {
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        output += node.text;
+      } else if (node.type === 'value') {
+        let value = TemplateEngine.lookup(node.path, scopes);
+        for (const filter of node.filters) {
+          const apply = FILTERS[filter.name];
+          if (apply) value = apply(value, filter.arg, context);
+        }
+        output += value === undefined || value === null ? '' : String(value);
+      } else if (node.type === 'if') {
+        const truthy = TemplateEngine.isTruthy(TemplateEngine.lookup(node.path, scopes));
+        output += TemplateEngine.renderNodes(truthy !== node.negate ? node.then : node.otherwise, scopes, context);
+      } else {
+        const list = TemplateEngine.lookup(node.path, scopes);
+        const items = Array.isArray(list) ? list : [];
+        if (items.length === 0) {
+          output += TemplateEngine.renderNodes(node.otherwise, scopes, context);
+        }
+        items.forEach((item, index) => {
+          const loop = { '@index': index, '@number': index + 1, this: item };
+          output += TemplateEngine.renderNodes(node.body, [...scopes, item, loop], context);
+        });
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Resolve "a.b.c" against the innermost scope that has "a"
+   */
+  private static lookup(path: string, scopes: unknown[]): unknown {
+    const [head, ...rest] = path.split('.') as [string, ...string[]];
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const scope = scopes[i];
+      if (scope !== null && typeof scope === 'object' && head in scope) {
+        return rest.reduce<unknown>(
+          (value, key) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+          (scope as Record<string, unknown>)[head]
+        );
+      }
+    }
+    return undefined;
+  }
+
+  private static isTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+  }
+
+  private static walk(nodes: TemplateNode[], visit: (node: TemplateNode) => void): void {
+    for (const node of nodes) {
+      visit(node);
+      if (node.type === 'if') {
+        TemplateEngine.walk(node.then, visit);
+        TemplateEngine.walk(node.otherwise, visit);
+      } else if (node.type === 'each') {
+        TemplateEngine.walk(node.body, visit);
+        TemplateEngine.walk(node.otherwise, visit);
+      }
+    }
+  }
+}
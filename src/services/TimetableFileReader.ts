@@ -0,0 +1,309 @@
+import * as path from 'path';
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import moment from 'moment-timezone';
+import { isMap, isSeq, LineCounter, Node, parseDocument } from 'yaml';
+import { TimetablePriority, TimetableRow } from '../types';
+
+export type TimetableFormat = 'csv' | 'json' | 'yaml';
+
+// A problem found in a timetable file; errors drop the row, warnings keep it
+export interface TimetableValidationIssue {
+  severity: 'error' | 'warning';
+  row: number; // 1-based position of the row in the file (0 for the whole file)
+  line?: number | undefined; // Line in the file, when known
+  field?: string | undefined;
+  message: string;
+}
+
+export interface TimetableValidationReport {
+  file: string;
+  format: TimetableFormat;
+  totalRows: number;
+  validRows: number;
+  issues: TimetableValidationIssue[];
+}
+
+// A row read from a timetable file, with where it was found
+export interface SourcedTimetableRow {
+  row: TimetableRow;
+  index: number; // 1-based
+  line?: number | undefined;
+}
+
+export interface TimetableFileContents {
+  totalRows: number;
+  rows: SourcedTimetableRow[];
+  issues: TimetableValidationIssue[];
+}
+
+const PRIORITIES: TimetablePriority[] = ['low', 'normal', 'high'];
+// Longest reminder offset a timetable row may ask for
+export const MAX_REMINDER_MINUTES = 120;
+
+// CSV headers and the schema fields they fill
+const CSV_COLUMNS: { [header: string]: string } = {
+  'Time Slot': 'timeSlot',
+  'Activity': 'activity',
+  'Day': 'days',
+  'Category': 'category',
+  'Location': 'location',
+  'Priority': 'priority',
+  'Reminder Minutes': 'reminderMinutesBefore',
+  'Reminder Offsets': 'reminderOffsets',
+  'Tags': 'tags'
+};
+
+const SCHEMA_FIELDS = ['timeSlot', 'start', 'end', 'activity', 'days', 'category', 'location', 'priority', 'reminderMinutesBefore', 'reminderOffsets', 'tags'];
+
+/**
+ * Timetable File Reader for BarakahTracker
+ * Reads timetable rows from CSV, JSON or YAML (picked by file extension) and checks them against
+ * the row schema, keeping row and line numbers so problems can be reported instead of silently dropped.
+ *
+ * JSON/YAML files hold a list of rows, either at the top level or under "entries":
+ *   entries:
+ *     - start: "5:00 AM"          # or timeSlot: "5:00 AM to 5:30 AM"
+ *       end: "5:30 AM"
+ *       activity: Morning walk
+ *       days: [Mon, Wed, Fri]     # or a day spec such as "Mon-Fri"
+ *       category: health
+ *       location: Park
+ *       priority: high            # low, normal or high
+ *       reminderMinutesBefore: 10
+ *       reminderOffsets: [-30, -5, 0] # several reminders, in minutes from the start; wins over reminderMinutesBefore
+ *       tags: [outdoor, audio-book]
+ */
+export class TimetableFileReader {
+  public static getFormat(file: string): TimetableFormat {
+    const extension = path.extname(file).toLowerCase();
+    if (extension === '.json') {
+      return 'json';
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return 'yaml';
+    }
+    return 'csv';
+  }
+
+  /**
+   * Parse a timetable file's content into rows plus the schema problems found
+   * Throws when the file can't be parsed at all (e.g. a YAML syntax error), with the line it happened on
+   */
+  public static async read(content: string, format: TimetableFormat): Promise<TimetableFileContents> {
+    return format === 'csv' ? TimetableFileReader.readCsv(content) : TimetableFileReader.readDocument(content, format);
+  }
+
+  /**
+   * Check a single row given with the JSON/YAML fields, e.g. one edited in the dashboard
+   * Returns the row, or null with the errors found
+   */
+  public static readRecord(record: Record<string, unknown>): { row: TimetableRow | null; errors: string[] } {
+    const contents: TimetableFileContents = { totalRows: 1, rows: [], issues: [] };
+    TimetableFileReader.addRow(contents, record, 1, undefined, () => undefined);
+    return {
+      row: contents.rows[0]?.row ?? null,
+      errors: contents.issues.filter(issue => issue.severity === 'error').map(issue => issue.message)
+    };
+  }
+
+  private static readCsv(content: string): Promise<TimetableFileContents> {
+    return new Promise((resolve, reject) => {
+      const contents: TimetableFileContents = { totalRows: 0, rows: [], issues: [] };
+      let index = 0;
+
+      Readable.from([content])
+        .pipe(csv())
+        .on('data', (data: Record<string, string>) => {
+          index++;
+          const record: Record<string, unknown> = {};
+          for (const [header, value] of Object.entries(data)) {
+            const field = CSV_COLUMNS[header.trim()];
+            // Empty optional cells are the same as leaving the column out
+            if (field && (value.trim() !== '' || field === 'timeSlot' || field === 'activity' || field === 'days')) {
+              record[field] = value;
+            }
+          }
+          // Header is line 1; assumes no line breaks inside quoted cells
+          TimetableFileReader.addRow(contents, record, index, index + 1, () => index + 1);
+        })
+        .on('end', () => resolve({ ...contents, totalRows: index }))
+        .on('error', (error: any) => reject(error));
+    });
+  }
+
+  private static async readDocument(content: string, format: TimetableFormat): Promise<TimetableFileContents> {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, { lineCounter, prettyErrors: false });
+    const syntaxError = document.errors[0];
+    if (syntaxError) {
+      const line = lineCounter.linePos(syntaxError.pos[0]).line;
+      throw new Error(`Invalid ${format.toUpperCase()}${line ? ` on line ${line}` : ''}: ${syntaxError.message.split('\n')[0]}`);
+    }
+
+    const contents: TimetableFileContents = { totalRows: 0, rows: [], issues: [] };
+    const lineOf = (node: Node | null | undefined): number | undefined =>
+      node?.range ? lineCounter.linePos(node.range[0]).line : undefined;
+
+    const root: unknown = document.contents;
+    const list = isMap(root) ? root.get('entries', true) : root;
+    if (!isSeq(list)) {
+      contents.issues.push({
+        severity: 'error',
+        row: 0,
+        line: lineOf(document.contents as Node | null),
+        message: 'Expected a list of rows, or an "entries" list'
+      });
+      return contents;
+    }
+
+    contents.totalRows = list.items.length;
+    list.items.forEach((item, position) => {
+      const index = position + 1;
+      const line = lineOf(item as Node);
+      if (!isMap(item)) {
+        contents.issues.push({ severity: 'error', row: index, line, message: 'Row should be a mapping of fields' });
+        return;
+      }
+
+      const record: Record<string, unknown> = {};
+      const fieldLines: Record<string, number | undefined> = {};
+      for (const pair of item.items) {
+        const key = String((pair.key as { value?: unknown } | null)?.value ?? pair.key);
+        record[key] = (pair.value as Node | null)?.toJSON();
+        fieldLines[key] = lineOf(pair.key as Node);
+      }
+      TimetableFileReader.addRow(contents, record, index, line, field => fieldLines[field] ?? line);
+    });
+
+    return contents;
+  }
+
+  /**
+   * Check one record against the schema; the row is kept unless an error was found
+   */
+  private static addRow(
+    contents: TimetableFileContents,
+    record: Record<string, unknown>,
+    index: number,
+    line: number | undefined,
+    lineOfField: (field: string) => number | undefined
+  ): void {
+    const issues: TimetableValidationIssue[] = [];
+    const fail = (field: string, message: string) =>
+      issues.push({ severity: 'error', row: index, line: lineOfField(field), field, message });
+
+    for (const field of Object.keys(record)) {
+      if (!SCHEMA_FIELDS.includes(field)) {
+        issues.push({ severity: 'warning', row: index, line: lineOfField(field), field, message: `Unknown field "${field}" ignored` });
+      }
+    }
+
+    const row: TimetableRow = { timeSlot: '', activity: '' };
+
+    if (record.timeSlot !== undefined) {
+      row.timeSlot = TimetableFileReader.readString(record.timeSlot);
+    } else if (record.start !== undefined || record.end !== undefined) {
+      const start = TimetableFileReader.readTime(record.start);
+      const end = TimetableFileReader.readTime(record.end);
+      if (!start) fail('start', 'Start should be a time like "5:00 AM" or "05:00"');
+      if (!end) fail('end', 'End should be a time like "5:30 AM" or "05:30"');
+      if (start && end) row.timeSlot = `${start} to ${end}`;
+    } else {
+      fail('timeSlot', 'A time slot (or start and end) is required');
+    }
+
+    if (record.activity !== undefined && typeof record.activity !== 'string') {
+      fail('activity', 'Activity should be text');
+    } else {
+      row.activity = TimetableFileReader.readString(record.activity);
+    }
+
+    if (Array.isArray(record.days)) {
+      if (!record.days.every(day => typeof day === 'string')) {
+        fail('days', 'Days should be day names such as ["Mon", "Wed"] or a spec such as "Mon-Fri"');
+      } else {
+        row.day = record.days.join(', ');
+      }
+    } else if (record.days !== undefined && record.days !== null) {
+      row.day = TimetableFileReader.readString(record.days);
+    }
+
+    for (const field of ['category', 'location'] as const) {
+      const value = record[field];
+      if (value === undefined || value === null) continue;
+      if (typeof value !== 'string') {
+        fail(field, `${field.charAt(0).toUpperCase()}${field.substring(1)} should be text`);
+      } else if (value.trim() !== '') {
+        row[field] = value.trim();
+      }
+    }
+
+    if (record.priority !== undefined && record.priority !== null) {
+      const priority = TimetableFileReader.readString(record.priority).toLowerCase() as TimetablePriority;
+      if (!PRIORITIES.includes(priority)) {
+        fail('priority', `Priority should be one of: ${PRIORITIES.join(', ')}`);
+      } else {
+        row.priority = priority;
+      }
+    }
+
+    if (record.reminderMinutesBefore !== undefined && record.reminderMinutesBefore !== null) {
+      const minutes = Number(record.reminderMinutesBefore);
+      if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_REMINDER_MINUTES) {
+        fail('reminderMinutesBefore', `Reminder offset should be a whole number of minutes between 0 and ${MAX_REMINDER_MINUTES}`);
+      } else {
+        row.reminderMinutesBefore = minutes;
+      }
+    }
+
+    if (record.reminderOffsets !== undefined && record.reminderOffsets !== null) {
+      // CSV cells list offsets separated by "/", commas or semicolons, e.g. "-30/-5/0"
+      const offsets = typeof record.reminderOffsets === 'string'
+        ? record.reminderOffsets.split(/[/;,]/).filter(offset => offset.trim() !== '').map(Number)
+        : Array.isArray(record.reminderOffsets) ? record.reminderOffsets.map(Number) : [NaN];
+      if (offsets.length === 0 || offsets.some(offset => !Number.isInteger(offset) || Math.abs(offset) > MAX_REMINDER_MINUTES)) {
+        fail('reminderOffsets', `Reminder offsets should be whole minutes from the start between -${MAX_REMINDER_MINUTES} and ${MAX_REMINDER_MINUTES}, e.g. -30/-5/0`);
+      } else {
+        row.reminderOffsets = Array.from(new Set(offsets)).sort((a, b) => a - b);
+        if (row.reminderMinutesBefore !== undefined) {
+          issues.push({
+            severity: 'warning',
+            row: index,
+            line: lineOfField('reminderMinutesBefore'),
+            field: 'reminderMinutesBefore',
+            message: 'Reminder minutes are ignored when reminder offsets are given'
+          });
+        }
+      }
+    }
+
+    if (record.tags !== undefined && record.tags !== null) {
+      // CSV cells list tags separated by commas or semicolons
+      const tags = typeof record.tags === 'string' ? record.tags.split(/[;,]/) : record.tags;
+      if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+        fail('tags', 'Tags should be a list of words');
+      } else {
+        const cleaned = tags.map(tag => tag.trim()).filter(Boolean);
+        if (cleaned.length > 0) row.tags = cleaned;
+      }
+    }
+
+    contents.issues.push(...issues);
+    if (!issues.some(issue => issue.severity === 'error')) {
+      contents.rows.push({ row, index, line });
+    }
+  }
+
+  private static readString(value: unknown): string {
+    return value === undefined || value === null ? '' : String(value);
+  }
+
+  /**
+   * Accept "5:00 AM" or 24-hour "05:00"/"17:30", returned as "5:00 AM"
+   */
+  private static readTime(value: unknown): string | null {
+    const time = moment(TimetableFileReader.readString(value).trim(), ['h:mm A', 'h:mmA', 'HH:mm', 'H:mm'], true);
+    return time.isValid() ? time.format('h:mm A') : null;
+  }
+}
@@ -0,0 +1,242 @@
+import moment from 'moment-timezone';
+import { TimetableRow } from '../types';
+import { TimetableParser } from './TimetableParser';
+
+export type TimetableLintRule = 'overlap' | 'gap' | 'alignment' | 'midnight' | 'duplicate';
+export type TimetableLintSeverity = 'error' | 'warning' | 'info';
+
+export interface TimetableLintIssue {
+  rule: TimetableLintRule;
+  severity: TimetableLintSeverity;
+  days: string; // Days the issue shows up on, e.g. "Mon, Tue" or "every day"
+  timeSlots: string[];
+  activities: string[];
+  message: string;
+}
+
+export interface TimetableLintReport {
+  profile: string;
+  rowCount: number;
+  issues: TimetableLintIssue[];
+  errors: number;
+  warnings: number;
+}
+
+// How bad each kind of finding is; gaps and repeated activities are often intended
+const SEVERITIES: { [rule in TimetableLintRule]: TimetableLintSeverity } = {
+  overlap: 'error',
+  alignment: 'warning',
+  midnight: 'warning',
+  gap: 'info',
+  duplicate: 'info'
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// A row with its minutes of the day (end is past 1440 for slots crossing midnight)
+interface LintedRow {
+  index: number;
+  row: TimetableRow;
+  start: number;
+  end: number;
+  days: number[];
+}
+
+// The part of a row that falls on one day
+interface DaySegment {
+  row: LintedRow;
+  start: number;
+  end: number;
+}
+
+/**
+ * Timetable Linter for BarakahTracker
+ * Looks for timetable rows that make a messy day: overlapping slots, gaps between slots, boundaries off the
+ * half-hour grid (which leave odd-length check-in slots), slots that run past midnight and activities
+ * planned more than once a day. Run it with "lint" from the command line or GET /api/timetable/lint;
+ * with TIMETABLE_LINT_STRICT=true, errors and warnings stop the bot from starting.
+ */
+export class TimetableLinter {
+  public static readonly SLOT_MINUTES = 30;
+  private timetableParser: TimetableParser;
+
+  constructor(timetableParser: TimetableParser) {
+    this.timetableParser = timetableParser;
+  }
+
+  /**
+   * Lint the whole week of the profile active on a date
+   */
+  public async lint(date: Date = new Date()): Promise<TimetableLintReport> {
+    const rows = await this.timetableParser.getTimetableRows(date);
+    return {
+      ...this.lintRows(rows),
+      profile: this.timetableParser.getActiveProfile(date).name
+    };
+  }
+
+  public lintRows(rows: TimetableRow[]): TimetableLintReport {
+    const linted = rows
+      .map((row, index) => this.toLintedRow(row, index))
+      .filter((row): row is LintedRow => row !== null);
+
+    // Findings are collected per day, then merged so a clash on Mon-Fri is reported once
+    const found = new Map<string, { issue: Omit<TimetableLintIssue, 'days'>; days: Set<number> }>();
+    const add = (key: string, day: number, issue: Omit<TimetableLintIssue, 'days' | 'severity'>) => {
+      const existing = found.get(key);
+      if (existing) {
+        existing.days.add(day);
+      } else {
+        found.set(key, { issue: { ...issue, severity: SEVERITIES[issue.rule] }, days: new Set([day]) });
+      }
+    };
+
+    for (const row of linted) {
+      const label = `"${row.row.timeSlot}" (${row.row.activity})`;
+      for (const day of row.days) {
+        if (row.start % TimetableLinter.SLOT_MINUTES !== 0 || row.end % TimetableLinter.SLOT_MINUTES !== 0) {
+          add(`alignment|${row.index}`, day, {
+            rule: 'alignment',
+            timeSlots: [row.row.timeSlot],
+            activities: [row.row.activity],
+            message: `${label} doesn't start and end on the half hour, so the free time around it is split into odd-length check-ins`
+          });
+        }
+        if (row.end > MINUTES_PER_DAY) {
+          add(`midnight|${row.index}`, day, {
+            rule: 'midnight',
+            timeSlots: [row.row.timeSlot],
+            activities: [row.row.activity],
+            message: `${label} runs past midnight into the next day`
+          });
+        }
+      }
+    }
+
+    for (let day = 0; day < 7; day++) {
+      const segments = this.getSegments(linted, day);
+
+      for (let i = 0; i < segments.length; i++) {
+        const first = segments[i] as DaySegment;
+        for (let j = i + 1; j < segments.length; j++) {
+          const second = segments[j] as DaySegment;
+          if (second.start >= first.end) {
+            break;
+          }
+          if (second.row === first.row) {
+            continue;
+          }
+          const [a, b] = [first.row, second.row].sort((x, y) => x.index - y.index) as [LintedRow, LintedRow];
+          add(`overlap|${a.index}|${b.index}`, day, {
+            rule: 'overlap',
+            timeSlots: [a.row.timeSlot, b.row.timeSlot],
+            activities: [a.row.activity, b.row.activity],
+            message: `"${a.row.timeSlot}" (${a.row.activity}) overlaps "${b.row.timeSlot}" (${b.row.activity})`
+          });
+        }
+      }
+
+      let coveredUntil: number | null = null;
+      for (const segment of segments) {
+        if (coveredUntil !== null && segment.start > coveredUntil) {
+          const gap = `${this.formatMinute(coveredUntil)} to ${this.formatMinute(segment.start)}`;
+          add(`gap|${coveredUntil}|${segment.start}`, day, {
+            rule: 'gap',
+            timeSlots: [gap],
+            activities: [],
+            message: `Nothing planned from ${gap}`
+          });
+        }
+        coveredUntil = Math.max(coveredUntil ?? 0, segment.end);
+      }
+
+      const byActivity = new Map<string, LintedRow[]>();
+      for (const row of linted.filter(row => row.days.includes(day))) {
+        const key = row.row.activity.trim().replace(/\s+/g, ' ').toLowerCase();
+        byActivity.set(key, [...(byActivity.get(key) || []), row]);
+      }
+      for (const repeated of byActivity.values()) {
+        if (repeated.length < 2) {
+          continue;
+        }
+        add(`duplicate|${repeated.map(row => row.index).join('|')}`, day, {
+          rule: 'duplicate',
+          timeSlots: repeated.map(row => row.row.timeSlot),
+          activities: [(repeated[0] as LintedRow).row.activity],
+          message: `"${(repeated[0] as LintedRow).row.activity}" is planned ${repeated.length} times: ${repeated.map(row => row.row.timeSlot).join(', ')}`
+        });
+      }
+    }
+
+    const order: TimetableLintSeverity[] = ['error', 'warning', 'info'];
+    const issues = Array.from(found.values())
+      .map(({ issue, days }) => ({ ...issue, days: this.formatDays(Array.from(days).sort((a, b) => a - b)) }))
+      .sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+
+    return {
+      profile: TimetableParser.DEFAULT_PROFILE,
+      rowCount: rows.length,
+      issues,
+      errors: issues.filter(issue => issue.severity === 'error').length,
+      warnings: issues.filter(issue => issue.severity === 'warning').length
+    };
+  }
+
+  /**
+   * Whether a report should stop the bot from starting: only in strict mode, on any error or warning
+   */
+  public static isBlocking(report: TimetableLintReport, strict: boolean): boolean {
+    return strict && report.errors + report.warnings > 0;
+  }
+
+  /**
+   * Print a report to the console, one line per finding
+   */
+  public static printReport(report: TimetableLintReport): void {
+    const icons: { [severity in TimetableLintSeverity]: string } = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+    console.log(`🧹 Timetable lint (${report.profile} profile, ${report.rowCount} rows): ${report.errors} error(s), ${report.warnings} warning(s)`);
+    for (const issue of report.issues) {
+      console.log(`   ${icons[issue.severity]} [${issue.rule}] ${issue.message} - ${issue.days}`);
+    }
+  }
+
+  private toLintedRow(row: TimetableRow, index: number): LintedRow | null {
+    const entry = this.timetableParser.parseRow(row);
+    if (!entry) {
+      return null;
+    }
+
+    const timezone = this.timetableParser.getTimezone();
+    const startTime = moment.tz(entry.startTime, timezone);
+    const start = startTime.hours() * 60 + startTime.minutes();
+    const end = start + Math.round((entry.endTime.getTime() - entry.startTime.getTime()) / 60000);
+    return { index, row, start, end, days: entry.daysOfWeek || [0, 1, 2, 3, 4, 5, 6] };
+  }
+
+  /**
+   * Slots on a day in start order, including the after-midnight part of the previous day's late slots
+   */
+  private getSegments(rows: LintedRow[], day: number): DaySegment[] {
+    const previousDay = (day + 6) % 7;
+    const segments: DaySegment[] = [];
+
+    for (const row of rows) {
+      if (row.days.includes(day)) {
+        segments.push({ row, start: row.start, end: row.end });
+      }
+      if (row.end > MINUTES_PER_DAY && row.days.includes(previousDay)) {
+        segments.push({ row, start: 0, end: row.end - MINUTES_PER_DAY });
+      }
+    }
+
+    return segments.sort((a, b) => a.start - b.start || a.end - b.end);
+  }
+
+  private formatDays(days: number[]): string {
+    return days.length === 7 ? 'every day' : this.timetableParser.formatDaySpec(days);
+  }
+
+  private formatMinute(minute: number): string {
+    return moment.utc(0).add(minute % MINUTES_PER_DAY, 'minutes').format('h:mm A');
+  }
+}
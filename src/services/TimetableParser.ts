@@ -1,57 +1,353 @@
 import * as fs from 'fs';
-import csv from 'csv-parser';
-import moment from 'moment';
-import { TimetableEntry, ParsedTimetable } from '../types';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import moment from 'moment-timezone';
+import { TimetableEntry, ParsedTimetable, ScheduleProfile, TimetableRow } from '../types';
+import { PrayerTimesService } from './PrayerTimesService';
+import { TimetableFileReader, TimetableValidationIssue, TimetableValidationReport } from './TimetableFileReader';
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+const EVERY_DAY_TOKENS = ['*', 'all', 'daily', 'everyday'];
+// "5:00 AM to 5:30 AM" or "12:00 PM to 12:30 PM"
+const TIME_SLOT_REGEX = /(\d{1,2}:\d{2}\s*(AM|PM))\s*to\s*(\d{1,2}:\d{2}\s*(AM|PM))/i;
+
+/**
+ * Somewhere other than the timetable file that timetable rows can come from
+ * Returning null falls back to the file
+ */
+export interface TimetableRowSource {
+  getRows(): Promise<TimetableRow[] | null>;
+}
+
+// Parsed rows of a timetable file and its validation report, reused until the file changes
+interface CachedTimetableFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  rows: TimetableRow[];
+  report: TimetableValidationReport;
+}
 
 export class TimetableParser {
+  public static readonly DEFAULT_PROFILE = 'default';
   private timetableFile: string;
+  private timezone: string;
+  private prayerTimesService: PrayerTimesService | undefined;
+  private rowSource: TimetableRowSource | undefined;
+  private fileCache: Map<string, CachedTimetableFile> = new Map();
+  private scheduleProfiles: ScheduleProfile[];
+  private selectedProfile: string | null = null;
 
-  constructor(timetableFile: string) {
+  constructor(
+    timetableFile: string,
+    timezone: string = moment.tz.guess(),
+    prayerTimesService?: PrayerTimesService,
+    rowSource?: TimetableRowSource,
+    scheduleProfiles: ScheduleProfile[] = []
+  ) {
     this.timetableFile = timetableFile;
+    this.timezone = timezone;
+    this.prayerTimesService = prayerTimesService;
+    this.rowSource = rowSource;
+    this.scheduleProfiles = scheduleProfiles;
+  }
+
+  /**
+   * All schedule profiles, starting with the default timetable
+   */
+  getProfiles(): ScheduleProfile[] {
+    return [this.getDefaultProfile(), ...this.scheduleProfiles];
+  }
+
+  /**
+   * The profile in use on a date: the one switched to by command, else a profile whose
+   * date range covers the date, else the default timetable
+   */
+  getActiveProfile(date: Date = new Date()): ScheduleProfile {
+    if (this.selectedProfile) {
+      const selected = this.findProfile(this.selectedProfile);
+      if (selected) {
+        return selected;
+      }
+    }
+
+    const day = moment.tz(date, this.timezone).format('YYYY-MM-DD');
+    const dated = this.scheduleProfiles.find(profile =>
+      profile.startDate && profile.endDate && profile.startDate <= day && day <= profile.endDate
+    );
+    return dated || this.getDefaultProfile();
+  }
+
+  /**
+   * Name of the profile switched to by command, or null when profiles follow their dates
+   */
+  getProfileSelection(): string | null {
+    return this.selectedProfile;
+  }
+
+  /**
+   * Use a profile regardless of the date; null goes back to date-based selection
+   * Returns false for an unknown profile
+   */
+  selectProfile(name: string | null): boolean {
+    if (name !== null && !this.findProfile(name)) {
+      return false;
+    }
+    this.selectedProfile = name;
+    return true;
+  }
+
+  /**
+   * Base CSV files of every profile (per-day files live next to each)
+   */
+  getTimetableFiles(): string[] {
+    return this.getProfiles().map(profile => profile.timetableFile);
+  }
+
+  private findProfile(name: string): ScheduleProfile | undefined {
+    return this.getProfiles().find(profile => profile.name === name.toLowerCase());
+  }
+
+  private getDefaultProfile(): ScheduleProfile {
+    return { name: TimetableParser.DEFAULT_PROFILE, timetableFile: this.timetableFile };
+  }
+
+  /**
+   * Base timetable CSV (per-day files live next to it)
+   */
+  getTimetableFile(): string {
+    return this.timetableFile;
+  }
+
+  /**
+   * Timezone the timetable's wall-clock times are interpreted in
+   */
+  getTimezone(): string {
+    return this.timezone;
+  }
+
+  /**
+   * Parse the timetable for a date (defaults to today)
+   * Rows come from the active profile's timetable file - using a per-day file such as "timetable.fri.csv" when one
+   * exists next to it - except that the default profile prefers the row source (the dashboard's stored timetable)
+   */
+  async parseTimetable(date: Date = new Date()): Promise<ParsedTimetable> {
+    const profile = this.getActiveProfile(date);
+    const storedRows = await this.readStoredRows(profile);
+    const rows = storedRows ?? await this.readFileRows(this.resolveTimetableFile(date, profile.timetableFile));
+    const entries: TimetableEntry[] = [];
+
+    for (const row of rows) {
+      const entry = this.parseRow(row, date);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    return {
+      entries,
+      metadata: {
+        totalEntries: entries.length,
+        dateRange: this.getDateRange(entries),
+        lastUpdated: new Date()
+      }
+    };
+  }
+
+  /**
+   * The whole week's rows for the profile active on a date, from the row source or the timetable files
+   */
+  async getTimetableRows(date: Date = new Date()): Promise<TimetableRow[]> {
+    const profile = this.getActiveProfile(date);
+    const storedRows = await this.readStoredRows(profile);
+    return storedRows ?? this.exportCsvRows(profile.timetableFile);
+  }
+
+  /**
+   * Turn a row into an entry anchored to the date, or null if the row can't be parsed
+   * The row's Day spec is recorded on the entry but not checked against the date
+   */
+  public parseRow(row: TimetableRow, date: Date = new Date()): TimetableEntry | null {
+    const entry = this.parseTimeSlot(row.timeSlot, row.activity, date);
+    if (!entry) {
+      return null;
+    }
+    if (row.category) entry.category = row.category;
+    if (row.location) entry.location = row.location;
+    if (row.priority) entry.priority = row.priority;
+    if (row.reminderMinutesBefore !== undefined) entry.reminderMinutesBefore = row.reminderMinutesBefore;
+    if (row.reminderOffsets && row.reminderOffsets.length > 0) entry.reminderOffsets = row.reminderOffsets;
+    if (row.tags && row.tags.length > 0) entry.tags = row.tags;
+
+    const daySpec = row.day;
+    if (daySpec !== undefined && daySpec.trim() !== '') {
+      const days = this.parseDaySpec(daySpec);
+      if (days === null) {
+        console.warn(`Could not parse day "${daySpec}" for: ${entry.timeSlot}`);
+        return null;
+      }
+      if (days.length < 7) {
+        entry.daysOfWeek = days;
+        if (days.length === 1) {
+          entry.dayOfWeek = days[0] as number;
+        }
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Rows from the row source, which only backs the default profile (null to use the CSV)
+   */
+  private async readStoredRows(profile: ScheduleProfile): Promise<TimetableRow[] | null> {
+    if (!this.rowSource || profile.name !== TimetableParser.DEFAULT_PROFILE) {
+      return null;
+    }
+    return this.rowSource.getRows();
+  }
+
+  /**
+   * Read the valid rows of a timetable file (CSV, JSON or YAML, by extension)
+   * Parsed rows are cached and only re-parsed when the file's modified time (or size) and content hash change;
+   * rows that fail validation are left out and listed, with their line numbers, in the file's validation report
+   */
+  private async readFileRows(file: string): Promise<TimetableRow[]> {
+    const cached = await this.readTimetableFile(file);
+    return cached.rows;
+  }
+
+  private async readTimetableFile(file: string): Promise<CachedTimetableFile> {
+    const stats = await fs.promises.stat(file);
+    const cached = this.fileCache.get(file);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached;
+    }
+
+    const content = await fs.promises.readFile(file, 'utf8');
+    const hash = crypto.createHash('sha1').update(content).digest('hex');
+    if (cached && cached.hash === hash) {
+      cached.mtimeMs = stats.mtimeMs;
+      cached.size = stats.size;
+      return cached;
+    }
+
+    const format = TimetableFileReader.getFormat(file);
+    let contents;
+    try {
+      contents = await TimetableFileReader.read(content, format);
+    } catch (error) {
+      if (!cached) {
+        throw error;
+      }
+      // Keep the last good version of the file until it is fixed
+      console.error(`❌ Could not parse ${path.basename(file)}, keeping the previous version:`, error instanceof Error ? error.message : error);
+      return cached;
+    }
+    const issues: TimetableValidationIssue[] = [...contents.issues];
+    const rows: TimetableRow[] = [];
+    for (const { row, index, line } of contents.rows) {
+      const errors = this.validateRow(row);
+      issues.push(...errors.map(message => ({ severity: 'error' as const, row: index, line, message })));
+      if (errors.length === 0) {
+        rows.push(row);
+      }
+    }
+    issues.sort((a, b) => a.row - b.row);
+
+    const report: TimetableValidationReport = { file, format, totalRows: contents.totalRows, validRows: rows.length, issues };
+    this.logValidationReport(report);
+
+    const parsed: CachedTimetableFile = { mtimeMs: stats.mtimeMs, size: stats.size, hash, rows, report };
+    this.fileCache.set(file, parsed);
+    return parsed;
+  }
+
+  private logValidationReport(report: TimetableValidationReport): void {
+    if (report.issues.length === 0) {
+      return;
+    }
+
+    const skipped = report.totalRows - report.validRows;
+    console.warn(`⚠️ ${path.basename(report.file)}: ${skipped} of ${report.totalRows} rows skipped, ${report.issues.length} problem(s):`);
+    for (const issue of report.issues) {
+      const where = issue.line ? `line ${issue.line}` : `row ${issue.row}`;
+      console.warn(`   ${issue.severity === 'error' ? '❌' : '⚠️'} ${where}${issue.field ? ` (${issue.field})` : ''}: ${issue.message}`);
+    }
+  }
+
+  /**
+   * Validation report for a timetable file (the active profile's base file by default)
+   */
+  async getValidationReport(file: string = this.getActiveProfile(new Date()).timetableFile): Promise<TimetableValidationReport> {
+    const parsed = await this.readTimetableFile(file);
+    return parsed.report;
   }
 
-  async parseTimetable(): Promise<ParsedTimetable> {
-    return new Promise((resolve, reject) => {
-      const entries: TimetableEntry[] = [];
-      const results: any[] = [];
-
-      fs.createReadStream(this.timetableFile)
-        .pipe(csv())
-        .on('data', (data: any) => results.push(data))
-        .on('end', () => {
-          try {
-            for (const row of results) {
-              const entry = this.parseTimeSlot(row['Time Slot'], row['Activity']);
-              if (entry) {
-                entries.push(entry);
-              }
-            }
-
-            const parsedTimetable: ParsedTimetable = {
-              entries,
-              metadata: {
-                totalEntries: entries.length,
-                dateRange: this.getDateRange(entries),
-                lastUpdated: new Date()
-              }
-            };
-
-            resolve(parsedTimetable);
-          } catch (error) {
-            reject(error);
-          }
-        })
-        .on('error', (error: any) => {
-          reject(error);
+  /**
+   * Read the whole week from the timetable files as a single list of rows
+   * Rows from per-day files get a Day spec for the days those files cover, so the result
+   * describes the same week without the per-day files (used to seed the stored timetable)
+   */
+  async exportCsvRows(baseFile: string = this.timetableFile): Promise<TimetableRow[]> {
+    const daysByFile = new Map<string, number[]>();
+    for (let dayIndex = 0; dayIndex < 7; dayIndex++) {
+      const file = this.resolveTimetableFileForDay(dayIndex, baseFile);
+      daysByFile.set(file, [...(daysByFile.get(file) || []), dayIndex]);
+    }
+
+    const exported: TimetableRow[] = [];
+    for (const [file, fileDays] of daysByFile) {
+      for (const row of await this.readFileRows(file)) {
+        const rowDays = row.day && row.day.trim() !== '' ? this.parseDaySpec(row.day) : [0, 1, 2, 3, 4, 5, 6];
+        if (rowDays === null) {
+          console.warn(`Could not parse day "${row.day}" for: ${row.timeSlot}`);
+          continue;
+        }
+
+        const days = rowDays.filter(day => fileDays.includes(day));
+        if (days.length === 0) {
+          continue;
+        }
+        exported.push({
+          ...row,
+          day: days.length === 7 ? undefined : this.formatDaySpec(days)
         });
-    });
+      }
+    }
+
+    return exported;
   }
 
-  private parseTimeSlot(timeSlot: string, activity: string): TimetableEntry | null {
+  /**
+   * Check a single row for problems, e.g. before it is saved from the dashboard
+   */
+  public validateRow(row: TimetableRow): string[] {
+    const errors: string[] = [];
+
+    if (!row.activity || row.activity.trim() === '') {
+      errors.push('Activity is required');
+    }
+    if (!TimetableParser.isValidTimeSlot(row.timeSlot)) {
+      errors.push('Time slot should look like "5:00 AM to 5:30 AM"');
+    }
+    if (row.day && row.day.trim() !== '' && this.parseDaySpec(row.day) === null) {
+      errors.push(`Could not parse day "${row.day}"`);
+    }
+
+    return errors;
+  }
+
+  private parseTimeSlot(timeSlot: string, activity: string, date: Date = new Date()): TimetableEntry | null {
     try {
-      // Parse time slot format: "5:00 AM to 5:30 AM" or "12:00 PM to 12:30 PM"
-      const timeRegex = /(\d{1,2}:\d{2}\s*(AM|PM))\s*to\s*(\d{1,2}:\d{2}\s*(AM|PM))/i;
-      const match = timeSlot.match(timeRegex);
+      if (!timeSlot || !activity) {
+        console.warn(`Could not parse time slot: ${timeSlot}`);
+        return null;
+      }
+
+      const match = timeSlot.match(TIME_SLOT_REGEX);
 
       if (!match) {
         console.warn(`Could not parse time slot: ${timeSlot}`);
@@ -61,10 +357,10 @@ export class TimetableParser {
       const startTimeStr = match[1];
       const endTimeStr = match[3];
 
-      // Get today's date for parsing
-      const today = moment();
-      const startTime = moment(`${today.format('YYYY-MM-DD')} ${startTimeStr}`, 'YYYY-MM-DD h:mm A');
-      const endTime = moment(`${today.format('YYYY-MM-DD')} ${endTimeStr}`, 'YYYY-MM-DD h:mm A');
+      // Anchor the times to the date being parsed
+      const day = moment.tz(date, this.timezone);
+      const startTime = moment.tz(`${day.format('YYYY-MM-DD')} ${startTimeStr}`, 'YYYY-MM-DD h:mm A', this.timezone);
+      const endTime = moment.tz(`${day.format('YYYY-MM-DD')} ${endTimeStr}`, 'YYYY-MM-DD h:mm A', this.timezone);
 
       // Handle case where end time is next day (e.g., 11:00 PM to 1:00 AM)
       if (endTime.isBefore(startTime)) {
@@ -83,12 +379,120 @@ export class TimetableParser {
     }
   }
 
+  /**
+   * Parse a Day column value into days of the week (0 = Sunday)
+   * Accepts "*", "Mon", "Friday", "Mon-Fri", "Weekend", "Weekdays" and comma lists like "Mon, Wed"
+   * Returns null if any part is not recognised
+   */
+  public parseDaySpec(spec: string): number[] | null {
+    const days = new Set<number>();
+
+    for (const rawToken of spec.split(',')) {
+      const token = rawToken.trim().toLowerCase().replace(/\s+/g, '');
+      if (!token) {
+        continue;
+      }
+
+      if (EVERY_DAY_TOKENS.includes(token)) {
+        [0, 1, 2, 3, 4, 5, 6].forEach(day => days.add(day));
+      } else if (token === 'weekday' || token === 'weekdays') {
+        WEEKDAYS.forEach(day => days.add(day));
+      } else if (token === 'weekend' || token === 'weekends') {
+        WEEKEND.forEach(day => days.add(day));
+      } else if (token.includes('-')) {
+        const [fromToken, toToken] = token.split('-');
+        const from = this.parseDayName(fromToken || '');
+        const to = this.parseDayName(toToken || '');
+        if (from === null || to === null) {
+          return null;
+        }
+        // Ranges may wrap around the week, e.g. "Fri-Mon"
+        for (let day = from; ; day = (day + 1) % 7) {
+          days.add(day);
+          if (day === to) break;
+        }
+      } else {
+        const day = this.parseDayName(token);
+        if (day === null) {
+          return null;
+        }
+        days.add(day);
+      }
+    }
+
+    if (days.size === 0) {
+      return null;
+    }
+
+    return Array.from(days).sort((a, b) => a - b);
+  }
+
+  /**
+   * Check a time slot has the "5:00 AM to 5:30 AM" form
+   */
+  public static isValidTimeSlot(timeSlot: string | undefined): boolean {
+    return !!timeSlot && TIME_SLOT_REGEX.test(timeSlot);
+  }
+
+  /**
+   * Write days of the week back out as a Day spec, e.g. [1, 3] => "Mon, Wed"
+   */
+  public formatDaySpec(days: number[]): string {
+    return days
+      .map(day => DAY_NAMES[day] as string)
+      .map(name => name.charAt(0).toUpperCase() + name.substring(1, 3))
+      .join(', ');
+  }
+
+  /**
+   * Parse "mon", "monday" (or any prefix of at least 3 letters) into a day index
+   */
+  private parseDayName(name: string): number | null {
+    if (name.length < 3) {
+      return null;
+    }
+    const index = DAY_NAMES.findIndex(dayName => dayName.startsWith(name));
+    return index >= 0 ? index : null;
+  }
+
+  /**
+   * Pick the most specific timetable file for a date:
+   * "name.fri.csv" / "name.friday.csv", then "name.weekend.csv" / "name.weekday.csv", then the base file
+   */
+  private resolveTimetableFile(date: Date, baseFile: string = this.timetableFile): string {
+    return this.resolveTimetableFileForDay(moment.tz(date, this.timezone).day(), baseFile);
+  }
+
+  private resolveTimetableFileForDay(dayIndex: number, baseFile: string = this.timetableFile): string {
+    const extension = path.extname(baseFile);
+    const base = baseFile.substring(0, baseFile.length - extension.length);
+    const dayName = DAY_NAMES[dayIndex] as string;
+
+    const candidates = [
+      `${base}.${dayName.substring(0, 3)}${extension}`,
+      `${base}.${dayName}${extension}`,
+      `${base}.${WEEKEND.includes(dayIndex) ? 'weekend' : 'weekday'}${extension}`
+    ];
+
+    return candidates.find(candidate => fs.existsSync(candidate)) || baseFile;
+  }
+
+  /**
+   * Check whether an entry applies on the given day
+   */
+  private appliesOn(entry: TimetableEntry, date: Date): boolean {
+    if (!entry.daysOfWeek) {
+      return true;
+    }
+    return entry.daysOfWeek.includes(moment.tz(date, this.timezone).day());
+  }
+
   private getDateRange(entries: TimetableEntry[]): string {
     if (entries.length === 0) {
       return 'No entries';
     }
 
-    const startTimes = entries.map(e => moment(e.startTime));
+    const startTimes = entries.map(e => moment.tz(e.startTime, this.timezone));
     const earliest = moment.min(startTimes);
     const latest = moment.max(startTimes);
 
@@ -105,13 +509,26 @@ export class TimetableParser {
   }
 
   async getTodaySchedule(): Promise<TimetableEntry[]> {
-    const parsedTimetable = await this.parseTimetable();
-    const today = moment();
+    return this.getScheduleForDate(new Date());
+  }
+
+  /**
+   * Get the entries that apply on a specific date, anchored to that date
+   * Calculated prayer times are merged in (or replace the file's prayer rows) when configured
+   */
+  async getScheduleForDate(date: Date): Promise<TimetableEntry[]> {
+    const parsedTimetable = await this.parseTimetable(date);
+    const day = moment.tz(date, this.timezone);
     
-    return parsedTimetable.entries.filter(entry => {
-      const entryDay = moment(entry.startTime);
-      return entryDay.isSame(today, 'day');
+    const entries = parsedTimetable.entries.filter(entry => {
+      const entryDay = moment.tz(entry.startTime, this.timezone);
+      return entryDay.isSame(day, 'day') && this.appliesOn(entry, date);
     });
+
+    if (!this.prayerTimesService) {
+      return entries;
+    }
+    return this.prayerTimesService.applyToSchedule(entries, date);
   }
 
   async getUpcomingEntries(minutesAhead: number = 60): Promise<TimetableEntry[]> {
@@ -0,0 +1,216 @@
+import moment from 'moment-timezone';
+import { ScheduleProfile, TimetableEntry } from '../types';
+import { TimetableParser } from './TimetableParser';
+import { ResolvedSchedule, ScheduleOverrideService } from './ScheduleOverrideService';
+import { ICalendarService } from './ICalendarService';
+
+// A day's schedule plus a lookup index ordered by start minute
+interface IndexedSchedule {
+  entries: TimetableEntry[]; // In timetable order, as the parser returns them (with overrides applied)
+  cancelled: TimetableEntry[]; // Entries taken out by cancel/replace overrides
+  byStart: TimetableEntry[]; // Sorted by start minute
+  startMinutes: number[]; // Minute of day each byStart entry starts at
+  endMinutes: number[]; // Minute of day each byStart entry ends at (past 1440 for overnight slots)
+  maxEndMinutes: number[]; // Latest end among byStart[0..i], to stop backwards scans early
+}
+
+const MAX_CACHED_DAYS = 7;
+
+/**
+ * Timetable Repository for BarakahTracker
+ * Parses each day's schedule once, adds calendar events and layers that date's overrides on top, and keeps the result until
+ * the day changes or the timetable or overrides are edited (call invalidate()). Cached entries are frozen and lists are
+ * returned as copies, so callers can't change the schedule other readers see.
+ * The per-minute reminder check, check-ins, chat commands and dashboard all read through here
+ * instead of re-parsing the timetable.
+ */
+export class TimetableRepository {
+  private timetableParser: TimetableParser;
+  private scheduleOverrides: ScheduleOverrideService | undefined;
+  private calendar: ICalendarService | undefined;
+  private days: Map<string, Promise<IndexedSchedule>> = new Map();
+
+  constructor(timetableParser: TimetableParser, scheduleOverrides?: ScheduleOverrideService, calendar?: ICalendarService) {
+    this.timetableParser = timetableParser;
+    this.scheduleOverrides = scheduleOverrides;
+    this.calendar = calendar;
+  }
+
+  /**
+   * The parser behind the cache, for CSV export and row validation
+   */
+  public getParser(): TimetableParser {
+    return this.timetableParser;
+  }
+
+  public getTimezone(): string {
+    return this.timetableParser.getTimezone();
+  }
+
+  /**
+   * The schedule profile whose timetable applies on a date
+   */
+  public getActiveProfile(date: Date = new Date()): ScheduleProfile {
+    return this.timetableParser.getActiveProfile(date);
+  }
+
+  /**
+   * Drop cached schedules so the next read re-parses the timetable
+   */
+  public invalidate(): void {
+    this.days.clear();
+  }
+
+  public async getTodaySchedule(): Promise<TimetableEntry[]> {
+    return this.getScheduleForDate(new Date());
+  }
+
+  /**
+   * Entries that apply on a date, in timetable order
+   */
+  public async getScheduleForDate(date: Date): Promise<TimetableEntry[]> {
+    const schedule = await this.getIndexedSchedule(date);
+    return [...schedule.entries];
+  }
+
+  /**
+   * Entries an override cancelled or replaced on a date (for marking them on the dashboard)
+   */
+  public async getCancelledEntries(date: Date): Promise<TimetableEntry[]> {
+    const schedule = await this.getIndexedSchedule(date);
+    return [...schedule.cancelled];
+  }
+
+  /**
+   * The entry in progress at a time today, or null during free time
+   */
+  public async getEntryAt(time: Date = new Date()): Promise<TimetableEntry | null> {
+    const schedule = await this.getIndexedSchedule(time);
+    const minute = this.getMinuteOfDay(time);
+
+    // Last entry starting at or before this minute, then walk back over any longer overlapping slots
+    for (let i = this.lastIndexAtOrBefore(schedule.startMinutes, minute); i >= 0; i--) {
+      if ((schedule.maxEndMinutes[i] as number) <= minute) {
+        break;
+      }
+      if ((schedule.endMinutes[i] as number) > minute) {
+        return schedule.byStart[i] as TimetableEntry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The first entry starting after a time today, or null when nothing else is planned
+   */
+  public async getNextEntry(time: Date = new Date()): Promise<TimetableEntry | null> {
+    const schedule = await this.getIndexedSchedule(time);
+    const index = this.lastIndexAtOrBefore(schedule.startMinutes, this.getMinuteOfDay(time)) + 1;
+    return schedule.byStart[index] || null;
+  }
+
+  /**
+   * Entries starting between now and the given number of minutes from now (inclusive)
+   */
+  public async getUpcomingEntries(minutesAhead: number = 60, time: Date = new Date()): Promise<TimetableEntry[]> {
+    const schedule = await this.getIndexedSchedule(time);
+    const from = this.getMinuteOfDay(time);
+    const to = from + minutesAhead;
+    const upcoming: TimetableEntry[] = [];
+
+    for (let i = this.lastIndexAtOrBefore(schedule.startMinutes, from - 1) + 1; i < schedule.byStart.length; i++) {
+      if ((schedule.startMinutes[i] as number) > to) {
+        break;
+      }
+      upcoming.push(schedule.byStart[i] as TimetableEntry);
+    }
+    return upcoming;
+  }
+
+  private getIndexedSchedule(date: Date): Promise<IndexedSchedule> {
+    const dayKey = moment.tz(date, this.getTimezone()).format('YYYY-MM-DD');
+    const cached = this.days.get(dayKey);
+    if (cached) {
+      return cached;
+    }
+
+    const loading = this.resolveSchedule(date).then(resolved => this.buildIndex(resolved));
+    // Forget failed loads so the next read retries
+    loading.catch(() => this.days.delete(dayKey));
+
+    if (this.days.size >= MAX_CACHED_DAYS) {
+      const oldest = this.days.keys().next().value;
+      if (oldest !== undefined) this.days.delete(oldest);
+    }
+    this.days.set(dayKey, loading);
+    return loading;
+  }
+
+  /**
+   * The timetable's entries for a date plus calendar events, with that date's overrides applied
+   */
+  private async resolveSchedule(date: Date): Promise<ResolvedSchedule> {
+    const entries = await this.timetableParser.getScheduleForDate(date);
+    if (this.calendar) {
+      // Calendar events go in start-time order among the timetable's entries
+      for (const event of await this.calendar.getEntriesForDate(date)) {
+        const index = entries.findIndex(existing => existing.startTime > event.startTime);
+        entries.splice(index < 0 ? entries.length : index, 0, event);
+      }
+    }
+    if (!this.scheduleOverrides) {
+      return { entries, cancelled: [] };
+    }
+
+    const overrides = await this.scheduleOverrides.getOverridesForDate(date);
+    return ScheduleOverrideService.apply(
+      entries,
+      overrides,
+      (timeSlot, activity) => this.timetableParser.parseRow({ timeSlot, activity }, date)
+    );
+  }
+
+  private buildIndex({ entries, cancelled }: ResolvedSchedule): IndexedSchedule {
+    [...entries, ...cancelled].forEach(entry => Object.freeze(entry));
+    const byStart = entries
+      .map(entry => ({ entry, start: this.getMinuteOfDay(entry.startTime) }))
+      .sort((a, b) => a.start - b.start);
+
+    const schedule: IndexedSchedule = { entries, cancelled, byStart: [], startMinutes: [], endMinutes: [], maxEndMinutes: [] };
+    let maxEnd = 0;
+    for (const { entry, start } of byStart) {
+      const end = start + Math.round((entry.endTime.getTime() - entry.startTime.getTime()) / 60000);
+      maxEnd = Math.max(maxEnd, end);
+      schedule.byStart.push(entry);
+      schedule.startMinutes.push(start);
+      schedule.endMinutes.push(end);
+      schedule.maxEndMinutes.push(maxEnd);
+    }
+    return schedule;
+  }
+
+  /**
+   * Binary search: index of the last start at or before the minute, -1 if none
+   */
+  private lastIndexAtOrBefore(startMinutes: number[], minute: number): number {
+    let low = 0;
+    let high = startMinutes.length - 1;
+    let found = -1;
+
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if ((startMinutes[middle] as number) <= minute) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return found;
+  }
+
+  private getMinuteOfDay(time: Date): number {
+    const local = moment.tz(time, this.getTimezone());
+    return local.hours() * 60 + local.minutes();
+  }
+}
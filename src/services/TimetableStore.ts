@@ -0,0 +1,233 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import { TimetableRow } from '../types';
+import { StoredTimetableRow } from '../models/StoredTimetableRow';
+import { TimetableRowSource } from './TimetableParser';
+
+// A stored row together with its id, as shown in the dashboard editor
+export interface TimetableRowRecord extends TimetableRow {
+  id: string;
+}
+
+export type TimetableChangeHandler = () => Promise<void> | void;
+
+// Row fields that may be left out; an update without them clears them
+const OPTIONAL_FIELDS = ['category', 'location', 'priority', 'reminderMinutesBefore', 'reminderOffsets', 'tags'] as const;
+
+/**
+ * Timetable Store for BarakahTracker
+ * Keeps a user's timetable in MongoDB so it can be edited from the web dashboard.
+ * The CSV seeds the store on first connect; until then (or without a database) the CSV is used as before.
+ */
+export class TimetableStore implements TimetableRowSource {
+  private userId: string;
+  private cachedRows: TimetableRowRecord[] | null = null;
+  private changeHandlers: TimetableChangeHandler[] = [];
+
+  constructor(userId: string = 'default') {
+    this.userId = userId;
+  }
+
+  /**
+   * Register a handler to run after the stored timetable changes
+   */
+  public onChange(handler: TimetableChangeHandler): void {
+    this.changeHandlers.push(handler);
+  }
+
+  public isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Rows for the timetable parser, or null to fall back to the CSV
+   */
+  public async getRows(): Promise<TimetableRow[] | null> {
+    if (!this.cachedRows && !this.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const rows = await this.list();
+      return rows.length > 0 ? rows : null;
+    } catch (error) {
+      console.error('❌ Error reading stored timetable, using CSV:', error);
+      return null;
+    }
+  }
+
+  /**
+   * All stored rows, ordered by start time
+   */
+  public async list(): Promise<TimetableRowRecord[]> {
+    if (this.cachedRows) {
+      return this.cachedRows;
+    }
+    this.requireDatabase();
+
+    const stored = await StoredTimetableRow.find({ userId: this.userId }).lean();
+    this.cachedRows = stored
+      .map(row => this.toRecord(row))
+      .sort((a, b) => this.getStartMinute(a) - this.getStartMinute(b));
+    return this.cachedRows;
+  }
+
+  public async create(row: TimetableRow): Promise<TimetableRowRecord> {
+    this.requireDatabase();
+
+    const created = await StoredTimetableRow.create({ ...this.toDocument(row), userId: this.userId });
+    await this.notifyChange();
+    return this.toRecord(created.toObject());
+  }
+
+  /**
+   * Replace a row's fields, returning null if it does not exist
+   * Optional fields the row doesn't have are cleared
+   */
+  public async update(id: string, row: TimetableRow): Promise<TimetableRowRecord | null> {
+    this.requireDatabase();
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    const document = this.toDocument(row);
+    const cleared = OPTIONAL_FIELDS.filter(field => document[field] === undefined);
+    const updated = await StoredTimetableRow.findOneAndUpdate(
+      { _id: id, userId: this.userId },
+      cleared.length > 0
+        ? { $set: document, $unset: Object.fromEntries(cleared.map(field => [field, 1])) }
+        : { $set: document },
+      { new: true, runValidators: true }
+    ).lean();
+    if (!updated) {
+      return null;
+    }
+
+    await this.notifyChange();
+    return this.toRecord(updated);
+  }
+
+  public async remove(id: string): Promise<boolean> {
+    this.requireDatabase();
+    if (!mongoose.isValidObjectId(id)) {
+      return false;
+    }
+
+    const result = await StoredTimetableRow.deleteOne({ _id: id, userId: this.userId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Replace the whole stored timetable, e.g. when importing a CSV
+   * Every row is validated and the new rows are inserted before the old ones are deleted,
+   * so a failed import leaves the stored timetable as it was
+   */
+  public async replaceAll(rows: TimetableRow[]): Promise<number> {
+    this.requireDatabase();
+
+    const documents = rows.map(row => new StoredTimetableRow({ ...this.toDocument(row), userId: this.userId }));
+    const errors = documents
+      .map((document, index) => ({ index, error: document.validateSync() }))
+      .filter(result => result.error)
+      .map(result => `row ${result.index + 1}: ${result.error?.message}`);
+    if (errors.length > 0) {
+      throw new Error(`Invalid timetable rows, nothing imported: ${errors.join('; ')}`);
+    }
+
+    const ids = documents.map(document => document._id);
+    try {
+      await StoredTimetableRow.insertMany(documents);
+    } catch (error) {
+      await StoredTimetableRow.deleteMany({ _id: { $in: ids } }).catch(cleanupError =>
+        console.error('❌ Failed to remove partly imported timetable rows:', cleanupError));
+      throw error;
+    }
+    await StoredTimetableRow.deleteMany({ userId: this.userId, _id: { $nin: ids } });
+    console.log(`🗂️ Imported ${rows.length} timetable rows for ${this.userId}`);
+    await this.notifyChange();
+    return rows.length;
+  }
+
+  /**
+   * Fill an empty store from the CSV rows; a store that already has rows is left alone
+   * Returns true when the rows were imported
+   */
+  public async seed(rows: TimetableRow[]): Promise<boolean> {
+    if (!this.isAvailable() || rows.length === 0) {
+      return false;
+    }
+
+    const existing = await StoredTimetableRow.countDocuments({ userId: this.userId });
+    if (existing > 0) {
+      return false;
+    }
+
+    await this.replaceAll(rows);
+    return true;
+  }
+
+  private async notifyChange(): Promise<void> {
+    this.cachedRows = null;
+
+    for (const handler of this.changeHandlers) {
+      try {
+        await handler();
+      } catch (error) {
+        console.error('❌ Error in timetable change handler:', error);
+      }
+    }
+  }
+
+  private requireDatabase(): void {
+    if (!this.isAvailable()) {
+      throw new Error('Database not connected - timetable edits are stored in MongoDB');
+    }
+  }
+
+  /**
+   * Fields to store for a row; empty metadata is left out
+   */
+  private toDocument(row: TimetableRow): Omit<TimetableRow, 'day'> & { day: string } {
+    const document: Omit<TimetableRow, 'day'> & { day: string } = {
+      timeSlot: row.timeSlot.trim(),
+      activity: row.activity.trim(),
+      day: (row.day || '').trim()
+    };
+    if (row.category) document.category = row.category.trim();
+    if (row.location) document.location = row.location.trim();
+    if (row.priority) document.priority = row.priority;
+    if (row.reminderMinutesBefore !== undefined) document.reminderMinutesBefore = row.reminderMinutesBefore;
+    if (row.reminderOffsets && row.reminderOffsets.length > 0) document.reminderOffsets = row.reminderOffsets;
+    if (row.tags && row.tags.length > 0) document.tags = row.tags;
+    return document;
+  }
+
+  private toRecord(row: { _id: unknown } & TimetableRow): TimetableRowRecord {
+    const record: TimetableRowRecord = {
+      id: String(row._id),
+      timeSlot: row.timeSlot,
+      activity: row.activity
+    };
+    if (row.day) record.day = row.day;
+    if (row.category) record.category = row.category;
+    if (row.location) record.location = row.location;
+    if (row.priority) record.priority = row.priority;
+    if (row.reminderMinutesBefore !== undefined && row.reminderMinutesBefore !== null) record.reminderMinutesBefore = row.reminderMinutesBefore;
+    if (row.reminderOffsets && row.reminderOffsets.length > 0) record.reminderOffsets = row.reminderOffsets;
+    if (row.tags && row.tags.length > 0) record.tags = row.tags;
+    return record;
+  }
+
+  /**
+   * Minutes after midnight the row starts at, for ordering
+   */
+  private getStartMinute(row: TimetableRow): number {
+    const start = moment(row.timeSlot.split(/\s+to\s+/i)[0] || '', 'h:mm A');
+    return start.isValid() ? start.hours() * 60 + start.minutes() : 0;
+  }
+}
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TimetableRow } from '../types';
+import { TimetableParser } from './TimetableParser';
+import { LocaleService } from './LocaleService';
+
+// Slots that differ between two versions of the timetable file(s)
+export interface TimetableDiff {
+  added: TimetableRow[];
+  removed: TimetableRow[];
+  changed: Array<{ before: TimetableRow; after: TimetableRow }>;
+}
+
+export type TimetableFileChangeHandler = (diff: TimetableDiff) => Promise<void> | void;
+
+/**
+ * Timetable Watcher for BarakahTracker
+ * Watches a user's timetable CSV (and its per-day files) and reports which slots changed,
+ * so reminders can be rebuilt mid-day instead of waiting for midnight
+ */
+export class TimetableWatcher {
+  private timetableParser: TimetableParser;
+  private debounceMs: number;
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private snapshot: TimetableRow[] = [];
+  private snapshotFile: string = '';
+  private changeHandlers: TimetableFileChangeHandler[] = [];
+
+  constructor(timetableParser: TimetableParser, debounceMs: number = 500) {
+    this.timetableParser = timetableParser;
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Register a handler to run when the timetable file(s) change
+   */
+  public onChange(handler: TimetableFileChangeHandler): void {
+    this.changeHandlers.push(handler);
+  }
+
+  public async start(): Promise<void> {
+    if (this.watcher) {
+      return;
+    }
+
+    await this.takeSnapshot();
+
+    // Watch the directory rather than the file: editors often replace the file, and per-day files can be added
+    const timetableFile = this.timetableParser.getTimetableFile();
+    const directory = path.dirname(timetableFile);
+    const extension = path.extname(timetableFile);
+    // Schedule profiles' files count too, in case a profile takes over mid-day
+    const baseNames = this.timetableParser.getTimetableFiles()
+      .filter(file => path.dirname(file) === directory)
+      .map(file => path.basename(file, path.extname(file)));
+
+    try {
+      this.watcher = fs.watch(directory, (eventType, fileName) => {
+        const name = fileName ? fileName.toString() : '';
+        if (name && (!baseNames.some(baseName => name.startsWith(baseName)) || !name.endsWith(extension))) {
+          return;
+        }
+        this.scheduleCheck();
+      });
+      this.watcher.on('error', (error) => console.error('❌ Timetable watcher error:', error));
+      console.log(`👀 Watching ${timetableFile} for changes`);
+    } catch (error) {
+      console.error(`⚠️ Could not watch ${timetableFile}, changes will apply at midnight:`, error);
+    }
+  }
+
+  public stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Re-read the file(s) and notify handlers when any slot changed
+   * Returns the diff, or null when nothing changed (e.g. the file was only touched)
+   */
+  public async checkForChanges(): Promise<TimetableDiff | null> {
+    const activeFile = this.timetableParser.getActiveProfile().timetableFile;
+    if (activeFile !== this.snapshotFile) {
+      // A different profile took over since the snapshot; compare from its file on the next change
+      await this.takeSnapshot();
+      return null;
+    }
+
+    const before = this.snapshot;
+    let after: TimetableRow[];
+    try {
+      after = await this.timetableParser.exportCsvRows(activeFile);
+    } catch (error) {
+      // Half-written files and editors' temporary renames - try again on the next event
+      console.warn('⚠️ Could not read changed timetable:', error);
+      return null;
+    }
+
+    this.snapshot = after;
+    const diff = TimetableWatcher.diffRows(before, after);
+    if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+      return null;
+    }
+
+    console.log(`📝 Timetable file changed:\n${TimetableWatcher.formatDiff(diff)}`);
+    for (const handler of this.changeHandlers) {
+      try {
+        await handler(diff);
+      } catch (error) {
+        console.error('❌ Error in timetable file change handler:', error);
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Compare two versions of the timetable
+   * Slots are matched by time and days; a different activity in the same slot counts as changed
+   */
+  public static diffRows(before: TimetableRow[], after: TimetableRow[]): TimetableDiff {
+    const key = (row: TimetableRow) => `${row.timeSlot.trim().toLowerCase()}|${(row.day || '').trim().toLowerCase()}`;
+    const beforeByKey = new Map(before.map(row => [key(row), row]));
+    const afterByKey = new Map(after.map(row => [key(row), row]));
+    const diff: TimetableDiff = { added: [], removed: [], changed: [] };
+
+    for (const [rowKey, row] of afterByKey) {
+      const previous = beforeByKey.get(rowKey);
+      if (!previous) {
+        diff.added.push(row);
+      } else if (previous.activity.trim() !== row.activity.trim()) {
+        diff.changed.push({ before: previous, after: row });
+      }
+    }
+    for (const [rowKey, row] of beforeByKey) {
+      if (!afterByKey.has(rowKey)) {
+        diff.removed.push(row);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Describe a diff as one line per slot, in the locale's language
+   */
+  public static formatDiff(diff: TimetableDiff, locale: LocaleService = new LocaleService()): string {
+    const slot = (row: TimetableRow) => ({ timeSlot: row.timeSlot, day: row.day || '' });
+
+    return [
+      ...diff.added.map(row => locale.t('timetable.added', { ...slot(row), activity: row.activity })),
+      ...diff.removed.map(row => locale.t('timetable.removed', { ...slot(row), activity: row.activity })),
+      ...diff.changed.map(({ before, after }) => locale.t('timetable.changed', { ...slot(after), before: before.activity, after: after.activity }))
+    ].join('\n');
+  }
+
+  private scheduleCheck(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    // Editors write in several steps; wait for the file to settle
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.checkForChanges().catch(error => console.error('❌ Error checking timetable changes:', error));
+    }, this.debounceMs);
+  }
+
+  private async takeSnapshot(): Promise<void> {
+    this.snapshotFile = this.timetableParser.getActiveProfile().timetableFile;
+    try {
+      this.snapshot = await this.timetableParser.exportCsvRows(this.snapshotFile);
+    } catch (error) {
+      console.error('⚠️ Could not read timetable for change detection:', error);
+      this.snapshot = [];
+    }
+  }
+}
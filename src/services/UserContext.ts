@@ -0,0 +1,275 @@
+import * as path from 'path';
+import { PrayerTimesConfig } from '../types';
+import { IUserProfile } from '../models/User';
+import { TimetableParser } from './TimetableParser';
+import { TimetableRepository } from './TimetableRepository';
+import { ScheduleOverrideService } from './ScheduleOverrideService';
+import { ICalendarService } from './ICalendarService';
+import { SchedulerService } from './SchedulerService';
+import { ActivityTracker } from './ActivityTracker';
+import { CheckInSlotPlanner } from './CheckInSlotPlanner';
+import { CategoryService } from './CategoryService';
+import { MessageTemplateService } from './MessageTemplateService';
+import { CommandRouter } from './CommandRouter';
+import { ReminderLogService } from './ReminderLogService';
+import { PrayerTimesService } from './PrayerTimesService';
+import { TimetableStore } from './TimetableStore';
+import { TimetableDiff, TimetableWatcher } from './TimetableWatcher';
+import { IWhatsAppService, IncomingWhatsAppMessage } from './WhatsAppService';
+
+/**
+ * Everything that runs for a single user: their timetable, reminders, check-ins and chat commands
+ * All users share one WhatsApp connection
+ */
+export class UserContext {
+  public readonly user: IUserProfile;
+  public readonly timetableParser: TimetableParser;
+  public readonly timetableRepository: TimetableRepository;
+  public readonly timetableStore: TimetableStore;
+  public readonly scheduleOverrides: ScheduleOverrideService;
+  public readonly calendar: ICalendarService;
+  public readonly timetableWatcher: TimetableWatcher;
+  public readonly schedulerService: SchedulerService;
+  public readonly checkInSlots: CheckInSlotPlanner;
+  public readonly categories: CategoryService;
+  public readonly messages: MessageTemplateService;
+  public readonly activityTracker: ActivityTracker;
+  public readonly commandRouter: CommandRouter;
+  private whatsappService: IWhatsAppService;
+  private isRunning = false;
+  private profileChangeHandlers: Array<(profile: string | null) => Promise<void> | void> = [];
+
+  constructor(
+    user: IUserProfile,
+    whatsappService: IWhatsAppService,
+    prayerTimes?: PrayerTimesConfig,
+    categories: CategoryService = new CategoryService(),
+    templatesFile?: string
+  ) {
+    this.user = user;
+    this.whatsappService = whatsappService;
+    this.categories = categories;
+    this.messages = new MessageTemplateService(
+      user.userId,
+      user.timezone,
+      user.language,
+      templatesFile ? path.resolve(process.cwd(), templatesFile) : undefined
+    );
+
+    const timetableFilePath = path.resolve(process.cwd(), user.timetableFile);
+    const prayerTimesService = prayerTimes ? new PrayerTimesService(prayerTimes, user.timezone) : undefined;
+    this.timetableStore = new TimetableStore(user.userId);
+    const scheduleProfiles = (user.scheduleProfiles || []).map(profile => ({
+      ...profile,
+      timetableFile: path.resolve(process.cwd(), profile.timetableFile)
+    }));
+    this.timetableParser = new TimetableParser(
+      timetableFilePath,
+      user.timezone,
+      prayerTimesService,
+      this.timetableStore,
+      scheduleProfiles
+    );
+    this.selectStoredProfile(user.selectedProfile || null);
+    this.scheduleOverrides = new ScheduleOverrideService(user.userId, user.timezone);
+    this.calendar = new ICalendarService(
+      this.timetableParser,
+      user.calendarFile ? path.resolve(process.cwd(), user.calendarFile) : undefined
+    );
+    this.timetableRepository = new TimetableRepository(this.timetableParser, this.scheduleOverrides, this.calendar);
+    this.timetableStore.onChange(() => this.reload());
+    this.scheduleOverrides.onChange(() => this.reload());
+    this.timetableWatcher = new TimetableWatcher(this.timetableParser);
+    this.timetableWatcher.onChange(diff => this.onTimetableFileChange(diff));
+
+    this.schedulerService = new SchedulerService(
+      this.timetableRepository,
+      whatsappService,
+      {
+        minutesBefore: user.reminderMinutesBefore,
+        message: user.reminderMessage,
+        offsets: user.reminderOffsets,
+        escalation: user.reminderEscalation
+      },
+      user.phone,
+      user.timezone,
+      new ReminderLogService(user.timezone, user.userId),
+      categories,
+      this.messages
+    );
+
+    this.checkInSlots = new CheckInSlotPlanner(this.timetableRepository, user.checkIns);
+    this.activityTracker = new ActivityTracker(
+      this.timetableRepository,
+      whatsappService,
+      user.phone,
+      user.timezone,
+      user.userId,
+      user.activeHours,
+      this.checkInSlots,
+      categories,
+      this.messages
+    );
+    // Answering the check-in for an activity confirms it, like replying "done" to its reminder
+    this.activityTracker.onActivityRecorded(async slot => {
+      await this.schedulerService.confirmReminder(slot.startTime);
+    });
+
+    this.commandRouter = new CommandRouter(
+      this.activityTracker,
+      this.timetableRepository,
+      whatsappService,
+      user.phone,
+      this.schedulerService,
+      name => this.switchProfile(name),
+      this.messages.getLocale()
+    );
+  }
+
+  public async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    console.log(`👤 Starting reminders for ${this.user.name} (${this.user.userId})`);
+    await this.schedulerService.start();
+    await this.activityTracker.start();
+    await this.timetableWatcher.start();
+    this.isRunning = true;
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.timetableWatcher.stop();
+    await this.activityTracker.stop();
+    await this.schedulerService.stop();
+    this.isRunning = false;
+  }
+
+  /**
+   * Copy the user's CSV timetable into MongoDB the first time the database is available,
+   * so it can be edited from the dashboard
+   */
+  public async seedTimetable(): Promise<void> {
+    try {
+      const rows = await this.timetableParser.exportCsvRows();
+      if (await this.timetableStore.seed(rows)) {
+        console.log(`🗂️ Seeded stored timetable for ${this.user.userId} from ${this.user.timetableFile}`);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to seed timetable for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Apply timetable edits to the running reminders and check-ins without a restart
+   */
+  public async reload(): Promise<void> {
+    this.timetableRepository.invalidate();
+    if (!this.isRunning) {
+      return;
+    }
+
+    console.log(`🔄 Reloading timetable for ${this.user.userId}`);
+    await this.schedulerService.reload();
+    await this.activityTracker.reload();
+  }
+
+  /**
+   * Register a handler to run after the user switches schedule profile by command (null: back to profile dates)
+   */
+  public onProfileChange(handler: (profile: string | null) => Promise<void> | void): void {
+    this.profileChangeHandlers.push(handler);
+  }
+
+  /**
+   * Switch to a schedule profile by name (null to follow profile dates again) and reschedule today
+   * Returns false for an unknown profile
+   */
+  public async switchProfile(name: string | null): Promise<boolean> {
+    if (!this.timetableParser.selectProfile(name)) {
+      return false;
+    }
+
+    const active = this.timetableParser.getActiveProfile();
+    console.log(`🗂️ ${this.user.userId} switched to the ${active.name} schedule profile${name === null ? ' (by date)' : ''}`);
+    await this.reload();
+
+    for (const handler of this.profileChangeHandlers) {
+      try {
+        await handler(name);
+      } catch (error) {
+        console.error('❌ Error in schedule profile change handler:', error);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Go back to the profile the user switched to before a restart (stored with their user), rescheduling if it changed
+   */
+  public async restoreProfileSelection(name: string | null): Promise<void> {
+    if (name === this.timetableParser.getProfileSelection()) {
+      return;
+    }
+    this.selectStoredProfile(name);
+    await this.reload();
+  }
+
+  private selectStoredProfile(name: string | null): void {
+    if (!this.timetableParser.selectProfile(name)) {
+      console.warn(`⚠️ ${this.user.userId}'s saved schedule profile "${name}" no longer exists, following profile dates`);
+      this.timetableParser.selectProfile(null);
+    }
+  }
+
+  /**
+   * The CSV was edited: rebuild today's reminders and tell the user what changed
+   * While the timetable is stored in MongoDB the store stays in charge, so dashboard edits are kept and the
+   * file is only applied when it is imported from the dashboard
+   */
+  private async onTimetableFileChange(diff: TimetableDiff): Promise<void> {
+    const usesStore = this.timetableParser.getActiveProfile().name === TimetableParser.DEFAULT_PROFILE;
+    const locale = this.messages.getLocale();
+    const changes = TimetableWatcher.formatDiff(diff, locale);
+
+    if (usesStore && await this.timetableStore.getRows()) {
+      console.log(`🗂️ ${this.user.timetableFile} changed, keeping ${this.user.userId}'s stored timetable until it is imported`);
+      await this.whatsappService.sendMessage(this.user.phone, locale.t('timetable.fileChanged', { changes }));
+      return;
+    }
+
+    await this.reload();
+    await this.whatsappService.sendMessage(this.user.phone, locale.t('timetable.updated', { changes }));
+  }
+
+  /**
+   * Handle a message this user sent
+   * Tapped check-in buttons and commands are answered first; anything else is a check-in reply for the activity tracker
+   */
+  public async handleMessage(message: IncomingWhatsAppMessage): Promise<void> {
+    const text = message.text.trim();
+    if (!text) {
+      return;
+    }
+
+    // Tapped check-in buttons and mood rows
+    if (message.replyId && await this.activityTracker.handleReply(message.replyId)) {
+      return;
+    }
+
+    if (await this.commandRouter.route(message)) {
+      return;
+    }
+
+    const reply = await this.activityTracker.handleResponse(text);
+    await this.whatsappService.sendMessage(this.user.phone, reply);
+  }
+
+  public isContextRunning(): boolean {
+    return this.isRunning;
+  }
+}
\ No newline at end of file
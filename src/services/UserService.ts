@@ -0,0 +1,408 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import { ConfigService } from '../config/ConfigService';
+import { IUserProfile, User } from '../models/User';
+import { CheckInSlotPlanner } from './CheckInSlotPlanner';
+import { SchedulerService } from './SchedulerService';
+import { LocaleService } from './LocaleService';
+import { TemplateEngine } from './TemplateEngine';
+import { CategoryReminderOffsets, ScheduleProfile } from '../types';
+
+export type NewUserInput = Pick<IUserProfile, 'userId' | 'name' | 'phone'> & Partial<IUserProfile>;
+
+// Fields a registration may set; anything else is refused
+const REGISTRATION_FIELDS = [
+  'userId', 'name', 'phone', 'timezone', 'timetableFile', 'reminderMinutesBefore', 'reminderMessage', 'language',
+  'reminderOffsets', 'reminderEscalation', 'activeHours', 'scheduleProfiles', 'calendarFile', 'checkIns'
+];
+
+const TIMETABLE_EXTENSIONS = ['.csv', '.json', '.yaml', '.yml'];
+const CALENDAR_EXTENSIONS = ['.ics'];
+
+/**
+ * User Service for BarakahTracker
+ * The primary user comes from .env; family members who join are stored in MongoDB
+ */
+export class UserService {
+  private static instance: UserService;
+  public static readonly DEFAULT_USER_ID = 'default';
+  private configService: ConfigService;
+
+  private constructor() {
+    this.configService = ConfigService.getInstance();
+  }
+
+  public static getInstance(): UserService {
+    if (!UserService.instance) {
+      UserService.instance = new UserService();
+    }
+    return UserService.instance;
+  }
+
+  /**
+   * The primary user configured through environment variables
+   */
+  public getDefaultUser(): IUserProfile {
+    const config = this.configService.getConfig();
+    return {
+      userId: UserService.DEFAULT_USER_ID,
+      name: 'Default',
+      phone: UserService.normalizePhone(this.configService.getRecipientPhone()),
+      timezone: config.timezone,
+      timetableFile: config.timetableFile,
+      reminderMinutesBefore: config.reminderConfig.minutesBefore,
+      reminderMessage: config.reminderConfig.message,
+      language: config.language,
+      reminderOffsets: config.reminderConfig.offsets,
+      reminderEscalation: config.reminderConfig.escalation,
+      scheduleProfiles: this.configService.getScheduleProfiles(),
+      calendarFile: this.configService.getCalendarFile(),
+      checkIns: this.configService.getCheckInConfig(),
+      isActive: true
+    };
+  }
+
+  /**
+   * All active users: the primary user plus those stored in MongoDB (when connected)
+   */
+  public async getUsers(): Promise<IUserProfile[]> {
+    const users = [this.getDefaultUser()];
+    if (!this.isDbConnected()) {
+      return users;
+    }
+
+    try {
+      const stored = await User.find({ isActive: true }).lean<IUserProfile[]>();
+      for (const user of stored) {
+        if (user.userId === UserService.DEFAULT_USER_ID) {
+          continue;
+        }
+        if (!this.hasFilesInTimetableDir(user)) {
+          console.warn(`⚠️ Skipping user ${user.userId} - their timetable or calendar file is outside ${this.configService.getTimetableDir()}`);
+          continue;
+        }
+        users.push(this.toProfile(user));
+      }
+    } catch (error) {
+      console.error('❌ Failed to load users:', error);
+    }
+
+    return users;
+  }
+
+  /**
+   * The schedule profile a user switched to by command, or null when they follow profile dates (or without a database)
+   */
+  public async getProfileSelection(userId: string): Promise<string | null> {
+    if (!this.isDbConnected()) {
+      return null;
+    }
+
+    const user = await User.findOne({ userId }).select('selectedProfile').lean<Pick<IUserProfile, 'selectedProfile'>>();
+    return user?.selectedProfile || null;
+  }
+
+  /**
+   * Remember the schedule profile a user switched to by command (null to follow profile dates), so restarts keep it
+   * The primary user is configured through .env, so their document is created here with just the required fields
+   */
+  public async saveProfileSelection(userId: string, profile: string | null): Promise<void> {
+    if (!this.isDbConnected()) {
+      console.warn(`⚠️ Database not connected - ${userId}'s schedule profile is kept until the next restart only`);
+      return;
+    }
+
+    const update = profile === null ? { $unset: { selectedProfile: 1 } } : { $set: { selectedProfile: profile } };
+    if (userId !== UserService.DEFAULT_USER_ID) {
+      await User.updateOne({ userId }, update);
+      return;
+    }
+
+    const { name, phone, timezone, timetableFile } = this.getDefaultUser();
+    await User.updateOne({ userId }, { ...update, $setOnInsert: { name, phone, timezone, timetableFile } }, { upsert: true });
+  }
+
+  /**
+   * Read a registration request body, keeping only the fields a new user may set
+   * Throws when the body has other fields or a field of the wrong type
+   */
+  public static parseRegistration(body: unknown): NewUserInput {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('Registration should be a JSON object');
+    }
+
+    const fields = body as { [field: string]: any };
+    const unknown = Object.keys(fields).filter(field => !REGISTRATION_FIELDS.includes(field));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown field(s): ${unknown.join(', ')}`);
+    }
+
+    const text = (field: string): string | undefined => {
+      const value = fields[field];
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error(`${field} should be text`);
+      }
+      return String(value);
+    };
+    const list = (field: string): any[] | undefined => {
+      const value = fields[field];
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      if (!Array.isArray(value)) {
+        throw new Error(`${field} should be a list`);
+      }
+      return value;
+    };
+    const offsets = (field: string): CategoryReminderOffsets[] | undefined => list(field)?.map(chain => ({
+      category: String(chain?.category ?? ''),
+      offsets: Array.isArray(chain?.offsets) ? chain.offsets.map(Number) : []
+    }));
+
+    const input: NewUserInput = {
+      userId: text('userId') || '',
+      name: text('name') || '',
+      phone: text('phone') || ''
+    };
+    const timezone = text('timezone');
+    if (timezone) input.timezone = timezone;
+    const timetableFile = text('timetableFile');
+    if (timetableFile) input.timetableFile = timetableFile;
+    if (fields.reminderMinutesBefore !== undefined && fields.reminderMinutesBefore !== null) {
+      input.reminderMinutesBefore = Number(fields.reminderMinutesBefore);
+    }
+    input.reminderMessage = text('reminderMessage');
+    input.language = text('language');
+    input.reminderOffsets = offsets('reminderOffsets');
+    input.reminderEscalation = offsets('reminderEscalation');
+    if (fields.activeHours) {
+      input.activeHours = { start: String(fields.activeHours.start ?? ''), end: String(fields.activeHours.end ?? '') };
+    }
+    input.scheduleProfiles = list('scheduleProfiles')?.map(scheduleProfile => {
+      const copy: ScheduleProfile = { name: String(scheduleProfile?.name ?? ''), timetableFile: String(scheduleProfile?.timetableFile ?? '') };
+      if (scheduleProfile?.startDate) copy.startDate = String(scheduleProfile.startDate);
+      if (scheduleProfile?.endDate) copy.endDate = String(scheduleProfile.endDate);
+      return copy;
+    });
+    input.calendarFile = text('calendarFile');
+    if (fields.checkIns) {
+      input.checkIns = {
+        mode: fields.checkIns.mode === 'interval' ? 'interval' : 'entries',
+        intervalMinutes: Number(fields.checkIns.intervalMinutes)
+      };
+    }
+    return input;
+  }
+
+  /**
+   * Register a new user, filling unset preferences from the primary user's configuration
+   * Their own timetable and calendar files are read from the timetable directory (TIMETABLE_DIR)
+   */
+  public async createUser(input: NewUserInput): Promise<IUserProfile> {
+    if (!this.isDbConnected()) {
+      throw new Error('Database not connected - users are stored in MongoDB');
+    }
+
+    const defaults = this.getDefaultUser();
+    const fileErrors: string[] = [];
+    const profile: IUserProfile = {
+      userId: String(input.userId || '').trim().toLowerCase(),
+      name: String(input.name || '').trim(),
+      phone: UserService.normalizePhone(String(input.phone || '')),
+      timezone: input.timezone || defaults.timezone,
+      timetableFile: input.timetableFile
+        ? this.resolveUserFile(input.timetableFile, TIMETABLE_EXTENSIONS, fileErrors)
+        : defaults.timetableFile,
+      reminderMinutesBefore: input.reminderMinutesBefore ?? defaults.reminderMinutesBefore,
+      reminderMessage: input.reminderMessage,
+      language: input.language ? String(input.language).trim().toLowerCase() : defaults.language,
+      reminderOffsets: input.reminderOffsets ?? defaults.reminderOffsets,
+      reminderEscalation: input.reminderEscalation ?? defaults.reminderEscalation,
+      activeHours: input.activeHours,
+      // The primary user's profiles only fit when sharing their timetable
+      scheduleProfiles: input.scheduleProfiles
+        ? input.scheduleProfiles.map(scheduleProfile => ({
+          ...scheduleProfile,
+          timetableFile: this.resolveUserFile(scheduleProfile.timetableFile, TIMETABLE_EXTENSIONS, fileErrors)
+        }))
+        : (input.timetableFile ? undefined : defaults.scheduleProfiles),
+      calendarFile: input.calendarFile ? this.resolveUserFile(input.calendarFile, CALENDAR_EXTENSIONS, fileErrors) : undefined,
+      checkIns: input.checkIns ?? defaults.checkIns,
+      isActive: input.isActive ?? true
+    };
+
+    // Checked like the stored users' files at startup, so a wrong path is refused now rather than failing later
+    if (fileErrors.length === 0) {
+      const timetableFiles = [profile.timetableFile, ...(profile.scheduleProfiles || []).map(scheduleProfile => scheduleProfile.timetableFile)];
+      timetableFiles
+        .filter(file => file && !fs.existsSync(path.resolve(process.cwd(), file)))
+        .forEach(file => fileErrors.push(`Timetable file not found: ${file}`));
+    }
+
+    const errors = [...fileErrors, ...this.validateUser(profile)];
+    const existing = await this.getUsers();
+    if (existing.some(user => user.userId === profile.userId)) {
+      errors.push(`User id already taken: ${profile.userId}`);
+    }
+    if (existing.some(user => UserService.phonesMatch(user.phone, profile.phone))) {
+      errors.push(`Phone number already registered: ${profile.phone}`);
+    }
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const user = await User.create(profile);
+    console.log(`👤 Registered user ${profile.userId} (${profile.name})`);
+    return this.toProfile(user.toObject());
+  }
+
+  /**
+   * Check a profile for missing or invalid fields
+   */
+  public validateUser(profile: IUserProfile): string[] {
+    const errors: string[] = [];
+
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(profile.userId)) {
+      errors.push('User id should contain only letters, numbers, "-" and "_"');
+    }
+    if (!profile.name) {
+      errors.push('User name is required');
+    }
+    if (profile.phone.length < 10) {
+      errors.push('Phone number should include the country code');
+    }
+    if (!moment.tz.zone(profile.timezone)) {
+      errors.push(`Unknown timezone: ${profile.timezone}`);
+    }
+    if (!profile.timetableFile) {
+      errors.push('Timetable file path is required');
+    }
+    if (!Number.isInteger(profile.reminderMinutesBefore) || profile.reminderMinutesBefore < 0 || profile.reminderMinutesBefore > 120) {
+      errors.push('Reminder minutes should be a whole number between 0 and 120');
+    }
+    if (profile.activeHours) {
+      const { start, end } = profile.activeHours;
+      if (!moment(start, 'HH:mm', true).isValid() || !moment(end, 'HH:mm', true).isValid()) {
+        errors.push('Active hours should be 24-hour times like 05:00 and 23:30');
+      }
+    }
+    if (profile.checkIns) {
+      errors.push(...CheckInSlotPlanner.validateConfig(profile.checkIns));
+    }
+    if (profile.language && !LocaleService.isSupported(profile.language)) {
+      errors.push(`Unsupported language: ${profile.language} (use ${LocaleService.getSupportedLanguages().join(', ')})`);
+    }
+    if (profile.reminderMessage) {
+      errors.push(...TemplateEngine.validate(profile.reminderMessage).map(error => `Reminder message: ${error}`));
+    }
+    errors.push(...SchedulerService.validateReminderOffsets(profile.reminderOffsets || []));
+    errors.push(...SchedulerService.validateEscalation(profile.reminderEscalation || []));
+    for (const scheduleProfile of profile.scheduleProfiles || []) {
+      if (!/^[a-z0-9][a-z0-9_-]*$/.test(scheduleProfile.name) || !scheduleProfile.timetableFile) {
+        errors.push(`Schedule profile "${scheduleProfile.name}" needs a simple name and a timetable file`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find the user a WhatsApp number belongs to
+   */
+  public static findByPhone<T extends { phone: string }>(users: T[], phone: string): T | undefined {
+    return users.find(user => UserService.phonesMatch(user.phone, phone));
+  }
+
+  /**
+   * Compare phone numbers by their trailing digits so "+92 301 ..." and "0301..." match
+   */
+  public static phonesMatch(a: string, b: string): boolean {
+    const first = UserService.normalizePhone(a);
+    const second = UserService.normalizePhone(b);
+    if (!first || !second) {
+      return false;
+    }
+    return first.slice(-10) === second.slice(-10);
+  }
+
+  public static normalizePhone(phone: string): string {
+    return phone.replace(/[^0-9]/g, '');
+  }
+
+  /**
+   * Place a registered user's file in the timetable directory
+   * Only relative paths without ".." and with a known extension are accepted
+   */
+  private resolveUserFile(file: string, extensions: string[], errors: string[]): string {
+    const relative = file.trim().replace(/\\/g, '/');
+    if (!relative || path.posix.isAbsolute(relative) || path.win32.isAbsolute(relative) || relative.split('/').includes('..')) {
+      errors.push(`File should be a path inside the timetable directory: ${file}`);
+      return file;
+    }
+    if (!extensions.includes(path.extname(relative).toLowerCase())) {
+      errors.push(`Unsupported file type: ${file} (use ${extensions.join(', ')})`);
+      return file;
+    }
+    return path.join(this.configService.getTimetableDir(), relative);
+  }
+
+  /**
+   * Whether all of a stored user's files are in the timetable directory, so they cannot be used to read other files
+   */
+  private hasFilesInTimetableDir(user: IUserProfile): boolean {
+    const directory = path.resolve(this.configService.getTimetableDir());
+    const files = [user.timetableFile, user.calendarFile, ...(user.scheduleProfiles || []).map(profile => profile.timetableFile)];
+    return files.every(file => {
+      if (!file) {
+        return true;
+      }
+      const relative = path.relative(directory, path.resolve(file));
+      return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+    });
+  }
+
+  private isDbConnected(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Strip Mongo-specific fields from a stored user
+   */
+  private toProfile(user: IUserProfile): IUserProfile {
+    const profile: IUserProfile = {
+      userId: user.userId,
+      name: user.name,
+      phone: user.phone,
+      timezone: user.timezone,
+      timetableFile: user.timetableFile,
+      reminderMinutesBefore: user.reminderMinutesBefore,
+      isActive: user.isActive
+    };
+    if (user.reminderMessage) profile.reminderMessage = user.reminderMessage;
+    if (user.language) profile.language = user.language;
+    if (user.reminderOffsets && user.reminderOffsets.length > 0) {
+      profile.reminderOffsets = user.reminderOffsets.map(offsets => ({ category: offsets.category, offsets: [...offsets.offsets] }));
+    }
+    if (user.reminderEscalation && user.reminderEscalation.length > 0) {
+      profile.reminderEscalation = user.reminderEscalation.map(chain => ({ category: chain.category, offsets: [...chain.offsets] }));
+    }
+    if (user.activeHours) profile.activeHours = { start: user.activeHours.start, end: user.activeHours.end };
+    if (user.calendarFile) profile.calendarFile = user.calendarFile;
+    if (user.checkIns) profile.checkIns = { mode: user.checkIns.mode, intervalMinutes: user.checkIns.intervalMinutes };
+    if (user.scheduleProfiles && user.scheduleProfiles.length > 0) {
+      profile.scheduleProfiles = user.scheduleProfiles.map(scheduleProfile => {
+        const copy: ScheduleProfile = { name: scheduleProfile.name, timetableFile: scheduleProfile.timetableFile };
+        if (scheduleProfile.startDate) copy.startDate = scheduleProfile.startDate;
+        if (scheduleProfile.endDate) copy.endDate = scheduleProfile.endDate;
+        return copy;
+      });
+    }
+    if (user.selectedProfile) profile.selectedProfile = user.selectedProfile;
+    return profile;
+  }
+}
\ No newline at end of file
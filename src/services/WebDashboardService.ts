@@ -1,11 +1,56 @@
+import * as crypto from 'crypto';
 import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
 import compression from 'compression';
-import { DailyTracking, IDailyTracking } from '../models/DailyTracking';
-import { TimetableParser } from './TimetableParser';
+import { DailyTracking, IDailyTracking, hasTimeRange } from '../models/DailyTracking';
+import { TimetableRepository } from './TimetableRepository';
+import { TimetableStore } from './TimetableStore';
+import { ScheduleOverrideService } from './ScheduleOverrideService';
+import { ICalendarService } from './ICalendarService';
+import { TimetableLinter } from './TimetableLinter';
+import { TimetableFileReader } from './TimetableFileReader';
+import { CheckInSlotPlanner } from './CheckInSlotPlanner';
+import { CategoryService } from './CategoryService';
+import { MessageTemplateService } from './MessageTemplateService';
+import { LocaleService } from './LocaleService';
+import { OutboundMessageQueue } from './OutboundMessageQueue';
 import { DatabaseService } from './DatabaseService';
 import { MemoryMonitorService } from './MemoryMonitorService';
-import moment from 'moment';
+import { WhatsAppWebhookService } from './WhatsAppWebhookService';
+import { UserService } from './UserService';
+import moment from 'moment-timezone';
+import { TimetableRow } from '../types';
+
+export interface DashboardUser {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Lets the dashboard look up the users the bot is serving
+ */
+export interface DashboardUserDirectory {
+  getTimetable(userId: string): TimetableRepository | undefined;
+  getTimetableStore?(userId: string): TimetableStore | undefined;
+  getScheduleOverrides?(userId: string): ScheduleOverrideService | undefined;
+  getCheckInSlots?(userId: string): CheckInSlotPlanner | undefined;
+  getCategories?(userId: string): CategoryService | undefined;
+  getMessageTemplates?(userId: string): MessageTemplateService | undefined;
+  listUsers(): DashboardUser[];
+  createUser?(input: any): Promise<DashboardUser>;
+}
+
+// The user a dashboard request is scoped to (?user=<userId>, primary user when omitted)
+interface DashboardScope {
+  userId: string;
+  timetable: TimetableRepository;
+  timetableStore: TimetableStore | undefined;
+  scheduleOverrides: ScheduleOverrideService | undefined;
+  checkInSlots: CheckInSlotPlanner;
+  categories: CategoryService;
+  messages: MessageTemplateService;
+  locale: LocaleService; // Dashboard language: ?lang=ur, else the user's
+}
 
 /**
  * Web Dashboard Service for BarakahTracker
@@ -15,12 +60,27 @@ export class WebDashboardService {
   private app: Express;
   private server: any;
   private port: number;
-  private timetableParser: TimetableParser;
+  private timetable: TimetableRepository;
+  private webhookService: WhatsAppWebhookService | undefined;
+  private userDirectory: DashboardUserDirectory | undefined;
+  private outboundQueue: OutboundMessageQueue | undefined;
+  private adminToken: string | undefined;
   private isRunning = false;
 
-  constructor(port: number, timetableParser: TimetableParser) {
+  constructor(
+    port: number,
+    timetable: TimetableRepository,
+    webhookService?: WhatsAppWebhookService,
+    userDirectory?: DashboardUserDirectory,
+    outboundQueue?: OutboundMessageQueue,
+    adminToken?: string
+  ) {
     this.port = port;
-    this.timetableParser = timetableParser;
+    this.timetable = timetable;
+    this.webhookService = webhookService;
+    this.userDirectory = userDirectory;
+    this.outboundQueue = outboundQueue;
+    this.adminToken = adminToken;
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
@@ -40,7 +100,13 @@ export class WebDashboardService {
     this.app.use(cors());
     
     // Parse JSON bodies with size limit for memory efficiency
-    this.app.use(express.json({ limit: '1mb' }));
+    // Keep the raw bytes around - webhook signatures are computed over the exact payload
+    this.app.use(express.json({
+      limit: '1mb',
+      verify: (req: Request, res: Response, buf: Buffer) => {
+        (req as any).rawBody = buf;
+      }
+    }));
     
     // Parse URL-encoded bodies with size limit
     this.app.use(express.urlencoded({ extended: true, limit: '1mb' }));
@@ -80,7 +146,8 @@ export class WebDashboardService {
         service: 'BarakahTracker Web Dashboard',
         uptime: process.uptime(),
         version: 'v1.2.1-token-updated',
-        commit: process.env.GIT_COMMIT || 'unknown'
+        commit: process.env.GIT_COMMIT || 'unknown',
+        outboundQueue: this.outboundQueue?.getStats() // Messages waiting for a retry and dead-lettered ones
       });
     });
 
@@ -147,11 +214,58 @@ export class WebDashboardService {
       }
     });
 
+    // WhatsApp Cloud API webhook verification (subscription handshake)
+    this.app.get('/webhook', (req: Request, res: Response) => {
+      if (!this.webhookService) {
+        res.status(404).json({ error: 'WhatsApp webhook is not enabled' });
+        return;
+      }
+
+      const challenge = this.webhookService.verifyChallenge(
+        String(req.query['hub.mode'] || ''),
+        String(req.query['hub.verify_token'] || ''),
+        String(req.query['hub.challenge'] || '')
+      );
+
+      if (challenge === null) {
+        res.sendStatus(403);
+        return;
+      }
+
+      res.status(200).send(challenge);
+    });
+
+    // WhatsApp Cloud API webhook notifications (messages, statuses, errors)
+    this.app.post('/webhook', async (req: Request, res: Response) => {
+      if (!this.webhookService) {
+        res.status(404).json({ error: 'WhatsApp webhook is not enabled' });
+        return;
+      }
+
+      if (!this.webhookService.verifySignature((req as any).rawBody, req.get('X-Hub-Signature-256'))) {
+        console.warn('🚫 Rejected WhatsApp webhook payload with invalid signature');
+        res.sendStatus(401);
+        return;
+      }
+
+      // Acknowledge straight away - Meta retries deliveries that take too long
+      res.sendStatus(200);
+
+      try {
+        await this.webhookService.handlePayload(req.body);
+      } catch (error) {
+        console.error('❌ Failed to process WhatsApp webhook payload:', error);
+      }
+    });
+
     // Main dashboard route - today's diary
     this.app.get('/', async (req: Request, res: Response) => {
       try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
         const today = new Date();
-        await this.renderDiary(req, res, today);
+        await this.renderDiary(req, res, today, scope);
       } catch (error) {
         this.handleError(res, error, 'Failed to load today\'s diary');
       }
@@ -160,15 +274,18 @@ export class WebDashboardService {
     // Specific date diary route
     this.app.get('/diary/:date', async (req: Request, res: Response) => {
       try {
-        const dateStr = req.params.date;
-        const date = moment(dateStr, 'DD-MMM-YYYY').toDate();
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        const dateStr = String(req.params.date);
+        const date = moment.tz(dateStr, 'DD-MMM-YYYY', scope.timetable.getTimezone()).toDate();
         
         if (!moment(date).isValid()) {
           res.status(400).json({ error: 'Invalid date format. Use DD-MMM-YYYY (e.g., 10-Nov-2025)' });
           return;
         }
         
-        await this.renderDiary(req, res, date);
+        await this.renderDiary(req, res, date, scope);
       } catch (error) {
         this.handleError(res, error, 'Failed to load diary for specified date');
       }
@@ -177,10 +294,13 @@ export class WebDashboardService {
     // API endpoint to get diary data as JSON
     this.app.get('/api/diary/:date', async (req: Request, res: Response) => {
       try {
-        const dateStr = req.params.date;
-        const date = moment(dateStr, 'DD-MMM-YYYY').toDate();
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        const dateStr = String(req.params.date);
+        const date = moment.tz(dateStr, 'DD-MMM-YYYY', scope.timetable.getTimezone()).toDate();
         
-        const diaryData = await this.getDiaryData(date);
+        const diaryData = await this.getDiaryData(date, scope);
         res.json(diaryData);
       } catch (error) {
         this.handleError(res, error, 'Failed to fetch diary data');
@@ -190,8 +310,11 @@ export class WebDashboardService {
         // API Routes
     this.app.get('/api/diary', async (req: Request, res: Response) => {
       try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
         const date = new Date();
-        const diaryData = await this.getDiaryData(date);
+        const diaryData = await this.getDiaryData(date, scope);
         res.json(diaryData);
       } catch (error) {
         res.status(500).json({ error: 'Failed to fetch diary data' });
@@ -201,41 +324,52 @@ export class WebDashboardService {
     // Debug endpoint to see tracking data
     this.app.get('/api/debug', async (req: Request, res: Response) => {
       try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        const timezone = scope.timetable.getTimezone();
         const date = new Date();
         const dbService = DatabaseService.getInstance();
         
         const result = {
           serverTime: new Date().toISOString(),
+          userId: scope.userId,
+          timezone,
+          profile: scope.timetable.getActiveProfile(date).name,
           dbConnected: dbService.isDbConnected(),
           tracking: null as any,
+          checkIns: scope.checkInSlots.getConfig(),
           generatedSlots: [] as string[],
           matchTest: {} as any
         };
         
         if (dbService.isDbConnected()) {
-          const tracking = await DailyTracking.getByDate(date);
+          const tracking = await DailyTracking.getByDate(date, scope.userId, timezone);
           if (tracking) {
             result.tracking = {
               date: tracking.date,
               userId: tracking.userId,
+              profile: tracking.profile,
               entriesCount: tracking.entries.length,
               firstEntry: tracking.entries[0] ? {
-                timeSlot: (tracking.entries[0] as any).timeSlot,
-                plannedActivity: (tracking.entries[0] as any).plannedActivity
+                startTime: tracking.entries[0].startTime,
+                timeSlot: tracking.entries[0].timeSlot,
+                plannedActivity: tracking.entries[0].plannedActivity
               } : null
             };
           }
           
-          // Test time slot matching
+          // Test slot matching
           if (tracking && tracking.entries.length > 0) {
-            const timeSlots = this.generateTimeSlots();
-            result.generatedSlots = timeSlots.slice(8, 12); // Around 5 AM area
+            const slots = await scope.checkInSlots.getSlotsForDate(date);
+            result.generatedSlots = slots.slice(0, 12).map(slot => slot.timeSlot);
             
-            const firstEntry = tracking.entries[0] as any;
+            const firstEntry = tracking.entries[0];
+            const slot = firstEntry?.startTime ? slots.find(slot => slot.startTime.getTime() === firstEntry.startTime.getTime()) : undefined;
             result.matchTest = {
-              dbSlot: firstEntry.timeSlot,
-              generatedSlot: timeSlots[10] || 'undefined',
-              matches: timeSlots[10] ? this.timeSlotMatches(firstEntry.timeSlot, timeSlots[10]) : false
+              dbSlot: firstEntry?.timeSlot,
+              generatedSlot: slot?.timeSlot || 'undefined',
+              matches: !!slot
             };
           }
         }
@@ -249,23 +383,26 @@ export class WebDashboardService {
     // Refresh planned activities endpoint
     this.app.post('/api/refresh-planned-activities', async (req: Request, res: Response) => {
       try {
-        console.log('🔄 Manual refresh of planned activities requested');
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        console.log(`🔄 Manual refresh of planned activities requested for ${scope.userId}`);
         
-        // Get today's tracking and timetable
-        const tracking = await DailyTracking.findOrCreateToday();
-        const todaySchedule = await this.timetableParser.getTodaySchedule();
+        // Re-read the timetable, then today's tracking
+        scope.timetable.invalidate();
+        const tracking = await DailyTracking.findOrCreateToday(scope.userId, scope.timetable.getTimezone());
+        const todaySlots = await scope.checkInSlots.getSlotsForDate(new Date());
         
         let updatedCount = 0;
         
         // Force update all entries with planned activities
-        for (const scheduleEntry of todaySchedule) {
-          const normalizedTimeSlot = scheduleEntry.timeSlot.replace(' to ', ' - ');
-          const existingEntry = tracking.entries.find((e: any) => e.timeSlot === normalizedTimeSlot);
+        for (const slot of todaySlots.filter(slot => slot.entry)) {
+          const existingEntry = tracking.findEntry(slot.startTime);
           
           if (existingEntry) {
-            existingEntry.plannedActivity = scheduleEntry.activity;
+            existingEntry.plannedActivity = slot.plannedActivity;
             updatedCount++;
-            console.log(`🔄 Force updated: ${normalizedTimeSlot} -> ${scheduleEntry.activity}`);
+            console.log(`🔄 Force updated: ${slot.timeSlot} -> ${slot.plannedActivity}`);
           }
         }
         
@@ -287,8 +424,11 @@ export class WebDashboardService {
     // API endpoint to get statistics
     this.app.get('/api/stats/:days', async (req: Request, res: Response) => {
       try {
-        const days = parseInt(req.params.days || '7', 10);
-        const stats = await this.getStats(days);
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        const days = parseInt(String(req.params.days || '7'), 10);
+        const stats = await this.getStats(days, scope);
         res.json(stats);
       } catch (error) {
         this.handleError(res, error, 'Failed to fetch statistics');
@@ -298,14 +438,299 @@ export class WebDashboardService {
     // API endpoint to get default statistics (7 days)
     this.app.get('/api/stats', async (req: Request, res: Response) => {
       try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
         const days = 7;
-        const stats = await this.getStats(days);
+        const stats = await this.getStats(days, scope);
         res.json(stats);
       } catch (error) {
         this.handleError(res, error, 'Failed to fetch statistics');
       }
     });
 
+    // Users the bot is serving
+    this.app.get('/api/users', (req: Request, res: Response) => {
+      const users = this.userDirectory ? this.userDirectory.listUsers() : [{ userId: UserService.DEFAULT_USER_ID, name: 'Default' }];
+      res.json({ users });
+    });
+
+    // Register a family member (stored in MongoDB, reminders start straight away)
+    this.app.post('/api/users', async (req: Request, res: Response) => {
+      if (!this.requireAdmin(req, res)) return;
+      if (!this.userDirectory?.createUser) {
+        res.status(404).json({ error: 'User registration is not enabled' });
+        return;
+      }
+
+      try {
+        const user = await this.userDirectory.createUser(UserService.parseRegistration(req.body));
+        res.status(201).json({ success: true, user });
+      } catch (error: any) {
+        res.status(400).json({ error: 'Failed to register user', details: error?.message || 'Unknown error' });
+      }
+    });
+
+    // Timetable editor page
+    this.app.get('/timetable', (req: Request, res: Response) => {
+      const scope = this.resolveScope(req, res);
+      if (!scope) return;
+
+      res.send(this.generateTimetableEditorHTML(scope));
+    });
+
+    // Timetable as an iCalendar feed to subscribe to from Google/Apple Calendar
+    this.app.get('/timetable.ics', async (req: Request, res: Response) => {
+      try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        const feed = await new ICalendarService(scope.timetable.getParser()).exportTimetable();
+        res.type('text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `inline; filename="barakahtracker-${scope.userId}.ics"`);
+        res.send(feed);
+      } catch (error) {
+        this.handleError(res, error, 'Failed to export timetable');
+      }
+    });
+
+    // Timetable rows - from MongoDB when connected, otherwise read-only from the CSV
+    this.app.get('/api/timetable', async (req: Request, res: Response) => {
+      try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        if (scope.timetableStore?.isAvailable()) {
+          const rows = await scope.timetableStore.list();
+          res.json({ userId: scope.userId, source: 'database', editable: true, rows });
+          return;
+        }
+
+        const rows = await scope.timetable.getParser().exportCsvRows();
+        res.json({ userId: scope.userId, source: 'csv', editable: false, rows });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to load timetable');
+      }
+    });
+
+    // Overlaps, gaps and slots off the 30-minute grid in the active timetable
+    this.app.get('/api/timetable/lint', async (req: Request, res: Response) => {
+      try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        const report = await new TimetableLinter(scope.timetable.getParser()).lint();
+        res.json({ userId: scope.userId, ...report });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to lint timetable');
+      }
+    });
+
+    // Add a timetable row
+    this.app.post('/api/timetable', async (req: Request, res: Response) => {
+      try {
+        if (!this.requireAdmin(req, res)) return;
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+        const store = this.requireTimetableStore(scope, res);
+        if (!store) return;
+
+        const { row, errors } = this.readTimetableRow(req.body, scope);
+        if (!row) {
+          res.status(400).json({ error: 'Invalid timetable row', details: errors.join('; ') });
+          return;
+        }
+
+        res.status(201).json({ success: true, row: await store.create(row) });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to add timetable row');
+      }
+    });
+
+    // Update a timetable row
+    this.app.put('/api/timetable/:id', async (req: Request, res: Response) => {
+      try {
+        if (!this.requireAdmin(req, res)) return;
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+        const store = this.requireTimetableStore(scope, res);
+        if (!store) return;
+
+        const { row, errors } = this.readTimetableRow(req.body, scope);
+        if (!row) {
+          res.status(400).json({ error: 'Invalid timetable row', details: errors.join('; ') });
+          return;
+        }
+
+        const updated = await store.update(String(req.params.id), row);
+        if (!updated) {
+          res.status(404).json({ error: 'Timetable row not found' });
+          return;
+        }
+        res.json({ success: true, row: updated });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to update timetable row');
+      }
+    });
+
+    // Delete a timetable row
+    this.app.delete('/api/timetable/:id', async (req: Request, res: Response) => {
+      try {
+        if (!this.requireAdmin(req, res)) return;
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+        const store = this.requireTimetableStore(scope, res);
+        if (!store) return;
+
+        if (!(await store.remove(String(req.params.id)))) {
+          res.status(404).json({ error: 'Timetable row not found' });
+          return;
+        }
+        res.json({ success: true });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to delete timetable row');
+      }
+    });
+
+    // Replace the stored timetable with the user's CSV file(s)
+    this.app.post('/api/timetable/import', async (req: Request, res: Response) => {
+      try {
+        if (!this.requireAdmin(req, res)) return;
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+        const store = this.requireTimetableStore(scope, res);
+        if (!store) return;
+
+        const rows = await scope.timetable.getParser().exportCsvRows();
+        const imported = await store.replaceAll(rows);
+        res.json({ success: true, imported });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to import timetable');
+      }
+    });
+
+    // Date-specific overrides: one-off events, replaced slots and cancellations
+    this.app.get('/api/overrides', async (req: Request, res: Response) => {
+      try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+        if (!scope.scheduleOverrides?.isAvailable()) {
+          res.json({ userId: scope.userId, overrides: [] });
+          return;
+        }
+
+        const today = moment.tz(scope.timetable.getTimezone()).format('YYYY-MM-DD');
+        const overrides = (await scope.scheduleOverrides.list()).filter(override => override.endDate >= today);
+        res.json({ userId: scope.userId, overrides });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to load overrides');
+      }
+    });
+
+    this.app.post('/api/overrides', async (req: Request, res: Response) => {
+      if (!this.requireAdmin(req, res)) return;
+      const scope = this.resolveScope(req, res);
+      if (!scope) return;
+      if (!scope.scheduleOverrides?.isAvailable()) {
+        res.status(503).json({ error: 'Schedule overrides need a database connection' });
+        return;
+      }
+
+      try {
+        const override = await scope.scheduleOverrides.create(req.body || {});
+        res.status(201).json({ success: true, override });
+      } catch (error: any) {
+        res.status(400).json({ error: 'Failed to add override', details: error?.message || 'Unknown error' });
+      }
+    });
+
+    this.app.delete('/api/overrides/:id', async (req: Request, res: Response) => {
+      try {
+        if (!this.requireAdmin(req, res)) return;
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+        if (!scope.scheduleOverrides?.isAvailable()) {
+          res.status(503).json({ error: 'Schedule overrides need a database connection' });
+          return;
+        }
+
+        if (!(await scope.scheduleOverrides.remove(String(req.params.id)))) {
+          res.status(404).json({ error: 'Override not found' });
+          return;
+        }
+        res.json({ success: true });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to delete override');
+      }
+    });
+
+    // Message templates: ?lang=ur for another language
+    this.app.get('/api/templates', async (req: Request, res: Response) => {
+      try {
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+
+        const language = String(req.query.lang || scope.messages.getLanguage()).toLowerCase();
+        res.json({ userId: scope.userId, language, templates: await scope.messages.list(language) });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to load templates');
+      }
+    });
+
+    // Render a template with sample data; ?body=... previews a draft without saving it
+    this.app.get('/api/templates/:name/preview', async (req: Request, res: Response) => {
+      const scope = this.resolveScope(req, res);
+      if (!scope) return;
+
+      try {
+        const language = String(req.query.lang || scope.messages.getLanguage()).toLowerCase();
+        const body = typeof req.query.body === 'string' ? req.query.body : undefined;
+        const preview = await scope.messages.preview(String(req.params.name), language, body);
+        res.json({ name: req.params.name, language, preview });
+      } catch (error: any) {
+        res.status(400).json({ error: 'Failed to preview template', details: error?.message || 'Unknown error' });
+      }
+    });
+
+    this.app.put('/api/templates/:name', async (req: Request, res: Response) => {
+      if (!this.requireAdmin(req, res)) return;
+      const scope = this.resolveScope(req, res);
+      if (!scope) return;
+      if (!scope.messages.isAvailable()) {
+        res.status(503).json({ error: 'Saving templates needs a database connection' });
+        return;
+      }
+
+      try {
+        const language = String(req.body?.language || scope.messages.getLanguage()).toLowerCase();
+        const template = await scope.messages.save(String(req.params.name), String(req.body?.body ?? ''), language);
+        res.json({ success: true, template });
+      } catch (error: any) {
+        res.status(400).json({ error: 'Failed to save template', details: error?.message || 'Unknown error' });
+      }
+    });
+
+    this.app.delete('/api/templates/:name', async (req: Request, res: Response) => {
+      try {
+        if (!this.requireAdmin(req, res)) return;
+        const scope = this.resolveScope(req, res);
+        if (!scope) return;
+        if (!scope.messages.isAvailable()) {
+          res.status(503).json({ error: 'Saving templates needs a database connection' });
+          return;
+        }
+
+        const language = String(req.query.lang || scope.messages.getLanguage()).toLowerCase();
+        if (!(await scope.messages.remove(String(req.params.name), language))) {
+          res.status(404).json({ error: 'Template not customised' });
+          return;
+        }
+        res.json({ success: true });
+      } catch (error) {
+        this.handleError(res, error, 'Failed to delete template');
+      }
+    });
+
     // 404 handler
     this.app.use((req: Request, res: Response) => {
       res.status(404).json({
@@ -318,10 +743,10 @@ export class WebDashboardService {
   /**
    * Render the main diary page
    */
-  private async renderDiary(req: Request, res: Response, date: Date): Promise<void> {
+  private async renderDiary(req: Request, res: Response, date: Date, scope: DashboardScope): Promise<void> {
     try {
-      const diaryData = await this.getDiaryData(date);
-      const html = this.generateDiaryHTML(diaryData, date);
+      const diaryData = await this.getDiaryData(date, scope);
+      const html = this.generateDiaryHTML(diaryData, date, scope);
       res.send(html);
     } catch (error) {
       throw error;
@@ -331,16 +756,18 @@ export class WebDashboardService {
   /**
    * Get diary data for a specific date
    */
-  private async getDiaryData(date: Date): Promise<{
+  private async getDiaryData(date: Date, scope: DashboardScope): Promise<{
     date: Date;
     plannedSchedule: any[];
     actualActivities: any[];
     completionRate: number;
+    profile: string;
     summary: any;
   }> {
     try {
-      // Get planned schedule from timetable
-      const plannedSchedule = await this.timetableParser.getTodaySchedule();
+      // Get planned schedule from timetable for the requested day
+      const plannedSchedule = await scope.timetable.getScheduleForDate(date);
+      const cancelledSchedule = await scope.timetable.getCancelledEntries(date);
       console.log(`📅 Loaded ${plannedSchedule.length} entries from timetable`);
       
       // Get actual activities from database (with proper connection check)
@@ -350,7 +777,7 @@ export class WebDashboardService {
       
       if (dbService.isDbConnected()) {
         try {
-          tracking = await DailyTracking.getByDate(date);
+          tracking = await DailyTracking.getByDate(date, scope.userId, scope.timetable.getTimezone());
           debugInfo = `DB connected, tracking: ${tracking ? `${tracking.entries.length} entries, userId: ${tracking.userId}` : 'null'}`;
           console.log(`🔍 WebDashboard: ${debugInfo}`);
         } catch (dbError) {
@@ -363,24 +790,37 @@ export class WebDashboardService {
         console.log('ℹ️  Database not connected yet - showing planned schedule only');
       }
 
-      // Create 30-minute time slots for the entire day
-      const timeSlots = this.generateTimeSlots();
+      // The day's check-in slots: one block per timetable entry, free time on the check-in interval
+      const slots = await scope.checkInSlots.getSlotsForDate(date);
       
       // Merge planned and actual data
-      const mergedData = timeSlots.map(slot => {
-        // Find planned activity from timetable
-        const planned = plannedSchedule.find(entry => 
-          this.normalizeTimeSlot(entry.timeSlot) === this.normalizeTimeSlot(slot)
-        );
+      const mergedData = slots.map(slot => {
+        const start = slot.startTime.getTime();
+        const end = slot.endTime.getTime();
+        const planned = slot.entry;
         
-        // Find actual activity from tracking data
-        const actual = tracking?.entries.find(entry => 
-          this.normalizeTimeSlot((entry as any).timeSlot) === this.normalizeTimeSlot(slot)
+        // Entries an override took out that day, when nothing replaced them
+        const cancelled = planned ? undefined : cancelledSchedule.find(entry =>
+          entry.startTime.getTime() < end && start < entry.endTime.getTime()
         );
+        const override = planned?.override || cancelled?.override;
+
+        // Find actual activity from tracking data (recorded against a slot starting in this one)
+        const actual = tracking?.entries.find(entry =>
+          hasTimeRange(entry) && start <= entry.startTime.getTime() && entry.startTime.getTime() < end
+        );
+        const category = planned ? scope.categories.resolve(planned) : undefined;
         
         return {
-          timeSlot: slot,
-          plannedActivity: planned?.activity || 'Free time',
+          timeSlot: slot.timeSlot,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          durationMinutes: Math.round((end - start) / 60000),
+          plannedActivity: slot.plannedActivity,
+          category: category ? { name: category.name, emoji: category.emoji, colour: category.colour } : null,
+          override: override?.type || null,
+          overrideNote: override?.note || '',
+          cancelledActivity: cancelled?.activity || '',
           actualActivity: (actual as any)?.actualActivity || '',
           isCompleted: (actual as any)?.isCompleted || false,
           mood: (actual as any)?.mood || '',
@@ -398,6 +838,8 @@ export class WebDashboardService {
         plannedSchedule: mergedData,
         actualActivities: mergedData.filter(item => item.isCompleted),
         completionRate,
+        // The profile recorded for the day, else the one that applies to it now
+        profile: tracking?.profile || scope.timetable.getActiveProfile(date).name,
         summary: tracking?.getSummary() || {
           date,
           totalSlots: mergedData.length,
@@ -415,54 +857,37 @@ export class WebDashboardService {
   }
 
   /**
-   * Generate 30-minute time slots for the entire day
-   */
-  private generateTimeSlots(): string[] {
-    const slots: string[] = [];
-    const start = moment().startOf('day'); // 12:00 AM
-    
-    for (let i = 0; i < 48; i++) { // 24 hours * 2 (30-min slots)
-      const startTime = start.clone().add(i * 30, 'minutes');
-      const endTime = startTime.clone().add(30, 'minutes');
-      
-      slots.push(`${startTime.format('h:mm A')} - ${endTime.format('h:mm A')}`);
-    }
-    
-    return slots;
-  }
-
-  /**
-   * Check if two time slots match (allowing for slight format variations)
-   */
-  private timeSlotMatches(slot1: string, slot2: string): boolean {
-    // Normalize both slots to compare
-    const normalize = (slot: string) => slot.replace(/\s+/g, ' ').trim().toLowerCase();
-    return normalize(slot1) === normalize(slot2);
-  }
-
-  /**
-   * Normalize time slot format for comparison
-   * Converts "5:00 AM to 5:30 AM" to "5:00 AM - 5:30 AM"
+   * "2h 30m", "45m" (in the dashboard's language)
    */
-  private normalizeTimeSlot(timeSlot: string): string {
-    return timeSlot.replace(/\s+to\s+/gi, ' - ').replace(/\s+/g, ' ').trim().toLowerCase();
+  private formatDuration(minutes: number, locale: LocaleService): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return [
+      hours ? locale.t('dashboard.hours', { hours }) : '',
+      rest ? locale.t('dashboard.minutes', { minutes: rest }) : ''
+    ].filter(Boolean).join(' ') || locale.t('dashboard.minutes', { minutes: 0 });
   }
 
   /**
    * Get statistics for the last N days
    */
-  private async getStats(days: number = 7): Promise<any> {
+  private async getStats(days: number, scope: DashboardScope): Promise<any> {
+    const userId = scope.userId;
     try {
       const endDate = new Date();
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - days);
 
       let stats = null;
+      let byProfile: any[] = [];
+      let byCategory: any[] = [];
       const dbService = DatabaseService.getInstance();
       
       if (dbService.isDbConnected()) {
         try {
-          stats = await (DailyTracking as any).getStats(startDate, endDate);
+          stats = await (DailyTracking as any).getStats(startDate, endDate, userId);
+          byProfile = await DailyTracking.getStatsByProfile(startDate, endDate, userId);
+          byCategory = await this.getCategoryStats(startDate, endDate, scope);
         } catch (dbError) {
           console.log('⚠️  Database stats query failed:', dbError);
           stats = [];
@@ -481,7 +906,9 @@ export class WebDashboardService {
           completedEntries: 0,
           completionRate: 0,
           avgMood: []
-        }
+        },
+        byProfile, // Completion per schedule profile, e.g. Ramadan vs. normal days
+        byCategory // Completion per activity category, most tracked first
       };
     } catch (error) {
       console.error('❌ Failed to get stats:', error);
@@ -489,21 +916,55 @@ export class WebDashboardService {
     }
   }
 
+  /**
+   * Completion per activity category; entries recorded before categories were stored are put in one by
+   * their planned activity
+   */
+  private async getCategoryStats(startDate: Date, endDate: Date, scope: DashboardScope): Promise<any[]> {
+    const documents = await DailyTracking.find({ userId: scope.userId, date: { $gte: startDate, $lte: endDate } })
+      .lean<Pick<IDailyTracking, 'entries'>[]>();
+    const groups = new Map<string, { totalEntries: number; completedEntries: number }>();
+
+    for (const entry of documents.flatMap(document => document.entries)) {
+      const name = entry.category || scope.categories.resolveActivity(entry.plannedActivity)?.name || 'Uncategorised';
+      const group = groups.get(name) || { totalEntries: 0, completedEntries: 0 };
+      group.totalEntries++;
+      if (entry.isCompleted) group.completedEntries++;
+      groups.set(name, group);
+    }
+
+    return Array.from(groups.entries())
+      .map(([name, group]) => {
+        const category = scope.categories.getCategory(name);
+        return {
+          category: category.name,
+          emoji: category.emoji,
+          colour: category.colour,
+          ...group,
+          completionRate: group.completedEntries / group.totalEntries
+        };
+      })
+      .sort((a, b) => b.totalEntries - a.totalEntries);
+  }
+
   /**
    * Generate HTML for diary page
    */
-  private generateDiaryHTML(data: any, date: Date): string {
-    const dateStr = moment(date).format('MMMM Do, YYYY');
-    const today = moment().format('DD-MMM-YYYY');
-    const currentDate = moment(date).format('DD-MMM-YYYY');
+  private generateDiaryHTML(data: any, date: Date, scope: DashboardScope): string {
+    const timezone = scope.timetable.getTimezone();
+    const locale = scope.locale;
+    const userQuery = this.getUserQuery(scope, locale);
+    const dateStr = locale.format(date, 'MMMM Do, YYYY');
+    const today = moment.tz(timezone).format('DD-MMM-YYYY');
+    const currentDate = moment.tz(date, timezone).format('DD-MMM-YYYY');
     
     return `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${locale.getLanguage()}" dir="${locale.getDirection()}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>BarakahTracker Diary - ${dateStr}</title>
+    <title>${locale.t('dashboard.diaryTitle')} - ${dateStr}</title>
     <style>
         * {
             margin: 0;
@@ -545,6 +1006,11 @@ export class WebDashboardService {
             margin-bottom: 20px;
         }
         
+        .header .profile {
+            color: #4a5568;
+            margin: -10px 0 20px;
+        }
+        
         .stats {
             display: flex;
             justify-content: center;
@@ -609,25 +1075,44 @@ export class WebDashboardService {
             color: #2d3748;
             font-size: 0.9em;
         }
+
+        .duration {
+            font-weight: normal;
+            color: #718096;
+            font-size: 0.85em;
+            margin-top: 4px;
+        }
         
         .activity {
             padding: 10px;
             border-radius: 8px;
         }
         
+        .category-tag {
+            font-size: 0.8em;
+            font-weight: 600;
+            margin-top: 4px;
+        }
+
+        .override-tag {
+            font-size: 0.8em;
+            color: #b7791f;
+            margin-top: 4px;
+        }
+
         .planned {
             background: #bee3f8;
-            border-left: 4px solid #3182ce;
+            border-inline-start: 4px solid #3182ce;
         }
         
         .actual {
             background: #c6f6d5;
-            border-left: 4px solid #38a169;
+            border-inline-start: 4px solid #38a169;
         }
         
         .actual.empty {
             background: #fed7d7;
-            border-left: 4px solid #e53e3e;
+            border-inline-start: 4px solid #e53e3e;
             color: #718096;
             font-style: italic;
         }
@@ -699,47 +1184,53 @@ export class WebDashboardService {
 <body>
     <div class="container">
         <div class="header">
-            <h1>📊 BarakahTracker Diary</h1>
+            <h1>${locale.t('dashboard.diaryTitle')}</h1>
             <div class="date">${dateStr}</div>
+            <div class="profile">${locale.t('dashboard.profile', { name: data.profile })}</div>
             
             <div class="stats">
                 <div class="stat-item">
                     <div class="stat-value">${data.completionRate.toFixed(1)}%</div>
-                    <div class="stat-label">Completion Rate</div>
+                    <div class="stat-label">${locale.t('dashboard.completionRate')}</div>
                 </div>
                 <div class="stat-item">
                     <div class="stat-value">${data.summary.completedSlots}</div>
-                    <div class="stat-label">Completed</div>
+                    <div class="stat-label">${locale.t('dashboard.completed')}</div>
                 </div>
                 <div class="stat-item">
                     <div class="stat-value">${data.summary.pendingSlots}</div>
-                    <div class="stat-label">Pending</div>
+                    <div class="stat-label">${locale.t('dashboard.pending')}</div>
                 </div>
                 <div class="stat-item">
                     <div class="stat-value">${data.summary.totalSlots}</div>
-                    <div class="stat-label">Total Slots</div>
+                    <div class="stat-label">${locale.t('dashboard.totalSlots')}</div>
                 </div>
             </div>
         </div>
         
         <div class="diary-container">
             <div class="diary-header">
-                <div>Time Slot</div>
-                <div>📋 Planned Activity</div>
-                <div>✅ Actual Activity</div>
-                <div>Status</div>
+                <div>${locale.t('dashboard.timeSlot')}</div>
+                <div>${locale.t('dashboard.planned')}</div>
+                <div>${locale.t('dashboard.actual')}</div>
+                <div>${locale.t('dashboard.status')}</div>
             </div>
             
             ${data.plannedSchedule.map((item: any) => `
-                <div class="diary-row">
-                    <div class="time-slot">${item.timeSlot}</div>
+                <div class="diary-row" style="min-height: ${Math.round(Math.min(item.durationMinutes, 240) * 2)}px">
+                    <div class="time-slot">
+                        ${item.timeSlot}
+                        <div class="duration">${this.formatDuration(item.durationMinutes, locale)}</div>
+                    </div>
                     
-                    <div class="activity planned">
-                        ${item.plannedActivity}
+                    <div class="activity planned"${item.category ? ` style="border-inline-start-color: ${item.category.colour}"` : ''}>
+                        ${item.category ? `${item.category.emoji} ` : ''}${item.plannedActivity}
+                        ${item.category ? `<div class="category-tag" style="color: ${item.category.colour}">${item.category.name}</div>` : ''}
+                        ${item.override ? `<div class="override-tag">${this.describeOverride(item, locale)}</div>` : ''}
                     </div>
                     
                     <div class="activity ${item.actualActivity ? 'actual' : 'actual empty'}">
-                        ${item.actualActivity || 'No response recorded'}
+                        ${item.actualActivity || locale.t('dashboard.noResponse')}
                         ${item.mood ? `<div class="mood">${item.mood}</div>` : ''}
                         ${item.notes ? `<div class="notes">${item.notes}</div>` : ''}
                     </div>
@@ -755,10 +1246,12 @@ export class WebDashboardService {
         </div>
         
         <div class="navigation">
-            ${currentDate !== today ? `<a href="/" class="nav-button">📅 Today</a>` : ''}
-            <a href="/diary/${moment(date).subtract(1, 'day').format('DD-MMM-YYYY')}" class="nav-button">⬅️ Previous Day</a>
-            <a href="/diary/${moment(date).add(1, 'day').format('DD-MMM-YYYY')}" class="nav-button">➡️ Next Day</a>
-            <a href="/api/diary/${currentDate}" class="nav-button">📊 JSON Data</a>
+            ${currentDate !== today ? `<a href="/${userQuery}" class="nav-button">${locale.t('dashboard.today')}</a>` : ''}
+            <a href="/diary/${moment.tz(date, timezone).subtract(1, 'day').format('DD-MMM-YYYY')}${userQuery}" class="nav-button">${locale.t('dashboard.previousDay')}</a>
+            <a href="/diary/${moment.tz(date, timezone).add(1, 'day').format('DD-MMM-YYYY')}${userQuery}" class="nav-button">${locale.t('dashboard.nextDay')}</a>
+            <a href="/api/diary/${currentDate}${userQuery}" class="nav-button">${locale.t('dashboard.json')}</a>
+            <a href="/timetable${userQuery}" class="nav-button">${locale.t('dashboard.editTimetable')}</a>
+            <a href="/timetable.ics${userQuery}" class="nav-button">${locale.t('dashboard.calendarFeed')}</a>
         </div>
     </div>
 </body>
@@ -766,6 +1259,319 @@ export class WebDashboardService {
     `;
   }
 
+  /**
+   * Label for a diary slot changed by a date-specific override
+   */
+  private describeOverride(item: { override: string; overrideNote: string; cancelledActivity: string }, locale: LocaleService): string {
+    const labels: Record<string, string> = {
+      add: locale.t('dashboard.override.add'),
+      replace: locale.t('dashboard.override.replace'),
+      cancel: locale.t('dashboard.override.cancel', { activity: item.cancelledActivity })
+    };
+    const label = labels[item.override] || item.override;
+    return item.overrideNote ? `${label} - ${item.overrideNote}` : label;
+  }
+
+  /**
+   * Generate HTML for the timetable editor
+   * Rows are loaded and saved through the /api/timetable routes
+   */
+  private generateTimetableEditorHTML(scope: DashboardScope): string {
+    const locale = scope.locale;
+    const userQuery = this.getUserQuery(scope, locale);
+    // Texts the page's script shows
+    const labels = {
+      save: locale.t('editor.save'),
+      editable: locale.t('editor.editable'),
+      readOnly: locale.t('editor.readOnly'),
+      confirmImport: locale.t('editor.confirmImport'),
+      adminToken: locale.t('editor.adminToken')
+    };
+
+    return `
+<!DOCTYPE html>
+<html lang="${locale.getLanguage()}" dir="${locale.getDirection()}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${locale.t('editor.title')}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: #333;
+            line-height: 1.6;
+        }
+
+        .container { max-width: 1000px; margin: 0 auto; padding: 20px; }
+
+        .panel {
+            background: white;
+            border-radius: 15px;
+            padding: 30px;
+            margin-bottom: 20px;
+            box-shadow: 0 10px 30px rgba(0,0,0,0.1);
+        }
+
+        h1 { color: #4a5568; margin-bottom: 10px; }
+        .status { color: #718096; margin-bottom: 10px; }
+        .error { color: #c53030; min-height: 1.6em; }
+
+        table { width: 100%; border-collapse: collapse; }
+        th { text-align: start; color: #4a5568; padding: 8px; border-bottom: 2px solid #e2e8f0; }
+        td { padding: 6px 8px; border-bottom: 1px solid #edf2f7; }
+        input { width: 100%; padding: 6px 8px; border: 1px solid #cbd5e0; border-radius: 6px; }
+
+        button, .nav-button {
+            background: #4a5568;
+            color: white;
+            border: none;
+            padding: 6px 14px;
+            border-radius: 6px;
+            cursor: pointer;
+            text-decoration: none;
+            display: inline-block;
+        }
+        button.delete { background: #c53030; }
+        button:disabled { opacity: 0.5; cursor: not-allowed; }
+        .actions { white-space: nowrap; }
+        .toolbar { margin-top: 20px; display: flex; gap: 10px; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="panel">
+            <h1>${locale.t('editor.title')}</h1>
+            <div class="status" id="status">${locale.t('editor.loading')}</div>
+            <div class="error" id="error"></div>
+            <table>
+                <thead>
+                    <tr><th>${locale.t('dashboard.timeSlot')}</th><th>${locale.t('editor.activity')}</th><th>${locale.t('editor.day')}</th><th></th></tr>
+                </thead>
+                <tbody id="rows"></tbody>
+                <tfoot>
+                    <tr>
+                        <td><input id="new-timeSlot" placeholder="5:00 AM to 5:30 AM"></td>
+                        <td><input id="new-activity" placeholder="${locale.t('editor.activity')}"></td>
+                        <td><input id="new-day" placeholder="${locale.t('editor.everyDay')}"></td>
+                        <td class="actions"><button id="add">${locale.t('editor.add')}</button></td>
+                    </tr>
+                </tfoot>
+            </table>
+            <div class="toolbar">
+                <button id="import">${locale.t('editor.import')}</button>
+                <a href="/${userQuery}" class="nav-button">${locale.t('editor.backToDiary')}</a>
+            </div>
+        </div>
+    </div>
+    <script>
+        const api = '/api/timetable';
+        const userQuery = '${userQuery}';
+        const labels = ${JSON.stringify(labels)};
+        let editable = false;
+
+        function showError(message) {
+            document.getElementById('error').textContent = message || '';
+        }
+
+        // Edits need DASHBOARD_ADMIN_TOKEN; it is asked for once and kept for this tab
+        async function request(method, url, body, retried) {
+            const token = sessionStorage.getItem('adminToken');
+            const headers = { 'Content-Type': 'application/json' };
+            if (token) headers.Authorization = 'Bearer ' + token;
+            const response = await fetch(url + userQuery, {
+                method,
+                headers,
+                body: body ? JSON.stringify(body) : undefined
+            });
+            if (response.status === 401 && !retried) {
+                const entered = prompt(labels.adminToken);
+                if (entered) {
+                    sessionStorage.setItem('adminToken', entered);
+                    return request(method, url, body, true);
+                }
+            }
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.details || data.error || 'Request failed');
+            }
+            return data;
+        }
+
+        function cell(row, field) {
+            const td = document.createElement('td');
+            const input = document.createElement('input');
+            input.value = row[field] || '';
+            input.dataset.field = field;
+            input.disabled = !editable;
+            td.appendChild(input);
+            return td;
+        }
+
+        function readInputs(tr) {
+            const row = {};
+            tr.querySelectorAll('input').forEach(input => { row[input.dataset.field] = input.value; });
+            return row;
+        }
+
+        function renderRow(row) {
+            const tr = document.createElement('tr');
+            tr.appendChild(cell(row, 'timeSlot'));
+            tr.appendChild(cell(row, 'activity'));
+            tr.appendChild(cell(row, 'day'));
+
+            const actions = document.createElement('td');
+            actions.className = 'actions';
+            const save = document.createElement('button');
+            save.textContent = labels.save;
+            save.disabled = !editable;
+            // Send the row's other fields too, or the update would clear them
+            save.onclick = () => run(() => request('PUT', api + '/' + row.id, { ...row, ...readInputs(tr) }));
+            const remove = document.createElement('button');
+            remove.textContent = '🗑️';
+            remove.className = 'delete';
+            remove.disabled = !editable;
+            remove.onclick = () => run(() => request('DELETE', api + '/' + row.id));
+            actions.appendChild(save);
+            actions.appendChild(document.createTextNode(' '));
+            actions.appendChild(remove);
+            tr.appendChild(actions);
+            return tr;
+        }
+
+        async function load() {
+            const data = await request('GET', api);
+            editable = data.editable;
+            document.getElementById('status').textContent = editable ? labels.editable : labels.readOnly;
+            document.getElementById('add').disabled = !editable;
+            document.getElementById('import').disabled = !editable;
+
+            const tbody = document.getElementById('rows');
+            tbody.innerHTML = '';
+            data.rows.forEach(row => tbody.appendChild(renderRow(row)));
+        }
+
+        async function run(action) {
+            try {
+                showError('');
+                await action();
+                await load();
+            } catch (error) {
+                showError('❌ ' + error.message);
+            }
+        }
+
+        document.getElementById('add').onclick = () => run(async () => {
+            const row = {
+                timeSlot: document.getElementById('new-timeSlot').value,
+                activity: document.getElementById('new-activity').value,
+                day: document.getElementById('new-day').value
+            };
+            await request('POST', api, row);
+            ['new-timeSlot', 'new-activity', 'new-day'].forEach(id => { document.getElementById(id).value = ''; });
+        });
+
+        document.getElementById('import').onclick = () => {
+            if (confirm(labels.confirmImport)) {
+                run(() => request('POST', api + '/import'));
+            }
+        };
+
+        run(async () => {});
+    </script>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Work out which user a request is for; responds with 404 and returns null for unknown users
+   */
+  private resolveScope(req: Request, res: Response): DashboardScope | null {
+    const userId = String(req.query.user || UserService.DEFAULT_USER_ID).trim().toLowerCase();
+    const timetableStore = this.userDirectory?.getTimetableStore?.(userId);
+    const scheduleOverrides = this.userDirectory?.getScheduleOverrides?.(userId);
+    const timetable = userId === UserService.DEFAULT_USER_ID ? this.timetable : this.userDirectory?.getTimetable(userId);
+    if (!timetable) {
+      res.status(404).json({ error: `Unknown user: ${userId}` });
+      return null;
+    }
+    // Without a directory the diary uses the default check-in slots
+    const checkInSlots = this.userDirectory?.getCheckInSlots?.(userId) || new CheckInSlotPlanner(timetable);
+    const categories = this.userDirectory?.getCategories?.(userId) || new CategoryService();
+    const messages = this.userDirectory?.getMessageTemplates?.(userId) || new MessageTemplateService(userId, timetable.getTimezone());
+    const locale = req.query.lang ? new LocaleService(String(req.query.lang), timetable.getTimezone()) : messages.getLocale();
+    return { userId, timetable, timetableStore, scheduleOverrides, checkInSlots, categories, messages, locale };
+  }
+
+  /**
+   * Query string that keeps a page's links on the same user and dashboard language
+   */
+  private getUserQuery(scope: DashboardScope, locale: LocaleService): string {
+    const params = new URLSearchParams();
+    if (scope.userId !== UserService.DEFAULT_USER_ID) params.set('user', scope.userId);
+    if (locale.getLanguage() !== scope.messages.getLanguage()) params.set('lang', locale.getLanguage());
+    const query = params.toString();
+    return query ? `?${query}` : '';
+  }
+
+  /**
+   * Whether the request carries the admin token ("Authorization: Bearer <token>"); responds with 401/403 otherwise
+   * Routes that change data are disabled until DASHBOARD_ADMIN_TOKEN is set
+   */
+  private requireAdmin(req: Request, res: Response): boolean {
+    if (!this.adminToken) {
+      res.status(403).json({ error: 'Editing is disabled', details: 'Set DASHBOARD_ADMIN_TOKEN to enable it' });
+      return false;
+    }
+
+    const header = req.get('authorization') || '';
+    const token = header.startsWith('Bearer ') ? header.substring('Bearer '.length).trim() : '';
+    // Compare digests so the comparison takes as long whatever the token's length
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    if (!token || !crypto.timingSafeEqual(digest(token), digest(this.adminToken))) {
+      res.status(401).json({ error: 'Admin token required' });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * The scope's timetable store when edits can be saved; responds with 503 and returns null otherwise
+   */
+  private requireTimetableStore(scope: DashboardScope, res: Response): TimetableStore | null {
+    if (!scope.timetableStore || !scope.timetableStore.isAvailable()) {
+      res.status(503).json({ error: 'Timetable editing needs a database connection' });
+      return null;
+    }
+    return scope.timetableStore;
+  }
+
+  /**
+   * Read a timetable row from a request body, with the fields of a JSON timetable ("day" for the days)
+   * Returns a null row with the errors found when it is invalid
+   */
+  private readTimetableRow(body: any, scope: DashboardScope): { row: TimetableRow | null; errors: string[] } {
+    const fields = body && typeof body === 'object' ? body : {};
+    const record: Record<string, unknown> = {
+      timeSlot: String(fields.timeSlot || '').trim(),
+      activity: String(fields.activity || '').trim(),
+      days: fields.day
+    };
+    for (const field of ['category', 'location', 'priority', 'reminderMinutesBefore', 'reminderOffsets', 'tags']) {
+      if (fields[field] !== '') record[field] = fields[field];
+    }
+
+    const { row, errors } = TimetableFileReader.readRecord(record);
+    if (!row) {
+      return { row: null, errors };
+    }
+    const rowErrors = scope.timetable.getParser().validateRow(row);
+    return rowErrors.length > 0 ? { row: null, errors: rowErrors } : { row, errors: [] };
+  }
+
   /**
    * Handle errors and send appropriate response
    */
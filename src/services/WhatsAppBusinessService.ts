@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { IncomingMessageHandler, IncomingWhatsAppMessage, InteractiveMessage, dispatchIncomingMessage } from './WhatsAppService';
 
 export interface WhatsAppBusinessConfig {
   phoneNumber: string;
@@ -9,6 +10,13 @@ export interface WhatsAppBusinessConfig {
   apiVersion?: string;
 }
 
+export interface WhatsAppBusinessSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  statusCode?: number; // HTTP status of a failed request; none for network errors
+}
+
 /**
  * Ultra-Lightweight WhatsApp Business Platform Service
  * Uses direct HTTP calls to WhatsApp Business API (only ~4MB)
@@ -19,6 +27,7 @@ export class WhatsAppBusinessService {
   private config: WhatsAppBusinessConfig;
   private isReady: boolean = false;
   private onReadyCallback?: () => Promise<void> | void;
+  private messageHandlers: IncomingMessageHandler[] = [];
   private baseURL: string;
 
   constructor(config: WhatsAppBusinessConfig) {
@@ -30,6 +39,19 @@ export class WhatsAppBusinessService {
     this.onReadyCallback = callback;
   }
 
+  public onMessage(handler: IncomingMessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  /**
+   * Deliver an inbound message to subscribers
+   * The Cloud API pushes messages to our webhook, which hands them in here
+   */
+  public async receiveMessage(message: IncomingWhatsAppMessage): Promise<void> {
+    console.log(`📩 WhatsApp Business message received from ${message.from}`);
+    await dispatchIncomingMessage(this.messageHandlers, message);
+  }
+
   public async initialize(): Promise<void> {
     if (this.config.useMock) {
       console.log('🧪 WhatsApp Business Service initialized in MOCK mode');
@@ -103,28 +125,74 @@ export class WhatsAppBusinessService {
   }
 
   public async sendMessage(to: string, message: string): Promise<boolean> {
+    const result = await this.sendTextMessage(to, message);
+    return result.success;
+  }
+
+  /**
+   * Send a text message and return the WhatsApp message id on success
+   */
+  public async sendTextMessage(to: string, message: string): Promise<WhatsAppBusinessSendResult> {
     if (this.config.useMock) {
       console.log(`📱 MOCK: Would send WhatsApp Business message to ${to}: ${message}`);
-      return true;
+      return { success: true };
+    }
+
+    return this.postMessage(to, { type: 'text', text: { body: message } });
+  }
+
+  /**
+   * Send a message with reply buttons or a list (Cloud API interactive message)
+   * Buttons are used when given, otherwise the list
+   */
+  public async sendInteractive(to: string, message: InteractiveMessage): Promise<WhatsAppBusinessSendResult> {
+    if (this.config.useMock) {
+      const options = [...(message.buttons || []), ...(message.list?.sections.flatMap(section => section.rows) || [])];
+      console.log(`📱 MOCK: Would send WhatsApp Business interactive message to ${to}: ${message.body} [${options.map(option => option.title).join(' | ')}]`);
+      return { success: true };
     }
 
+    const interactive: any = message.buttons?.length
+      ? {
+          type: 'button',
+          action: { buttons: message.buttons.map(button => ({ type: 'reply', reply: { id: button.id, title: button.title } })) }
+        }
+      : {
+          type: 'list',
+          action: {
+            button: message.list?.button || '',
+            sections: (message.list?.sections || []).map(section => ({
+              title: section.title,
+              rows: section.rows.map(row => ({ id: row.id, title: row.title, ...(row.description ? { description: row.description } : {}) }))
+            }))
+          }
+        };
+    interactive.body = { text: message.body };
+    if (message.footer) {
+      interactive.footer = { text: message.footer };
+    }
+
+    return this.postMessage(to, { type: 'interactive', interactive });
+  }
+
+  /**
+   * POST a message to the Cloud API and return the WhatsApp message id on success
+   */
+  private async postMessage(to: string, content: Record<string, any>): Promise<WhatsAppBusinessSendResult> {
     if (!this.isReady) {
       console.error('❌ WhatsApp Business service not ready');
-      return false;
+      return { success: false, error: 'WhatsApp Business service not ready' };
     }
 
     try {
       // Format phone number for WhatsApp Business API (needs country code)
       const formattedNumber = this.formatPhoneNumber(to);
       
-      // Send text message using WhatsApp Business Platform
+      // Send the message using WhatsApp Business Platform
       const response = await axios.post(`${this.baseURL}/messages`, {
         messaging_product: 'whatsapp',
         to: formattedNumber,
-        type: 'text',
-        text: {
-          body: message
-        }
+        ...content
       }, {
         headers: {
           'Authorization': `Bearer ${this.config.accessToken}`,
@@ -132,15 +200,16 @@ export class WhatsAppBusinessService {
         }
       });
       
-      console.log(`✅ WhatsApp Business message sent to ${to}`);
-      console.log(`📊 Message ID: ${response.data.messages[0].id}`);
+      const messageId: string | undefined = response.data?.messages?.[0]?.id;
+      console.log(`✅ WhatsApp Business ${content.type} message sent to ${to}`);
+      console.log(`📊 Message ID: ${messageId}`);
       
       // Minimal memory usage - force cleanup after sending
       if (global.gc) {
         global.gc();
       }
       
-      return true;
+      return messageId ? { success: true, messageId } : { success: true };
       
     } catch (error: any) {
       console.error('❌ Failed to send WhatsApp Business message:', error.response?.data || error.message);
@@ -155,7 +224,11 @@ export class WhatsAppBusinessService {
         console.error('⏱️ Rate limit exceeded - wait before sending more messages');
       }
       
-      return false;
+      const result: WhatsAppBusinessSendResult = { success: false, error: errorMsg || 'Unknown error' };
+      if (error.response?.status) {
+        result.statusCode = error.response.status;
+      }
+      return result;
     }
   }
 
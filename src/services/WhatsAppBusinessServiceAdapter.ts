@@ -1,6 +1,6 @@
 import { WhatsAppBusinessService } from './WhatsAppBusinessService';
 import { WhatsAppConfig } from '../types';
-import { IWhatsAppService, WhatsAppMessage } from './WhatsAppService';
+import { IWhatsAppService, IncomingMessageHandler, IncomingWhatsAppMessage, InteractiveMessage, WhatsAppMessage } from './WhatsAppService';
 
 /**
  * Adapter for WhatsApp Business Platform Service
@@ -37,22 +37,39 @@ export class WhatsAppBusinessServiceAdapter implements IWhatsAppService {
     this.businessService.setOnReadyCallback(callback);
   }
 
+  public onMessage(handler: IncomingMessageHandler): void {
+    this.businessService.onMessage(handler);
+  }
+
+  public async receiveMessage(message: IncomingWhatsAppMessage): Promise<void> {
+    await this.businessService.receiveMessage(message);
+  }
+
   public async initialize(): Promise<void> {
     await this.businessService.initialize();
   }
 
   public async sendMessage(recipient: string, message: string): Promise<WhatsAppMessage> {
     try {
-      const success = await this.businessService.sendMessage(recipient, message);
+      const result = await this.businessService.sendTextMessage(recipient, message);
       
       const whatsAppMessage: WhatsAppMessage = {
         recipient,
         message,
         timestamp: new Date(),
-        success
+        success: result.success
       };
+      if (result.messageId) {
+        whatsAppMessage.messageId = result.messageId;
+      }
+      if (result.error) {
+        whatsAppMessage.error = result.error;
+      }
+      if (result.statusCode) {
+        whatsAppMessage.statusCode = result.statusCode;
+      }
 
-      if (success) {
+      if (result.success) {
         console.log(`✅ WhatsApp Business Platform message sent to ${recipient}: ${message}`);
       } else {
         console.error(`❌ Failed to send WhatsApp Business Platform message to ${recipient}`);
@@ -73,6 +90,48 @@ export class WhatsAppBusinessServiceAdapter implements IWhatsAppService {
     }
   }
 
+  /**
+   * Send a message with reply buttons or a list
+   */
+  public async sendInteractive(recipient: string, message: InteractiveMessage): Promise<WhatsAppMessage> {
+    try {
+      const result = await this.businessService.sendInteractive(recipient, message);
+
+      const whatsAppMessage: WhatsAppMessage = {
+        recipient,
+        message: message.body,
+        timestamp: new Date(),
+        success: result.success,
+        interactive: message
+      };
+      if (result.messageId) {
+        whatsAppMessage.messageId = result.messageId;
+      }
+      if (result.error) {
+        whatsAppMessage.error = result.error;
+      }
+      if (result.statusCode) {
+        whatsAppMessage.statusCode = result.statusCode;
+      }
+
+      if (!result.success) {
+        console.error(`❌ Failed to send WhatsApp Business Platform interactive message to ${recipient}`);
+      }
+
+      return whatsAppMessage;
+    } catch (error) {
+      console.error(`❌ Failed to send WhatsApp Business Platform interactive message:`, error);
+      return {
+        recipient,
+        message: message.body,
+        timestamp: new Date(),
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        interactive: message
+      };
+    }
+  }
+
   public isConnected(): boolean {
     return this.businessService.isClientReady();
   }
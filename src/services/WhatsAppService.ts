@@ -10,15 +10,69 @@ export interface WhatsAppMessage {
   message: string;
   timestamp: Date;
   success: boolean;
+  messageId?: string; // Id assigned by the transport, when it returns one
   error?: string;
+  statusCode?: number; // HTTP status of a failed send, when the transport has one
+  queued?: boolean; // Not delivered yet; the outbound queue retries it
+  interactive?: InteractiveMessage; // Buttons or list the message was sent with
 }
 
+// A reply button or list row; its id comes back with the user's choice
+export interface InteractiveReply {
+  id: string;
+  title: string; // Up to 20 characters for buttons, 24 for list rows
+  description?: string | undefined; // List rows only, up to 72 characters
+}
+
+// A message with up to 3 reply buttons, or with a list of up to 10 rows opened by a button
+export interface InteractiveMessage {
+  body: string;
+  footer?: string | undefined;
+  buttons?: InteractiveReply[] | undefined;
+  list?: {
+    button: string; // Label of the button that opens the list
+    sections: Array<{ title: string; rows: InteractiveReply[] }>;
+  } | undefined;
+}
+
+export interface IncomingWhatsAppMessage {
+  from: string; // Sender phone number (digits only, with country code)
+  text: string;
+  timestamp: Date;
+  messageId?: string;
+  replyId?: string | undefined; // Id of the button or list row the user tapped, for interactive replies
+}
+
+export type IncomingMessageHandler = (message: IncomingWhatsAppMessage) => Promise<void> | void;
+
 export interface IWhatsAppService {
   initialize(): Promise<void>;
   sendMessage(recipient: string, message: string): Promise<WhatsAppMessage>;
+  // Transports with reply buttons and lists (the Cloud API); others get the body as text
+  sendInteractive?(recipient: string, message: InteractiveMessage): Promise<WhatsAppMessage>;
   isConnected(): boolean;
   disconnect(): Promise<void>;
   setOnReadyCallback?(callback: () => Promise<void> | void): void;
+  onMessage(handler: IncomingMessageHandler): void;
+  // Push-based transports (e.g. the Cloud API webhook) deliver inbound messages through this
+  receiveMessage?(message: IncomingWhatsAppMessage): Promise<void>;
+}
+
+/**
+ * Invoke every registered inbound message handler, isolating failures so
+ * one broken subscriber doesn't stop the others from seeing the message
+ */
+export async function dispatchIncomingMessage(
+  handlers: IncomingMessageHandler[],
+  message: IncomingWhatsAppMessage
+): Promise<void> {
+  for (const handler of handlers) {
+    try {
+      await handler(message);
+    } catch (error) {
+      console.error('❌ Error in WhatsApp message handler:', error);
+    }
+  }
 }
 
 export class MockWhatsAppService implements IWhatsAppService {
@@ -26,6 +80,7 @@ export class MockWhatsAppService implements IWhatsAppService {
   private sentMessages: WhatsAppMessage[] = [];
   private config: WhatsAppConfig;
   private onReadyCallback?: () => Promise<void> | void;
+  private messageHandlers: IncomingMessageHandler[] = [];
 
   constructor(config: WhatsAppConfig) {
     this.config = config;
@@ -35,6 +90,15 @@ export class MockWhatsAppService implements IWhatsAppService {
     this.onReadyCallback = callback;
   }
 
+  onMessage(handler: IncomingMessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  async receiveMessage(message: IncomingWhatsAppMessage): Promise<void> {
+    console.log(`📩 MOCK MESSAGE RECEIVED from ${message.from}: ${message.text}`);
+    await dispatchIncomingMessage(this.messageHandlers, message);
+  }
+
   async initialize(): Promise<void> {
     console.log('🔗 Initializing Mock WhatsApp Service...');
     // Simulate initialization delay
@@ -61,7 +125,8 @@ export class MockWhatsAppService implements IWhatsAppService {
       recipient,
       message,
       timestamp: new Date(),
-      success: true
+      success: true,
+      messageId: `mock-${Date.now()}-${this.sentMessages.length + 1}`
     };
 
     // Simulate message sending delay
@@ -79,6 +144,13 @@ export class MockWhatsAppService implements IWhatsAppService {
     return whatsAppMessage;
   }
 
+  async sendInteractive(recipient: string, message: InteractiveMessage): Promise<WhatsAppMessage> {
+    const options = [...(message.buttons || []), ...(message.list?.sections.flatMap(section => section.rows) || [])];
+    const sent = await this.sendMessage(recipient, `${message.body}\n\n${options.map(option => `[${option.title}]`).join(' ')}`);
+    sent.interactive = message;
+    return sent;
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
@@ -101,6 +173,18 @@ export class MockWhatsAppService implements IWhatsAppService {
   getMessageCount(): number {
     return this.sentMessages.length;
   }
+
+  /**
+   * Simulate an inbound message from a user (for tests and local demos)
+   */
+  async simulateIncomingMessage(from: string, text: string, replyId?: string): Promise<void> {
+    await this.receiveMessage({
+      from: from.replace(/[^0-9]/g, ''),
+      text,
+      timestamp: new Date(),
+      replyId
+    });
+  }
 }
 
 // RealWhatsAppService removed - it required whatsapp-web.js (~270MB with Puppeteer)
@@ -0,0 +1,246 @@
+import * as crypto from 'crypto';
+
+export interface WhatsAppWebhookConfig {
+  verifyToken?: string | undefined;
+  appSecret?: string | undefined;
+  allowUnsigned?: boolean; // Only for mock/local development - skips X-Hub-Signature-256 checks
+}
+
+export interface WebhookError {
+  code: number;
+  title: string;
+  message?: string;
+  details?: string;
+}
+
+export interface WebhookMessageEvent {
+  type: 'message';
+  messageId: string;
+  from: string;
+  timestamp: Date;
+  messageType: string; // 'text', 'image', 'interactive', ...
+  text?: string;
+  replyId?: string; // Id of the tapped reply button or list row, for interactive replies
+  contactName?: string;
+}
+
+export interface WebhookStatusEvent {
+  type: 'status';
+  messageId: string;
+  status: string; // 'sent' | 'delivered' | 'read' | 'failed'
+  recipientId: string;
+  timestamp: Date;
+  errors: WebhookError[];
+}
+
+export interface WebhookErrorEvent {
+  type: 'error';
+  error: WebhookError;
+}
+
+export type WhatsAppWebhookEvent = WebhookMessageEvent | WebhookStatusEvent | WebhookErrorEvent;
+
+export type WhatsAppWebhookEventHandler = (event: WhatsAppWebhookEvent) => Promise<void> | void;
+
+/**
+ * WhatsApp Cloud API Webhook Service
+ * Verifies webhook subscriptions and signed payloads, and turns the raw
+ * notification JSON into typed message/status/error events
+ */
+export class WhatsAppWebhookService {
+  private config: WhatsAppWebhookConfig;
+  private handlers: WhatsAppWebhookEventHandler[] = [];
+
+  constructor(config: WhatsAppWebhookConfig) {
+    this.config = config;
+  }
+
+  public onEvent(handler: WhatsAppWebhookEventHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Answer Meta's subscription handshake (GET /webhook)
+   * Returns the challenge to echo back, or null if the request must be rejected
+   */
+  public verifyChallenge(mode: string, token: string, challenge: string): string | null {
+    if (!this.config.verifyToken) {
+      console.warn('⚠️ Webhook verification requested but WHATSAPP_WEBHOOK_VERIFY_TOKEN is not set');
+      return null;
+    }
+
+    if (mode === 'subscribe' && token === this.config.verifyToken && challenge) {
+      console.log('✅ WhatsApp webhook verified');
+      return challenge;
+    }
+
+    console.warn('🚫 WhatsApp webhook verification failed - token mismatch');
+    return null;
+  }
+
+  /**
+   * Validate the X-Hub-Signature-256 header ("sha256=<hex>") against the raw request body
+   */
+  public verifySignature(rawBody: Buffer | undefined, signatureHeader: string | undefined): boolean {
+    if (!this.config.appSecret) {
+      if (this.config.allowUnsigned) {
+        return true;
+      }
+      console.warn('⚠️ Rejecting webhook payload - WHATSAPP_APP_SECRET is not set');
+      return false;
+    }
+
+    if (!rawBody || !signatureHeader || !signatureHeader.startsWith('sha256=')) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.config.appSecret)
+      .update(rawBody)
+      .digest('hex');
+    const received = signatureHeader.substring('sha256='.length);
+
+    // Buffer.from(..., 'hex') stops at the first non-hex character, so check the digest's shape first
+    if (!/^[0-9a-f]{64}$/i.test(received)) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(Buffer.from(received, 'hex'), Buffer.from(expected, 'hex'));
+  }
+
+  /**
+   * Parse a webhook notification into typed events
+   */
+  public parsePayload(body: any): WhatsAppWebhookEvent[] {
+    const events: WhatsAppWebhookEvent[] = [];
+
+    if (!body || body.object !== 'whatsapp_business_account' || !Array.isArray(body.entry)) {
+      return events;
+    }
+
+    for (const entry of body.entry) {
+      for (const change of entry?.changes || []) {
+        if (change?.field !== 'messages' || !change.value) {
+          continue;
+        }
+
+        const value = change.value;
+        const contactNames = new Map<string, string>();
+        for (const contact of value.contacts || []) {
+          if (contact?.wa_id && contact.profile?.name) {
+            contactNames.set(contact.wa_id, contact.profile.name);
+          }
+        }
+
+        for (const message of value.messages || []) {
+          events.push(this.parseMessage(message, contactNames));
+        }
+
+        for (const status of value.statuses || []) {
+          events.push({
+            type: 'status',
+            messageId: status.id || '',
+            status: status.status || 'unknown',
+            recipientId: status.recipient_id || '',
+            timestamp: this.parseTimestamp(status.timestamp),
+            errors: (status.errors || []).map((error: any) => this.parseError(error))
+          });
+        }
+
+        for (const error of value.errors || []) {
+          events.push({ type: 'error', error: this.parseError(error) });
+        }
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Parse a payload and hand each event to the registered handlers
+   */
+  public async handlePayload(body: any): Promise<WhatsAppWebhookEvent[]> {
+    const events = this.parsePayload(body);
+
+    for (const event of events) {
+      this.logEvent(event);
+
+      for (const handler of this.handlers) {
+        try {
+          await handler(event);
+        } catch (error) {
+          console.error('❌ Error in WhatsApp webhook handler:', error);
+        }
+      }
+    }
+
+    return events;
+  }
+
+  private parseMessage(message: any, contactNames: Map<string, string>): WebhookMessageEvent {
+    const event: WebhookMessageEvent = {
+      type: 'message',
+      messageId: message.id || '',
+      from: message.from || '',
+      timestamp: this.parseTimestamp(message.timestamp),
+      messageType: message.type || 'unknown'
+    };
+
+    if (message.type === 'text' && message.text?.body) {
+      event.text = message.text.body;
+    } else if (message.type === 'button' && message.button?.text) {
+      event.text = message.button.text;
+    } else if (message.type === 'interactive') {
+      const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+      if (reply?.id) {
+        event.text = reply.title || reply.id;
+        event.replyId = reply.id;
+      }
+    }
+
+    const contactName = contactNames.get(event.from);
+    if (contactName) {
+      event.contactName = contactName;
+    }
+
+    return event;
+  }
+
+  private parseError(error: any): WebhookError {
+    const parsed: WebhookError = {
+      code: Number(error?.code) || 0,
+      title: error?.title || 'Unknown error'
+    };
+    if (error?.message) {
+      parsed.message = error.message;
+    }
+    if (error?.error_data?.details) {
+      parsed.details = error.error_data.details;
+    }
+    return parsed;
+  }
+
+  private parseTimestamp(timestamp: any): Date {
+    const seconds = Number(timestamp);
+    return seconds ? new Date(seconds * 1000) : new Date();
+  }
+
+  private logEvent(event: WhatsAppWebhookEvent): void {
+    switch (event.type) {
+      case 'message':
+        console.log(`📩 Webhook message (${event.messageType}) from ${event.from}`);
+        break;
+      case 'status':
+        if (event.status === 'failed') {
+          const reason = event.errors.map(e => `${e.code} ${e.title}`).join(', ');
+          console.error(`❌ WhatsApp delivery failed for ${event.messageId}: ${reason}`);
+        } else {
+          console.log(`📬 Message ${event.messageId} ${event.status}`);
+        }
+        break;
+      case 'error':
+        console.error(`❌ WhatsApp webhook error ${event.error.code}: ${event.error.title}`);
+        break;
+    }
+  }
+}
@@ -3,12 +3,55 @@ export interface TimetableEntry {
   activity: string;
   startTime: Date;
   endTime: Date;
-  dayOfWeek?: number; // 0 = Sunday, 1 = Monday, etc.
+  dayOfWeek?: number; // 0 = Sunday, 1 = Monday, etc. (set when the entry applies to a single day)
+  daysOfWeek?: number[]; // Days the entry applies to; undefined means every day
+  source?: 'timetable' | 'prayer-times' | 'override' | 'calendar'; // Where the entry came from (timetable file when unset)
+  override?: ScheduleOverrideMark; // Set on entries added or replaced by a date-specific override
+  category?: string | undefined;
+  location?: string | undefined;
+  priority?: TimetablePriority | undefined;
+  reminderMinutesBefore?: number | undefined; // Overrides the user's reminder offset for this entry
+  reminderOffsets?: number[] | undefined; // One reminder per offset, in minutes from the start; wins over reminderMinutesBefore
+  tags?: string[] | undefined;
+}
+
+export type TimetablePriority = 'low' | 'normal' | 'high';
+
+export type ScheduleOverrideType = 'add' | 'replace' | 'cancel';
+
+// Which override put an entry in (or took it out of) a day's schedule
+export interface ScheduleOverrideMark {
+  id: string;
+  type: ScheduleOverrideType;
+  note?: string | undefined;
+}
+
+// A timetable row as written in the timetable file (or stored in MongoDB), before it is anchored to a date
+export interface TimetableRow {
+  timeSlot: string; // "5:00 AM to 5:30 AM"
+  activity: string;
+  day?: string | undefined; // Day spec such as "Mon-Fri"; every day when empty
+  category?: string | undefined; // e.g. "worship", "work"
+  location?: string | undefined;
+  priority?: TimetablePriority | undefined;
+  reminderMinutesBefore?: number | undefined; // Reminder offset for this row instead of the user's
+  reminderOffsets?: number[] | undefined; // Several reminders for this row, e.g. [-30, -5, 0]
+  tags?: string[] | undefined;
 }
 
 export interface ReminderConfig {
   minutesBefore: number;
   message?: string | undefined;
+  offsets?: CategoryReminderOffsets[] | undefined; // Reminders per category, each sent whether or not the user replies
+  escalation?: CategoryReminderOffsets[] | undefined; // Follow-up nudges per category; one reminder when unset
+}
+
+// Minutes from the start of a category's activities, negative before it. As reminder offsets, [-30, -5, 0] sends
+// three reminders; as an escalation chain, [-15, 0, 10] reminds 15 minutes before, then nudges at the start and
+// again 10 minutes after unless the user replies "done"
+export interface CategoryReminderOffsets {
+  category: string; // Matched case-insensitively against the entry's category, e.g. "prayer"
+  offsets: number[];
 }
 
 export interface WhatsAppConfig {
@@ -23,13 +66,83 @@ export interface WhatsAppConfig {
   accessToken?: string | undefined; // WhatsApp Business Access Token
   phoneNumberId?: string | undefined; // WhatsApp Business Phone Number ID
   webhookVerifyToken?: string | undefined; // Webhook verification token
+  appSecret?: string | undefined; // Meta app secret for X-Hub-Signature-256 webhook validation
   apiVersion?: string | undefined; // API version (default: v21.0)
 }
 
+export type PrayerName = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+export type PrayerCalculationMethod = 'Karachi' | 'MWL' | 'ISNA' | 'UmmAlQura';
+export type AsrMadhab = 'shafi' | 'hanafi';
+
+export interface PrayerTimesConfig {
+  latitude: number;
+  longitude: number;
+  method: PrayerCalculationMethod;
+  asrMadhab: AsrMadhab; // Hanafi Asr starts when shadows are twice an object's length
+  mode: 'merge' | 'replace'; // replace drops the timetable's prayer rows, merge keeps them
+  durationMinutes: number; // Length of each generated prayer slot
+}
+
+// A named alternative timetable, e.g. for Ramadan or travel
+export interface ScheduleProfile {
+  name: string;
+  timetableFile: string;
+  startDate?: string | undefined; // "YYYY-MM-DD": used automatically from this date...
+  endDate?: string | undefined; // ...through this date; without dates the profile is only used when switched to
+}
+
+export type CheckInMode = 'entries' | 'interval';
+
+// A kind of activity, shared by reminder messages, dashboard colours and stats
+export interface ActivityCategory {
+  name: string; // e.g. "Prayer"; matched case-insensitively against an entry's category
+  emoji: string;
+  location?: string | undefined; // {location} in reminder messages when the entry has none
+  colour: string; // CSS colour of the category's diary blocks, e.g. "#3182ce"
+  reminderOffsets?: number[] | undefined; // Reminders for the category's entries, in minutes from the start
+  escalation?: number[] | undefined; // Escalation chain for the category's entries (see CategoryReminderOffsets)
+}
+
+// Puts entries without a category column into a category by the words of their activity
+export interface CategoryRule {
+  keywords: string[]; // Matched at the start of a word, e.g. "read" matches "Reading"
+  category: string;
+}
+
+// Contents of the categories file (CATEGORIES_FILE), added to the built-in categories and rules
+export interface CategoryDefinitions {
+  categories?: ActivityCategory[] | undefined; // A category named like a built-in one replaces it
+  rules?: CategoryRule[] | undefined; // Tried before the built-in rules
+}
+
+// When activity check-ins are sent
+export interface CheckInConfig {
+  mode: CheckInMode; // entries: one check-in per timetable entry (free time on the interval), interval: a fixed grid
+  intervalMinutes: number; // Grid size for interval mode and for free time between entries
+}
+
+// Retries of messages that fail to send (see OutboundMessageQueue)
+export interface OutboundQueueConfig {
+  maxAttempts: number; // Attempts before a message is dead-lettered, the first send included
+  retryDelaySeconds: number; // Delay before the first retry, doubled for each one after
+}
+
 export interface ChatBotConfig {
   timetableFile: string;
+  timetableDir: string; // Directory the timetable and calendar files of registered users must be in
+  timezone: string; // IANA timezone for the timetable, reminders and "today" (e.g. Asia/Karachi)
   reminderConfig: ReminderConfig;
   whatsappConfig: WhatsAppConfig;
+  prayerTimes?: PrayerTimesConfig | undefined; // Generate prayer slots from coordinates when set
+  scheduleProfiles: ScheduleProfile[]; // Alternative timetables; the main timetable is the "default" profile
+  calendarFile?: string | undefined; // Local .ics file whose events are added to the schedule
+  categoriesFile?: string | undefined; // JSON/YAML file with activity categories and the rules assigning them
+  language: string; // Language of the bot's messages for the primary user, e.g. "en"
+  templatesFile?: string | undefined; // JSON/YAML file with message templates by language
+  timetableLintStrict?: boolean | undefined; // Refuse to start when the timetable lint finds errors or warnings
+  checkIns: CheckInConfig;
+  outboundQueue: OutboundQueueConfig;
+  dashboardAdminToken?: string | undefined; // Bearer token for the dashboard's write routes; they are disabled without it
 }
 
 export interface ParsedTimetable {